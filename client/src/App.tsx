@@ -16,16 +16,23 @@ import RoleSelect from "@/pages/role-select";
 import PlayerDashboard from "@/pages/player/dashboard";
 import PlayerSession from "@/pages/player/session";
 import PlayerHistory from "@/pages/player/history";
+import SessionReplay from "@/pages/player/session-replay";
+import PlayerFriends from "@/pages/player/friends";
+import ChallengePage from "@/pages/player/challenge";
 import SponsorDashboard from "@/pages/sponsor/dashboard";
 import SponsorPurchase from "@/pages/sponsor/purchase";
 import SponsorTracking from "@/pages/sponsor/tracking";
+import SponsorZones from "@/pages/sponsor/zones";
+import SponsorCampaigns from "@/pages/sponsor/campaigns";
+import AdminConsole from "@/pages/admin/console";
 import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
 
 interface UserRoleData {
-  currentRole: "player" | "sponsor" | null;
+  currentRole: "player" | "sponsor" | "admin" | null;
   hasPlayerProfile: boolean;
   hasSponsorProfile: boolean;
+  isAdmin: boolean;
 }
 
 function AuthenticatedApp() {
@@ -79,6 +86,7 @@ function AuthenticatedApp() {
   }
 
   const currentRole = roleData.currentRole;
+  const isAdmin = roleData.isAdmin;
 
   // Player routes
   if (currentRole === "player") {
@@ -89,8 +97,27 @@ function AuthenticatedApp() {
           <Route path="/player" component={PlayerDashboard} />
           <Route path="/player/session" component={PlayerSession} />
           <Route path="/player/history" component={PlayerHistory} />
+          <Route path="/player/history/:sessionId" component={SessionReplay} />
+          <Route path="/player/friends" component={PlayerFriends} />
+          <Route path="/player/challenges/:challengeId" component={ChallengePage} />
           <Route path="/settings">
-            <Settings currentRole="player" onRoleSwitch={handleRoleSwitch} />
+            <Settings currentRole="player" isAdmin={isAdmin} onRoleSwitch={handleRoleSwitch} />
+          </Route>
+          <Route component={NotFound} />
+        </Switch>
+      </AppLayout>
+    );
+  }
+
+  // Admin routes
+  if (currentRole === "admin") {
+    return (
+      <AppLayout currentRole="admin">
+        <Switch>
+          <Route path="/" component={AdminConsole} />
+          <Route path="/admin" component={AdminConsole} />
+          <Route path="/settings">
+            <Settings currentRole="admin" isAdmin={isAdmin} onRoleSwitch={handleRoleSwitch} />
           </Route>
           <Route component={NotFound} />
         </Switch>
@@ -106,8 +133,10 @@ function AuthenticatedApp() {
         <Route path="/sponsor" component={SponsorDashboard} />
         <Route path="/sponsor/purchase" component={SponsorPurchase} />
         <Route path="/sponsor/tracking" component={SponsorTracking} />
+        <Route path="/sponsor/zones" component={SponsorZones} />
+        <Route path="/sponsor/campaigns" component={SponsorCampaigns} />
         <Route path="/settings">
-          <Settings currentRole="sponsor" onRoleSwitch={handleRoleSwitch} />
+          <Settings currentRole="sponsor" isAdmin={isAdmin} onRoleSwitch={handleRoleSwitch} />
         </Route>
         <Route component={NotFound} />
       </Switch>
@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Heart, Upload, X } from "lucide-react";
+import {
+  LOGO_CONTENT_TYPES,
+  MAX_BRAND_MESSAGE_LENGTH,
+  MAX_LOGO_BYTES,
+  type BrandingFields,
+} from "@shared/branding";
+
+// The colour a heart is drawn in when no brand colour is set
+const DEFAULT_PREVIEW_COLOR = "#dc2644";
+
+interface BrandingFormProps {
+  // The branding endpoint; the logo is uploaded to `${endpoint}/logo`
+  endpoint: string;
+  branding: BrandingFields;
+  onSaved: () => void;
+  // Shown under the form, e.g. what blank fields fall back to
+  hint?: string;
+  testIdPrefix: string;
+}
+
+// Logo, message and colour players see on a sponsor's hearts
+export function BrandingForm({ endpoint, branding, onSaved, hint, testIdPrefix }: BrandingFormProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState(branding.brandMessage ?? "");
+  const [color, setColor] = useState<string | null>(branding.brandColor);
+
+  useEffect(() => {
+    setMessage(branding.brandMessage ?? "");
+    setColor(branding.brandColor);
+  }, [branding.brandMessage, branding.brandColor]);
+
+  const save = useMutation({
+    mutationFn: async (update: { brandMessage?: string; brandColor?: string | null; removeLogo?: boolean }) => {
+      const response = await apiRequest("POST", endpoint, update);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Branding saved" });
+      onSaved();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save branding", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const uploadLogo = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await apiRequest("POST", `${endpoint}/logo`, file);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Logo uploaded" });
+      onSaved();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't upload logo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Check the file before sending it; the server checks it again
+  const chooseLogo = (file: File | undefined) => {
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (!file) return;
+    if (!LOGO_CONTENT_TYPES.includes(file.type)) {
+      toast({ title: "Unsupported image", description: "Logos must be PNG, JPEG or WebP images", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast({
+        title: "Logo too large",
+        description: `Logos must be at most ${MAX_LOGO_BYTES / 1024}KB`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadLogo.mutate(file);
+  };
+
+  const changed = message !== (branding.brandMessage ?? "") || color !== branding.brandColor;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="relative w-14 h-14 shrink-0">
+          <Heart className="w-14 h-14" fill="currentColor" style={{ color: color ?? DEFAULT_PREVIEW_COLOR }} />
+          {branding.logoUrl && (
+            <img
+              src={branding.logoUrl}
+              alt="Logo"
+              className="absolute -top-1 -right-1 w-7 h-7 object-contain rounded-full bg-background border border-border"
+              data-testid={`${testIdPrefix}-logo`}
+            />
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={LOGO_CONTENT_TYPES.join(",")}
+            className="hidden"
+            onChange={(e) => chooseLogo(e.target.files?.[0])}
+          />
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={uploadLogo.isPending}
+            onClick={() => fileInputRef.current?.click()}
+            data-testid={`${testIdPrefix}-button-upload-logo`}
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            {branding.logoUrl ? "Replace logo" : "Upload logo"}
+          </Button>
+          {branding.logoUrl && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={save.isPending}
+              onClick={() => save.mutate({ removeLogo: true })}
+              data-testid={`${testIdPrefix}-button-remove-logo`}
+            >
+              <X className="w-4 h-4 mr-1" />
+              Remove logo
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          save.mutate({ brandMessage: message, brandColor: color });
+        }}
+      >
+        <Input
+          placeholder="Short message, e.g. Thanks for walking with us!"
+          value={message}
+          maxLength={MAX_BRAND_MESSAGE_LENGTH}
+          onChange={(e) => setMessage(e.target.value)}
+          data-testid={`${testIdPrefix}-input-message`}
+        />
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Brand colour
+            <Input
+              type="color"
+              value={color ?? DEFAULT_PREVIEW_COLOR}
+              onChange={(e) => setColor(e.target.value)}
+              className="w-12 h-9 p-1"
+              data-testid={`${testIdPrefix}-input-color`}
+            />
+          </label>
+          {color && (
+            <Button type="button" size="sm" variant="ghost" onClick={() => setColor(null)}>
+              Use default
+            </Button>
+          )}
+          <Button
+            type="submit"
+            size="sm"
+            className="ml-auto"
+            disabled={!changed || save.isPending}
+            data-testid={`${testIdPrefix}-button-save`}
+          >
+            Save
+          </Button>
+        </div>
+      </form>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useEffect, useRef } from "react";
 import L from "leaflet";
+import { DEFAULT_GAME_CONFIG } from "@shared/gameConfig";
+import type { SponsorBranding } from "@shared/branding";
 
 interface Coin {
   id: string;
@@ -7,6 +9,7 @@ interface Coin {
   longitude: number;
   coinValue: number;
   status: string;
+  sponsor?: SponsorBranding | null;
 }
 
 interface CoinMapProps {
@@ -16,6 +19,17 @@ interface CoinMapProps {
   collectionRadius?: number;
 }
 
+// Sponsors write their own names and messages, so escape them before
+// building marker HTML
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 6371e3;
   const phi1 = lat1 * Math.PI / 180;
@@ -35,7 +49,7 @@ export function CoinMap({
   userPosition, 
   coins, 
   onCoinClick,
-  collectionRadius = 10 
+  collectionRadius = DEFAULT_GAME_CONFIG.collectionRadiusMeters
 }: CoinMapProps) {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
@@ -114,20 +128,27 @@ export function CoinMap({
     coinMarkersRef.current.forEach((marker) => marker.remove());
     coinMarkersRef.current = [];
 
-    const activeCoins = coins.filter((c) => c.status === "placed");
+    // Sponsors' dropped hearts are "available" rather than placed
+    const activeCoins = coins.filter((c) => c.status === "placed" || c.status === "available");
 
     activeCoins.forEach((coin) => {
       const valueLabel = coin.coinValue < 100 
         ? `${coin.coinValue}p` 
         : `£${(coin.coinValue / 100).toFixed(0)}`;
+      const sponsor = coin.sponsor;
+      const heartStyle = sponsor?.color ? ` style="color: ${escapeHtml(sponsor.color)}"` : "";
+      const logo = sponsor?.logoUrl
+        ? `<img class="heart-sponsor-logo" src="${escapeHtml(sponsor.logoUrl)}" alt="" />`
+        : "";
       const coinIcon = L.divIcon({
         html: `
           <div class="heart-location-marker">
             <div class="heart-pulse"></div>
-            <svg class="heart-icon" viewBox="0 0 24 24" fill="currentColor">
+            <svg class="heart-icon" viewBox="0 0 24 24" fill="currentColor"${heartStyle}>
               <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z"/>
             </svg>
             <span class="heart-value">${valueLabel}</span>
+            ${logo}
           </div>
         `,
         iconSize: [48, 60],
@@ -141,6 +162,8 @@ export function CoinMap({
       marker.bindPopup(`
         <div class="coin-popup">
           <strong>£${(coin.coinValue / 100).toFixed(2)} Heart</strong><br/>
+          ${sponsor ? `<span class="coin-popup-sponsor">Sponsored by ${escapeHtml(sponsor.name)}</span><br/>` : ""}
+          ${sponsor?.message ? `<em>${escapeHtml(sponsor.message)}</em><br/>` : ""}
           <small>Tap to collect when nearby</small>
         </div>
       `);
@@ -0,0 +1,159 @@
+import { useEffect, useRef } from "react";
+import L from "leaflet";
+
+interface RoutePoint {
+  latitude: number;
+  longitude: number;
+  recordedAt: string;
+}
+
+interface CollectedHeart {
+  coinId: string;
+  latitude: number;
+  longitude: number;
+  coinValue: number;
+  collectedAt: string;
+}
+
+interface RouteReplayMapProps {
+  start: { latitude: number; longitude: number };
+  points: RoutePoint[];
+  collections: CollectedHeart[];
+  // Replay position: only the route walked and hearts collected by this time are highlighted
+  currentTime: number;
+}
+
+const ROUTE_COLOR = "hsl(346, 81%, 50%)";
+
+export function RouteReplayMap({ start, points, collections, currentTime }: RouteReplayMapProps) {
+  const mapRef = useRef<L.Map | null>(null);
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const walkedLineRef = useRef<L.Polyline | null>(null);
+  const walkerMarkerRef = useRef<L.Marker | null>(null);
+  const heartMarkersRef = useRef<L.Marker[]>([]);
+
+  useEffect(() => {
+    if (!mapContainerRef.current || mapRef.current) return;
+
+    mapRef.current = L.map(mapContainerRef.current).setView([start.latitude, start.longitude], 16);
+
+    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+      maxZoom: 19,
+    }).addTo(mapRef.current);
+
+    return () => {
+      if (mapRef.current) {
+        mapRef.current.remove();
+        mapRef.current = null;
+      }
+    };
+  }, []);
+
+  // The whole route, faint, with the map fitted to it
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    const coords: [number, number][] = [
+      [start.latitude, start.longitude],
+      ...points.map((p) => [p.latitude, p.longitude] as [number, number]),
+      ...collections.map((c) => [c.latitude, c.longitude] as [number, number]),
+    ];
+
+    const fullLine = L.polyline(
+      points.map((p) => [p.latitude, p.longitude] as [number, number]),
+      { color: ROUTE_COLOR, weight: 3, opacity: 0.25, lineCap: "round" }
+    ).addTo(mapRef.current);
+
+    if (coords.length > 1) {
+      mapRef.current.fitBounds(L.latLngBounds(coords), { padding: [40, 40], maxZoom: 17 });
+    }
+
+    return () => {
+      fullLine.remove();
+    };
+  }, [start, points, collections]);
+
+  // The part walked so far, the walker, and hearts collected so far
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    const walked = points.filter((p) => new Date(p.recordedAt).getTime() <= currentTime);
+    const walkedCoords = walked.map((p) => [p.latitude, p.longitude] as [number, number]);
+    const here = walkedCoords[walkedCoords.length - 1] ?? [start.latitude, start.longitude];
+
+    if (walkedLineRef.current) {
+      walkedLineRef.current.setLatLngs(walkedCoords);
+    } else {
+      walkedLineRef.current = L.polyline(walkedCoords, {
+        color: ROUTE_COLOR,
+        weight: 4,
+        opacity: 0.9,
+        lineCap: "round",
+      }).addTo(mapRef.current);
+    }
+
+    if (walkerMarkerRef.current) {
+      walkerMarkerRef.current.setLatLng(here);
+    } else {
+      const walkerIcon = L.divIcon({
+        html: `
+          <div class="user-location-marker">
+            <div class="user-dot"></div>
+          </div>
+        `,
+        iconSize: [40, 40],
+        iconAnchor: [20, 20],
+        className: "user-marker-container",
+      });
+      walkerMarkerRef.current = L.marker(here, { icon: walkerIcon, interactive: false }).addTo(mapRef.current);
+    }
+
+    heartMarkersRef.current.forEach((marker) => marker.remove());
+    heartMarkersRef.current = collections.map((heart) => {
+      const collected = new Date(heart.collectedAt).getTime() <= currentTime;
+      const valueLabel = heart.coinValue < 100
+        ? `${heart.coinValue}p`
+        : `£${(heart.coinValue / 100).toFixed(0)}`;
+      const heartIcon = L.divIcon({
+        html: `
+          <div class="heart-location-marker" style="opacity: ${collected ? 1 : 0.35}">
+            <svg class="heart-icon" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z"/>
+            </svg>
+            <span class="heart-value">${valueLabel}</span>
+          </div>
+        `,
+        iconSize: [48, 60],
+        iconAnchor: [24, 54],
+        className: "heart-marker-container",
+      });
+
+      return L.marker([heart.latitude, heart.longitude], { icon: heartIcon })
+        .bindPopup(`
+          <div class="coin-popup">
+            <strong>£${(heart.coinValue / 100).toFixed(2)} Heart</strong><br/>
+            <small>Collected ${new Date(heart.collectedAt).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })}</small>
+          </div>
+        `)
+        .addTo(mapRef.current!);
+    });
+  }, [start, points, collections, currentTime]);
+
+  useEffect(() => {
+    return () => {
+      walkedLineRef.current = null;
+      walkerMarkerRef.current = null;
+      heartMarkersRef.current = [];
+    };
+  }, []);
+
+  return (
+    <div
+      ref={mapContainerRef}
+      className="w-full aspect-video rounded-xl overflow-hidden"
+      style={{ minHeight: "250px" }}
+      data-testid="route-replay-map"
+    />
+  );
+}
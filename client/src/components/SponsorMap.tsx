@@ -14,12 +14,18 @@ interface Coin {
 interface SponsorMapProps {
   coins: Coin[];
   onCoinClick?: (coin: Coin) => void;
+  // Click-to-drop: map clicks pick a spot, shown with a pin until it's dropped
+  onMapClick?: (latitude: number, longitude: number) => void;
+  dropLocation?: { latitude: number; longitude: number } | null;
 }
 
-export function SponsorMap({ coins, onCoinClick }: SponsorMapProps) {
+export function SponsorMap({ coins, onCoinClick, onMapClick, dropLocation }: SponsorMapProps) {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const coinMarkersRef = useRef<L.Marker[]>([]);
+  const dropMarkerRef = useRef<L.Marker | null>(null);
+  const onMapClickRef = useRef(onMapClick);
+  onMapClickRef.current = onMapClick;
 
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return;
@@ -33,6 +39,10 @@ export function SponsorMap({ coins, onCoinClick }: SponsorMapProps) {
       maxZoom: 19,
     }).addTo(mapRef.current);
 
+    mapRef.current.on("click", (e: L.LeafletMouseEvent) => {
+      onMapClickRef.current?.(e.latlng.lat, e.latlng.lng);
+    });
+
     return () => {
       if (mapRef.current) {
         mapRef.current.remove();
@@ -57,7 +67,7 @@ export function SponsorMap({ coins, onCoinClick }: SponsorMapProps) {
       let markerHtml = "";
       let markerClass = "";
       
-      if (coin.status === "placed") {
+      if (coin.status === "placed" || coin.status === "available") {
         markerHtml = `
           <div class="sponsor-coin-marker sponsor-coin-active">
             <div class="sponsor-coin-pulse"></div>
@@ -106,11 +116,12 @@ export function SponsorMap({ coins, onCoinClick }: SponsorMapProps) {
       const marker = L.marker([coin.latitude, coin.longitude], { icon: coinIcon })
         .addTo(mapRef.current!);
 
-      const statusLabel = coin.status === "placed" ? "Active" : 
+      const statusLabel = coin.status === "placed" ? "Active" :
+                          coin.status === "available" ? "Dropped" :
                           coin.status === "collected" ? "Collected" : "Expired";
       const timeInfo = coin.status === "collected" && coin.collectedAt
         ? `Collected: ${new Date(coin.collectedAt).toLocaleString()}`
-        : coin.status === "placed"
+        : coin.status === "placed" || coin.status === "available"
         ? `Expires: ${new Date(coin.expiresAt).toLocaleString()}`
         : `Expired: ${new Date(coin.expiresAt).toLocaleString()}`;
 
@@ -143,10 +154,39 @@ export function SponsorMap({ coins, onCoinClick }: SponsorMapProps) {
     }
   }, [coins, onCoinClick]);
 
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    dropMarkerRef.current?.remove();
+    if (!dropLocation) {
+      dropMarkerRef.current = null;
+      return;
+    }
+
+    const dropIcon = L.divIcon({
+      html: `
+        <div class="sponsor-coin-marker sponsor-coin-active">
+          <div class="sponsor-coin-pulse"></div>
+          <div class="sponsor-coin-icon">
+            <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+              <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z"/>
+            </svg>
+          </div>
+          <span class="sponsor-coin-value">+</span>
+        </div>
+      `,
+      iconSize: [40, 50],
+      iconAnchor: [20, 45],
+      className: "sponsor-marker-active",
+    });
+    dropMarkerRef.current = L.marker([dropLocation.latitude, dropLocation.longitude], { icon: dropIcon })
+      .addTo(mapRef.current);
+  }, [dropLocation]);
+
   return (
     <div 
       ref={mapContainerRef} 
-      className="w-full h-[360px] rounded-xl overflow-hidden"
+      className={`w-full h-[360px] rounded-xl overflow-hidden ${onMapClick ? "cursor-crosshair" : ""}`}
       data-testid="sponsor-map"
     />
   );
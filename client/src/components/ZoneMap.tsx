@@ -0,0 +1,118 @@
+import { useEffect, useRef } from "react";
+import L from "leaflet";
+
+export interface MapZone {
+  id?: string;
+  name?: string;
+  shape: "circle" | "polygon";
+  centerLatitude?: number | null;
+  centerLongitude?: number | null;
+  radiusMeters?: number | null;
+  points?: [number, number][] | null;
+}
+
+interface ZoneMapProps {
+  zones: MapZone[];
+  // The zone being drawn, shown dashed on top of the saved ones
+  draft?: MapZone | null;
+  onMapClick?: (latitude: number, longitude: number) => void;
+}
+
+const ZONE_COLOR = "#dc2644";
+
+function zoneLayer(zone: MapZone, options: L.PathOptions): L.Layer | null {
+  if (zone.shape === "circle") {
+    if (zone.centerLatitude == null || zone.centerLongitude == null) return null;
+    return L.circle([zone.centerLatitude, zone.centerLongitude], { radius: zone.radiusMeters ?? 0, ...options });
+  }
+  const points = zone.points ?? [];
+  if (points.length === 0) return null;
+  // An unfinished polygon is drawn as its outline so far
+  return points.length < 3 ? L.polyline(points, options) : L.polygon(points, options);
+}
+
+export function ZoneMap({ zones, draft, onMapClick }: ZoneMapProps) {
+  const mapRef = useRef<L.Map | null>(null);
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const zoneLayersRef = useRef<L.Layer[]>([]);
+  const draftLayersRef = useRef<L.Layer[]>([]);
+  const onMapClickRef = useRef(onMapClick);
+  onMapClickRef.current = onMapClick;
+
+  useEffect(() => {
+    if (!mapContainerRef.current || mapRef.current) return;
+
+    const defaultCenter: [number, number] = [51.5074, -0.1278];
+
+    mapRef.current = L.map(mapContainerRef.current).setView(defaultCenter, 13);
+
+    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+      maxZoom: 19,
+    }).addTo(mapRef.current);
+
+    mapRef.current.on("click", (e: L.LeafletMouseEvent) => {
+      onMapClickRef.current?.(e.latlng.lat, e.latlng.lng);
+    });
+
+    return () => {
+      if (mapRef.current) {
+        mapRef.current.remove();
+        mapRef.current = null;
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    zoneLayersRef.current.forEach((layer) => layer.remove());
+    zoneLayersRef.current = [];
+
+    const bounds = L.latLngBounds([]);
+    zones.forEach((zone) => {
+      const layer = zoneLayer(zone, { color: ZONE_COLOR, weight: 2, fillOpacity: 0.15 });
+      if (!layer) return;
+      if (zone.name) (layer as L.Path).bindTooltip(zone.name);
+      layer.addTo(mapRef.current!);
+      zoneLayersRef.current.push(layer);
+      bounds.extend((layer as L.Polygon | L.Circle).getBounds());
+    });
+
+    if (bounds.isValid()) {
+      mapRef.current.fitBounds(bounds, { padding: [40, 40], maxZoom: 15 });
+    }
+  }, [zones]);
+
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    draftLayersRef.current.forEach((layer) => layer.remove());
+    draftLayersRef.current = [];
+    if (!draft) return;
+
+    const layer = zoneLayer(draft, { color: ZONE_COLOR, weight: 2, dashArray: "6 6", fillOpacity: 0.1 });
+    if (layer) draftLayersRef.current.push(layer.addTo(mapRef.current));
+
+    // Mark the points placed so far, so a polygon's first clicks are visible
+    const vertices =
+      draft.shape === "circle"
+        ? draft.centerLatitude != null && draft.centerLongitude != null
+          ? [[draft.centerLatitude, draft.centerLongitude] as [number, number]]
+          : []
+        : draft.points ?? [];
+    vertices.forEach((vertex) => {
+      draftLayersRef.current.push(
+        L.circleMarker(vertex, { radius: 4, color: ZONE_COLOR, fillOpacity: 1 }).addTo(mapRef.current!)
+      );
+    });
+  }, [draft]);
+
+  return (
+    <div
+      ref={mapContainerRef}
+      className="w-full h-[400px] rounded-xl overflow-hidden cursor-crosshair"
+      data-testid="zone-map"
+    />
+  );
+}
@@ -8,15 +8,19 @@ import {
   Home, 
   MapPin, 
   History, 
+  Users,
   Settings as SettingsIcon,
   Package,
   Map as MapIcon,
-  ShoppingCart
+  ShoppingCart,
+  Shield,
+  Hexagon,
+  Megaphone
 } from "lucide-react";
 
 interface AppLayoutProps {
   children: React.ReactNode;
-  currentRole: "player" | "sponsor";
+  currentRole: "player" | "sponsor" | "admin";
 }
 
 export function AppLayout({ children, currentRole }: AppLayoutProps) {
@@ -27,6 +31,7 @@ export function AppLayout({ children, currentRole }: AppLayoutProps) {
     { href: "/player", label: "Dashboard", icon: Home },
     { href: "/player/session", label: "Collect", icon: MapPin },
     { href: "/player/history", label: "History", icon: History },
+    { href: "/player/friends", label: "Friends", icon: Users },
     { href: "/settings", label: "Settings", icon: SettingsIcon },
   ];
 
@@ -34,13 +39,24 @@ export function AppLayout({ children, currentRole }: AppLayoutProps) {
     { href: "/sponsor", label: "Dashboard", icon: Home },
     { href: "/sponsor/purchase", label: "Purchase", icon: ShoppingCart },
     { href: "/sponsor/tracking", label: "Tracking", icon: MapIcon },
+    { href: "/sponsor/zones", label: "Zones", icon: Hexagon },
+    { href: "/sponsor/campaigns", label: "Campaigns", icon: Megaphone },
     { href: "/settings", label: "Settings", icon: SettingsIcon },
   ];
 
-  const navItems = currentRole === "player" ? playerNavItems : sponsorNavItems;
+  const adminNavItems = [
+    { href: "/admin", label: "Console", icon: Shield },
+    { href: "/settings", label: "Settings", icon: SettingsIcon },
+  ];
+
+  const navItems =
+    currentRole === "player" ? playerNavItems : currentRole === "sponsor" ? sponsorNavItems : adminNavItems;
+
+  const modeLabel =
+    currentRole === "player" ? "Player Mode" : currentRole === "sponsor" ? "Sponsor Mode" : "Admin Mode";
 
   const isActive = (href: string) => {
-    if (href === "/player" || href === "/sponsor") {
+    if (href === "/player" || href === "/sponsor" || href === "/admin") {
       return location === href;
     }
     return location.startsWith(href);
@@ -60,7 +76,7 @@ export function AppLayout({ children, currentRole }: AppLayoutProps) {
           
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground hidden sm:block">
-              {currentRole === "player" ? "Player Mode" : "Sponsor Mode"}
+              {modeLabel}
             </span>
             <ThemeToggle />
             <Avatar className="w-8 h-8">
@@ -1,7 +1,7 @@
 import { createContext, useContext, useEffect, useState } from "react";
 
 type Theme = "dark" | "light" | "system";
-type UserRole = "player" | "sponsor" | null;
+type UserRole = "player" | "sponsor" | "admin" | null;
 
 type ThemeProviderProps = {
   children: React.ReactNode;
@@ -57,7 +57,7 @@ export function ThemeProvider({
 
   useEffect(() => {
     const root = window.document.documentElement;
-    root.classList.remove("role-player", "role-sponsor");
+    root.classList.remove("role-player", "role-sponsor", "role-admin");
     if (userRole) {
       root.classList.add(`role-${userRole}`);
       localStorage.setItem("give-go-role", userRole);
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { apiRequest } from '@/lib/queryClient';
+import type { GeolocationPosition } from '@/lib/geolocation';
+
+const FLUSH_INTERVAL_MS = 15000;
+// Matches the server's batch limit; older fixes are dropped if sending keeps failing
+const MAX_BATCH_SIZE = 100;
+
+interface UseSessionTrackReturn {
+  flush: () => Promise<void>;
+}
+
+// Buffer watched positions and send them to the session's track endpoint in batches
+export function useSessionTrack(
+  sessionId: string | null | undefined,
+  position: GeolocationPosition | null
+): UseSessionTrackReturn {
+  const bufferRef = useRef<GeolocationPosition[]>([]);
+  const lastTimestampRef = useRef<number | null>(null);
+  const sendingRef = useRef(false);
+
+  useEffect(() => {
+    if (!sessionId || !position || position.timestamp === lastTimestampRef.current) return;
+
+    lastTimestampRef.current = position.timestamp;
+    bufferRef.current = bufferRef.current.concat(position).slice(-MAX_BATCH_SIZE);
+  }, [sessionId, position]);
+
+  const flush = useCallback(async () => {
+    if (!sessionId || sendingRef.current || bufferRef.current.length === 0) return;
+
+    const batch = bufferRef.current;
+    bufferRef.current = [];
+    sendingRef.current = true;
+    try {
+      await apiRequest('POST', `/api/player/session/${sessionId}/track`, {
+        points: batch.map(({ latitude, longitude, accuracy, timestamp }) => ({
+          latitude,
+          longitude,
+          accuracy,
+          timestamp: Math.round(timestamp),
+        })),
+      });
+    } catch {
+      // Put the batch back to retry on the next flush
+      bufferRef.current = batch.concat(bufferRef.current).slice(-MAX_BATCH_SIZE);
+    } finally {
+      sendingRef.current = false;
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      flush();
+    };
+  }, [sessionId, flush]);
+
+  return { flush };
+}
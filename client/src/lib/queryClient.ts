@@ -7,15 +7,17 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Files (a logo upload) are sent as-is with their own type; anything else as JSON
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  const isFile = data instanceof Blob;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: isFile ? { "Content-Type": data.type } : data ? { "Content-Type": "application/json" } : {},
+    body: isFile ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
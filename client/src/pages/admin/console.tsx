@@ -0,0 +1,778 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Shield, Scale, CheckCircle, AlertTriangle, Loader2 } from "lucide-react";
+import type { PlayerSession, GeneratedCoin, Escrow, SponsorProfile, AuditEvent, CheatFlag, GameConfigRow } from "@shared/schema";
+import { DEFAULT_GAME_CONFIG, GAME_CONFIG_KEYS, GAME_CONFIG_LIMITS, type GameConfigKey } from "@shared/gameConfig";
+
+interface AdminUser {
+  userId: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  currentRole: "player" | "sponsor" | "admin" | null;
+  isAdmin: boolean;
+  playerId: string | null;
+  username: string | null;
+  suspendedAt: string | null;
+  suspensionReason: string | null;
+  sponsorId: string | null;
+  companyName: string | null;
+}
+
+type AdminSponsor = SponsorProfile & { inventoryQuantity: number; inventoryValue: number };
+
+type AdminGameConfig = GameConfigRow & { label: string };
+
+interface ReviewQueueEntry {
+  playerId: string;
+  username: string | null;
+  suspendedAt: string | null;
+  openFlags: number;
+  kinds: CheatFlag["kind"][];
+  sessionIds: string[];
+  lastFlaggedAt: string;
+}
+
+interface LedgerReport {
+  checkedAt: string;
+  entryCount: number;
+  unbalancedTransactions: { transactionId: string; debits: number; credits: number }[];
+  drift: { check: string; entityId: string | null; ledger: number; recorded: number }[];
+  ok: boolean;
+}
+
+const formatCurrency = (pence: number) => `£${(pence / 100).toFixed(2)}`;
+const formatDate = (date: string | Date | null) => (date ? new Date(date).toLocaleString() : "—");
+const shortId = (id: string | null) => (id ? id.slice(0, 8) : "—");
+
+// Build a query key whose joined form is the URL with its filters
+const withFilters = (path: string, filters: Record<string, string>) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value && value !== "all") params.set(key, value);
+  });
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+};
+
+function useAdminAction() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ url, body }: { url: string; body: Record<string, unknown> }) => {
+      const response = await apiRequest("POST", url, body);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/"),
+      });
+      toast({ title: "Done", description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Action failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+function FilterSelect({
+  value,
+  onChange,
+  options,
+  placeholder,
+  testId,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  options: string[];
+  placeholder: string;
+  testId: string;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-40" data-testid={testId}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All {placeholder.toLowerCase()}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option} value={option}>
+            {option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ListState({ isLoading, empty }: { isLoading: boolean; empty: boolean }) {
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="h-14" />
+        ))}
+      </div>
+    );
+  }
+  if (empty) {
+    return <p className="text-sm text-muted-foreground text-center py-8">Nothing matches these filters</p>;
+  }
+  return null;
+}
+
+function UsersTab({ reason }: { reason: string }) {
+  const [search, setSearch] = useState("");
+  const [role, setRole] = useState("all");
+  const [suspended, setSuspended] = useState("all");
+  const action = useAdminAction();
+
+  const { data: users, isLoading } = useQuery<AdminUser[]>({
+    queryKey: [withFilters("/api/admin/users", { search, role, suspended })],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Input
+          placeholder="Search name, email, username or company"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="flex-1 min-w-[200px]"
+          data-testid="input-user-search"
+        />
+        <FilterSelect value={role} onChange={setRole} options={["player", "sponsor", "admin"]} placeholder="Roles" testId="select-user-role" />
+        <FilterSelect value={suspended} onChange={setSuspended} options={["true", "false"]} placeholder="Suspended" testId="select-user-suspended" />
+      </div>
+      <ListState isLoading={isLoading} empty={!users?.length} />
+      {users?.map((user) => (
+        <div key={user.userId} className="flex items-center justify-between p-3 rounded-lg border border-border">
+          <div>
+            <p className="font-medium">
+              {user.username || [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || shortId(user.userId)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {user.email || "no email"}
+              {user.companyName && ` · ${user.companyName}`}
+              {user.suspensionReason && ` · ${user.suspensionReason}`}
+            </p>
+            <div className="flex gap-1 mt-1">
+              {user.currentRole && <Badge variant="secondary">{user.currentRole}</Badge>}
+              {user.isAdmin && <Badge variant="outline">admin</Badge>}
+              {user.suspendedAt && <Badge variant="destructive">suspended</Badge>}
+            </div>
+          </div>
+          {user.playerId && (
+            <Button
+              size="sm"
+              variant={user.suspendedAt ? "outline" : "destructive"}
+              disabled={!reason || action.isPending}
+              onClick={() =>
+                action.mutate({
+                  url: `/api/admin/players/${user.playerId}/suspend`,
+                  body: { suspended: !user.suspendedAt, reason },
+                })
+              }
+              data-testid={`button-suspend-${user.userId}`}
+            >
+              {user.suspendedAt ? "Reinstate" : "Suspend"}
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SponsorRow({ sponsor, reason }: { sponsor: AdminSponsor; reason: string }) {
+  const [coinValue, setCoinValue] = useState("100");
+  const [delta, setDelta] = useState("");
+  const action = useAdminAction();
+  const parsedDelta = parseInt(delta, 10);
+
+  return (
+    <div className="p-3 rounded-lg border border-border space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium">{sponsor.companyName || "Unnamed sponsor"}</p>
+          <p className="text-xs text-muted-foreground">
+            {shortId(sponsor.id)} · {sponsor.totalCoinsPurchased} purchased · {sponsor.totalCoinsPlaced} placed ·{" "}
+            {formatCurrency(sponsor.totalDonated)} donated
+          </p>
+        </div>
+        <Badge variant="secondary">
+          {sponsor.inventoryQuantity} unplaced · {formatCurrency(sponsor.inventoryValue)}
+        </Badge>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          type="number"
+          value={coinValue}
+          onChange={(e) => setCoinValue(e.target.value)}
+          className="w-28"
+          placeholder="Value (p)"
+          data-testid={`input-adjust-value-${sponsor.id}`}
+        />
+        <Input
+          type="number"
+          value={delta}
+          onChange={(e) => setDelta(e.target.value)}
+          className="w-28"
+          placeholder="+/- hearts"
+          data-testid={`input-adjust-delta-${sponsor.id}`}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!reason || !parsedDelta || action.isPending}
+          onClick={() =>
+            action.mutate({
+              url: `/api/admin/sponsors/${sponsor.id}/inventory`,
+              body: { coinValue: parseInt(coinValue, 10), delta: parsedDelta, reason },
+            })
+          }
+          data-testid={`button-adjust-${sponsor.id}`}
+        >
+          Adjust inventory
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function SponsorsTab({ reason }: { reason: string }) {
+  const [search, setSearch] = useState("");
+
+  const { data: sponsors, isLoading } = useQuery<AdminSponsor[]>({
+    queryKey: [withFilters("/api/admin/sponsors", { search })],
+  });
+
+  return (
+    <div className="space-y-4">
+      <Input
+        placeholder="Search company name"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        data-testid="input-sponsor-search"
+      />
+      <ListState isLoading={isLoading} empty={!sponsors?.length} />
+      {sponsors?.map((sponsor) => (
+        <SponsorRow key={sponsor.id} sponsor={sponsor} reason={reason} />
+      ))}
+    </div>
+  );
+}
+
+function SessionsTab() {
+  const [status, setStatus] = useState("all");
+  const [playerId, setPlayerId] = useState("");
+
+  const { data: sessions, isLoading } = useQuery<PlayerSession[]>({
+    queryKey: [withFilters("/api/admin/sessions", { status, playerId })],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <FilterSelect value={status} onChange={setStatus} options={["active", "completed", "abandoned"]} placeholder="Statuses" testId="select-session-status" />
+        <Input placeholder="Player id" value={playerId} onChange={(e) => setPlayerId(e.target.value)} className="flex-1 min-w-[200px]" />
+      </div>
+      <ListState isLoading={isLoading} empty={!sessions?.length} />
+      {sessions?.map((session) => (
+        <div key={session.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+          <div>
+            <p className="font-medium">
+              {session.coinsCollected} hearts · {formatCurrency(session.totalValue)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {shortId(session.id)} · player {shortId(session.playerId)} · {formatDate(session.startedAt)}
+            </p>
+          </div>
+          <Badge variant="outline">{session.status}</Badge>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CoinsTab({ reason }: { reason: string }) {
+  const [status, setStatus] = useState("all");
+  const [sponsorId, setSponsorId] = useState("");
+  const [sessionId, setSessionId] = useState("");
+  const action = useAdminAction();
+
+  const { data: coins, isLoading } = useQuery<GeneratedCoin[]>({
+    queryKey: [withFilters("/api/admin/coins", { status, sponsorId, sessionId })],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <FilterSelect value={status} onChange={setStatus} options={["available", "placed", "collected", "expired"]} placeholder="Statuses" testId="select-coin-status" />
+        <Input placeholder="Sponsor id" value={sponsorId} onChange={(e) => setSponsorId(e.target.value)} className="flex-1 min-w-[150px]" />
+        <Input placeholder="Session id" value={sessionId} onChange={(e) => setSessionId(e.target.value)} className="flex-1 min-w-[150px]" />
+      </div>
+      <ListState isLoading={isLoading} empty={!coins?.length} />
+      {coins?.map((coin) => (
+        <div key={coin.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+          <div>
+            <p className="font-medium">{formatCurrency(coin.coinValue)}</p>
+            <p className="text-xs text-muted-foreground">
+              {shortId(coin.id)} · sponsor {shortId(coin.sponsorId)} · session {shortId(coin.sessionId)} · expires{" "}
+              {formatDate(coin.expiresAt)}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{coin.status}</Badge>
+            {coin.status === "placed" && (
+              <Button
+                size="sm"
+                variant="destructive"
+                disabled={!reason || action.isPending}
+                onClick={() => action.mutate({ url: `/api/admin/coins/${coin.id}/expire`, body: { reason } })}
+                data-testid={`button-expire-${coin.id}`}
+              >
+                Expire
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function EscrowTab({ reason }: { reason: string }) {
+  const [status, setStatus] = useState("all");
+  const [sponsorId, setSponsorId] = useState("");
+  const [coinId, setCoinId] = useState("");
+  const action = useAdminAction();
+
+  const { data: rows, isLoading } = useQuery<Escrow[]>({
+    queryKey: [withFilters("/api/admin/escrow", { status, sponsorId, coinId })],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <FilterSelect value={status} onChange={setStatus} options={["held", "released", "refunded"]} placeholder="Statuses" testId="select-escrow-status" />
+        <Input placeholder="Sponsor id" value={sponsorId} onChange={(e) => setSponsorId(e.target.value)} className="flex-1 min-w-[150px]" />
+        <Input placeholder="Coin id" value={coinId} onChange={(e) => setCoinId(e.target.value)} className="flex-1 min-w-[150px]" />
+      </div>
+      <ListState isLoading={isLoading} empty={!rows?.length} />
+      {rows?.map((row) => (
+        <div key={row.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+          <div>
+            <p className="font-medium">{formatCurrency(row.amount)}</p>
+            <p className="text-xs text-muted-foreground">
+              {shortId(row.id)} · coin {shortId(row.coinId)} · sponsor {shortId(row.sponsorId)} · created{" "}
+              {formatDate(row.createdAt)}
+              {row.payoutId && ` · payout ${shortId(row.payoutId)}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{row.status}</Badge>
+            {row.status === "held" && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!reason || action.isPending}
+                onClick={() => action.mutate({ url: `/api/admin/escrow/${row.id}/refund`, body: { reason } })}
+                data-testid={`button-refund-escrow-${row.id}`}
+              >
+                Refund
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Fields left blank inherit from the wider scope (region and campaign rules
+// from the global ones, global rules from the built-in defaults)
+function RulesTab({ reason }: { reason: string }) {
+  const [scope, setScope] = useState<GameConfigRow["scope"]>("global");
+  const [scopeKey, setScopeKey] = useState("");
+  const [values, setValues] = useState<Partial<Record<GameConfigKey, string>>>({});
+  const action = useAdminAction();
+
+  const { data: configs, isLoading } = useQuery<AdminGameConfig[]>({
+    queryKey: ["/api/admin/game-configs"],
+  });
+
+  // Load a row into the form to edit it
+  const edit = (config: AdminGameConfig) => {
+    setScope(config.scope);
+    setScopeKey(config.scopeKey);
+    setValues(
+      Object.fromEntries(GAME_CONFIG_KEYS.map((key) => [key, config[key] === null ? "" : String(config[key])]))
+    );
+  };
+
+  const save = () => {
+    const overrides = Object.fromEntries(
+      GAME_CONFIG_KEYS.map((key) => [key, values[key] ? parseInt(values[key]!, 10) : null])
+    );
+    action.mutate({
+      url: "/api/admin/game-configs",
+      body: { scope, scopeKey: scope === "global" ? "" : scopeKey.trim(), ...overrides, reason },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <Select value={scope} onValueChange={(value) => setScope(value as GameConfigRow["scope"])}>
+            <SelectTrigger className="w-40" data-testid="select-rules-scope">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="global">global</SelectItem>
+              <SelectItem value="region">region</SelectItem>
+              <SelectItem value="campaign">campaign</SelectItem>
+            </SelectContent>
+          </Select>
+          {scope !== "global" && (
+            <Input
+              placeholder={scope === "region" ? "Region key, e.g. 51.5:-0.5" : "Campaign id"}
+              value={scopeKey}
+              onChange={(e) => setScopeKey(e.target.value)}
+              className="flex-1 min-w-[200px]"
+              data-testid="input-rules-key"
+            />
+          )}
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {GAME_CONFIG_KEYS.map((key) => (
+            <label key={key} className="text-xs text-muted-foreground space-y-1">
+              <span>{GAME_CONFIG_LIMITS[key].label}</span>
+              <Input
+                type="number"
+                min={GAME_CONFIG_LIMITS[key].min}
+                max={GAME_CONFIG_LIMITS[key].max}
+                placeholder={`Inherit (default ${DEFAULT_GAME_CONFIG[key]})`}
+                value={values[key] ?? ""}
+                onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                data-testid={`input-rules-${key}`}
+              />
+            </label>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          disabled={!reason || (scope !== "global" && !scopeKey.trim()) || action.isPending}
+          onClick={save}
+          data-testid="button-save-rules"
+        >
+          Save rules
+        </Button>
+      </Card>
+      <ListState isLoading={isLoading} empty={!configs?.length} />
+      {configs?.map((config) => (
+        <div key={config.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+          <div>
+            <p className="font-medium">{config.label}</p>
+            <p className="text-xs text-muted-foreground">
+              {GAME_CONFIG_KEYS.filter((key) => config[key] !== null)
+                .map((key) => `${GAME_CONFIG_LIMITS[key].label}: ${config[key]}`)
+                .join(" · ") || "No overrides"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{config.scope}</Badge>
+            <Button size="sm" variant="outline" onClick={() => edit(config)} data-testid={`button-edit-rules-${config.id}`}>
+              Edit
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={!reason || action.isPending}
+              onClick={() => action.mutate({ url: `/api/admin/game-configs/${config.id}/delete`, body: { reason } })}
+              data-testid={`button-delete-rules-${config.id}`}
+            >
+              Remove
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ReviewTab({ reason }: { reason: string }) {
+  const [playerId, setPlayerId] = useState("");
+  const [status, setStatus] = useState("open");
+  const action = useAdminAction();
+
+  const { data: queue, isLoading: queueLoading } = useQuery<ReviewQueueEntry[]>({
+    queryKey: ["/api/admin/review-queue"],
+  });
+  const { data: flags, isLoading: flagsLoading } = useQuery<CheatFlag[]>({
+    queryKey: [withFilters("/api/admin/cheat-flags", { status, playerId })],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Suspicious players</p>
+        <ListState isLoading={queueLoading} empty={!queue?.length} />
+        {queue?.map((entry) => (
+          <div key={entry.playerId} className="flex items-center justify-between p-3 rounded-lg border border-border">
+            <button className="text-left" onClick={() => setPlayerId(entry.playerId)} data-testid={`button-review-${entry.playerId}`}>
+              <p className="font-medium">{entry.username || shortId(entry.playerId)}</p>
+              <p className="text-xs text-muted-foreground">
+                {entry.openFlags} open · {entry.sessionIds.length} session(s) · last {formatDate(entry.lastFlaggedAt)}
+              </p>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {entry.kinds.map((kind) => (
+                  <Badge key={kind} variant="secondary">{kind}</Badge>
+                ))}
+                {entry.suspendedAt && <Badge variant="destructive">suspended</Badge>}
+              </div>
+            </button>
+            {!entry.suspendedAt && (
+              <Button
+                size="sm"
+                variant="destructive"
+                disabled={!reason || action.isPending}
+                onClick={() =>
+                  action.mutate({ url: `/api/admin/players/${entry.playerId}/suspend`, body: { suspended: true, reason } })
+                }
+                data-testid={`button-review-suspend-${entry.playerId}`}
+              >
+                Suspend
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <FilterSelect value={status} onChange={setStatus} options={["open", "dismissed", "confirmed"]} placeholder="Statuses" testId="select-flag-status" />
+          <Input placeholder="Player id" value={playerId} onChange={(e) => setPlayerId(e.target.value)} className="flex-1 min-w-[150px]" />
+        </div>
+        <ListState isLoading={flagsLoading} empty={!flags?.length} />
+        {flags?.map((flag) => (
+          <div key={flag.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+            <div className="min-w-0">
+              <p className="font-medium">{flag.kind}</p>
+              <p className="text-xs text-muted-foreground">
+                player {shortId(flag.playerId)} · session {shortId(flag.sessionId)}
+                {flag.coinId && ` · coin ${shortId(flag.coinId)}`} · {formatDate(flag.createdAt)}
+              </p>
+              <p className="text-xs text-muted-foreground font-mono truncate">{JSON.stringify(flag.details)}</p>
+              {flag.reviewNote && <p className="text-xs text-muted-foreground">{flag.reviewNote}</p>}
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{flag.status}</Badge>
+              {flag.status === "open" && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!reason || action.isPending}
+                    onClick={() =>
+                      action.mutate({ url: `/api/admin/cheat-flags/${flag.id}/resolve`, body: { status: "dismissed", reason } })
+                    }
+                    data-testid={`button-dismiss-${flag.id}`}
+                  >
+                    Dismiss
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    disabled={!reason || action.isPending}
+                    onClick={() =>
+                      action.mutate({ url: `/api/admin/cheat-flags/${flag.id}/resolve`, body: { status: "confirmed", reason } })
+                    }
+                    data-testid={`button-confirm-${flag.id}`}
+                  >
+                    Confirm
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function AuditTab() {
+  const [entityType, setEntityType] = useState("all");
+  const [trailScope, setTrailScope] = useState("all");
+  const [id, setId] = useState("");
+
+  // With a scope and id, show that coin/session/sponsor's whole trail;
+  // otherwise the most recent events
+  const trimmedId = id.trim();
+  const queryKey =
+    trailScope !== "all" && trimmedId
+      ? [`/api/admin/audit/${trailScope}/${encodeURIComponent(trimmedId)}`]
+      : [withFilters("/api/admin/audit", { entityType, entityId: trimmedId })];
+
+  const { data: events, isLoading } = useQuery<AuditEvent[]>({ queryKey });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <FilterSelect value={trailScope} onChange={setTrailScope} options={["coin", "session", "sponsor"]} placeholder="Trails" testId="select-audit-trail" />
+        {trailScope === "all" && (
+          <FilterSelect
+            value={entityType}
+            onChange={setEntityType}
+            options={["coin", "escrow", "inventory", "session", "player", "sponsor", "purchase_order", "refund", "payout", "user"]}
+            placeholder="Entities"
+            testId="select-audit-entity"
+          />
+        )}
+        <Input
+          placeholder={trailScope === "all" ? "Entity id" : `${trailScope} id`}
+          value={id}
+          onChange={(e) => setId(e.target.value)}
+          className="flex-1 min-w-[200px]"
+          data-testid="input-audit-id"
+        />
+      </div>
+      <ListState isLoading={isLoading} empty={!events?.length} />
+      {events?.map((event) => (
+        <div key={event.id} className="p-3 rounded-lg border border-border">
+          <div className="flex items-center justify-between">
+            <p className="font-medium">{event.action}</p>
+            <span className="text-xs text-muted-foreground">{formatDate(event.createdAt)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {event.entityType} {shortId(event.entityId)} · {event.actorType} {shortId(event.actorId)}
+            {event.reason && ` · ${event.reason}`}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function AdminConsole() {
+  const [reason, setReason] = useState("");
+  const trimmedReason = reason.trim().length >= 3 ? reason.trim() : "";
+
+  const {
+    data: ledger,
+    refetch: verifyLedger,
+    isFetching: verifying,
+  } = useQuery<LedgerReport>({
+    queryKey: ["/api/admin/ledger/verify"],
+    enabled: false,
+  });
+
+  return (
+    <div className="p-4 md:p-6 space-y-6 max-w-4xl mx-auto">
+      <div>
+        <h1 className="font-display text-2xl font-bold mb-2 flex items-center gap-2">
+          <Shield className="w-6 h-6" />
+          Admin Console
+        </h1>
+        <p className="text-muted-foreground">Inspect and correct players, sponsors, sessions, coins and escrow</p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <Card className="p-4">
+          <p className="font-medium mb-1">Reason for changes</p>
+          <p className="text-xs text-muted-foreground mb-3">
+            Every action is written to the audit log with this reason
+          </p>
+          <Input
+            placeholder="e.g. Support ticket #123"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            data-testid="input-admin-reason"
+          />
+        </Card>
+
+        <Card className="p-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="font-medium flex items-center gap-2">
+              <Scale className="w-4 h-4" />
+              Donation ledger
+            </p>
+            <Button size="sm" variant="outline" onClick={() => verifyLedger()} disabled={verifying} data-testid="button-verify-ledger">
+              {verifying ? <Loader2 className="w-4 h-4 animate-spin" /> : "Verify"}
+            </Button>
+          </div>
+          {ledger ? (
+            ledger.ok ? (
+              <p className="text-sm flex items-center gap-2 text-chart-3">
+                <CheckCircle className="w-4 h-4" />
+                Balanced · {ledger.entryCount} entries
+              </p>
+            ) : (
+              <div className="text-sm space-y-1">
+                <p className="flex items-center gap-2 text-destructive">
+                  <AlertTriangle className="w-4 h-4" />
+                  {ledger.unbalancedTransactions.length} unbalanced · {ledger.drift.length} drifted
+                </p>
+                {ledger.drift.slice(0, 5).map((d, i) => (
+                  <p key={i} className="text-xs text-muted-foreground">
+                    {d.check} {shortId(d.entityId)}: ledger {d.ledger}, recorded {d.recorded}
+                  </p>
+                ))}
+              </div>
+            )
+          ) : (
+            <p className="text-xs text-muted-foreground">Check balances and counter drift</p>
+          )}
+        </Card>
+      </div>
+
+      <Tabs defaultValue="users">
+        <TabsList className="grid grid-cols-4 md:grid-cols-8 w-full h-auto">
+          <TabsTrigger value="users" data-testid="tab-users">Users</TabsTrigger>
+          <TabsTrigger value="sponsors" data-testid="tab-sponsors">Sponsors</TabsTrigger>
+          <TabsTrigger value="sessions" data-testid="tab-sessions">Sessions</TabsTrigger>
+          <TabsTrigger value="coins" data-testid="tab-coins">Coins</TabsTrigger>
+          <TabsTrigger value="escrow" data-testid="tab-escrow">Escrow</TabsTrigger>
+          <TabsTrigger value="review" data-testid="tab-review">Review</TabsTrigger>
+          <TabsTrigger value="rules" data-testid="tab-rules">Rules</TabsTrigger>
+          <TabsTrigger value="audit" data-testid="tab-audit">Audit</TabsTrigger>
+        </TabsList>
+        <TabsContent value="users" className="mt-4">
+          <UsersTab reason={trimmedReason} />
+        </TabsContent>
+        <TabsContent value="sponsors" className="mt-4">
+          <SponsorsTab reason={trimmedReason} />
+        </TabsContent>
+        <TabsContent value="sessions" className="mt-4">
+          <SessionsTab />
+        </TabsContent>
+        <TabsContent value="coins" className="mt-4">
+          <CoinsTab reason={trimmedReason} />
+        </TabsContent>
+        <TabsContent value="escrow" className="mt-4">
+          <EscrowTab reason={trimmedReason} />
+        </TabsContent>
+        <TabsContent value="review" className="mt-4">
+          <ReviewTab reason={trimmedReason} />
+        </TabsContent>
+        <TabsContent value="rules" className="mt-4">
+          <RulesTab reason={trimmedReason} />
+        </TabsContent>
+        <TabsContent value="audit" className="mt-4">
+          <AuditTab />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
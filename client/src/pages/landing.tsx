@@ -153,7 +153,7 @@ export default function LandingPage() {
                   </div>
                   <div>
                     <p className="font-medium">Walk & Collect</p>
-                    <p className="text-sm text-muted-foreground">Navigate to heart locations within 10 meters to collect</p>
+                    <p className="text-sm text-muted-foreground">Navigate to heart locations and get close enough to collect them</p>
                   </div>
                 </div>
                 <div className="flex items-start gap-3">
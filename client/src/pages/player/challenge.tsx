@@ -0,0 +1,200 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Flag, Copy, Heart, Users, Clock, Gift } from "lucide-react";
+
+interface ChallengeData {
+  challenge: {
+    id: string;
+    name: string;
+    description: string | null;
+    targetAmount: number;
+    endsAt: string;
+    createdAt: string;
+    memberCount: number;
+    coins: number;
+    raised: number;
+    inviteCode: string | null;
+    isOwner: boolean;
+    isMember: boolean;
+  };
+  contributors: { username: string; rank: number; coins: number; donated: number; isCurrentUser: boolean }[];
+  reserves: { companyName: string | null; coinValue: number; quantity: number }[];
+}
+
+// Progress is live: refetched while the page is open
+const PROGRESS_POLL_MS = 15000;
+
+const formatCurrency = (pence: number) => `£${(pence / 100).toFixed(2)}`;
+
+function timeLeft(endsAt: string): string {
+  const ms = new Date(endsAt).getTime() - Date.now();
+  if (ms <= 0) return "Ended";
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  if (hours < 24) return `${hours}h left`;
+  const days = Math.floor(hours / 24);
+  return `${days} ${days === 1 ? "day" : "days"} left`;
+}
+
+export default function ChallengePage() {
+  const { challengeId } = useParams<{ challengeId: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data, isLoading, error } = useQuery<ChallengeData>({
+    queryKey: ["/api/challenges", challengeId],
+    refetchInterval: PROGRESS_POLL_MS,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-4 md:p-6 space-y-4 max-w-4xl mx-auto">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-40" />
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="p-4 md:p-6 max-w-4xl mx-auto">
+        <Card className="p-8 text-center">
+          <Flag className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="font-semibold mb-2">Challenge not found</h3>
+          <p className="text-muted-foreground mb-4">{error?.message || "This challenge doesn't exist."}</p>
+          <Button variant="outline" onClick={() => navigate("/player/friends")}>
+            Back to friends
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const { challenge, contributors, reserves } = data;
+  const percent = Math.min(100, (challenge.raised / challenge.targetAmount) * 100);
+  const reached = challenge.raised >= challenge.targetAmount;
+  const inviteCode = challenge.inviteCode;
+
+  return (
+    <div className="p-4 md:p-6 space-y-4 max-w-4xl mx-auto">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/player/friends")} data-testid="button-back">
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+        <div>
+          <h1 className="font-display text-2xl font-bold">{challenge.name}</h1>
+          {challenge.description && <p className="text-muted-foreground text-sm">{challenge.description}</p>}
+        </div>
+      </div>
+
+      <Card className="p-6 space-y-4">
+        <div className="flex items-end justify-between">
+          <div>
+            <p className="text-sm text-muted-foreground">Raised</p>
+            <p className="text-3xl font-bold font-mono" data-testid="text-challenge-raised">
+              {formatCurrency(challenge.raised)}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-sm text-muted-foreground">Target</p>
+            <p className="text-xl font-semibold font-mono">{formatCurrency(challenge.targetAmount)}</p>
+          </div>
+        </div>
+        <Progress value={percent} className="h-3" />
+        <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Heart className="w-4 h-4" />
+            {challenge.coins} hearts
+          </span>
+          <span className="flex items-center gap-1">
+            <Users className="w-4 h-4" />
+            {challenge.memberCount} {challenge.memberCount === 1 ? "member" : "members"}
+          </span>
+          <span className="flex items-center gap-1">
+            <Clock className="w-4 h-4" />
+            {timeLeft(challenge.endsAt)}
+          </span>
+          {reached && <Badge>Target reached</Badge>}
+        </div>
+      </Card>
+
+      {inviteCode && (
+        <Card className="p-4 flex items-center justify-between">
+          <div>
+            <p className="text-sm text-muted-foreground">Invite code</p>
+            <p className="font-mono text-lg font-bold tracking-widest" data-testid="text-challenge-code">
+              {inviteCode}
+            </p>
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            title="Copy invite code"
+            onClick={() => {
+              navigator.clipboard.writeText(inviteCode);
+              toast({ title: "Invite code copied" });
+            }}
+            data-testid="button-copy-challenge-code"
+          >
+            <Copy className="w-4 h-4" />
+          </Button>
+        </Card>
+      )}
+
+      <Card className="p-6">
+        <h3 className="font-semibold mb-3">Top Contributors</h3>
+        {contributors.every((c) => c.donated === 0) ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No hearts collected for this challenge yet</p>
+        ) : (
+          <div className="space-y-2">
+            {contributors.map((contributor) => (
+              <div
+                key={contributor.username}
+                className={`flex items-center justify-between p-3 rounded-lg ${
+                  contributor.isCurrentUser ? "bg-primary/10 border border-primary/20" : "bg-muted/50"
+                }`}
+              >
+                <div className="flex items-center gap-3">
+                  <span className="w-6 text-center font-bold text-muted-foreground">{contributor.rank}</span>
+                  <span className="font-medium">{contributor.isCurrentUser ? "You" : contributor.username}</span>
+                </div>
+                <div className="text-right">
+                  <p className="font-mono text-sm">{formatCurrency(contributor.donated)}</p>
+                  <p className="text-xs text-muted-foreground">{contributor.coins} hearts</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {reserves.length > 0 && (
+        <Card className="p-6">
+          <h3 className="font-semibold mb-1">Backed by sponsors</h3>
+          <p className="text-sm text-muted-foreground mb-3">
+            These hearts only appear in challenge members' sessions.
+          </p>
+          <div className="space-y-2">
+            {reserves.map((reserve, i) => (
+              <div key={i} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+                <div className="flex items-center gap-3">
+                  <Gift className="w-4 h-4 text-primary" />
+                  <span className="font-medium">{reserve.companyName || "A sponsor"}</span>
+                </div>
+                <Badge variant="secondary" className="font-mono">
+                  {reserve.quantity} × {formatCurrency(reserve.coinValue)}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,42 +1,115 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
   Heart, 
   Trophy, 
   MapPin, 
   Play,
-  ChevronUp,
   ChevronDown,
-  Minus
+  Minus,
+  Footprints,
+  Coins,
+  Flame,
+  Award,
+  Snowflake,
+  AlertTriangle,
+  type LucideIcon
 } from "lucide-react";
+import { formatDistance, formatActiveTime, formatPace } from "@/lib/walking";
 import type { PlayerProfile, PlayerSession } from "@shared/schema";
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
 
 interface LeaderboardEntry {
   rank: number;
   username: string;
-  totalCoinsCollected: number;
-  totalDonated: number;
+  coins: number;
+  donated: number;
   isCurrentUser: boolean;
 }
 
+interface LeaderboardData {
+  regionLabel: string | null;
+  refreshedAt: string | null;
+  entries: LeaderboardEntry[];
+  you: LeaderboardEntry | null;
+}
+
 interface PlayerStats {
   profile: PlayerProfile;
-  leaderboard: LeaderboardEntry[];
-  history: { date: string; coins: number; donated: number }[];
+  rank: number | null;
   activeSession: PlayerSession | null;
+  lastSession: PlayerSession | null;
+  streak: StreakStatus;
   coinsAvailable: boolean;
 }
 
+interface StreakStatus {
+  current: number;
+  longest: number;
+  freezes: number;
+  collectedToday: boolean;
+  atRisk: boolean;
+  freezesNeeded: number;
+}
+
+interface AchievementBadge {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  threshold: number;
+  progress: number;
+  earnedAt: string | null;
+}
+
+// Badge icon names used by the achievement catalogue; unknown names fall back to Award
+const BADGE_ICONS: Record<string, LucideIcon> = {
+  heart: Heart,
+  hearts: Heart,
+  coins: Coins,
+  trophy: Trophy,
+  "map-pin": MapPin,
+  footprints: Footprints,
+  flame: Flame,
+};
+
+const formatCurrency = (pence: number) => `£${(pence / 100).toFixed(2)}`;
+
 export default function PlayerDashboard() {
   const { data: stats, isLoading } = useQuery<PlayerStats>({
     queryKey: ["/api/player/stats"],
   });
 
+  // Keep the profile's timezone in step with the browser, so history and
+  // streaks follow the player's local calendar days
+  const syncTimezone = useMutation({
+    mutationFn: async (timezone: string) => {
+      const response = await apiRequest("POST", "/api/player/timezone", { timezone });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/player/stats"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/player/history/series"),
+      });
+    },
+  });
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const profileTimezone = stats?.profile.timezone;
+
+  useEffect(() => {
+    if (profileTimezone && browserTimezone && profileTimezone !== browserTimezone && syncTimezone.isIdle) {
+      syncTimezone.mutate(browserTimezone);
+    }
+  }, [profileTimezone, browserTimezone, syncTimezone]);
+
   if (isLoading) {
     return <DashboardSkeleton />;
   }
@@ -49,10 +122,6 @@ export default function PlayerDashboard() {
     );
   }
 
-  const formatCurrency = (pence: number) => {
-    return `£${(pence / 100).toFixed(2)}`;
-  };
-
   return (
     <div className="p-4 md:p-6 space-y-6 max-w-6xl mx-auto">
       {/* Header Stats */}
@@ -89,7 +158,7 @@ export default function PlayerDashboard() {
             <div className="min-w-0">
               <p className="text-sm text-muted-foreground truncate">Global Rank</p>
               <p className="font-display text-2xl font-bold">
-                #{stats.leaderboard.find((e) => e.isCurrentUser)?.rank || "-"}
+                #{stats.rank ?? "-"}
               </p>
             </div>
           </div>
@@ -110,131 +179,54 @@ export default function PlayerDashboard() {
         </Card>
       </div>
 
+      {/* Streak */}
+      <StreakCard streak={stats.streak} />
+
       {/* Main Content Grid */}
       <div className="grid lg:grid-cols-3 gap-6">
         {/* Progress Chart */}
-        <Card className="lg:col-span-2 p-6">
-          <h3 className="font-semibold mb-4">Your Progress</h3>
-          {stats.history.length > 0 ? (
-            <div className="h-64">
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={stats.history}>
-                  <XAxis 
-                    dataKey="date" 
-                    tick={{ fontSize: 12 }}
-                    tickFormatter={(value) => {
-                      const date = new Date(value);
-                      return date.toLocaleDateString('en-GB', { month: 'short', day: 'numeric' });
-                    }}
-                  />
-                  <YAxis yAxisId="coins" orientation="left" tick={{ fontSize: 12 }} />
-                  <YAxis 
-                    yAxisId="donated" 
-                    orientation="right" 
-                    tick={{ fontSize: 12 }}
-                    tickFormatter={(value) => `£${(value / 100).toFixed(0)}`}
-                  />
-                  <Tooltip
-                    content={({ active, payload }) => {
-                      if (active && payload && payload.length) {
-                        return (
-                          <div className="bg-popover border border-popover-border rounded-lg p-3 shadow-lg">
-                            <p className="text-sm font-medium">{payload[0]?.payload?.date}</p>
-                            <p className="text-sm text-primary">
-                              Hearts: {payload[0]?.value}
-                            </p>
-                            <p className="text-sm text-destructive">
-                              Donated: £{((payload[1]?.value as number) / 100).toFixed(2)}
-                            </p>
-                          </div>
-                        );
-                      }
-                      return null;
-                    }}
-                  />
-                  <Line
-                    yAxisId="coins"
-                    type="monotone"
-                    dataKey="coins"
-                    stroke="hsl(var(--primary))"
-                    strokeWidth={2}
-                    dot={false}
-                  />
-                  <Line
-                    yAxisId="donated"
-                    type="monotone"
-                    dataKey="donated"
-                    stroke="hsl(var(--destructive))"
-                    strokeWidth={2}
-                    dot={false}
-                  />
-                </LineChart>
-              </ResponsiveContainer>
-            </div>
-          ) : (
-            <div className="h-64 flex items-center justify-center text-muted-foreground">
-              <div className="text-center">
-                <Heart className="w-12 h-12 mx-auto mb-2 opacity-50" />
-                <p>Start collecting to see your progress</p>
-              </div>
-            </div>
-          )}
-        </Card>
+        <ProgressChart />
 
         {/* Leaderboard */}
-        <Card className="p-6">
-          <h3 className="font-semibold mb-4">Leaderboard</h3>
-          <div className="space-y-2">
-            {stats.leaderboard.map((entry, index) => {
-              const currentUserIndex = stats.leaderboard.findIndex((e) => e.isCurrentUser);
-              const showSeparatorBefore = index === currentUserIndex && currentUserIndex > 0;
-              const showSeparatorAfter = index === currentUserIndex && currentUserIndex < stats.leaderboard.length - 1;
-
-              return (
-                <div key={entry.rank}>
-                  {showSeparatorBefore && (
-                    <div className="flex items-center gap-2 py-2">
-                      <div className="h-px flex-1 bg-border" />
-                      <ChevronUp className="w-4 h-4 text-muted-foreground" />
-                      <div className="h-px flex-1 bg-border" />
-                    </div>
-                  )}
-                  <div
-                    className={`flex items-center gap-3 p-2 rounded-lg ${
-                      entry.isCurrentUser
-                        ? "bg-primary/10 border border-primary/20"
-                        : "hover:bg-muted/50"
-                    }`}
-                  >
-                    <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center font-bold text-sm">
-                      {entry.rank}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="font-medium truncate">
-                        {entry.username}
-                        {entry.isCurrentUser && (
-                          <Badge variant="secondary" className="ml-2 text-xs">You</Badge>
-                        )}
-                      </p>
-                      <p className="text-xs text-muted-foreground">
-                        {entry.totalCoinsCollected} hearts · {formatCurrency(entry.totalDonated)}
-                      </p>
-                    </div>
-                  </div>
-                  {showSeparatorAfter && (
-                    <div className="flex items-center gap-2 py-2">
-                      <div className="h-px flex-1 bg-border" />
-                      <ChevronDown className="w-4 h-4 text-muted-foreground" />
-                      <div className="h-px flex-1 bg-border" />
-                    </div>
-                  )}
-                </div>
-              );
-            })}
-          </div>
-        </Card>
+        <LeaderboardCard />
       </div>
 
+      {/* Walking */}
+      <Card className="p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center shrink-0">
+            <Footprints className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h3 className="font-semibold">Your Walking</h3>
+            <p className="text-sm text-muted-foreground">
+              {formatDistance(stats.profile.totalDistanceMeters)} walked in total
+            </p>
+          </div>
+        </div>
+        {stats.lastSession ? (
+          <div className="grid grid-cols-3 gap-4" data-testid="last-session-walk">
+            <div>
+              <p className="text-sm text-muted-foreground">Last Session</p>
+              <p className="font-display text-xl font-bold">{formatDistance(stats.lastSession.distanceMeters)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Active Time</p>
+              <p className="font-display text-xl font-bold">{formatActiveTime(stats.lastSession.activeSeconds)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Average Pace</p>
+              <p className="font-display text-xl font-bold">{formatPace(stats.lastSession.paceSecondsPerKm)}</p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Finish a session to see how far you walked</p>
+        )}
+      </Card>
+
+      {/* Badges */}
+      <BadgesCard />
+
       {/* Start Session CTA */}
       <Card className="p-6 bg-gradient-to-r from-primary/5 to-destructive/5">
         <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
@@ -278,6 +270,351 @@ export default function PlayerDashboard() {
   );
 }
 
+type HistoryRange = "7d" | "30d" | "12m" | "all";
+type HistoryBucket = "day" | "week" | "month";
+
+interface HistorySeries {
+  range: HistoryRange;
+  bucket: HistoryBucket;
+  timezone: string;
+  points: { date: string; coins: number; donated: number }[];
+}
+
+const rangeLabels: Record<HistoryRange, string> = {
+  "7d": "7 days",
+  "30d": "30 days",
+  "12m": "12 months",
+  all: "All time",
+};
+
+// Buckets are local calendar dates (YYYY-MM-DD), so parse them as local midnight
+function formatBucket(value: string, bucket: HistoryBucket) {
+  const date = new Date(`${value}T00:00:00`);
+  return bucket === "month"
+    ? date.toLocaleDateString("en-GB", { month: "short", year: "2-digit" })
+    : date.toLocaleDateString("en-GB", { month: "short", day: "numeric" });
+}
+
+function ProgressChart() {
+  const [range, setRange] = useState<HistoryRange>("7d");
+  const [bucket, setBucket] = useState<HistoryBucket>("day");
+
+  const { data, isLoading } = useQuery<HistorySeries>({
+    queryKey: [`/api/player/history/series?range=${range}&bucket=${bucket}`],
+  });
+  const points = data?.points ?? [];
+
+  return (
+    <Card className="lg:col-span-2 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="font-semibold">Your Progress</h3>
+        <div className="flex gap-2">
+          <Select value={range} onValueChange={(value) => setRange(value as HistoryRange)}>
+            <SelectTrigger className="w-32" data-testid="select-history-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(rangeLabels) as HistoryRange[]).map((value) => (
+                <SelectItem key={value} value={value}>{rangeLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={bucket} onValueChange={(value) => setBucket(value as HistoryBucket)}>
+            <SelectTrigger className="w-28" data-testid="select-history-bucket">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+              <SelectItem value="month">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {isLoading ? (
+        <Skeleton className="h-64" />
+      ) : points.some((point) => point.coins > 0) ? (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points}>
+              <XAxis 
+                dataKey="date" 
+                tick={{ fontSize: 12 }}
+                tickFormatter={(value) => formatBucket(value, bucket)}
+              />
+              <YAxis yAxisId="coins" orientation="left" tick={{ fontSize: 12 }} />
+              <YAxis 
+                yAxisId="donated" 
+                orientation="right" 
+                tick={{ fontSize: 12 }}
+                tickFormatter={(value) => `£${(value / 100).toFixed(0)}`}
+              />
+              <Tooltip
+                content={({ active, payload }) => {
+                  if (active && payload && payload.length) {
+                    return (
+                      <div className="bg-popover border border-popover-border rounded-lg p-3 shadow-lg">
+                        <p className="text-sm font-medium">
+                          {bucket === "week" && "Week of "}
+                          {formatBucket(payload[0]?.payload?.date, bucket)}
+                        </p>
+                        <p className="text-sm text-primary">
+                          Hearts: {payload[0]?.value}
+                        </p>
+                        <p className="text-sm text-destructive">
+                          Donated: £{((payload[1]?.value as number) / 100).toFixed(2)}
+                        </p>
+                      </div>
+                    );
+                  }
+                  return null;
+                }}
+              />
+              <Line
+                yAxisId="coins"
+                type="monotone"
+                dataKey="coins"
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                dot={false}
+              />
+              <Line
+                yAxisId="donated"
+                type="monotone"
+                dataKey="donated"
+                stroke="hsl(var(--destructive))"
+                strokeWidth={2}
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="h-64 flex items-center justify-center text-muted-foreground">
+          <div className="text-center">
+            <Heart className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p>Start collecting to see your progress</p>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function LeaderboardRow({ entry }: { entry: LeaderboardEntry }) {
+  return (
+    <div
+      className={`flex items-center gap-3 p-2 rounded-lg ${
+        entry.isCurrentUser
+          ? "bg-primary/10 border border-primary/20"
+          : "hover:bg-muted/50"
+      }`}
+    >
+      <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center font-bold text-sm">
+        {entry.rank}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate">
+          {entry.username}
+          {entry.isCurrentUser && (
+            <Badge variant="secondary" className="ml-2 text-xs">You</Badge>
+          )}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {entry.coins} hearts · {formatCurrency(entry.donated)}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function LeaderboardCard() {
+  const [period, setPeriod] = useState("week");
+  const [metric, setMetric] = useState("coins");
+  const [scope, setScope] = useState("global");
+
+  const { data, isLoading } = useQuery<LeaderboardData>({
+    queryKey: [`/api/player/leaderboard?period=${period}&metric=${metric}&scope=${scope}`],
+  });
+  const youListed = data?.entries.some((entry) => entry.isCurrentUser);
+
+  return (
+    <Card className="p-6">
+      <h3 className="font-semibold mb-3">Leaderboard</h3>
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger data-testid="select-leaderboard-period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="week">This week</SelectItem>
+            <SelectItem value="month">This month</SelectItem>
+            <SelectItem value="all">All time</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={metric} onValueChange={setMetric}>
+          <SelectTrigger data-testid="select-leaderboard-metric">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="coins">Hearts</SelectItem>
+            <SelectItem value="donated">Donated</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger data-testid="select-leaderboard-scope">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="global">Global</SelectItem>
+            <SelectItem value="region">My area</SelectItem>
+            <SelectItem value="friends">Friends</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {scope !== "global" && data?.regionLabel && (
+        <p className="text-xs text-muted-foreground mb-2">{data.regionLabel}</p>
+      )}
+      {isLoading ? (
+        <Skeleton className="h-48" />
+      ) : !data?.entries.length ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          {scope === "region" && !data?.regionLabel
+            ? "Start a session to join your area's board"
+            : scope === "friends"
+              ? "No hearts from you or your friends yet this period"
+              : "No hearts collected yet this period"}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {data.entries.map((entry) => (
+            <LeaderboardRow key={entry.username} entry={entry} />
+          ))}
+          {data.you && !youListed && (
+            <>
+              <div className="flex items-center gap-2 py-2">
+                <div className="h-px flex-1 bg-border" />
+                <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                <div className="h-px flex-1 bg-border" />
+              </div>
+              <LeaderboardRow entry={data.you} />
+            </>
+          )}
+        </div>
+      )}
+      {data?.refreshedAt && (
+        <p className="text-xs text-muted-foreground mt-3">
+          Updated {new Date(data.refreshedAt).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })}
+        </p>
+      )}
+    </Card>
+  );
+}
+
+function StreakCard({ streak }: { streak: StreakStatus }) {
+  const days = (n: number) => `${n} ${n === 1 ? "day" : "days"}`;
+
+  return (
+    <Card className={`p-4 ${streak.atRisk ? "border-destructive/50" : ""}`} data-testid="card-streak">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div
+            className={`w-10 h-10 rounded-lg flex items-center justify-center shrink-0 ${
+              streak.current > 0 ? "bg-primary/10" : "bg-muted"
+            }`}
+          >
+            <Flame className={`w-5 h-5 ${streak.current > 0 ? "text-primary" : "text-muted-foreground"}`} />
+          </div>
+          <div>
+            <p className="font-display text-xl font-bold" data-testid="text-streak">
+              {streak.current > 0 ? `${days(streak.current)} streak` : "No streak yet"}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {streak.atRisk
+                ? streak.freezesNeeded > 0
+                  ? `Collect a heart today to keep it. ${streak.freezesNeeded === 1 ? "A freeze" : `${streak.freezesNeeded} freezes`} will cover the days you missed.`
+                  : "Collect a heart today to keep it going"
+                : streak.collectedToday
+                  ? "Done for today. Come back tomorrow!"
+                  : "Collect a heart today to start a streak"}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          {streak.atRisk && (
+            <Badge variant="destructive" className="gap-1" data-testid="badge-streak-at-risk">
+              <AlertTriangle className="w-3 h-3" />
+              At risk
+            </Badge>
+          )}
+          <span
+            className="flex items-center gap-1 text-sm text-muted-foreground"
+            title="Freezes cover a missed day. You earn one every 7 streak days."
+          >
+            <Snowflake className="w-4 h-4" />
+            {streak.freezes}
+          </span>
+          <span className="text-sm text-muted-foreground">Best: {days(streak.longest)}</span>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+function BadgesCard() {
+  const { data: badges, isLoading } = useQuery<AchievementBadge[]>({
+    queryKey: ["/api/player/achievements"],
+  });
+  const earnedCount = badges?.filter((badge) => badge.earnedAt).length ?? 0;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold">Badges</h3>
+        {badges && (
+          <span className="text-sm text-muted-foreground">
+            {earnedCount} of {badges.length}
+          </span>
+        )}
+      </div>
+      {isLoading ? (
+        <Skeleton className="h-24" />
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+          {badges?.map((badge) => {
+            const Icon = BADGE_ICONS[badge.icon] ?? Award;
+            const earned = !!badge.earnedAt;
+            return (
+              <div
+                key={badge.id}
+                className={`flex flex-col items-center text-center gap-2 p-3 rounded-lg ${
+                  earned ? "bg-primary/10" : "bg-muted/50 opacity-60"
+                }`}
+                title={
+                  earned
+                    ? `Earned ${new Date(badge.earnedAt!).toLocaleDateString("en-GB")}`
+                    : `${badge.progress.toLocaleString()} / ${badge.threshold.toLocaleString()}`
+                }
+                data-testid={`badge-${badge.id}`}
+              >
+                <div
+                  className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                    earned ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
+                  }`}
+                >
+                  <Icon className="w-5 h-5" />
+                </div>
+                <p className="text-sm font-medium leading-tight">{badge.name}</p>
+                <p className="text-xs text-muted-foreground leading-tight">{badge.description}</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
+
 function DashboardSkeleton() {
   return (
     <div className="p-4 md:p-6 space-y-6 max-w-6xl mx-auto">
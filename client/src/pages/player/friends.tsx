@@ -0,0 +1,699 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { UserPlus, UserMinus, Ban, Check, X, Users, Copy, RefreshCw, LogOut, Crown, ChevronRight, Flag } from "lucide-react";
+
+interface FriendsOverview {
+  friends: { playerId: string; username: string; since: string }[];
+  incoming: { id: string; playerId: string; username: string; createdAt: string }[];
+  outgoing: { id: string; playerId: string; username: string; createdAt: string }[];
+  blocked: { playerId: string; username: string }[];
+}
+
+interface GroupSummary {
+  id: string;
+  name: string;
+  memberCount: number;
+  totalCoins: number;
+  totalDonated: number;
+  isOwner: boolean;
+}
+
+interface GroupDetail {
+  group: { id: string; name: string; createdAt: string; inviteCode: string | null; isOwner: boolean };
+  members: {
+    username: string;
+    joinedAt: string;
+    rank: number;
+    coins: number;
+    donated: number;
+    isOwner: boolean;
+    isCurrentUser: boolean;
+  }[];
+  totalCoins: number;
+  totalDonated: number;
+}
+
+interface ChallengeSummary {
+  id: string;
+  name: string;
+  targetAmount: number;
+  endsAt: string;
+  memberCount: number;
+  raised: number;
+  isOwner: boolean;
+}
+
+const formatCurrency = (pence: number) => `£${(pence / 100).toFixed(2)}`;
+
+const invalidateFriends = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/player/leaderboard"),
+  });
+};
+
+export default function PlayerFriends() {
+  return (
+    <div className="p-4 md:p-6 space-y-6 max-w-4xl mx-auto">
+      <div>
+        <h1 className="font-display text-2xl font-bold mb-2">Friends</h1>
+        <p className="text-muted-foreground">Walk together, and see who's raised the most</p>
+      </div>
+
+      <Tabs defaultValue="friends">
+        <TabsList className="grid grid-cols-3 w-full">
+          <TabsTrigger value="friends" data-testid="tab-friends">Friends</TabsTrigger>
+          <TabsTrigger value="groups" data-testid="tab-groups">Groups</TabsTrigger>
+          <TabsTrigger value="challenges" data-testid="tab-challenges">Challenges</TabsTrigger>
+        </TabsList>
+        <TabsContent value="friends" className="space-y-4">
+          <FriendsTab />
+        </TabsContent>
+        <TabsContent value="groups" className="space-y-4">
+          <GroupsTab />
+        </TabsContent>
+        <TabsContent value="challenges" className="space-y-4">
+          <ChallengesTab />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function FriendsTab() {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+
+  const { data, isLoading } = useQuery<FriendsOverview>({
+    queryKey: ["/api/friends"],
+  });
+
+  const sendRequest = useMutation({
+    mutationFn: async (username: string) => {
+      const response = await apiRequest("POST", "/api/friends/requests", { username });
+      return response.json();
+    },
+    onSuccess: (result: { status: string; username: string }) => {
+      setUsername("");
+      toast({
+        title: result.status === "accepted" ? `You're now friends with ${result.username}` : "Friend request sent",
+      });
+      invalidateFriends();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't send request", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const respond = useMutation({
+    mutationFn: async ({ id, accept }: { id: string; accept: boolean }) => {
+      const response = await apiRequest("POST", `/api/friends/requests/${id}/respond`, { accept });
+      return response.json();
+    },
+    onSuccess: invalidateFriends,
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Remove, block and unblock all act on another player by id
+  const playerAction = useMutation({
+    mutationFn: async ({ playerId, action }: { playerId: string; action: "remove" | "block" | "unblock" }) => {
+      const response = await apiRequest("POST", `/api/friends/${playerId}/${action}`);
+      return response.json();
+    },
+    onSuccess: invalidateFriends,
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-48" />;
+  }
+
+  return (
+    <>
+      <Card className="p-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (username.trim()) sendRequest.mutate(username.trim());
+          }}
+        >
+          <Input
+            placeholder="Add a friend by username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            data-testid="input-friend-username"
+          />
+          <Button type="submit" disabled={sendRequest.isPending || !username.trim()} data-testid="button-add-friend">
+            <UserPlus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </form>
+      </Card>
+
+      {data && data.incoming.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Requests</h3>
+          {data.incoming.map((request) => (
+            <Card key={request.id} className="p-4 flex items-center justify-between">
+              <p className="font-medium">{request.username}</p>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => respond.mutate({ id: request.id, accept: true })}
+                  disabled={respond.isPending}
+                  data-testid={`button-accept-${request.id}`}
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => respond.mutate({ id: request.id, accept: false })}
+                  disabled={respond.isPending}
+                  data-testid={`button-decline-${request.id}`}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Decline
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Friends</h3>
+        {!data?.friends.length ? (
+          <Card className="p-8 text-center">
+            <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No friends yet. Add someone by their username.</p>
+          </Card>
+        ) : (
+          data.friends.map((friend) => (
+            <Card key={friend.playerId} className="p-4 flex items-center justify-between">
+              <div>
+                <p className="font-medium">{friend.username}</p>
+                <p className="text-sm text-muted-foreground">
+                  Friends since {new Date(friend.since).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" })}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Remove friend"
+                  onClick={() => playerAction.mutate({ playerId: friend.playerId, action: "remove" })}
+                  disabled={playerAction.isPending}
+                  data-testid={`button-remove-${friend.playerId}`}
+                >
+                  <UserMinus className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Block"
+                  onClick={() => playerAction.mutate({ playerId: friend.playerId, action: "block" })}
+                  disabled={playerAction.isPending}
+                  data-testid={`button-block-${friend.playerId}`}
+                >
+                  <Ban className="w-4 h-4" />
+                </Button>
+              </div>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {data && data.outgoing.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Sent</h3>
+          {data.outgoing.map((request) => (
+            <Card key={request.id} className="p-4 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <p className="font-medium">{request.username}</p>
+                <Badge variant="secondary">Pending</Badge>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => playerAction.mutate({ playerId: request.playerId, action: "remove" })}
+                disabled={playerAction.isPending}
+                data-testid={`button-cancel-${request.id}`}
+              >
+                Cancel
+              </Button>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {data && data.blocked.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Blocked</h3>
+          {data.blocked.map((player) => (
+            <Card key={player.playerId} className="p-4 flex items-center justify-between">
+              <p className="font-medium text-muted-foreground">{player.username}</p>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => playerAction.mutate({ playerId: player.playerId, action: "unblock" })}
+                disabled={playerAction.isPending}
+                data-testid={`button-unblock-${player.playerId}`}
+              >
+                Unblock
+              </Button>
+            </Card>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+function GroupsTab() {
+  const { toast } = useToast();
+  const [groupName, setGroupName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+
+  const { data: groups, isLoading } = useQuery<GroupSummary[]>({
+    queryKey: ["/api/groups"],
+  });
+
+  const createGroup = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/groups", { name });
+      return response.json();
+    },
+    onSuccess: (group: { id: string }) => {
+      setGroupName("");
+      setSelectedGroupId(group.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't create group", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const joinGroup = useMutation({
+    mutationFn: async (inviteCode: string) => {
+      const response = await apiRequest("POST", "/api/groups/join", { inviteCode });
+      return response.json();
+    },
+    onSuccess: (result: { status: string; group: { id: string; name: string } }) => {
+      setInviteCode("");
+      setSelectedGroupId(result.group.id);
+      toast({
+        title: result.status === "joined" ? `Joined ${result.group.name}` : `You're already in ${result.group.name}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't join group", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-48" />;
+  }
+
+  return (
+    <>
+      <div className="grid md:grid-cols-2 gap-4">
+        <Card className="p-4">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (groupName.trim()) createGroup.mutate(groupName.trim());
+            }}
+          >
+            <Input
+              placeholder="New group, e.g. Office"
+              value={groupName}
+              onChange={(e) => setGroupName(e.target.value)}
+              data-testid="input-group-name"
+            />
+            <Button type="submit" disabled={createGroup.isPending || !groupName.trim()} data-testid="button-create-group">
+              Create
+            </Button>
+          </form>
+        </Card>
+        <Card className="p-4">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (inviteCode.trim()) joinGroup.mutate(inviteCode.trim());
+            }}
+          >
+            <Input
+              placeholder="Invite code"
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+              className="font-mono"
+              data-testid="input-invite-code"
+            />
+            <Button type="submit" disabled={joinGroup.isPending || !inviteCode.trim()} data-testid="button-join-group">
+              Join
+            </Button>
+          </form>
+        </Card>
+      </div>
+
+      {!groups?.length ? (
+        <Card className="p-8 text-center">
+          <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">
+            Create a group for your office or school, or join one with an invite code.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {groups.map((group) => (
+            <div key={group.id} className="space-y-2">
+              <Card
+                className="p-4 flex items-center justify-between cursor-pointer hover-elevate"
+                onClick={() => setSelectedGroupId(selectedGroupId === group.id ? null : group.id)}
+                data-testid={`card-group-${group.id}`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{group.name}</p>
+                    {group.isOwner && <Crown className="w-4 h-4 text-primary" />}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {group.memberCount} {group.memberCount === 1 ? "member" : "members"} · {group.totalCoins} hearts
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="font-mono">
+                    {formatCurrency(group.totalDonated)}
+                  </Badge>
+                  <ChevronRight
+                    className={`w-4 h-4 text-muted-foreground transition-transform ${selectedGroupId === group.id ? "rotate-90" : ""}`}
+                  />
+                </div>
+              </Card>
+              {selectedGroupId === group.id && (
+                <GroupDetailCard groupId={group.id} onLeft={() => setSelectedGroupId(null)} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+function GroupDetailCard({ groupId, onLeft }: { groupId: string; onLeft: () => void }) {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<GroupDetail>({
+    queryKey: ["/api/groups", groupId],
+  });
+
+  const regenerateCode = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/groups/${groupId}/invite-code`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/groups", groupId] });
+      toast({ title: "New invite code created", description: "The old code no longer works." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const leaveGroup = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/groups/${groupId}/leave`);
+      return response.json();
+    },
+    onSuccess: () => {
+      onLeft();
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !data) {
+    return <Skeleton className="h-32" />;
+  }
+
+  const inviteCode = data.group.inviteCode;
+
+  return (
+    <Card className="p-4 space-y-4 ml-4">
+      {inviteCode && (
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <p className="text-sm text-muted-foreground">Invite code</p>
+            <p className="font-mono text-lg font-bold tracking-widest" data-testid="text-invite-code">
+              {inviteCode}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="icon"
+              variant="ghost"
+              title="Copy invite code"
+              onClick={() => {
+                navigator.clipboard.writeText(inviteCode);
+                toast({ title: "Invite code copied" });
+              }}
+              data-testid="button-copy-invite-code"
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              title="New invite code"
+              onClick={() => regenerateCode.mutate()}
+              disabled={regenerateCode.isPending}
+              data-testid="button-regenerate-invite-code"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {data.members.map((member) => (
+          <div
+            key={member.username}
+            className={`flex items-center justify-between p-3 rounded-lg ${
+              member.isCurrentUser ? "bg-primary/10 border border-primary/20" : "bg-muted/50"
+            }`}
+          >
+            <div className="flex items-center gap-3">
+              <span className="w-6 text-center font-bold text-muted-foreground">{member.rank}</span>
+              <span className="font-medium">{member.isCurrentUser ? "You" : member.username}</span>
+              {member.isOwner && <Crown className="w-4 h-4 text-primary" />}
+            </div>
+            <div className="text-right">
+              <p className="font-mono text-sm">{formatCurrency(member.donated)}</p>
+              <p className="text-xs text-muted-foreground">{member.coins} hearts</p>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">Totals count hearts collected since each member joined.</p>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => leaveGroup.mutate()}
+        disabled={leaveGroup.isPending}
+        data-testid="button-leave-group"
+      >
+        <LogOut className="w-4 h-4 mr-2" />
+        Leave group
+      </Button>
+    </Card>
+  );
+}
+
+// Default deadline for a new challenge: four weeks from today
+const defaultDeadline = () => new Date(Date.now() + 28 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+function ChallengesTab() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [name, setName] = useState("");
+  const [target, setTarget] = useState("50");
+  const [deadline, setDeadline] = useState(defaultDeadline);
+  const [inviteCode, setInviteCode] = useState("");
+
+  const { data: challenges, isLoading } = useQuery<ChallengeSummary[]>({
+    queryKey: ["/api/challenges"],
+  });
+
+  const createChallenge = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/challenges", {
+        name: name.trim(),
+        targetAmount: Math.round(parseFloat(target) * 100),
+        // The end of the chosen day, in the player's timezone
+        endsAt: new Date(`${deadline}T23:59:59`).toISOString(),
+      });
+      return response.json();
+    },
+    onSuccess: (challenge: { id: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+      navigate(`/player/challenges/${challenge.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't create challenge", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const joinChallenge = useMutation({
+    mutationFn: async (inviteCode: string) => {
+      const response = await apiRequest("POST", "/api/challenges/join", { inviteCode });
+      return response.json();
+    },
+    onSuccess: (result: { challenge: { id: string } }) => {
+      setInviteCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+      navigate(`/player/challenges/${result.challenge.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't join challenge", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-48" />;
+  }
+
+  const targetValid = parseFloat(target) >= 1;
+
+  return (
+    <>
+      <Card className="p-4">
+        <form
+          className="grid grid-cols-2 md:grid-cols-4 gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim() && targetValid) createChallenge.mutate();
+          }}
+        >
+          <Input
+            placeholder="Challenge name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="col-span-2 md:col-span-1"
+            data-testid="input-challenge-name"
+          />
+          <Input
+            type="number"
+            min="1"
+            step="1"
+            placeholder="Target £"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            data-testid="input-challenge-target"
+          />
+          <Input
+            type="date"
+            value={deadline}
+            min={new Date().toISOString().slice(0, 10)}
+            onChange={(e) => setDeadline(e.target.value)}
+            data-testid="input-challenge-deadline"
+          />
+          <Button
+            type="submit"
+            className="col-span-2 md:col-span-1"
+            disabled={createChallenge.isPending || !name.trim() || !targetValid}
+            data-testid="button-create-challenge"
+          >
+            Start challenge
+          </Button>
+        </form>
+      </Card>
+
+      <Card className="p-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (inviteCode.trim()) joinChallenge.mutate(inviteCode.trim());
+          }}
+        >
+          <Input
+            placeholder="Challenge invite code"
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+            className="font-mono"
+            data-testid="input-challenge-code"
+          />
+          <Button type="submit" disabled={joinChallenge.isPending || !inviteCode.trim()} data-testid="button-join-challenge">
+            Join
+          </Button>
+        </form>
+      </Card>
+
+      {!challenges?.length ? (
+        <Card className="p-8 text-center">
+          <Flag className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">
+            Set a fundraising target with friends and race the deadline together.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {challenges.map((challenge) => {
+            const ended = new Date(challenge.endsAt).getTime() <= Date.now();
+            return (
+              <Link key={challenge.id} href={`/player/challenges/${challenge.id}`}>
+                <Card className="p-4 space-y-3 cursor-pointer hover-elevate" data-testid={`card-challenge-${challenge.id}`}>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{challenge.name}</p>
+                        {challenge.isOwner && <Crown className="w-4 h-4 text-primary" />}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {challenge.memberCount} {challenge.memberCount === 1 ? "member" : "members"} ·{" "}
+                        {ended ? "Ended" : "Ends"}{" "}
+                        {new Date(challenge.endsAt).toLocaleDateString("en-GB", { day: "numeric", month: "short" })}
+                      </p>
+                    </div>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                  </div>
+                  <Progress value={Math.min(100, (challenge.raised / challenge.targetAmount) * 100)} />
+                  <p className="text-sm text-muted-foreground">
+                    {formatCurrency(challenge.raised)} of {formatCurrency(challenge.targetAmount)}
+                  </p>
+                </Card>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
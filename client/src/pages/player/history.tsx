@@ -1,9 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Calendar, Heart } from "lucide-react";
-import type { CollectionHistory } from "@shared/schema";
+import { Calendar, Heart, Route, ChevronRight } from "lucide-react";
+import { formatDistance, formatActiveTime, formatPace } from "@/lib/walking";
+import type { CollectionHistory, PlayerSession } from "@shared/schema";
 
 interface HistoryResponse {
   history: (CollectionHistory & { sessionDate: string })[];
@@ -15,6 +17,9 @@ export default function PlayerHistory() {
   const { data, isLoading } = useQuery<HistoryResponse>({
     queryKey: ["/api/player/history"],
   });
+  const { data: sessions } = useQuery<PlayerSession[]>({
+    queryKey: ["/api/player/sessions"],
+  });
 
   if (isLoading) {
     return (
@@ -92,6 +97,40 @@ export default function PlayerHistory() {
         </Card>
       </div>
 
+      {/* Recent Sessions */}
+      {sessions && sessions.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <Route className="w-4 h-4 text-muted-foreground" />
+            <h3 className="font-medium text-sm text-muted-foreground">Recent Sessions</h3>
+          </div>
+          <div className="space-y-2">
+            {sessions.slice(0, 5).map((session) => (
+              <Link key={session.id} href={`/player/history/${session.id}`}>
+                <Card className="p-4 hover-elevate cursor-pointer" data-testid={`card-session-${session.id}`}>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">{formatDate(String(session.startedAt))}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {session.coinsCollected} hearts · {formatCurrency(session.totalValue)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistance(session.distanceMeters)} · {formatActiveTime(session.activeSeconds)} active ·{" "}
+                        {formatPace(session.paceSecondsPerKm)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                      Replay
+                      <ChevronRight className="w-4 h-4" />
+                    </div>
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* History List */}
       {Object.keys(groupedHistory).length === 0 ? (
         <Card className="p-8 text-center">
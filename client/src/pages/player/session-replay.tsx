@@ -0,0 +1,173 @@
+import { useState, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Slider } from "@/components/ui/slider";
+import { RouteReplayMap } from "@/components/RouteReplayMap";
+import { formatDistance, formatActiveTime, formatPace } from "@/lib/walking";
+import { ArrowLeft, Heart, Play, Pause, MapPin } from "lucide-react";
+import type { PlayerSession } from "@shared/schema";
+
+interface ReplayData {
+  session: PlayerSession;
+  points: { latitude: number; longitude: number; accuracy: number | null; source: string; recordedAt: string }[];
+  collections: { coinId: string; coinValue: number; latitude: number; longitude: number; collectedAt: string }[];
+}
+
+// Replays take this long regardless of how long the session was
+const REPLAY_DURATION_MS = 20000;
+const REPLAY_TICK_MS = 100;
+
+export default function SessionReplay() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [, navigate] = useLocation();
+  const [progress, setProgress] = useState(1);
+  const [playing, setPlaying] = useState(false);
+
+  const { data, isLoading, error } = useQuery<ReplayData>({
+    queryKey: ["/api/player/session", sessionId, "replay"],
+  });
+
+  const startTime = data ? new Date(data.session.startedAt).getTime() : 0;
+  const endTime = data?.session.endedAt ? new Date(data.session.endedAt).getTime() : startTime;
+  const currentTime = startTime + (endTime - startTime) * progress;
+
+  useEffect(() => {
+    if (!playing) return;
+
+    const interval = setInterval(() => {
+      setProgress((current) => {
+        const next = current + REPLAY_TICK_MS / REPLAY_DURATION_MS;
+        if (next >= 1) {
+          setPlaying(false);
+          return 1;
+        }
+        return next;
+      });
+    }, REPLAY_TICK_MS);
+    return () => clearInterval(interval);
+  }, [playing]);
+
+  const start = useMemo(
+    () => (data ? { latitude: data.session.startLatitude, longitude: data.session.startLongitude } : null),
+    [data]
+  );
+
+  const formatCurrency = (pence: number) => `£${(pence / 100).toFixed(2)}`;
+  const formatTime = (time: string | number) =>
+    new Date(time).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+  if (isLoading) {
+    return (
+      <div className="p-4 md:p-6 space-y-4 max-w-4xl mx-auto">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="w-full aspect-video rounded-xl" />
+      </div>
+    );
+  }
+
+  if (error || !data || !start) {
+    return (
+      <div className="p-4 md:p-6 max-w-4xl mx-auto">
+        <Card className="p-8 text-center">
+          <MapPin className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="font-semibold mb-2">Session not available</h3>
+          <p className="text-muted-foreground mb-4">{error?.message || "This session can't be replayed."}</p>
+          <Button variant="outline" onClick={() => navigate("/player/history")}>
+            Back to history
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const collectedSoFar = data.collections.filter((c) => new Date(c.collectedAt).getTime() <= currentTime);
+
+  return (
+    <div className="p-4 md:p-6 space-y-4 max-w-4xl mx-auto">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/player/history")} data-testid="button-back">
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+        <div>
+          <h1 className="font-display text-2xl font-bold">Session Replay</h1>
+          <p className="text-muted-foreground text-sm">
+            {new Date(data.session.startedAt).toLocaleDateString("en-GB", {
+              weekday: "long",
+              day: "numeric",
+              month: "long",
+            })}{" "}
+            · {data.session.coinsCollected} hearts · {formatCurrency(data.session.totalValue)}
+          </p>
+          <p className="text-muted-foreground text-sm">
+            {formatDistance(data.session.distanceMeters)} walked · {formatActiveTime(data.session.activeSeconds)} active
+            · {formatPace(data.session.paceSecondsPerKm)} · ~{data.session.estimatedSteps.toLocaleString()} steps
+          </p>
+        </div>
+      </div>
+
+      <RouteReplayMap start={start} points={data.points} collections={data.collections} currentTime={currentTime} />
+
+      {data.points.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center">No route was recorded for this session.</p>
+      )}
+
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={() => {
+              if (!playing && progress >= 1) setProgress(0);
+              setPlaying(!playing);
+            }}
+            data-testid="button-replay-play"
+          >
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Slider
+            value={[progress * 1000]}
+            max={1000}
+            step={1}
+            onValueChange={([value]) => {
+              setPlaying(false);
+              setProgress(value / 1000);
+            }}
+            data-testid="slider-replay"
+          />
+          <span className="text-sm font-mono text-muted-foreground whitespace-nowrap">{formatTime(currentTime)}</span>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {collectedSoFar.length} of {data.collections.length} hearts collected ·{" "}
+          {formatCurrency(collectedSoFar.reduce((sum, c) => sum + c.coinValue, 0))}
+        </p>
+      </Card>
+
+      {data.collections.length > 0 && (
+        <div className="space-y-2">
+          {data.collections.map((heart) => (
+            <Card key={heart.coinId} className="p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-accent/20 rounded-full flex items-center justify-center">
+                    <Heart className="w-5 h-5 text-accent" />
+                  </div>
+                  <div>
+                    <p className="font-medium">Heart Collected</p>
+                    <p className="text-sm text-muted-foreground">{formatTime(heart.collectedAt)}</p>
+                  </div>
+                </div>
+                <Badge variant="secondary" className="font-mono">
+                  {formatCurrency(heart.coinValue)}
+                </Badge>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,8 +7,10 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useGeolocation } from "@/hooks/use-geolocation";
+import { useSessionTrack } from "@/hooks/use-session-track";
 import { calculateDistance } from "@/lib/geolocation";
 import { apiRequest } from "@/lib/queryClient";
+import { formatDistance } from "@/lib/walking";
 import { 
   Heart, 
   MapPin, 
@@ -22,14 +24,28 @@ import {
 } from "lucide-react";
 import { CoinMap } from "@/components/CoinMap";
 import type { PlayerSession, GeneratedCoin } from "@shared/schema";
+import { DEFAULT_GAME_CONFIG, type GameConfig } from "@shared/gameConfig";
+import { collectionReach } from "@shared/collectionRadius";
+import type { SponsorBranding } from "@shared/branding";
+
+// Each heart carries the collection radius rules it's held to, since campaign
+// hearts can have their own
+type SponsoredCoin = GeneratedCoin &
+  Pick<GameConfig, "collectionRadiusMeters" | "maxCollectionRadiusMeters"> & { sponsor: SponsorBranding | null };
 
 interface SessionData {
   session: PlayerSession;
-  coins: GeneratedCoin[];
+  coins: SponsoredCoin[];
+  // Hearts sponsors dropped nearby, collectable by whoever gets there first
+  drops: SponsoredCoin[];
   message?: string;
 }
 
-const COLLECTION_RADIUS_METERS = 10;
+interface EarnedBadge {
+  id: string;
+  name: string;
+  description: string;
+}
 
 export default function PlayerSession() {
   const [, navigate] = useLocation();
@@ -49,12 +65,38 @@ export default function PlayerSession() {
     refetchInterval: 5000, // Poll every 5 seconds for coin updates
   });
 
+  // The rules for the region the session started in, for the map's ring.
+  // Whether a heart is in reach uses that heart's own rules, and widens with
+  // the current fix's accuracy exactly as the server's does.
+  const sessionRegion = sessionData?.session?.region;
+  const { data: gameConfig } = useQuery<GameConfig>({
+    queryKey: [sessionRegion ? `/api/config?region=${encodeURIComponent(sessionRegion)}` : "/api/config"],
+    enabled: !!sessionData?.session,
+  });
+  const { radiusMeters: collectionRadius } = collectionReach(gameConfig ?? DEFAULT_GAME_CONFIG, position?.accuracy);
+  const reachOf = useCallback(
+    (coin: SponsoredCoin) => collectionReach(coin, position?.accuracy).radiusMeters,
+    [position?.accuracy]
+  );
+
+  const { flush: flushTrack } = useSessionTrack(sessionData?.session?.id, position);
+
+  // Celebrate achievements a collection or the end of the session earned
+  const announceAchievements = (achievements: EarnedBadge[] | undefined) => {
+    if (!achievements?.length) return;
+    queryClient.invalidateQueries({ queryKey: ["/api/player/achievements"] });
+    achievements.forEach((achievement) => {
+      toast({ title: `Achievement unlocked: ${achievement.name}`, description: achievement.description });
+    });
+  };
+
   const startSession = useMutation({
     mutationFn: async () => {
       if (!position) throw new Error("Location required");
       const response = await apiRequest("POST", "/api/player/session/start", {
         latitude: position.latitude,
         longitude: position.longitude,
+        accuracy: position.accuracy,
       });
       return response.json();
     },
@@ -88,16 +130,23 @@ export default function PlayerSession() {
         coinId,
         latitude: position.latitude,
         longitude: position.longitude,
+        accuracy: position.accuracy,
       });
       return response.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/player/session/active"] });
       queryClient.invalidateQueries({ queryKey: ["/api/player/stats"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/player/history"),
+      });
+      // The server's message names the sponsor; their own message follows it
+      const sponsor: SponsorBranding | null = data.sponsor;
       toast({
         title: "Heart collected!",
-        description: `£${(data.coinValue / 100).toFixed(2)} donated to British Heart Foundation!`,
+        description: sponsor?.message ? `${data.message} "${sponsor.message}"` : data.message,
       });
+      announceAchievements(data.achievements);
       setCollectingCoinId(null);
     },
     onError: (error: Error) => {
@@ -108,13 +157,22 @@ export default function PlayerSession() {
 
   const endSession = useMutation({
     mutationFn: async () => {
+      // Send the last few fixes while the session still accepts them
+      await flushTrack();
       const response = await apiRequest("POST", "/api/player/session/end", {});
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/player/session/active"] });
       queryClient.invalidateQueries({ queryKey: ["/api/player/stats"] });
-      toast({ title: "Session ended", description: "Great job! Check your stats." });
+      queryClient.invalidateQueries({ queryKey: ["/api/player/sessions"] });
+      toast({
+        title: "Session ended",
+        description: data.walk?.distanceMeters
+          ? `Great job! You walked ${formatDistance(data.walk.distanceMeters)}.`
+          : "Great job! Check your stats.",
+      });
+      announceAchievements(data.achievements);
       navigate("/player");
     },
     onError: (error: Error) => {
@@ -130,7 +188,7 @@ export default function PlayerSession() {
     }
   }, [sessionLoading, sessionData, position, startSession, sessionStartAttempted]);
 
-  const handleCollectCoin = useCallback((coin: GeneratedCoin) => {
+  const handleCollectCoin = useCallback((coin: SponsoredCoin) => {
     if (!position) return;
     
     const distance = calculateDistance(
@@ -140,10 +198,11 @@ export default function PlayerSession() {
       coin.longitude
     );
 
-    if (distance > COLLECTION_RADIUS_METERS) {
+    const reach = reachOf(coin);
+    if (distance > reach) {
       toast({
         title: "Too far away",
-        description: `Get within ${COLLECTION_RADIUS_METERS}m to collect (currently ${Math.round(distance)}m away)`,
+        description: `Get within ${reach}m to collect (currently ${Math.round(distance)}m away)`,
         variant: "destructive",
       });
       return;
@@ -151,7 +210,7 @@ export default function PlayerSession() {
 
     setCollectingCoinId(coin.id);
     collectCoin.mutate(coin.id);
-  }, [position, collectCoin, toast]);
+  }, [position, collectCoin, toast, reachOf]);
 
   // Handle geolocation errors
   if (!isSupported) {
@@ -240,6 +299,7 @@ export default function PlayerSession() {
   const session = sessionData?.session;
   const coins = sessionData?.coins || [];
   const activeCoinCount = coins.filter((c) => c.status === "placed").length;
+  const liveCoins = [...coins.filter((c) => c.status === "placed"), ...(sessionData?.drops || [])];
   const collectedCount = session?.coinsCollected || 0;
 
   return (
@@ -312,78 +372,102 @@ export default function PlayerSession() {
           {position && (
             <CoinMap
               userPosition={{ latitude: position.latitude, longitude: position.longitude }}
-              coins={coins}
+              coins={liveCoins}
               onCoinClick={(coinId) => {
-                const coin = coins.find((c) => c.id === coinId);
+                const coin = liveCoins.find((c) => c.id === coinId);
                 if (coin) handleCollectCoin(coin);
               }}
-              collectionRadius={COLLECTION_RADIUS_METERS}
+              collectionRadius={collectionRadius}
             />
           )}
 
           {/* Coin List */}
           <div className="space-y-3">
-            {coins
-              .filter((c) => c.status === "placed")
-              .map((coin) => {
-                const distance = position
-                  ? calculateDistance(
-                      position.latitude,
-                      position.longitude,
-                      coin.latitude,
-                      coin.longitude
-                    )
-                  : 0;
-                const canCollect = distance <= COLLECTION_RADIUS_METERS;
-                const isCollecting = collectingCoinId === coin.id;
-                const expiresIn = new Date(coin.expiresAt).getTime() - Date.now();
-                const expiresMinutes = Math.max(0, Math.floor(expiresIn / 60000));
+            {liveCoins.map((coin) => {
+              const distance = position
+                ? calculateDistance(
+                    position.latitude,
+                    position.longitude,
+                    coin.latitude,
+                    coin.longitude
+                  )
+                : 0;
+              const canCollect = distance <= reachOf(coin);
+              const isCollecting = collectingCoinId === coin.id;
+              const expiresIn = new Date(coin.expiresAt).getTime() - Date.now();
+              const expiresMinutes = Math.max(0, Math.floor(expiresIn / 60000));
 
-                return (
-                  <div
-                    key={coin.id}
-                    className={`flex items-center justify-between p-3 rounded-lg border ${
-                      canCollect ? "border-primary bg-primary/5" : "border-border"
-                    }`}
-                  >
-                    <div className="flex items-center gap-3">
-                      <div
-                        className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                          canCollect ? "bg-primary" : "bg-accent"
-                        }`}
-                      >
+              return (
+                <div
+                  key={coin.id}
+                  className={`flex items-center justify-between p-3 rounded-lg border ${
+                    canCollect ? "border-primary bg-primary/5" : "border-border"
+                  }`}
+                >
+                  <div className="flex items-center gap-3">
+                    <div
+                      className={`w-10 h-10 rounded-full flex items-center justify-center overflow-hidden ${
+                        canCollect ? "bg-primary" : "bg-accent"
+                      }`}
+                    >
+                      {coin.sponsor?.logoUrl ? (
+                        <img
+                          src={coin.sponsor.logoUrl}
+                          alt={coin.sponsor.name}
+                          className="w-8 h-8 object-contain rounded-full bg-background"
+                          data-testid={`img-sponsor-logo-${coin.id}`}
+                        />
+                      ) : (
                         <Heart
                           className={`w-5 h-5 ${
                             canCollect ? "text-primary-foreground" : "text-accent-foreground"
                           }`}
+                          style={!canCollect && coin.sponsor?.color ? { color: coin.sponsor.color } : undefined}
                         />
-                      </div>
-                      <div>
-                        <p className="font-medium">£{(coin.coinValue / 100).toFixed(2)}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {Math.round(distance)}m away · Expires in {expiresMinutes}m
-                        </p>
-                      </div>
+                      )}
                     </div>
-                    <Button
-                      size="sm"
-                      disabled={!canCollect || isCollecting}
-                      onClick={() => handleCollectCoin(coin)}
-                      data-testid={`button-collect-${coin.id}`}
-                    >
-                      {isCollecting ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : canCollect ? (
-                        "Collect"
-                      ) : (
-                        "Too far"
+                    <div>
+                      <p className="font-medium">
+                        £{(coin.coinValue / 100).toFixed(2)}
+                        {coin.status === "available" && (
+                          <Badge variant="secondary" className="ml-2">Sponsor drop</Badge>
+                        )}
+                      </p>
+                      {coin.sponsor && (
+                        <p
+                          className="text-xs font-medium"
+                          style={coin.sponsor.color ? { color: coin.sponsor.color } : undefined}
+                          title={coin.sponsor.message ?? undefined}
+                          data-testid={`text-sponsor-${coin.id}`}
+                        >
+                          Sponsored by {coin.sponsor.name}
+                        </p>
                       )}
-                    </Button>
+                      <p className="text-xs text-muted-foreground">
+                        {Math.round(distance)}m away · Expires in{" "}
+                        {expiresMinutes >= 120 ? `${Math.floor(expiresMinutes / 60)}h` : `${expiresMinutes}m`}
+                      </p>
+                    </div>
                   </div>
-                );
-              })}
+                  <Button
+                    size="sm"
+                    disabled={!canCollect || isCollecting}
+                    onClick={() => handleCollectCoin(coin)}
+                    data-testid={`button-collect-${coin.id}`}
+                  >
+                    {isCollecting ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : canCollect ? (
+                      "Collect"
+                    ) : (
+                      "Too far"
+                    )}
+                  </Button>
+                </div>
+              );
+            })}
 
-            {activeCoinCount === 0 && coins.length > 0 && (
+            {liveCoins.length === 0 && coins.length > 0 && (
               <div className="text-center py-8">
                 <CheckCircle className="w-12 h-12 text-primary mx-auto mb-2" />
                 <p className="font-medium">All hearts collected!</p>
@@ -396,7 +480,7 @@ export default function PlayerSession() {
               </div>
             )}
 
-            {activeCoinCount === 0 && coins.length === 0 && (
+            {liveCoins.length === 0 && coins.length === 0 && (
               <div className="text-center py-8">
                 <Heart className="w-12 h-12 text-muted-foreground mx-auto mb-2" />
                 <p className="font-medium">No hearts available right now</p>
@@ -417,7 +501,9 @@ export default function PlayerSession() {
             <p>
               Location: {position.latitude.toFixed(6)}, {position.longitude.toFixed(6)}
             </p>
-            <p>Accuracy: {Math.round(position.accuracy)}m</p>
+            <p>
+              Accuracy: {Math.round(position.accuracy)}m · collect within {collectionRadius}m
+            </p>
           </div>
         )}
       </div>
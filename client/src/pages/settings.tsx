@@ -18,27 +18,37 @@ import {
   Shield
 } from "lucide-react";
 
+type Role = "player" | "sponsor" | "admin";
+
 interface SettingsProps {
-  currentRole: "player" | "sponsor";
+  currentRole: Role;
+  isAdmin: boolean;
   onRoleSwitch: () => void;
 }
 
-export default function Settings({ currentRole, onRoleSwitch }: SettingsProps) {
+const roleLabels: Record<Role, string> = {
+  player: "Player",
+  sponsor: "Sponsor",
+  admin: "Admin",
+};
+
+export default function Settings({ currentRole, isAdmin, onRoleSwitch }: SettingsProps) {
   const { user, logout, isLoggingOut } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const otherRole: Role = currentRole === "player" ? "sponsor" : "player";
+
   const switchRole = useMutation({
-    mutationFn: async () => {
-      const newRole = currentRole === "player" ? "sponsor" : "player";
+    mutationFn: async (newRole: Role) => {
       const response = await apiRequest("POST", "/api/user/role/switch", { role: newRole });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, newRole) => {
       queryClient.invalidateQueries({ queryKey: ["/api/user/role"] });
       toast({
         title: "Role switched!",
-        description: `You're now in ${currentRole === "player" ? "Sponsor" : "Player"} mode.`,
+        description: `You're now in ${roleLabels[newRole]} mode.`,
       });
       onRoleSwitch();
     },
@@ -87,11 +97,16 @@ export default function Settings({ currentRole, onRoleSwitch }: SettingsProps) {
                   <MapPin className="w-3 h-3 mr-1" />
                   Player
                 </>
-              ) : (
+              ) : currentRole === "sponsor" ? (
                 <>
                   <Heart className="w-3 h-3 mr-1" />
                   Sponsor
                 </>
+              ) : (
+                <>
+                  <Shield className="w-3 h-3 mr-1" />
+                  Admin
+                </>
               )}
             </Badge>
           </div>
@@ -109,7 +124,7 @@ export default function Settings({ currentRole, onRoleSwitch }: SettingsProps) {
         </p>
         <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
           <div className="flex items-center gap-3">
-            {currentRole === "player" ? (
+            {otherRole === "sponsor" ? (
               <div className="w-10 h-10 bg-accent/20 rounded-full flex items-center justify-center">
                 <Heart className="w-5 h-5 text-accent" />
               </div>
@@ -120,17 +135,17 @@ export default function Settings({ currentRole, onRoleSwitch }: SettingsProps) {
             )}
             <div>
               <p className="font-medium">
-                Switch to {currentRole === "player" ? "Sponsor" : "Player"} Mode
+                Switch to {roleLabels[otherRole]} Mode
               </p>
               <p className="text-xs text-muted-foreground">
-                {currentRole === "player"
+                {otherRole === "sponsor"
                   ? "Purchase hearts and track donations"
                   : "Collect hearts and earn points"}
               </p>
             </div>
           </div>
           <Button
-            onClick={() => switchRole.mutate()}
+            onClick={() => switchRole.mutate(otherRole)}
             disabled={switchRole.isPending}
             data-testid="button-switch-role"
           >
@@ -139,6 +154,32 @@ export default function Settings({ currentRole, onRoleSwitch }: SettingsProps) {
         </div>
       </Card>
 
+      {/* Back Office */}
+      {isAdmin && currentRole !== "admin" && (
+        <Card className="p-6">
+          <h3 className="font-semibold mb-4 flex items-center gap-2">
+            <Shield className="w-5 h-5" />
+            Back Office
+          </h3>
+          <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
+            <div>
+              <p className="font-medium">Admin Console</p>
+              <p className="text-xs text-muted-foreground">
+                Inspect users, sessions, coins and escrow, and fix data
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => switchRole.mutate("admin")}
+              disabled={switchRole.isPending}
+              data-testid="button-switch-admin"
+            >
+              Open
+            </Button>
+          </div>
+        </Card>
+      )}
+
       {/* Appearance */}
       <Card className="p-6">
         <h3 className="font-semibold mb-4 flex items-center gap-2">
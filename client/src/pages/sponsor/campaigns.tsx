@@ -0,0 +1,434 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BrandingForm } from "@/components/BrandingForm";
+import { Megaphone, Archive, Heart } from "lucide-react";
+import type { Campaign, CoinInventory, PlacementZone } from "@shared/schema";
+
+interface CampaignSummary extends Campaign {
+  stock: { coinValue: number; quantity: number }[];
+  coinsPlaced: number;
+  coinsCollected: number;
+  donated: number;
+  spentToday: number;
+  status: "scheduled" | "running" | "outside_hours" | "capped" | "ended";
+}
+
+const STATUS_LABELS: Record<CampaignSummary["status"], string> = {
+  scheduled: "Scheduled",
+  running: "Running",
+  outside_hours: "Outside hours",
+  capped: "Daily cap reached",
+  ended: "Ended",
+};
+
+// Match the server's limit so the form can't submit a campaign it will reject
+const MAX_TARGET_ZONES = 10;
+
+const HOURS = Array.from({ length: 25 }, (_, hour) => hour);
+const formatHour = (hour: number) => `${String(hour % 24).padStart(2, "0")}:00`;
+const formatCurrency = (pence: number) => `£${(pence / 100).toFixed(2)}`;
+const today = () => new Date().toLocaleDateString("en-CA");
+
+export default function SponsorCampaigns() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState("");
+  const [dailyCap, setDailyCap] = useState("");
+  const [startHour, setStartHour] = useState(0);
+  const [endHour, setEndHour] = useState(24);
+  const [targetZoneIds, setTargetZoneIds] = useState<string[]>([]);
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const { data: campaigns, isLoading } = useQuery<CampaignSummary[]>({
+    queryKey: ["/api/sponsor/campaigns"],
+  });
+
+  const { data: zones } = useQuery<PlacementZone[]>({
+    queryKey: ["/api/sponsor/zones"],
+  });
+
+  const { data: stats } = useQuery<{ inventory: CoinInventory[] }>({
+    queryKey: ["/api/sponsor/stats"],
+  });
+
+  const createCampaign = useMutation({
+    mutationFn: async () => {
+      // The end date is inclusive, so the campaign runs until the next midnight
+      const endsAt = new Date(`${endDate}T00:00`);
+      endsAt.setDate(endsAt.getDate() + 1);
+      const response = await apiRequest("POST", "/api/sponsor/campaigns", {
+        name,
+        startsAt: new Date(`${startDate}T00:00`).toISOString(),
+        endsAt: endsAt.toISOString(),
+        dailySpendCap: dailyCap ? Math.round(parseFloat(dailyCap) * 100) : null,
+        startHour,
+        endHour,
+        timezone,
+        targetZoneIds,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setName("");
+      setEndDate("");
+      setDailyCap("");
+      setTargetZoneIds([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/sponsor/campaigns"] });
+      toast({ title: "Campaign created", description: "Allocate hearts to it to start placing them." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't create campaign", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleZone = (zoneId: string, checked: boolean) => {
+    setTargetZoneIds(checked ? [...targetZoneIds, zoneId] : targetZoneIds.filter((id) => id !== zoneId));
+  };
+
+  const capValid = !dailyCap || parseFloat(dailyCap) >= 0.1;
+  const canSave =
+    name.trim().length > 0 && !!startDate && !!endDate && endDate >= startDate && startHour !== endHour % 24 && capValid;
+  const generalStock = (stats?.inventory ?? []).filter(
+    (inv) => !inv.challengeId && !inv.zoneId && !inv.campaignId && inv.quantity > 0
+  );
+
+  return (
+    <div className="p-4 md:p-6 space-y-6 max-w-4xl mx-auto">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+          <Megaphone className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h1 className="font-display text-2xl font-bold">Campaigns</h1>
+          <p className="text-muted-foreground text-sm">
+            Allocate hearts to a campaign to control when, where and how fast they're placed.
+          </p>
+        </div>
+      </div>
+
+      <Card className="p-4">
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canSave) createCampaign.mutate();
+          }}
+        >
+          <Input
+            placeholder="Campaign name, e.g. Summer fun run"
+            value={name}
+            maxLength={60}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-campaign-name"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Starts</span>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} data-testid="input-campaign-start" />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Ends (inclusive)</span>
+              <Input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                data-testid="input-campaign-end"
+              />
+            </label>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Daily cap (£, blank for none)</span>
+              <Input
+                type="number"
+                min="0.1"
+                step="0.1"
+                value={dailyCap}
+                onChange={(e) => setDailyCap(e.target.value)}
+                data-testid="input-campaign-cap"
+              />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>From</span>
+              <Select value={String(startHour)} onValueChange={(value) => setStartHour(parseInt(value))}>
+                <SelectTrigger data-testid="select-campaign-start-hour">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOURS.slice(0, 24).map((hour) => (
+                    <SelectItem key={hour} value={String(hour)}>
+                      {formatHour(hour)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Until</span>
+              <Select value={String(endHour)} onValueChange={(value) => setEndHour(parseInt(value))}>
+                <SelectTrigger data-testid="select-campaign-end-hour">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOURS.slice(1).map((hour) => (
+                    <SelectItem key={hour} value={String(hour)}>
+                      {formatHour(hour)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Times are in {timezone}. An end before the start runs overnight.
+          </p>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Target zones</p>
+            {!zones?.length ? (
+              <p className="text-xs text-muted-foreground">
+                No zones yet. Without target zones, the campaign's hearts are placed around any player.
+              </p>
+            ) : (
+              <div className="grid sm:grid-cols-2 gap-2">
+                {zones.map((zone) => (
+                  <label key={zone.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={targetZoneIds.includes(zone.id)}
+                      disabled={!targetZoneIds.includes(zone.id) && targetZoneIds.length >= MAX_TARGET_ZONES}
+                      onCheckedChange={(checked) => toggleZone(zone.id, checked === true)}
+                      data-testid={`checkbox-campaign-zone-${zone.id}`}
+                    />
+                    {zone.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <Button type="submit" disabled={!canSave || createCampaign.isPending} data-testid="button-create-campaign">
+            Create campaign
+          </Button>
+        </form>
+      </Card>
+
+      {isLoading ? (
+        <Skeleton className="h-40" />
+      ) : !campaigns?.length ? (
+        <Card className="p-8 text-center">
+          <Megaphone className="w-12 h-12 text-muted-foreground mx-auto mb-4 opacity-50" />
+          <h3 className="font-semibold mb-2">No campaigns yet</h3>
+          <p className="text-muted-foreground text-sm">Hearts outside a campaign are placed anywhere, at any time.</p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {campaigns.map((campaign) => (
+            <CampaignCard key={campaign.id} campaign={campaign} zones={zones ?? []} generalStock={generalStock} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A campaign's schedule and allocation, with a form to allocate or release hearts
+function CampaignCard({
+  campaign,
+  zones,
+  generalStock,
+}: {
+  campaign: CampaignSummary;
+  zones: PlacementZone[];
+  generalStock: CoinInventory[];
+}) {
+  const { toast } = useToast();
+  const [direction, setDirection] = useState<"assign" | "release" | null>(null);
+  const [coinValue, setCoinValue] = useState("");
+  const [quantity, setQuantity] = useState("10");
+  const [showBranding, setShowBranding] = useState(false);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/sponsor/campaigns"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sponsor/stats"] });
+  };
+
+  const moveInventory = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/sponsor/campaigns/${campaign.id}/inventory`, {
+        coinValue: parseInt(coinValue),
+        quantity: parseInt(quantity),
+        direction,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: direction === "assign" ? "Hearts allocated to campaign" : "Hearts returned to inventory" });
+      setDirection(null);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update campaign", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const archive = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/sponsor/campaigns/${campaign.id}/archive`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Campaign archived", description: "Its hearts are back in your general inventory." });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't archive campaign", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const options = direction === "assign" ? generalStock : campaign.stock;
+  const available = options.find((row) => row.coinValue === parseInt(coinValue))?.quantity ?? 0;
+  const quantityValid = parseInt(quantity) >= 1 && parseInt(quantity) <= available;
+
+  const open = (next: "assign" | "release") => {
+    const rows = next === "assign" ? generalStock : campaign.stock;
+    setDirection(direction === next ? null : next);
+    setCoinValue(String(rows[0]?.coinValue ?? ""));
+  };
+
+  const targets = campaign.targetZoneIds
+    .map((zoneId) => zones.find((zone) => zone.id === zoneId)?.name)
+    .filter(Boolean);
+  const allDay = campaign.startHour === 0 && campaign.endHour === 24;
+
+  return (
+    <Card className="p-4 space-y-3" data-testid={`card-campaign-${campaign.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="flex items-center gap-2">
+            <p className="font-medium">{campaign.name}</p>
+            <Badge variant={campaign.status === "running" ? "default" : "secondary"}>{STATUS_LABELS[campaign.status]}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {new Date(campaign.startsAt).toLocaleDateString()} – {new Date(campaign.endsAt).toLocaleDateString()} ·{" "}
+            {allDay ? "all day" : `${formatHour(campaign.startHour)}–${formatHour(campaign.endHour)}`} ·{" "}
+            {campaign.dailySpendCap === null
+              ? "no daily cap"
+              : `${formatCurrency(campaign.spentToday)} of ${formatCurrency(campaign.dailySpendCap)} today`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {targets.length > 0 ? `Targets ${targets.join(", ")}` : "Anywhere"} · {campaign.coinsPlaced} placed ·{" "}
+            {campaign.coinsCollected} collected · {formatCurrency(campaign.donated)} donated
+          </p>
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          title="Archive campaign"
+          disabled={archive.isPending}
+          onClick={() => archive.mutate()}
+          data-testid={`button-archive-campaign-${campaign.id}`}
+        >
+          <Archive className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {campaign.stock.length === 0 ? (
+          <span className="text-sm text-muted-foreground">No hearts allocated</span>
+        ) : (
+          campaign.stock.map((row) => (
+            <Badge key={row.coinValue} variant="secondary" className="font-mono">
+              <Heart className="w-3 h-3 mr-1" />
+              {row.quantity} × {formatCurrency(row.coinValue)}
+            </Badge>
+          ))
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant={direction === "assign" ? "secondary" : "outline"}
+          disabled={generalStock.length === 0}
+          onClick={() => open("assign")}
+          data-testid={`button-assign-campaign-${campaign.id}`}
+        >
+          Allocate hearts
+        </Button>
+        <Button
+          size="sm"
+          variant={direction === "release" ? "secondary" : "outline"}
+          disabled={campaign.stock.length === 0}
+          onClick={() => open("release")}
+          data-testid={`button-release-campaign-${campaign.id}`}
+        >
+          Release hearts
+        </Button>
+        <Button
+          size="sm"
+          variant={showBranding ? "secondary" : "outline"}
+          onClick={() => setShowBranding(!showBranding)}
+          data-testid={`button-branding-campaign-${campaign.id}`}
+        >
+          Branding
+        </Button>
+      </div>
+
+      {showBranding && (
+        <BrandingForm
+          endpoint={`/api/sponsor/campaigns/${campaign.id}/branding`}
+          branding={campaign}
+          onSaved={() => queryClient.invalidateQueries({ queryKey: ["/api/sponsor/campaigns"] })}
+          hint="Anything left unset uses your sponsor branding from the dashboard."
+          testIdPrefix={`campaign-branding-${campaign.id}`}
+        />
+      )}
+
+      {direction && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (quantityValid) moveInventory.mutate();
+          }}
+        >
+          <Select value={coinValue} onValueChange={setCoinValue}>
+            <SelectTrigger className="w-40" data-testid="select-campaign-value">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((row) => (
+                <SelectItem key={row.coinValue} value={String(row.coinValue)}>
+                  {formatCurrency(row.coinValue)} ({row.quantity})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="1"
+            max={available}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className="w-24"
+            data-testid="input-campaign-quantity"
+          />
+          <Button type="submit" size="sm" disabled={moveInventory.isPending || !quantityValid} data-testid="button-move-campaign">
+            {direction === "assign" ? "Allocate" : "Release"}
+          </Button>
+        </form>
+      )}
+    </Card>
+  );
+}
@@ -1,9 +1,16 @@
-import { useQuery } from "@tanstack/react-query";
-import { Link } from "wouter";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { BrandingForm } from "@/components/BrandingForm";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
   Heart, 
   Package, 
@@ -11,9 +18,14 @@ import {
   Plus,
   TrendingUp,
   Clock,
-  CheckCircle
+  CheckCircle,
+  Receipt,
+  Loader2,
+  Flag,
+  Megaphone,
+  Palette
 } from "lucide-react";
-import type { SponsorProfile, CoinInventory, GeneratedCoin } from "@shared/schema";
+import type { SponsorProfile, CoinInventory, GeneratedCoin, PurchaseOrder, CharityPayout, Campaign } from "@shared/schema";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts";
 
 interface SponsorStats {
@@ -28,11 +40,107 @@ interface SponsorStats {
   };
 }
 
+interface PaymentStatus {
+  status: "pending" | "paid" | "expired";
+  quantity: number;
+  coinValue: number;
+  amount: number;
+}
+
+interface OpenChallenge {
+  id: string;
+  name: string;
+  description: string | null;
+  targetAmount: number;
+  endsAt: string;
+  memberCount: number;
+  raised: number;
+}
+
+type SponsorOrder = PurchaseOrder & { refundableQuantity: number };
+
+interface CampaignSummary extends Campaign {
+  stock: { coinValue: number; quantity: number }[];
+  coinsPlaced: number;
+  coinsCollected: number;
+  donated: number;
+  spentToday: number;
+  status: "scheduled" | "running" | "outside_hours" | "capped" | "ended";
+}
+
+const CAMPAIGN_STATUS_LABELS: Record<CampaignSummary["status"], string> = {
+  scheduled: "Scheduled",
+  running: "Running",
+  outside_hours: "Outside hours",
+  capped: "Daily cap reached",
+  ended: "Ended",
+};
+
+interface SponsorPayout {
+  payout: CharityPayout;
+  sponsorAmount: number;
+  lines: { escrowId: string; coinId: string; amount: number }[];
+}
+
 export default function SponsorDashboard() {
+  const { toast } = useToast();
+  const checkoutSessionId = new URLSearchParams(useSearch()).get("session_id");
+
   const { data: stats, isLoading } = useQuery<SponsorStats>({
     queryKey: ["/api/sponsor/stats"],
   });
 
+  const { data: orders } = useQuery<SponsorOrder[]>({
+    queryKey: ["/api/sponsor/orders"],
+  });
+
+  const { data: payouts } = useQuery<SponsorPayout[]>({
+    queryKey: ["/api/sponsor/payouts"],
+  });
+
+  const requestRefund = useMutation({
+    mutationFn: async (data: { purchaseOrderId: string; quantity: number }) => {
+      const response = await apiRequest("POST", "/api/sponsor/refunds", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sponsor/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sponsor/orders"] });
+      toast({ title: "Refund Requested", description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Refund Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // After returning from Stripe Checkout, read back the order status
+  const { data: payment } = useQuery<PaymentStatus>({
+    queryKey: [`/api/sponsor/payment-success?session_id=${encodeURIComponent(checkoutSessionId ?? "")}`],
+    enabled: !!checkoutSessionId,
+  });
+
+  useEffect(() => {
+    if (!payment) return;
+    if (payment.status === "paid") {
+      queryClient.invalidateQueries({ queryKey: ["/api/sponsor/stats"] });
+      toast({
+        title: "Purchase Successful",
+        description: `${payment.quantity} hearts worth £${(payment.coinValue / 100).toFixed(2)} each have been added to your inventory.`,
+      });
+    } else if (payment.status === "expired") {
+      toast({
+        title: "Checkout Expired",
+        description: "No payment was taken. You can start a new purchase at any time.",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Payment Pending",
+        description: "Your hearts will be added once payment is confirmed.",
+      });
+    }
+  }, [payment, toast]);
+
   if (isLoading) {
     return <DashboardSkeleton />;
   }
@@ -188,7 +296,15 @@ export default function SponsorDashboard() {
                     </div>
                     <div>
                       <p className="font-medium">{formatCurrency(inv.coinValue)} hearts</p>
-                      <p className="text-xs text-muted-foreground">Per heart value</p>
+                      <p className="text-xs text-muted-foreground">
+                        {inv.challengeId
+                          ? "Reserved for a challenge"
+                          : inv.zoneId
+                          ? "Attached to a zone"
+                          : inv.campaignId
+                          ? "Allocated to a campaign"
+                          : "Per heart value"}
+                      </p>
                     </div>
                   </div>
                   <Badge variant="secondary">{inv.quantity} available</Badge>
@@ -266,6 +382,109 @@ export default function SponsorDashboard() {
         )}
       </Card>
 
+      <BrandingCard profile={stats.profile} />
+
+      <CampaignsCard />
+
+      <ChallengesCard
+        inventory={stats.inventory.filter((inv) => !inv.challengeId && !inv.zoneId && !inv.campaignId && inv.quantity > 0)}
+      />
+
+      {/* Orders & Payouts */}
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Card className="p-6">
+          <h3 className="font-semibold mb-4">Orders</h3>
+          {orders && orders.length > 0 ? (
+            <div className="space-y-3">
+              {orders.slice(0, 5).map((order) => {
+                const unplaced =
+                  stats.inventory.find(
+                    (inv) => inv.coinValue === order.coinValue && !inv.challengeId && !inv.zoneId && !inv.campaignId
+                  )?.quantity || 0;
+                const refundable = Math.min(order.refundableQuantity, unplaced);
+
+                return (
+                  <div
+                    key={order.id}
+                    className="flex items-center justify-between p-3 rounded-lg border border-border"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+                        <Receipt className="w-5 h-5 text-primary" />
+                      </div>
+                      <div>
+                        <p className="font-medium">
+                          {order.quantity} × {formatCurrency(order.coinValue)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency(order.amount)} · {new Date(order.createdAt).toLocaleDateString()}
+                          {order.refundedQuantity > 0 && ` · ${order.refundedQuantity} refunded`}
+                        </p>
+                      </div>
+                    </div>
+                    {refundable > 0 ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={requestRefund.isPending}
+                        onClick={() =>
+                          requestRefund.mutate({ purchaseOrderId: order.id, quantity: refundable })
+                        }
+                        data-testid={`button-refund-${order.id}`}
+                      >
+                        {requestRefund.isPending ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          `Refund ${refundable}`
+                        )}
+                      </Button>
+                    ) : (
+                      <Badge variant="outline">{order.status}</Badge>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Receipt className="w-10 h-10 mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No orders yet</p>
+            </div>
+          )}
+        </Card>
+
+        <Card className="p-6">
+          <h3 className="font-semibold mb-4">Charity Payouts</h3>
+          {payouts && payouts.length > 0 ? (
+            <div className="space-y-3">
+              {payouts.slice(0, 5).map(({ payout, sponsorAmount, lines }) => (
+                <div
+                  key={payout.id}
+                  className="flex items-center justify-between p-3 rounded-lg border border-border"
+                >
+                  <div>
+                    <p className="font-medium">{formatCurrency(sponsorAmount)} from your hearts</p>
+                    <p className="text-xs text-muted-foreground">
+                      {lines.length} hearts · paid out{" "}
+                      {new Date(payout.paidAt ?? payout.periodEnd).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Badge variant={payout.status === "paid" ? "default" : "secondary"}>
+                    {payout.status}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Heart className="w-10 h-10 mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No payouts yet</p>
+              <p className="text-xs">Collected hearts are paid to the charity daily</p>
+            </div>
+          )}
+        </Card>
+      </div>
+
       {/* CTA */}
       <Card className="p-6 bg-gradient-to-r from-primary/10 to-accent/10">
         <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
@@ -292,6 +511,216 @@ export default function SponsorDashboard() {
   );
 }
 
+// How players see the sponsor's hearts: on the map, in the session list and
+// when they collect one
+function BrandingCard({ profile }: { profile: SponsorProfile }) {
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Palette className="w-5 h-5 text-primary" />
+        <h3 className="font-semibold">Heart Branding</h3>
+      </div>
+      <BrandingForm
+        endpoint="/api/sponsor/branding"
+        branding={profile}
+        onSaved={() => queryClient.invalidateQueries({ queryKey: ["/api/sponsor/stats"] })}
+        hint={`Players see "Sponsored by ${profile.companyName || "A Give Go sponsor"}" with your logo and message on your hearts.`}
+        testIdPrefix="sponsor-branding"
+      />
+    </Card>
+  );
+}
+
+// Each campaign's results and today's spend against its cap
+function CampaignsCard() {
+  const { data: campaigns } = useQuery<CampaignSummary[]>({
+    queryKey: ["/api/sponsor/campaigns"],
+  });
+
+  const formatCurrency = (pence: number) => `£${(pence / 100).toFixed(2)}`;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold">Campaigns</h3>
+        <Button asChild size="sm" variant="outline" data-testid="button-manage-campaigns">
+          <Link href="/sponsor/campaigns">Manage</Link>
+        </Button>
+      </div>
+      {!campaigns?.length ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Megaphone className="w-10 h-10 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No campaigns yet</p>
+          <p className="text-xs">Hearts outside a campaign are placed anywhere, at any time</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {campaigns.map((campaign) => {
+            const allocated = campaign.stock.reduce((sum, row) => sum + row.quantity, 0);
+            const collectionRate = campaign.coinsPlaced > 0 ? (campaign.coinsCollected / campaign.coinsPlaced) * 100 : 0;
+            return (
+              <div key={campaign.id} className="p-3 rounded-lg border border-border space-y-2" data-testid={`row-campaign-${campaign.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{campaign.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(campaign.startsAt).toLocaleDateString()} – {new Date(campaign.endsAt).toLocaleDateString()} ·{" "}
+                      {allocated} hearts allocated
+                    </p>
+                  </div>
+                  <Badge variant={campaign.status === "running" ? "default" : "secondary"}>
+                    {CAMPAIGN_STATUS_LABELS[campaign.status]}
+                  </Badge>
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-sm">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Placed</p>
+                    <p className="font-medium">{campaign.coinsPlaced}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Collected</p>
+                    <p className="font-medium">
+                      {campaign.coinsCollected} ({collectionRate.toFixed(0)}%)
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Donated</p>
+                    <p className="font-medium">{formatCurrency(campaign.donated)}</p>
+                  </div>
+                </div>
+                {campaign.dailySpendCap !== null && (
+                  <div className="space-y-1">
+                    <Progress value={Math.min(100, (campaign.spentToday / campaign.dailySpendCap) * 100)} />
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(campaign.spentToday)} of {formatCurrency(campaign.dailySpendCap)} spent today
+                    </p>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// Running challenges, with a form to reserve general stock for one
+function ChallengesCard({ inventory }: { inventory: CoinInventory[] }) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [coinValue, setCoinValue] = useState("");
+  const [quantity, setQuantity] = useState("10");
+
+  const { data: challenges } = useQuery<OpenChallenge[]>({
+    queryKey: ["/api/sponsor/challenges"],
+  });
+
+  const reserve = useMutation({
+    mutationFn: async (challengeId: string) => {
+      const response = await apiRequest("POST", `/api/sponsor/challenges/${challengeId}/reserve`, {
+        coinValue: parseInt(coinValue),
+        quantity: parseInt(quantity),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/sponsor/stats"] });
+      toast({ title: "Hearts reserved", description: "Only this challenge's members can collect them." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't reserve hearts", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatCurrency = (pence: number) => `£${(pence / 100).toFixed(2)}`;
+  const available = inventory.find((inv) => inv.coinValue === parseInt(coinValue))?.quantity ?? 0;
+  const quantityValid = parseInt(quantity) >= 1 && parseInt(quantity) <= available;
+
+  return (
+    <Card className="p-6">
+      <h3 className="font-semibold mb-1">Challenges</h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Back a team's fundraising challenge by reserving hearts that only its members can collect. Unused hearts return
+        to your inventory when the challenge ends.
+      </p>
+      {!challenges?.length ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Flag className="w-10 h-10 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No challenges running right now</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {challenges.map((challenge) => (
+            <div key={challenge.id} className="p-3 rounded-lg border border-border space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">{challenge.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {challenge.memberCount} {challenge.memberCount === 1 ? "member" : "members"} · ends{" "}
+                    {new Date(challenge.endsAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant={selectedId === challenge.id ? "secondary" : "outline"}
+                  disabled={inventory.length === 0}
+                  onClick={() => {
+                    setSelectedId(selectedId === challenge.id ? null : challenge.id);
+                    setCoinValue(String(inventory[0]?.coinValue ?? ""));
+                  }}
+                  data-testid={`button-back-challenge-${challenge.id}`}
+                >
+                  Reserve hearts
+                </Button>
+              </div>
+              <Progress value={Math.min(100, (challenge.raised / challenge.targetAmount) * 100)} />
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(challenge.raised)} of {formatCurrency(challenge.targetAmount)}
+              </p>
+              {selectedId === challenge.id && (
+                <form
+                  className="flex gap-2 pt-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (quantityValid) reserve.mutate(challenge.id);
+                  }}
+                >
+                  <Select value={coinValue} onValueChange={setCoinValue}>
+                    <SelectTrigger className="w-40" data-testid="select-reserve-value">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {inventory.map((inv) => (
+                        <SelectItem key={inv.id} value={String(inv.coinValue)}>
+                          {formatCurrency(inv.coinValue)} ({inv.quantity})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="1"
+                    max={available}
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                    className="w-24"
+                    data-testid="input-reserve-quantity"
+                  />
+                  <Button type="submit" size="sm" disabled={reserve.isPending || !quantityValid} data-testid="button-reserve">
+                    Reserve
+                  </Button>
+                </form>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
 function DashboardSkeleton() {
   return (
     <div className="p-4 md:p-6 space-y-6 max-w-6xl mx-auto">
@@ -45,6 +45,11 @@ export default function SponsorPurchase() {
       return response.json();
     },
     onSuccess: (data) => {
+      if (data.url) {
+        // Hand over to Stripe Checkout; inventory is credited once payment completes
+        window.location.href = data.url;
+        return;
+      }
       if (data.success) {
         queryClient.invalidateQueries({ queryKey: ["/api/sponsor/stats"] });
         toast({
@@ -251,7 +256,7 @@ export default function SponsorPurchase() {
               </Button>
 
               <p className="text-xs text-center text-muted-foreground">
-                Sandbox Mode - No real payment required
+                Payments are processed securely by Stripe
               </p>
             </Card>
           </div>
@@ -1,29 +1,73 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { SponsorMap } from "@/components/SponsorMap";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
   MapPin, 
   CheckCircle, 
   Clock, 
   Package,
-  Heart
+  Heart,
+  Plus
 } from "lucide-react";
-import type { GeneratedCoin } from "@shared/schema";
+import type { CoinInventory, GeneratedCoin } from "@shared/schema";
 
 type CoinFilter = "all" | "placed" | "collected" | "expired";
 
+// Drops default to lasting a weekend
+const DEFAULT_DROP_HOURS = 48;
+
+// A Date as the local "YYYY-MM-DDTHH:mm" a datetime-local input expects
+function toDateTimeLocal(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+}
+
 export default function SponsorTracking() {
+  const { toast } = useToast();
   const [filter, setFilter] = useState<CoinFilter>("all");
+  const [dropping, setDropping] = useState(false);
+  const [dropLocation, setDropLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [dropValue, setDropValue] = useState("");
+  const [dropExpiresAt, setDropExpiresAt] = useState("");
 
   const { data: coins, isLoading } = useQuery<GeneratedCoin[]>({
     queryKey: ["/api/sponsor/coins"],
     refetchInterval: 10000, // Poll for updates
   });
 
+  const { data: stats } = useQuery<{ inventory: CoinInventory[] }>({
+    queryKey: ["/api/sponsor/stats"],
+  });
+
+  const dropCoin = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/sponsor/drops", {
+        ...dropLocation,
+        coinValue: parseInt(dropValue),
+        expiresAt: new Date(dropExpiresAt).toISOString(),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setDropLocation(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/sponsor/coins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sponsor/stats"] });
+      toast({ title: "Heart dropped", description: "Any player nearby can now find and collect it." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't drop heart", description: error.message, variant: "destructive" });
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="p-4 md:p-6 space-y-4 max-w-4xl mx-auto">
@@ -39,22 +83,36 @@ export default function SponsorTracking() {
   }
 
   const allCoins = coins || [];
+  // Dropped hearts ("available") count as active
+  const isActive = (c: GeneratedCoin) => c.status === "placed" || c.status === "available";
   const filteredCoins = filter === "all" 
     ? allCoins 
+    : filter === "placed"
+    ? allCoins.filter(isActive)
     : allCoins.filter((c) => c.status === filter);
 
   const counts = {
     all: allCoins.length,
-    placed: allCoins.filter((c) => c.status === "placed").length,
+    placed: allCoins.filter(isActive).length,
     collected: allCoins.filter((c) => c.status === "collected").length,
     expired: allCoins.filter((c) => c.status === "expired").length,
   };
 
   const formatCurrency = (pence: number) => `£${(pence / 100).toFixed(2)}`;
+  const generalStock = (stats?.inventory ?? []).filter((inv) => !inv.challengeId && !inv.zoneId && !inv.campaignId && inv.quantity > 0);
+  const canDrop = dropLocation !== null && dropValue !== "" && dropExpiresAt !== "";
+
+  const toggleDropping = () => {
+    setDropping(!dropping);
+    setDropLocation(null);
+    setDropValue(String(generalStock[0]?.coinValue ?? ""));
+    setDropExpiresAt(toDateTimeLocal(new Date(Date.now() + DEFAULT_DROP_HOURS * 60 * 60 * 1000)));
+  };
 
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "placed":
+      case "available":
         return <MapPin className="w-4 h-4 text-accent" />;
       case "collected":
         return <CheckCircle className="w-4 h-4 text-chart-3" />;
@@ -74,7 +132,7 @@ export default function SponsorTracking() {
       case "expired":
         return <Badge variant="outline">Expired</Badge>;
       default:
-        return <Badge variant="secondary">Available</Badge>;
+        return <Badge variant="secondary">Dropped</Badge>;
     }
   };
 
@@ -96,6 +154,17 @@ export default function SponsorTracking() {
           <div className="flex items-center gap-2">
             <MapPin className="w-4 h-4 text-primary" />
             <span className="font-medium">Live Heart Map</span>
+            <Button
+              size="sm"
+              variant={dropping ? "secondary" : "outline"}
+              className="ml-2"
+              disabled={!dropping && generalStock.length === 0}
+              onClick={toggleDropping}
+              data-testid="button-toggle-drop"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              {dropping ? "Cancel drop" : "Drop a heart"}
+            </Button>
           </div>
           <div className="flex items-center gap-4 text-xs">
             <div className="flex items-center gap-1">
@@ -112,8 +181,12 @@ export default function SponsorTracking() {
             </div>
           </div>
         </div>
-        {filteredCoins.length > 0 ? (
-          <SponsorMap coins={filteredCoins} />
+        {filteredCoins.length > 0 || dropping ? (
+          <SponsorMap
+            coins={filteredCoins}
+            onMapClick={dropping ? (latitude, longitude) => setDropLocation({ latitude, longitude }) : undefined}
+            dropLocation={dropping ? dropLocation : null}
+          />
         ) : (
           <div className="bg-muted aspect-video relative flex items-center justify-center">
             <div className="text-center text-muted-foreground">
@@ -123,6 +196,45 @@ export default function SponsorTracking() {
             </div>
           </div>
         )}
+        {dropping && (
+          <form
+            className="p-4 border-t border-border space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (canDrop) dropCoin.mutate();
+            }}
+          >
+            <p className="text-sm text-muted-foreground">
+              {dropLocation
+                ? `Dropping at ${dropLocation.latitude.toFixed(5)}, ${dropLocation.longitude.toFixed(5)}`
+                : "Click the map where the heart should go, e.g. your shop door."}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Select value={dropValue} onValueChange={setDropValue}>
+                <SelectTrigger className="w-40" data-testid="select-drop-value">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {generalStock.map((inv) => (
+                    <SelectItem key={inv.id} value={String(inv.coinValue)}>
+                      {formatCurrency(inv.coinValue)} ({inv.quantity})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="datetime-local"
+                value={dropExpiresAt}
+                onChange={(e) => setDropExpiresAt(e.target.value)}
+                className="w-56"
+                data-testid="input-drop-expires"
+              />
+              <Button type="submit" disabled={!canDrop || dropCoin.isPending} data-testid="button-drop">
+                Drop heart
+              </Button>
+            </div>
+          </form>
+        )}
       </Card>
 
       {/* Filters */}
@@ -183,7 +295,7 @@ export default function SponsorTracking() {
                             <>Expired: {new Date(coin.expiresAt).toLocaleString()}</>
                           )}
                           {coin.status === "available" && (
-                            <>Available for placement</>
+                            <>Dropped · expires: {new Date(coin.expiresAt).toLocaleString()}</>
                           )}
                         </p>
                       </div>
@@ -192,7 +304,7 @@ export default function SponsorTracking() {
                       {getStatusBadge(coin.status)}
                     </div>
                   </div>
-                  {coin.status === "placed" && (
+                  {isActive(coin) && (
                     <div className="mt-3 pt-3 border-t border-border">
                       <p className="text-xs text-muted-foreground">
                         Location: {coin.latitude.toFixed(4)}, {coin.longitude.toFixed(4)}
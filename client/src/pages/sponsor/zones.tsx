@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Slider } from "@/components/ui/slider";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ZoneMap, type MapZone } from "@/components/ZoneMap";
+import { Hexagon, Circle, Undo2, X, Archive, Heart } from "lucide-react";
+import type { CoinInventory, PlacementZone } from "@shared/schema";
+
+interface ZoneSummary extends PlacementZone {
+  stock: { coinValue: number; quantity: number }[];
+  coinsPlaced: number;
+  coinsCollected: number;
+}
+
+type Shape = "circle" | "polygon";
+
+// Match the server's limits so the form can't submit a zone it will reject
+const MIN_RADIUS_METERS = 25;
+const MAX_RADIUS_METERS = 2000;
+const MIN_POINTS = 3;
+const MAX_POINTS = 50;
+
+const formatCurrency = (pence: number) => `£${(pence / 100).toFixed(2)}`;
+
+export default function SponsorZones() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [shape, setShape] = useState<Shape>("circle");
+  const [center, setCenter] = useState<[number, number] | null>(null);
+  const [radius, setRadius] = useState(250);
+  const [points, setPoints] = useState<[number, number][]>([]);
+
+  const { data: zones, isLoading } = useQuery<ZoneSummary[]>({
+    queryKey: ["/api/sponsor/zones"],
+  });
+
+  const { data: stats } = useQuery<{ inventory: CoinInventory[] }>({
+    queryKey: ["/api/sponsor/stats"],
+  });
+
+  const resetDraft = () => {
+    setCenter(null);
+    setPoints([]);
+    setName("");
+  };
+
+  const createZone = useMutation({
+    mutationFn: async () => {
+      const body =
+        shape === "circle"
+          ? { name, shape, centerLatitude: center![0], centerLongitude: center![1], radiusMeters: radius }
+          : { name, shape, points };
+      const response = await apiRequest("POST", "/api/sponsor/zones", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      resetDraft();
+      queryClient.invalidateQueries({ queryKey: ["/api/sponsor/zones"] });
+      toast({ title: "Zone created", description: "Attach hearts to it to start placing them there." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't create zone", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleMapClick = (latitude: number, longitude: number) => {
+    if (shape === "circle") {
+      setCenter([latitude, longitude]);
+    } else if (points.length < MAX_POINTS) {
+      setPoints([...points, [latitude, longitude]]);
+    }
+  };
+
+  const draft: MapZone =
+    shape === "circle"
+      ? { shape, centerLatitude: center?.[0], centerLongitude: center?.[1], radiusMeters: radius }
+      : { shape, points };
+  const canSave = name.trim().length > 0 && (shape === "circle" ? center !== null : points.length >= MIN_POINTS);
+  const generalStock = (stats?.inventory ?? []).filter((inv) => !inv.challengeId && !inv.zoneId && !inv.campaignId && inv.quantity > 0);
+
+  return (
+    <div className="p-4 md:p-6 space-y-6 max-w-4xl mx-auto">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+          <Hexagon className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h1 className="font-display text-2xl font-bold">Placement Zones</h1>
+          <p className="text-muted-foreground text-sm">
+            Draw an area and attach hearts to it. They're only placed inside the zone, for players nearby.
+          </p>
+        </div>
+      </div>
+
+      <Card className="overflow-hidden">
+        <div className="p-4 border-b border-border flex flex-wrap items-center gap-3">
+          <Tabs
+            value={shape}
+            onValueChange={(value) => {
+              setShape(value as Shape);
+              setCenter(null);
+              setPoints([]);
+            }}
+          >
+            <TabsList>
+              <TabsTrigger value="circle" data-testid="tab-zone-circle">
+                <Circle className="w-4 h-4 mr-1" />
+                Circle
+              </TabsTrigger>
+              <TabsTrigger value="polygon" data-testid="tab-zone-polygon">
+                <Hexagon className="w-4 h-4 mr-1" />
+                Polygon
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <p className="text-sm text-muted-foreground flex-1">
+            {shape === "circle"
+              ? "Click the map to place the centre, then set the radius."
+              : `Click the map to add corners (${points.length}/${MAX_POINTS}).`}
+          </p>
+          {shape === "polygon" && (
+            <Button
+              size="icon"
+              variant="ghost"
+              title="Undo last corner"
+              disabled={points.length === 0}
+              onClick={() => setPoints(points.slice(0, -1))}
+              data-testid="button-undo-point"
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
+          )}
+          <Button size="icon" variant="ghost" title="Clear" onClick={resetDraft} data-testid="button-clear-zone">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <ZoneMap zones={zones ?? []} draft={draft} onMapClick={handleMapClick} />
+        <form
+          className="p-4 border-t border-border space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canSave) createZone.mutate();
+          }}
+        >
+          {shape === "circle" && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Radius</span>
+                <span className="font-mono">{radius}m</span>
+              </div>
+              <Slider
+                min={MIN_RADIUS_METERS}
+                max={MAX_RADIUS_METERS}
+                step={25}
+                value={[radius]}
+                onValueChange={([value]) => setRadius(value)}
+                data-testid="slider-zone-radius"
+              />
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Input
+              placeholder="Zone name, e.g. High Street shop"
+              value={name}
+              maxLength={60}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-zone-name"
+            />
+            <Button type="submit" disabled={!canSave || createZone.isPending} data-testid="button-create-zone">
+              Save zone
+            </Button>
+          </div>
+        </form>
+      </Card>
+
+      {isLoading ? (
+        <Skeleton className="h-40" />
+      ) : !zones?.length ? (
+        <Card className="p-8 text-center">
+          <Hexagon className="w-12 h-12 text-muted-foreground mx-auto mb-4 opacity-50" />
+          <h3 className="font-semibold mb-2">No zones yet</h3>
+          <p className="text-muted-foreground text-sm">Hearts without a zone are placed around any player.</p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {zones.map((zone) => (
+            <ZoneCard key={zone.id} zone={zone} generalStock={generalStock} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A saved zone's stock, with a form to attach or release hearts
+function ZoneCard({ zone, generalStock }: { zone: ZoneSummary; generalStock: CoinInventory[] }) {
+  const { toast } = useToast();
+  const [direction, setDirection] = useState<"assign" | "release" | null>(null);
+  const [coinValue, setCoinValue] = useState("");
+  const [quantity, setQuantity] = useState("10");
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/sponsor/zones"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sponsor/stats"] });
+  };
+
+  const moveInventory = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/sponsor/zones/${zone.id}/inventory`, {
+        coinValue: parseInt(coinValue),
+        quantity: parseInt(quantity),
+        direction,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: direction === "assign" ? "Hearts attached to zone" : "Hearts returned to inventory" });
+      setDirection(null);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update zone", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const archive = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/sponsor/zones/${zone.id}/archive`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Zone archived", description: "Its hearts are back in your general inventory." });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't archive zone", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const options = direction === "assign" ? generalStock : zone.stock;
+  const available = options.find((row) => row.coinValue === parseInt(coinValue))?.quantity ?? 0;
+  const quantityValid = parseInt(quantity) >= 1 && parseInt(quantity) <= available;
+
+  const open = (next: "assign" | "release") => {
+    const rows = next === "assign" ? generalStock : zone.stock;
+    setDirection(direction === next ? null : next);
+    setCoinValue(String(rows[0]?.coinValue ?? ""));
+  };
+
+  return (
+    <Card className="p-4 space-y-3" data-testid={`card-zone-${zone.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium">{zone.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {zone.shape === "circle" ? `Circle, ${zone.radiusMeters}m radius` : `Polygon, ${zone.points?.length} corners`}
+            {" · "}
+            {zone.coinsPlaced} placed · {zone.coinsCollected} collected
+          </p>
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          title="Archive zone"
+          disabled={archive.isPending}
+          onClick={() => archive.mutate()}
+          data-testid={`button-archive-zone-${zone.id}`}
+        >
+          <Archive className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {zone.stock.length === 0 ? (
+          <span className="text-sm text-muted-foreground">No hearts attached</span>
+        ) : (
+          zone.stock.map((row) => (
+            <Badge key={row.coinValue} variant="secondary" className="font-mono">
+              <Heart className="w-3 h-3 mr-1" />
+              {row.quantity} × {formatCurrency(row.coinValue)}
+            </Badge>
+          ))
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant={direction === "assign" ? "secondary" : "outline"}
+          disabled={generalStock.length === 0}
+          onClick={() => open("assign")}
+          data-testid={`button-assign-zone-${zone.id}`}
+        >
+          Attach hearts
+        </Button>
+        <Button
+          size="sm"
+          variant={direction === "release" ? "secondary" : "outline"}
+          disabled={zone.stock.length === 0}
+          onClick={() => open("release")}
+          data-testid={`button-release-zone-${zone.id}`}
+        >
+          Release hearts
+        </Button>
+      </div>
+
+      {direction && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (quantityValid) moveInventory.mutate();
+          }}
+        >
+          <Select value={coinValue} onValueChange={setCoinValue}>
+            <SelectTrigger className="w-40" data-testid="select-zone-value">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((row) => (
+                <SelectItem key={row.coinValue} value={String(row.coinValue)}>
+                  {formatCurrency(row.coinValue)} ({row.quantity})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="1"
+            max={available}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className="w-24"
+            data-testid="input-zone-quantity"
+          />
+          <Button type="submit" size="sm" disabled={moveInventory.isPending || !quantityValid} data-testid="button-move-zone">
+            {direction === "assign" ? "Attach" : "Release"}
+          </Button>
+        </form>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+import { storage, type AchievementProgress, type AuditActor } from "./storage";
+import type { Achievement, AchievementRule, InsertAchievement } from "@shared/schema";
+
+const ACHIEVEMENTS_ACTOR: AuditActor = { type: "system", id: "achievements" };
+
+// The starting catalogue, added at startup when missing. Existing rows are
+// left alone, so thresholds and wording can be changed in the table.
+export const DEFAULT_ACHIEVEMENTS: InsertAchievement[] = [
+  {
+    id: "first_heart",
+    name: "First Heart",
+    description: "Collect your first heart",
+    icon: "heart",
+    rule: "coins_collected",
+    threshold: 1,
+    sortOrder: 10,
+  },
+  {
+    id: "hearts_100",
+    name: "Heart Collector",
+    description: "Collect 100 hearts",
+    icon: "hearts",
+    rule: "coins_collected",
+    threshold: 100,
+    sortOrder: 20,
+  },
+  {
+    id: "raised_10",
+    name: "Tenner",
+    description: "Raise £10 for charity",
+    icon: "coins",
+    rule: "amount_raised",
+    threshold: 1000,
+    sortOrder: 30,
+  },
+  {
+    id: "raised_50",
+    name: "Big Hearted",
+    description: "Raise £50 for charity",
+    icon: "trophy",
+    rule: "amount_raised",
+    threshold: 5000,
+    sortOrder: 40,
+  },
+  {
+    id: "sessions_10",
+    name: "Regular",
+    description: "Complete 10 sessions",
+    icon: "map-pin",
+    rule: "sessions_completed",
+    threshold: 10,
+    sortOrder: 50,
+  },
+  {
+    id: "walk_5k",
+    name: "5K",
+    description: "Walk 5km in a single session",
+    icon: "footprints",
+    rule: "session_distance",
+    threshold: 5000,
+    sortOrder: 60,
+  },
+  {
+    id: "streak_7",
+    name: "Week Streak",
+    description: "Collect a heart 7 days in a row",
+    icon: "flame",
+    rule: "streak_days",
+    threshold: 7,
+    sortOrder: 70,
+  },
+];
+
+export type AchievementTrigger = "collection" | "session_end" | "backfill";
+
+// The rules each event can move, so only those are checked
+const RULES_BY_TRIGGER: Record<AchievementTrigger, AchievementRule[]> = {
+  collection: ["coins_collected", "amount_raised", "streak_days"],
+  session_end: ["sessions_completed", "session_distance"],
+  backfill: ["coins_collected", "amount_raised", "sessions_completed", "session_distance", "streak_days"],
+};
+
+export function meetsRule(achievement: Pick<Achievement, "rule" | "threshold">, progress: AchievementProgress): boolean {
+  return progress[achievement.rule] >= achievement.threshold;
+}
+
+export async function ensureAchievementCatalogue(): Promise<void> {
+  try {
+    const added = await storage.addMissingAchievements(DEFAULT_ACHIEVEMENTS, ACHIEVEMENTS_ACTOR);
+    if (added > 0) {
+      console.log(`Added ${added} achievements to the catalogue`);
+    }
+  } catch (error) {
+    console.error("Error adding default achievements:", error);
+  }
+}
+
+// Award whatever the player has newly earned after an event, returning it so
+// the client can celebrate. Achievements can always be recovered by a
+// backfill, so a failure here is logged rather than failing the event.
+export async function checkAchievements(
+  playerId: string,
+  trigger: AchievementTrigger,
+  sessionId: string | null = null
+): Promise<Achievement[]> {
+  try {
+    const rules = RULES_BY_TRIGGER[trigger];
+    const earned = new Set((await storage.getPlayerAchievements(playerId)).map((row) => row.achievementId));
+    const candidates = (await storage.getAchievementCatalogue()).filter(
+      (achievement) => rules.includes(achievement.rule) && !earned.has(achievement.id)
+    );
+    if (candidates.length === 0) return [];
+
+    const progress = await storage.getAchievementProgress(playerId);
+    if (!progress) return [];
+
+    const met = candidates.filter((achievement) => meetsRule(achievement, progress));
+    return await storage.awardAchievements(
+      playerId,
+      met.map((achievement) => achievement.id),
+      sessionId,
+      ACHIEVEMENTS_ACTOR
+    );
+  } catch (error) {
+    console.error("Error checking achievements:", error);
+    return [];
+  }
+}
+
+// Award every player what their existing history has earned. Safe to run
+// again: players only get achievements they don't already have.
+export async function backfillAchievements(): Promise<{ players: number; awarded: number }> {
+  const playerIds = await storage.getAllPlayerIds();
+  let awarded = 0;
+
+  for (const playerId of playerIds) {
+    awarded += (await checkAchievements(playerId, "backfill")).length;
+  }
+
+  return { players: playerIds.length, awarded };
+}
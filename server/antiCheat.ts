@@ -0,0 +1,209 @@
+import { storage, type AuditActor } from "./storage";
+import { calculateDistance } from "./utils/distance";
+import type { CheatFlag, PlayerSession, PlayerSessionPoint } from "@shared/schema";
+import { isSuspiciousAccuracy } from "@shared/collectionRadius";
+
+const ANTI_CHEAT_ACTOR: AuditActor = { type: "system", id: "anti-cheat" };
+
+// Fastest plausible movement between two fixes (a sprint, with headroom), in m/s
+export const MAX_SPEED_MPS = 8;
+// Reported accuracy counts as slack when measuring movement, but only up to
+// this much per fix, so claiming a huge accuracy can't excuse a teleport
+const MAX_ACCURACY_SLACK_METERS = 50;
+// A collection this soon after starting, this far from the start, is flagged
+const INSTANT_COLLECTION_SECONDS = 120;
+const FAR_COLLECTION_METERS = 1000;
+// Consecutive identical fixes (including the new one) before they're flagged
+const REPEATED_FIX_COUNT = 3;
+// Tracked fixes older than this when their batch arrives are dropped
+const MAX_TRACK_BATCH_AGE_SECONDS = 10 * 60;
+
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  recordedAt: Date;
+}
+
+export interface CheatFinding {
+  kind: CheatFlag["kind"];
+  details: Record<string, unknown>;
+}
+
+export interface FixAssessment {
+  findings: CheatFinding[];
+  // Set when the fix is implausible enough that a collection must be refused
+  rejection?: string;
+}
+
+type SessionStart = Pick<PlayerSession, "startLatitude" | "startLongitude" | "startedAt">;
+
+// Check a new fix against the session's trail so far (oldest first). Sessions
+// started before trails were recorded fall back to the session's start point.
+export function assessFix(
+  session: SessionStart,
+  trail: LocationFix[],
+  fix: LocationFix,
+  isCollection: boolean
+): FixAssessment {
+  const findings: CheatFinding[] = [];
+  let rejection: string | undefined;
+
+  const previous: LocationFix = trail[trail.length - 1] ?? {
+    latitude: session.startLatitude,
+    longitude: session.startLongitude,
+    accuracy: null,
+    recordedAt: session.startedAt,
+  };
+
+  const speed = impliedSpeed(previous, fix);
+  if (speed > MAX_SPEED_MPS) {
+    findings.push({
+      kind: "impossible_speed",
+      details: {
+        speedMps: Math.round(speed * 10) / 10,
+        from: { latitude: previous.latitude, longitude: previous.longitude, at: previous.recordedAt },
+        to: { latitude: fix.latitude, longitude: fix.longitude, at: fix.recordedAt },
+      },
+    });
+    rejection = "Location changed too quickly. Walk to the heart to collect it.";
+  }
+
+  if (fix.accuracy === 0) {
+    findings.push({ kind: "zero_accuracy", details: { latitude: fix.latitude, longitude: fix.longitude } });
+  } else if (isSuspiciousAccuracy(fix.accuracy)) {
+    findings.push({
+      kind: "precise_accuracy",
+      details: { latitude: fix.latitude, longitude: fix.longitude, accuracy: fix.accuracy },
+    });
+  }
+
+  const recent = trail.slice(-(REPEATED_FIX_COUNT - 1));
+  if (
+    recent.length === REPEATED_FIX_COUNT - 1 &&
+    recent.every((p) => p.latitude === fix.latitude && p.longitude === fix.longitude)
+  ) {
+    findings.push({
+      kind: "repeated_coordinates",
+      details: { latitude: fix.latitude, longitude: fix.longitude, count: REPEATED_FIX_COUNT },
+    });
+  }
+
+  if (isCollection) {
+    const secondsSinceStart = (fix.recordedAt.getTime() - session.startedAt.getTime()) / 1000;
+    const metersFromStart = calculateDistance(
+      session.startLatitude,
+      session.startLongitude,
+      fix.latitude,
+      fix.longitude
+    );
+    if (secondsSinceStart < INSTANT_COLLECTION_SECONDS && metersFromStart >= FAR_COLLECTION_METERS) {
+      findings.push({
+        kind: "instant_far_collection",
+        details: { secondsSinceStart: Math.round(secondsSinceStart), metersFromStart: Math.round(metersFromStart) },
+      });
+      rejection = rejection ?? "That heart is too far from where you started. Walk to it to collect it.";
+    }
+  }
+
+  return { findings, rejection };
+}
+
+// Check a fix against the session's stored trail, then store it and raise
+// flags for anything suspicious. Fixes are timed on arrival at the server so
+// a spoofed client clock can't make a jump look slow. A refused fix is stored
+// as rejected, so a retry from the same spot is measured from the last fix
+// that passed rather than from the jump.
+export async function recordSessionFix(
+  session: PlayerSession,
+  fix: Omit<LocationFix, "recordedAt">,
+  source: PlayerSessionPoint["source"],
+  coinId?: string
+): Promise<FixAssessment> {
+  const located: LocationFix = { ...fix, recordedAt: new Date() };
+  const trail = await storage.getSessionPoints(session.id);
+  const assessment = assessFix(session, trail, located, source === "collect");
+
+  await storage.addSessionPoints([
+    { ...located, sessionId: session.id, playerId: session.playerId, source, rejected: !!assessment.rejection },
+  ]);
+  await raiseFlags(session, assessment.findings, coinId);
+  return assessment;
+}
+
+// Store a batch of fixes the client collected while walking. The device's
+// timestamps are only trusted for the gaps between fixes: the batch is
+// anchored so its newest fix lands on the server's receive time, and fixes
+// that would fall before the stored trail (or too far back) are dropped.
+// A fix that moved impossibly fast is stored as rejected and later fixes are
+// measured from the one before it, so a teleport can't be posted here to
+// set up a collect.
+export async function recordSessionTrack(
+  session: PlayerSession,
+  fixes: (Omit<LocationFix, "recordedAt"> & { timestamp: number })[]
+): Promise<{ stored: number; findings: CheatFinding[] }> {
+  if (fixes.length === 0) return { stored: 0, findings: [] };
+
+  const receivedAt = Date.now();
+  const sorted = fixes.slice().sort((a, b) => a.timestamp - b.timestamp);
+  const newest = sorted[sorted.length - 1].timestamp;
+
+  // Rejected fixes still count towards the floor, so a batch can't be
+  // backdated to before one
+  const stored = await storage.getSessionPoints(session.id, { includeRejected: true });
+  const trail: LocationFix[] = stored.filter((point) => !point.rejected);
+  const floor = Math.max(
+    receivedAt - MAX_TRACK_BATCH_AGE_SECONDS * 1000,
+    stored.length > 0 ? stored[stored.length - 1].recordedAt.getTime() : session.startedAt.getTime()
+  );
+
+  const points: (LocationFix & { rejected: boolean })[] = [];
+  const findings: CheatFinding[] = [];
+  sorted.forEach(({ timestamp, ...fix }) => {
+    const recordedAt = receivedAt - (newest - timestamp);
+    if (recordedAt <= floor) return;
+
+    const located: LocationFix = { ...fix, recordedAt: new Date(recordedAt) };
+    const assessment = assessFix(session, trail, located, false);
+    const rejected = assessment.findings.some((finding) => finding.kind === "impossible_speed");
+    findings.push(...assessment.findings);
+    points.push({ ...located, rejected });
+    if (!rejected) trail.push(located);
+  });
+
+  await storage.addSessionPoints(
+    points.map((fix) => ({ ...fix, sessionId: session.id, playerId: session.playerId, source: "track" as const }))
+  );
+  await raiseFlags(session, findings);
+  return { stored: points.length, findings };
+}
+
+async function raiseFlags(session: PlayerSession, findings: CheatFinding[], coinId?: string): Promise<void> {
+  await storage.addCheatFlags(
+    findings.map((finding) => ({
+      playerId: session.playerId,
+      sessionId: session.id,
+      coinId: coinId ?? null,
+      kind: finding.kind,
+      details: finding.details,
+    })),
+    ANTI_CHEAT_ACTOR
+  );
+}
+
+// Speed in m/s between two fixes, after allowing for their reported accuracy
+function impliedSpeed(from: LocationFix, to: LocationFix): number {
+  const distance = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+  const slack = accuracySlack(from.accuracy) + accuracySlack(to.accuracy);
+  const movement = Math.max(0, distance - slack);
+  if (movement === 0) return 0;
+
+  // Treat fixes less than a second apart as a second apart
+  const seconds = Math.max(1, (to.recordedAt.getTime() - from.recordedAt.getTime()) / 1000);
+  return movement / seconds;
+}
+
+function accuracySlack(accuracy: number | null): number {
+  if (accuracy === null || accuracy < 0) return 0;
+  return Math.min(accuracy, MAX_ACCURACY_SLACK_METERS);
+}
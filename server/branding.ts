@@ -0,0 +1,70 @@
+import express, { type Express, type RequestHandler } from "express";
+import { randomUUID } from "crypto";
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { LOGO_CONTENT_TYPES, MAX_LOGO_BYTES } from "@shared/branding";
+
+// Logos are stored on local disk and served from here
+const LOGO_URL_PREFIX = "/uploads/logos";
+const LOGO_DIR = path.resolve(process.env.UPLOADS_DIR || "uploads", "logos");
+
+// File signatures, so a logo's type is checked from its bytes rather than
+// trusting the Content-Type the browser sent
+const SIGNATURES: { extension: string; matches: (bytes: Buffer) => boolean }[] = [
+  {
+    extension: "png",
+    matches: (bytes) => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  { extension: "jpg", matches: (bytes) => bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  {
+    extension: "webp",
+    matches: (bytes) => bytes.toString("ascii", 0, 4) === "RIFF" && bytes.toString("ascii", 8, 12) === "WEBP",
+  },
+];
+
+export function detectImageExtension(bytes: Buffer): string | null {
+  return SIGNATURES.find((signature) => signature.matches(bytes))?.extension ?? null;
+}
+
+// Read an upload's raw bytes, answering oversized or unreadable bodies with a
+// message the branding form can show
+const rawLogo = express.raw({ type: LOGO_CONTENT_TYPES, limit: MAX_LOGO_BYTES });
+export const logoUpload: RequestHandler = (req, res, next) => {
+  rawLogo(req, res, (error?: any) => {
+    if (!error) return next();
+    if (error.type === "entity.too.large") {
+      return res.status(413).json({ message: `Logos must be at most ${MAX_LOGO_BYTES / 1024}KB` });
+    }
+    res.status(400).json({ message: "Couldn't read that image" });
+  });
+};
+
+// Store a validated logo under a fresh name and return its public URL
+export async function saveLogo(bytes: Buffer, extension: string): Promise<string> {
+  await mkdir(LOGO_DIR, { recursive: true });
+  const fileName = `${randomUUID()}.${extension}`;
+  await writeFile(path.join(LOGO_DIR, fileName), bytes);
+  return `${LOGO_URL_PREFIX}/${fileName}`;
+}
+
+// Delete a logo that's been replaced. Anything that isn't one of ours is left alone.
+export async function removeLogo(url: string | null): Promise<void> {
+  if (!url?.startsWith(`${LOGO_URL_PREFIX}/`)) return;
+  try {
+    await unlink(path.join(LOGO_DIR, path.basename(url)));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") console.error("Error removing logo:", error);
+  }
+}
+
+export function serveLogos(app: Express): void {
+  app.use(
+    LOGO_URL_PREFIX,
+    express.static(LOGO_DIR, {
+      immutable: true,
+      maxAge: "30d",
+      fallthrough: false,
+      setHeaders: (res) => res.setHeader("X-Content-Type-Options", "nosniff"),
+    })
+  );
+}
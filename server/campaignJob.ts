@@ -0,0 +1,31 @@
+import { storage, type AuditActor } from "./storage";
+
+const JOB_ACTOR: AuditActor = { type: "system", id: "campaign-job" };
+
+// Campaign job - runs every minute
+// Archives campaigns whose end date has passed, returning what's left of
+// their allocation to each sponsor's general stock.
+export async function startCampaignJob() {
+  console.log("Starting campaign job...");
+
+  const runArchive = async () => {
+    try {
+      const ended = await storage.getEndedCampaigns();
+
+      for (const campaign of ended) {
+        const result = await storage.archiveCampaign(campaign.sponsorId, campaign.id, JOB_ACTOR);
+        if (result.status === "archived" && result.released > 0) {
+          console.log(`Campaign ${campaign.id} ended, released ${result.released} allocated coins`);
+        }
+      }
+    } catch (error) {
+      console.error("Error in campaign job:", error);
+    }
+  };
+
+  // Run immediately
+  await runArchive();
+
+  // Then run every minute
+  setInterval(runArchive, 60 * 1000);
+}
@@ -0,0 +1,55 @@
+import type { Campaign, PlacementZone } from "@shared/schema";
+import type { CoinPlacement } from "./storage";
+import { placementsInZone, zoneIntersectsReach } from "./placementZones";
+import type { LatLng } from "./utils/geometry";
+
+export const MAX_CAMPAIGN_DAYS = 366;
+export const MAX_CAMPAIGN_TARGET_ZONES = 10;
+
+export type CampaignStatus = "scheduled" | "running" | "outside_hours" | "capped" | "ended";
+
+// The hour of the day (0-23) at a moment in a timezone
+export function localHour(at: Date, timezone: string): number {
+  const hour = new Intl.DateTimeFormat("en-GB", { timeZone: timezone, hour: "numeric", hourCycle: "h23" }).format(at);
+  return Number(hour);
+}
+
+// Whether the campaign's daily window is open. An end hour before the start
+// hour runs overnight (22 to 2 is 22:00-01:59).
+export function isWithinCampaignHours(campaign: Pick<Campaign, "startHour" | "endHour" | "timezone">, at: Date): boolean {
+  const { startHour, endHour } = campaign;
+  if (startHour === 0 && endHour === 24) return true;
+
+  const hour = localHour(at, campaign.timezone);
+  return startHour < endHour ? hour >= startHour && hour < endHour : hour >= startHour || hour < endHour;
+}
+
+// Where a campaign's coins can go for a player at the start of a session:
+// null for anywhere in the usual ring, points inside whichever of its target
+// zones the player can reach, or undefined when it isn't eligible right now
+// (outside its hours, or no target zone within reach).
+export function campaignPlacementsFor(
+  campaign: Campaign,
+  zones: Map<string, PlacementZone>,
+  player: LatLng,
+  reachMeters: number,
+  count: number,
+  now: Date = new Date()
+): CoinPlacement[] | null | undefined {
+  if (!isWithinCampaignHours(campaign, now)) return undefined;
+  if (campaign.targetZoneIds.length === 0) return null;
+
+  const points = campaign.targetZoneIds
+    .map((zoneId) => zones.get(zoneId))
+    .filter((zone): zone is PlacementZone => !!zone && zoneIntersectsReach(zone, player, reachMeters))
+    .flatMap((zone) => placementsInZone(zone, player, reachMeters, count));
+  return points.length > 0 ? points : undefined;
+}
+
+// A campaign's state for the sponsor dashboard
+export function campaignStatus(campaign: Campaign, spentToday: number, now: Date = new Date()): CampaignStatus {
+  if (now < campaign.startsAt) return "scheduled";
+  if (now >= campaign.endsAt) return "ended";
+  if (campaign.dailySpendCap !== null && spentToday >= campaign.dailySpendCap) return "capped";
+  return isWithinCampaignHours(campaign, now) ? "running" : "outside_hours";
+}
@@ -0,0 +1,31 @@
+import { storage, type AuditActor } from "./storage";
+
+const JOB_ACTOR: AuditActor = { type: "system", id: "challenge-job" };
+
+// Challenge job - runs every minute
+// Returns inventory that sponsors reserved for a challenge to their general
+// stock once the challenge's deadline has passed.
+export async function startChallengeJob() {
+  console.log("Starting challenge job...");
+
+  const runRelease = async () => {
+    try {
+      const ended = await storage.getEndedChallengesWithReserves();
+
+      for (const challenge of ended) {
+        const released = await storage.releaseChallengeReserves(challenge.id, JOB_ACTOR);
+        if (released > 0) {
+          console.log(`Challenge ${challenge.id} ended, released ${released} reserved coins`);
+        }
+      }
+    } catch (error) {
+      console.error("Error in challenge job:", error);
+    }
+  };
+
+  // Run immediately
+  await runRelease();
+
+  // Then run every minute
+  setInterval(runRelease, 60 * 1000);
+}
@@ -0,0 +1,109 @@
+import { storage, type AuditActor } from "./storage";
+import type Stripe from "stripe";
+import type { CharityPayout } from "@shared/schema";
+import { getUncachableStripeClient, isPermanentStripeError } from "./stripeClient";
+
+const JOB_ACTOR: AuditActor = { type: "system", id: "charity-payout-job" };
+
+// Transfers that fail transiently are retried on later runs up to this many
+// times in all before the payout is given up on
+const MAX_PAYOUT_ATTEMPTS = 5;
+
+// Settle a payout whose transfer won't be retried. A transfer an earlier
+// attempt made after all (its response lost to a timeout) is found by the
+// payout's transfer group, and the payout is marked paid. Otherwise a payout
+// Stripe rejected outright is failed and its escrow rebatched, but one whose
+// attempts just ran out goes to review: a new payout would get a new
+// idempotency key, so rebatching it could pay the charity twice.
+async function giveUpOnPayout(stripe: Stripe, payout: CharityPayout, error: any): Promise<void> {
+  const reason = error.message || "Transfer failed";
+
+  let made: Stripe.Transfer | undefined;
+  try {
+    made = (await stripe.transfers.list({ transfer_group: payout.id, limit: 1 })).data[0];
+  } catch (lookupError) {
+    console.error(`Couldn't check for an earlier transfer for payout ${payout.id}, sending it to review:`, lookupError);
+    await storage.markPayoutForReview(payout.id, reason, JOB_ACTOR);
+    return;
+  }
+
+  if (made) {
+    await storage.markPayoutPaid(payout.id, made.id, JOB_ACTOR);
+    console.log(`Charity payout ${payout.id} was already paid by transfer ${made.id}`);
+  } else if (isPermanentStripeError(error)) {
+    console.error(`Charity payout ${payout.id} rejected, returning its escrow for the next payout:`, error);
+    await storage.markPayoutFailed(payout.id, reason, JOB_ACTOR);
+  } else {
+    console.error(`Charity payout ${payout.id} failed ${MAX_PAYOUT_ATTEMPTS} times, sending it to review:`, error);
+    await storage.markPayoutForReview(payout.id, reason, JOB_ACTOR);
+  }
+}
+
+// Charity payout job - runs every hour
+// Released escrow is batched into one payout per UTC day. With
+// CHARITY_STRIPE_ACCOUNT_ID set, each payout is sent as a Stripe transfer to
+// the charity's connected account; otherwise it is recorded as a donation
+// ledger entry to be paid manually.
+export async function startCharityPayoutJob() {
+  console.log("Starting charity payout job...");
+
+  const runPayouts = async () => {
+    try {
+      const destination = process.env.CHARITY_STRIPE_ACCOUNT_ID;
+      const method = destination ? "stripe_transfer" : "donation_ledger";
+
+      // Close off everything released before the start of today (UTC)
+      const periodEnd = new Date();
+      periodEnd.setUTCHours(0, 0, 0, 0);
+
+      const created = await storage.createCharityPayout(periodEnd, method, JOB_ACTOR);
+      if (created) {
+        console.log(`Created charity payout ${created.id}: £${(created.amount / 100).toFixed(2)} from ${created.escrowCount} hearts`);
+      }
+
+      const pending = await storage.getPendingPayouts();
+      for (const payout of pending) {
+        if (payout.method === "donation_ledger") {
+          await storage.markPayoutPaid(payout.id, null, JOB_ACTOR);
+          continue;
+        }
+
+        if (!destination) {
+          console.warn(`Payout ${payout.id} needs CHARITY_STRIPE_ACCOUNT_ID, leaving pending`);
+          continue;
+        }
+
+        const stripe = await getUncachableStripeClient();
+        try {
+          const transfer = await stripe.transfers.create(
+            {
+              amount: payout.amount,
+              currency: "gbp",
+              destination,
+              transfer_group: payout.id,
+              metadata: { payoutId: payout.id },
+            },
+            { idempotencyKey: `charity-payout-${payout.id}` }
+          );
+          await storage.markPayoutPaid(payout.id, transfer.id, JOB_ACTOR);
+          console.log(`Paid charity payout ${payout.id} via transfer ${transfer.id}`);
+        } catch (error: any) {
+          if (!isPermanentStripeError(error) && payout.attempts + 1 < MAX_PAYOUT_ATTEMPTS) {
+            console.warn(`Charity payout ${payout.id} failed (attempt ${payout.attempts + 1}), will retry:`, error);
+            await storage.recordPayoutRetry(payout.id, error.message || "Transfer failed", JOB_ACTOR);
+          } else {
+            await giveUpOnPayout(stripe, payout, error);
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Error in charity payout job:", error);
+    }
+  };
+
+  // Run immediately
+  await runPayouts();
+
+  // Then run every hour
+  setInterval(runPayouts, 60 * 60 * 1000);
+}
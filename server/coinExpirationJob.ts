@@ -1,4 +1,6 @@
-import { storage } from "./storage";
+import { storage, type AuditActor } from "./storage";
+
+const JOB_ACTOR: AuditActor = { type: "system", id: "coin-expiration-job" };
 
 // Coin expiration job - runs every minute
 export async function startCoinExpirationJob() {
@@ -11,14 +13,8 @@ export async function startCoinExpirationJob() {
       for (const coin of expiredCoins) {
         console.log(`Expiring coin ${coin.id}, returning to inventory`);
         
-        // Mark coin as expired
-        await storage.updateCoinStatus(coin.id, "expired");
-        
-        // Return coin to inventory
-        await storage.addToInventory(coin.sponsorId, coin.coinValue, 1);
-        
-        // Refund escrow
-        await storage.refundEscrow(coin.id);
+        // Mark coin as expired, return it to inventory and refund escrow
+        await storage.expireCoin(coin.id, JOB_ACTOR, "Coin TTL elapsed");
       }
       
       if (expiredCoins.length > 0) {
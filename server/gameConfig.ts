@@ -0,0 +1,31 @@
+import { resolveGameConfig, type GameConfig } from "@shared/gameConfig";
+import type { GameConfigRow } from "@shared/schema";
+import { storage } from "./storage";
+
+// Rows are cached briefly since every session start and collect reads them;
+// admin changes clear the cache, so they apply straight away on this server
+const CACHE_MS = 60 * 1000;
+
+let cached: { rows: GameConfigRow[]; loadedAt: number } | null = null;
+
+async function loadRows(): Promise<GameConfigRow[]> {
+  if (!cached || Date.now() - cached.loadedAt > CACHE_MS) {
+    cached = { rows: await storage.getGameConfigs(), loadedAt: Date.now() };
+  }
+  return cached.rows;
+}
+
+export function clearGameConfigCache(): void {
+  cached = null;
+}
+
+// The rules for a region and, where the coin belongs to one, a campaign
+export async function getGameConfig(
+  scope: { region?: string | null; campaignId?: string | null } = {}
+): Promise<GameConfig> {
+  const rows = await loadRows();
+  const find = (kind: GameConfigRow["scope"], key: string | null | undefined) =>
+    key === undefined || key === null ? undefined : rows.find((row) => row.scope === kind && row.scopeKey === key);
+
+  return resolveGameConfig([find("global", ""), find("region", scope.region), find("campaign", scope.campaignId)]);
+}
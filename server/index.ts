@@ -5,8 +5,17 @@ import { createServer } from "http";
 import { setupAuth, registerAuthRoutes } from "./replit_integrations/auth";
 import { runMigrations } from 'stripe-replit-sync';
 import { getStripeSync } from "./stripeClient";
-import { WebhookHandlers } from "./webhookHandlers";
+import { WebhookHandlers, WebhookSignatureError } from "./webhookHandlers";
 import { startCoinExpirationJob } from "./coinExpirationJob";
+import { startCharityPayoutJob } from "./charityPayoutJob";
+import { startRefundRetryJob } from "./refundRetryJob";
+import { startLeaderboardJob } from "./leaderboardJob";
+import { startChallengeJob } from "./challengeJob";
+import { startCampaignJob } from "./campaignJob";
+import { ensureAchievementCatalogue } from "./achievements";
+import { ensureOpeningBalances } from "./openingBalances";
+import { loadPlacementValidators } from "./placement";
+import { serveLogos } from "./branding";
 
 const app = express();
 const httpServer = createServer(app);
@@ -81,9 +90,6 @@ app.post(
   express.raw({ type: 'application/json' }),
   async (req: Request, res: Response) => {
     const signature = req.headers['stripe-signature'];
-    if (!signature) {
-      return res.status(400).json({ error: 'Missing stripe-signature' });
-    }
 
     try {
       const sig = Array.isArray(signature) ? signature[0] : signature;
@@ -92,11 +98,15 @@ app.post(
         return res.status(500).json({ error: 'Webhook processing error' });
       }
 
-      await WebhookHandlers.processWebhook(req.body as Buffer, sig);
+      await WebhookHandlers.processWebhook(req.body as Buffer, sig, req.ip);
       res.status(200).json({ received: true });
     } catch (error: any) {
+      if (error instanceof WebhookSignatureError) {
+        console.warn('Rejected Stripe webhook:', error.message);
+        return res.status(400).json({ error: 'Invalid webhook signature' });
+      }
       console.error('Webhook error:', error.message);
-      res.status(400).json({ error: 'Webhook processing error' });
+      res.status(500).json({ error: 'Webhook processing error' });
     }
   }
 );
@@ -150,9 +160,36 @@ app.use((req, res, next) => {
   await setupAuth(app);
   registerAuthRoutes(app);
 
+  // Add any missing default achievements
+  await ensureAchievementCatalogue();
+
+  // Carry anything from before the donation ledger into it (first start only)
+  await ensureOpeningBalances();
+
+  // Load the walkway extract coin placement is checked against, if configured
+  await loadPlacementValidators();
+
   // Start coin expiration job
   startCoinExpirationJob();
 
+  // Start charity payout job
+  startCharityPayoutJob();
+
+  // Start refund retry job
+  startRefundRetryJob();
+
+  // Start leaderboard job
+  startLeaderboardJob();
+
+  // Start challenge job
+  startChallengeJob();
+
+  // Start campaign job
+  startCampaignJob();
+
+  // Serve sponsors' uploaded logos
+  serveLogos(app);
+
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
@@ -0,0 +1,22 @@
+import { storage } from "./storage";
+
+// Leaderboard job - runs every five minutes
+// Rebuilds the materialised leaderboards for the current week, month and all
+// time, so board requests read ranked rows instead of scanning collections.
+export async function startLeaderboardJob() {
+  console.log("Starting leaderboard job...");
+
+  const runRefresh = async () => {
+    try {
+      await storage.refreshLeaderboards();
+    } catch (error) {
+      console.error("Error in leaderboard job:", error);
+    }
+  };
+
+  // Run immediately
+  await runRefresh();
+
+  // Then run every five minutes
+  setInterval(runRefresh, 5 * 60 * 1000);
+}
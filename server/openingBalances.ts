@@ -0,0 +1,19 @@
+import { storage, type AuditActor } from "./storage";
+
+const OPENING_BALANCE_ACTOR: AuditActor = { type: "system", id: "opening-balances" };
+
+// Carry collections, inventory and escrow from before the donation ledger
+// began into it, so verification only reports drift from then on. This runs
+// once per database; later starts find it already done.
+export async function ensureOpeningBalances(): Promise<void> {
+  try {
+    const result = await storage.postOpeningBalances(OPENING_BALANCE_ACTOR);
+    if (result.status === "posted" && (result.collections > 0 || result.adjustments > 0)) {
+      console.log(
+        `Posted ledger opening balances: ${result.collections} collections, ${result.adjustments} adjustments`
+      );
+    }
+  } catch (error) {
+    console.error("Error posting ledger opening balances:", error);
+  }
+}
@@ -0,0 +1,67 @@
+import { generateRandomPointInRadius } from "../utils/distance";
+import type { LatLng } from "../utils/geometry";
+import { createWalkwayValidator, loadFeatureCollection } from "./osmWalkways";
+import type { PlacementValidator } from "./types";
+
+export type { PlacementValidator } from "./types";
+export { createWalkwayValidator } from "./osmWalkways";
+
+// Candidates tried per coin before giving up on it; an area that's mostly
+// water or railway may get fewer coins rather than badly placed ones
+const MAX_ATTEMPTS_PER_COIN = 20;
+
+const validators: PlacementValidator[] = [];
+
+export function registerPlacementValidator(validator: PlacementValidator): void {
+  validators.push(validator);
+}
+
+// Run a candidate through every registered validator in turn, each seeing the
+// point as the previous one left it. With none registered, every candidate passes.
+export function validatePlacement(candidate: LatLng, checks: PlacementValidator[] = validators): LatLng | null {
+  let point: LatLng | null = candidate;
+  for (const validator of checks) {
+    point = validator.validate(point);
+    if (!point) return null;
+  }
+  return point;
+}
+
+// Up to `count` valid coin positions in a ring around a player
+export function generatePlacements(
+  center: LatLng,
+  count: number,
+  minRadiusKm: number,
+  maxRadiusKm: number,
+  random: () => number = Math.random,
+  checks: PlacementValidator[] = validators
+): LatLng[] {
+  const placements: LatLng[] = [];
+  for (let attempt = 0; attempt < count * MAX_ATTEMPTS_PER_COIN && placements.length < count; attempt++) {
+    const candidate = generateRandomPointInRadius(center.latitude, center.longitude, minRadiusKm, maxRadiusKm, random);
+    const point = validatePlacement(candidate, checks);
+    if (point) placements.push(point);
+  }
+  return placements;
+}
+
+// Load the placement validators configured in the environment. The walkway
+// extract is a GeoJSON FeatureCollection of footway/path LineStrings; the
+// optional exclusions file holds Polygons coins must never land in. A file
+// that fails to load is logged and skipped, leaving placement unvalidated.
+export async function loadPlacementValidators(): Promise<void> {
+  const walkwaysPath = process.env.PLACEMENT_WALKWAYS_GEOJSON;
+  if (!walkwaysPath) return;
+
+  try {
+    const walkways = await loadFeatureCollection(walkwaysPath);
+    const exclusionsPath = process.env.PLACEMENT_EXCLUSIONS_GEOJSON;
+    const exclusions = exclusionsPath ? await loadFeatureCollection(exclusionsPath) : null;
+    registerPlacementValidator(createWalkwayValidator(walkways, exclusions));
+    console.log(
+      `Loaded walkway placement validator (${walkways.features.length} walkways, ${exclusions?.features.length ?? 0} exclusions)`
+    );
+  } catch (error) {
+    console.error("Error loading placement validators:", error);
+  }
+}
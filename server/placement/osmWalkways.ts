@@ -0,0 +1,143 @@
+import { readFile } from "fs/promises";
+import { nearestPointOnSegment, pointInPolygon, type BoundingBox, type LatLng } from "../utils/geometry";
+import type { PlacementValidator } from "./types";
+
+// Candidates further than this from any walkway are rejected rather than snapped
+const MAX_SNAP_METERS = 60;
+// Walkway segments are bucketed into a grid of cells this many degrees
+// across, so a snap only looks at segments in the cells around the candidate.
+// Cells must be wider than the snap distance for the 3x3 lookup to be complete.
+const GRID_CELL_DEGREES = 0.005;
+
+// The subset of GeoJSON an OpenStreetMap extract is exported as
+type Position = [number, number, ...number[]]; // [longitude, latitude]
+type Geometry =
+  | { type: "LineString"; coordinates: Position[] }
+  | { type: "MultiLineString"; coordinates: Position[][] }
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] }
+  | { type: string; coordinates?: unknown };
+
+export interface FeatureCollection {
+  type: "FeatureCollection";
+  features: { type: "Feature"; geometry: Geometry | null; properties?: Record<string, unknown> | null }[];
+}
+
+interface Segment {
+  a: LatLng;
+  b: LatLng;
+}
+
+// A polygon's outer ring followed by any holes
+type PolygonRings = LatLng[][];
+
+const toLatLng = ([longitude, latitude]: Position): LatLng => ({ latitude, longitude });
+
+function walkwayLines(collection: FeatureCollection): LatLng[][] {
+  return collection.features.flatMap(({ geometry }) => {
+    if (geometry?.type === "LineString") return [(geometry.coordinates as Position[]).map(toLatLng)];
+    if (geometry?.type === "MultiLineString") {
+      return (geometry.coordinates as Position[][]).map((line) => line.map(toLatLng));
+    }
+    return [];
+  });
+}
+
+function exclusionPolygons(collection: FeatureCollection): PolygonRings[] {
+  return collection.features.flatMap(({ geometry }) => {
+    if (geometry?.type === "Polygon") return [(geometry.coordinates as Position[][]).map((ring) => ring.map(toLatLng))];
+    if (geometry?.type === "MultiPolygon") {
+      return (geometry.coordinates as Position[][][]).map((polygon) => polygon.map((ring) => ring.map(toLatLng)));
+    }
+    return [];
+  });
+}
+
+function insidePolygon(point: LatLng, [outer, ...holes]: PolygonRings): boolean {
+  return pointInPolygon(point, outer) && !holes.some((hole) => pointInPolygon(point, hole));
+}
+
+const cellKey = (latIndex: number, lngIndex: number) => `${latIndex}:${lngIndex}`;
+const cellIndex = (degrees: number) => Math.floor(degrees / GRID_CELL_DEGREES);
+
+// Snaps candidates onto the nearest footway, path or pavement in an
+// OpenStreetMap extract, and rejects any that land in an exclusion polygon
+// (water, railways, private land, motorways). The extract only covers some
+// area, so candidates outside its bounds pass through unchanged.
+export function createWalkwayValidator(
+  walkways: FeatureCollection,
+  exclusions: FeatureCollection | null = null
+): PlacementValidator {
+  const grid = new Map<string, Segment[]>();
+  const coverage: BoundingBox = {
+    minLatitude: Infinity,
+    maxLatitude: -Infinity,
+    minLongitude: Infinity,
+    maxLongitude: -Infinity,
+  };
+
+  for (const line of walkwayLines(walkways)) {
+    for (let i = 1; i < line.length; i++) {
+      const segment = { a: line[i - 1], b: line[i] };
+      const minLat = Math.min(segment.a.latitude, segment.b.latitude);
+      const maxLat = Math.max(segment.a.latitude, segment.b.latitude);
+      const minLng = Math.min(segment.a.longitude, segment.b.longitude);
+      const maxLng = Math.max(segment.a.longitude, segment.b.longitude);
+
+      coverage.minLatitude = Math.min(coverage.minLatitude, minLat);
+      coverage.maxLatitude = Math.max(coverage.maxLatitude, maxLat);
+      coverage.minLongitude = Math.min(coverage.minLongitude, minLng);
+      coverage.maxLongitude = Math.max(coverage.maxLongitude, maxLng);
+
+      for (let latIndex = cellIndex(minLat); latIndex <= cellIndex(maxLat); latIndex++) {
+        for (let lngIndex = cellIndex(minLng); lngIndex <= cellIndex(maxLng); lngIndex++) {
+          const key = cellKey(latIndex, lngIndex);
+          const bucket = grid.get(key);
+          if (bucket) bucket.push(segment);
+          else grid.set(key, [segment]);
+        }
+      }
+    }
+  }
+
+  const excluded = exclusions ? exclusionPolygons(exclusions) : [];
+  const isExcluded = (point: LatLng) => excluded.some((polygon) => insidePolygon(point, polygon));
+
+  const covers = (point: LatLng) =>
+    point.latitude >= coverage.minLatitude &&
+    point.latitude <= coverage.maxLatitude &&
+    point.longitude >= coverage.minLongitude &&
+    point.longitude <= coverage.maxLongitude;
+
+  const snap = (candidate: LatLng): LatLng | null => {
+    let best: { point: LatLng; distanceMeters: number } | null = null;
+    const latIndex = cellIndex(candidate.latitude);
+    const lngIndex = cellIndex(candidate.longitude);
+    for (let dLat = -1; dLat <= 1; dLat++) {
+      for (let dLng = -1; dLng <= 1; dLng++) {
+        for (const segment of grid.get(cellKey(latIndex + dLat, lngIndex + dLng)) ?? []) {
+          const nearest = nearestPointOnSegment(candidate, segment.a, segment.b);
+          if (!best || nearest.distanceMeters < best.distanceMeters) best = nearest;
+        }
+      }
+    }
+    return best && best.distanceMeters <= MAX_SNAP_METERS ? best.point : null;
+  };
+
+  return {
+    name: "osm-walkways",
+    validate(candidate) {
+      const point = covers(candidate) ? snap(candidate) : candidate;
+      if (!point || isExcluded(point)) return null;
+      return point;
+    },
+  };
+}
+
+export async function loadFeatureCollection(path: string): Promise<FeatureCollection> {
+  const parsed = JSON.parse(await readFile(path, "utf8"));
+  if (parsed?.type !== "FeatureCollection" || !Array.isArray(parsed.features)) {
+    throw new Error(`${path} is not a GeoJSON FeatureCollection`);
+  }
+  return parsed;
+}
@@ -0,0 +1,78 @@
+import path from "path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { nearestPointOnSegment, pointInPolygon, type LatLng } from "../utils/geometry";
+import { createWalkwayValidator, generatePlacements, type PlacementValidator } from "./index";
+import { loadFeatureCollection, type FeatureCollection } from "./osmWalkways";
+
+// A grid of footpaths around the centre with a pond and a railway cutting
+// across it, inside the ring coins are placed in
+const FIXTURES = path.join(import.meta.dirname, "fixtures");
+const CENTER: LatLng = { latitude: 51.5, longitude: -0.12 };
+const COIN_COUNT = 12;
+const MIN_RADIUS_KM = 0.15;
+const MAX_RADIUS_KM = 0.3;
+const SEED = 20240611;
+
+// Small seeded PRNG (mulberry32), so placement runs are repeatable
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const toLatLng = ([longitude, latitude]: number[]): LatLng => ({ latitude, longitude });
+
+describe("generatePlacements with the walkway validator", () => {
+  let walkways: FeatureCollection;
+  let exclusions: FeatureCollection;
+  let validator: PlacementValidator;
+  let segments: [LatLng, LatLng][];
+  let polygons: LatLng[][];
+
+  beforeAll(async () => {
+    walkways = await loadFeatureCollection(path.join(FIXTURES, "walkways.geojson"));
+    exclusions = await loadFeatureCollection(path.join(FIXTURES, "exclusions.geojson"));
+    validator = createWalkwayValidator(walkways, exclusions);
+    segments = walkways.features.flatMap(({ geometry }) => {
+      const line = (geometry!.coordinates as number[][]).map(toLatLng);
+      return line.slice(1).map((point, i): [LatLng, LatLng] => [line[i], point]);
+    });
+    polygons = exclusions.features.map(({ geometry }) => (geometry!.coordinates as number[][][])[0].map(toLatLng));
+  });
+
+  const place = () =>
+    generatePlacements(CENTER, COIN_COUNT, MIN_RADIUS_KM, MAX_RADIUS_KM, seededRandom(SEED), [validator]);
+
+  it("snaps every coin onto a walkway", () => {
+    const placements = place();
+    expect(placements).toHaveLength(COIN_COUNT);
+    for (const point of placements) {
+      const nearest = Math.min(...segments.map(([a, b]) => nearestPointOnSegment(point, a, b).distanceMeters));
+      expect(nearest).toBeLessThan(0.01);
+    }
+  });
+
+  it("never places a coin inside an exclusion", () => {
+    for (const point of place()) {
+      expect(polygons.some((polygon) => pointInPolygon(point, polygon))).toBe(false);
+    }
+  });
+
+  it("places the same coins for the same seed", () => {
+    expect(place()).toEqual(place());
+  });
+
+  it("rejects a candidate whose walkway runs through an exclusion", () => {
+    expect(validator.validate({ latitude: 51.5021, longitude: -0.117 })).toBeNull();
+  });
+
+  it("passes candidates outside the extract through unchanged", () => {
+    const outside = { latitude: 51.52, longitude: -0.12 };
+    expect(validator.validate(outside)).toEqual(outside);
+  });
+});
@@ -0,0 +1,9 @@
+import type { LatLng } from "../utils/geometry";
+
+// A check every candidate coin position goes through before it's placed.
+// Returning a point accepts the candidate, possibly moved (snapped onto a
+// path, say); returning null rejects it and another candidate is tried.
+export interface PlacementValidator {
+  name: string;
+  validate(candidate: LatLng): LatLng | null;
+}
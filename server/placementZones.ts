@@ -0,0 +1,73 @@
+import type { PlacementZone } from "@shared/schema";
+import { calculateDistance } from "./utils/distance";
+import {
+  circleBounds,
+  circlesIntersect,
+  intersectBounds,
+  pointInPolygon,
+  polygonIntersectsCircle,
+  randomPointInBounds,
+  type LatLng,
+} from "./utils/geometry";
+import type { CoinPlacement } from "./storage";
+import { validatePlacement } from "./placement";
+
+export const MIN_ZONE_RADIUS_METERS = 25;
+export const MAX_ZONE_RADIUS_METERS = 2000;
+export const MIN_ZONE_POINTS = 3;
+export const MAX_ZONE_POINTS = 50;
+// Polygons wider than this are rejected; a zone targets a neighbourhood, not a city
+export const MAX_ZONE_SPAN_METERS = 5000;
+
+// Random points tried per coin before giving up on a thin sliver of overlap
+const PLACEMENT_ATTEMPTS = 50;
+
+function zonePolygon(zone: PlacementZone): LatLng[] {
+  return (zone.points ?? []).map(([latitude, longitude]) => ({ latitude, longitude }));
+}
+
+function zoneCenter(zone: PlacementZone): LatLng {
+  return { latitude: zone.centerLatitude ?? 0, longitude: zone.centerLongitude ?? 0 };
+}
+
+export function isPointInZone(zone: PlacementZone, point: LatLng): boolean {
+  if (zone.shape === "circle") {
+    const center = zoneCenter(zone);
+    return calculateDistance(center.latitude, center.longitude, point.latitude, point.longitude) <= (zone.radiusMeters ?? 0);
+  }
+  return pointInPolygon(point, zonePolygon(zone));
+}
+
+// Whether any of the zone lies within the player's reach
+export function zoneIntersectsReach(zone: PlacementZone, player: LatLng, reachMeters: number): boolean {
+  if (zone.shape === "circle") {
+    return circlesIntersect(zoneCenter(zone), zone.radiusMeters ?? 0, player, reachMeters);
+  }
+  return polygonIntersectsCircle(zonePolygon(zone), player, reachMeters);
+}
+
+// Up to `count` random points inside the zone that are also within the
+// player's reach. Points are sampled from the overlap of the two bounding
+// boxes and rejected until they fall in both shapes (after any snapping by
+// the placement validators), so a zone that barely touches the reach circle
+// may yield fewer points than asked for.
+export function placementsInZone(
+  zone: PlacementZone,
+  player: LatLng,
+  reachMeters: number,
+  count: number
+): CoinPlacement[] {
+  const bounds = intersectBounds(zone, circleBounds(player, reachMeters));
+  if (!bounds) return [];
+
+  const placements: CoinPlacement[] = [];
+  for (let attempt = 0; attempt < count * PLACEMENT_ATTEMPTS && placements.length < count; attempt++) {
+    const point = validatePlacement(randomPointInBounds(bounds));
+    if (!point) continue;
+    const reachable = calculateDistance(player.latitude, player.longitude, point.latitude, point.longitude) <= reachMeters;
+    if (reachable && isPointInZone(zone, point)) {
+      placements.push(point);
+    }
+  }
+  return placements;
+}
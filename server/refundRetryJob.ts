@@ -0,0 +1,35 @@
+import { storage, type AuditActor } from "./storage";
+import { issueSponsorRefund } from "./sponsorRefunds";
+
+const JOB_ACTOR: AuditActor = { type: "system", id: "refund-retry-job" };
+
+// Refunds younger than this may still be in flight from the request that
+// created them
+const MIN_PENDING_AGE_MS = 5 * 60 * 1000;
+
+// Refund retry job - runs every 10 minutes
+// Resends refunds left pending because Stripe's answer was lost or couldn't
+// be recorded. Hearts stay out of inventory until Stripe rejects the refund.
+export async function startRefundRetryJob() {
+  console.log("Starting refund retry job...");
+
+  const runRetries = async () => {
+    try {
+      const pending = await storage.getPendingSponsorRefunds(new Date(Date.now() - MIN_PENDING_AGE_MS));
+      for (const { refund, paymentIntentId } of pending) {
+        const outcome = await issueSponsorRefund(refund, paymentIntentId, JOB_ACTOR);
+        if (outcome !== "pending") {
+          console.log(`Refund ${refund.id} ${outcome} on retry`);
+        }
+      }
+    } catch (error) {
+      console.error("Error in refund retry job:", error);
+    }
+  };
+
+  // Run immediately
+  await runRetries();
+
+  // Then run every 10 minutes
+  setInterval(runRetries, 10 * 60 * 1000);
+}
@@ -0,0 +1,19 @@
+// Leaderboard regions are cells of a fixed latitude/longitude grid, roughly
+// 55km tall, keyed by their south-west corner (e.g. "51.5:-0.5")
+export const GLOBAL_REGION = "global";
+const REGION_CELL_DEGREES = 0.5;
+
+export function regionForLocation(latitude: number, longitude: number): string {
+  const cell = (value: number) => (Math.floor(value / REGION_CELL_DEGREES) * REGION_CELL_DEGREES).toFixed(1);
+  return `${cell(latitude)}:${cell(longitude)}`;
+}
+
+// A readable label for a region key, naming its centre
+export function describeRegion(region: string): string {
+  if (region === GLOBAL_REGION) return "Everywhere";
+
+  const [latitude, longitude] = region.split(":").map((value) => Number(value) + REGION_CELL_DEGREES / 2);
+  const lat = `${Math.abs(latitude).toFixed(2)}°${latitude >= 0 ? "N" : "S"}`;
+  const lng = `${Math.abs(longitude).toFixed(2)}°${longitude >= 0 ? "E" : "W"}`;
+  return `Area around ${lat}, ${lng}`;
+}
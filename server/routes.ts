@@ -1,10 +1,34 @@
-import type { Express, Request, Response } from "express";
+import type { Express, Request, Response, RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type AuditActor, type LeaderboardRow, type CoinPlacement } from "./storage";
 import { isAuthenticated } from "./replit_integrations/auth";
-import { getUncachableStripeClient } from "./stripeClient";
-import { generateRandomPointInRadius, calculateDistance } from "./utils/distance";
+import { getUncachableStripeClient, isPaymentsSandbox } from "./stripeClient";
+import { issueSponsorRefund } from "./sponsorRefunds";
+import { calculateDistance } from "./utils/distance";
+import { generatePlacements } from "./placement";
+import { recordSessionFix, recordSessionTrack } from "./antiCheat";
+import { computeWalkStats } from "./walkStats";
+import { GLOBAL_REGION, regionForLocation, describeRegion } from "./regions";
+import { checkAchievements, backfillAchievements } from "./achievements";
+import { getGameConfig, clearGameConfigCache } from "./gameConfig";
+import { localDate, streakStatus } from "./streaks";
+import {
+  MIN_ZONE_RADIUS_METERS,
+  MAX_ZONE_RADIUS_METERS,
+  MIN_ZONE_POINTS,
+  MAX_ZONE_POINTS,
+  MAX_ZONE_SPAN_METERS,
+  placementsInZone,
+  zoneIntersectsReach,
+} from "./placementZones";
+import { MAX_CAMPAIGN_DAYS, MAX_CAMPAIGN_TARGET_ZONES, campaignPlacementsFor, campaignStatus } from "./campaigns";
+import { boundsSpanMeters, circleBounds, polygonBounds } from "./utils/geometry";
+import { detectImageExtension, logoUpload, removeLogo, saveLogo } from "./branding";
 import { z } from "zod";
+import type { UserRole, Achievement, GeneratedCoin } from "@shared/schema";
+import { GAME_CONFIG_LIMITS, type GameConfigKey } from "@shared/gameConfig";
+import { collectionReach } from "@shared/collectionRadius";
+import { BRAND_COLOR_PATTERN, MAX_BRAND_MESSAGE_LENGTH, resolveBranding } from "@shared/branding";
 
 // Validation schemas
 const createProfileSchema = z.object({
@@ -14,27 +38,413 @@ const createProfileSchema = z.object({
 });
 
 const switchRoleSchema = z.object({
-  role: z.enum(["player", "sponsor"]),
+  role: z.enum(["player", "sponsor", "admin"]),
 });
 
 const startSessionSchema = z.object({
   latitude: z.number().min(-90).max(90),
   longitude: z.number().min(-180).max(180),
+  accuracy: z.number().min(0).nullish(),
 });
 
 const collectCoinSchema = z.object({
   coinId: z.string(),
   latitude: z.number().min(-90).max(90),
   longitude: z.number().min(-180).max(180),
+  accuracy: z.number().min(0).nullish(),
+});
+
+const trackSessionSchema = z.object({
+  points: z
+    .array(
+      z.object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+        accuracy: z.number().min(0).nullish(),
+        timestamp: z.number().int().positive(), // device time, in ms since the epoch
+      })
+    )
+    .min(1)
+    .max(100),
+});
+
+const leaderboardQuerySchema = z.object({
+  period: z.enum(["week", "month", "all"]).default("week"),
+  metric: z.enum(["coins", "donated"]).default("coins"),
+  scope: z.enum(["global", "region", "friends"]).default("global"),
+});
+
+// Rules for a region key, or for the region containing a point
+const gameConfigQuerySchema = z.object({
+  region: z.string().max(40).optional(),
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+});
+
+const friendRequestSchema = z.object({
+  username: z.string().trim().min(1).max(50),
+});
+
+const respondFriendRequestSchema = z.object({
+  accept: z.boolean(),
+});
+
+const createGroupSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+});
+
+const joinGroupSchema = z.object({
+  inviteCode: z.string().trim().min(1).max(20),
+});
+
+const historySeriesSchema = z.object({
+  range: z.enum(["7d", "30d", "12m", "all"]).default("7d"),
+  bucket: z.enum(["day", "week", "month"]).default("day"),
+});
+
+// Challenges run for at most a year
+const MAX_CHALLENGE_DAYS = 365;
+
+const createChallengeSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(500).optional(),
+  targetAmount: z.number().int().min(100).max(10_000_000), // in pence
+  endsAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() > Date.now(), "Deadline must be in the future")
+    .refine(
+      (date) => date.getTime() <= Date.now() + MAX_CHALLENGE_DAYS * 24 * 60 * 60 * 1000,
+      `Deadline must be within ${MAX_CHALLENGE_DAYS} days`
+    ),
+});
+
+const joinChallengeSchema = z.object({
+  inviteCode: z.string().trim().min(1).max(20),
+});
+
+const reserveForChallengeSchema = z.object({
+  coinValue: z.number().int().min(10).max(500),
+  quantity: z.number().int().min(1).max(1000),
+});
+
+const zoneLatLngSchema = z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)]);
+
+const createZoneSchema = z.discriminatedUnion("shape", [
+  z.object({
+    name: z.string().trim().min(1).max(60),
+    shape: z.literal("circle"),
+    centerLatitude: z.number().min(-90).max(90),
+    centerLongitude: z.number().min(-180).max(180),
+    radiusMeters: z.number().int().min(MIN_ZONE_RADIUS_METERS).max(MAX_ZONE_RADIUS_METERS),
+  }),
+  z.object({
+    name: z.string().trim().min(1).max(60),
+    shape: z.literal("polygon"),
+    points: z
+      .array(zoneLatLngSchema)
+      .min(MIN_ZONE_POINTS)
+      .max(MAX_ZONE_POINTS)
+      .refine(
+        (points) => boundsSpanMeters(polygonBounds(points.map(([latitude, longitude]) => ({ latitude, longitude })))) <= MAX_ZONE_SPAN_METERS,
+        `Zones can be at most ${MAX_ZONE_SPAN_METERS / 1000}km across`
+      ),
+  }),
+]);
+
+const zoneInventorySchema = z.object({
+  coinValue: z.number().int().min(10).max(500),
+  quantity: z.number().int().min(1).max(1000),
+  direction: z.enum(["assign", "release"]),
+});
+
+// Drops last between an hour and a month, e.g. a campaign weekend
+const MIN_DROP_MINUTES = 60;
+const MAX_DROP_DAYS = 31;
+
+const dropCoinSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  coinValue: z.number().int().min(10).max(500),
+  expiresAt: z.coerce
+    .date()
+    .refine(
+      (date) => date.getTime() >= Date.now() + MIN_DROP_MINUTES * 60 * 1000,
+      `Drops must last at least ${MIN_DROP_MINUTES} minutes`
+    )
+    .refine(
+      (date) => date.getTime() <= Date.now() + MAX_DROP_DAYS * 24 * 60 * 60 * 1000,
+      `Drops can last at most ${MAX_DROP_DAYS} days`
+    ),
+});
+
+const createCampaignSchema = z
+  .object({
+    name: z.string().trim().min(1).max(60),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+    dailySpendCap: z.number().int().min(10).max(1000000).nullable(), // in pence
+    startHour: z.number().int().min(0).max(23),
+    endHour: z.number().int().min(1).max(24),
+    timezone: z.string().max(64).refine(isValidTimezone, "Unknown timezone"),
+    targetZoneIds: z.array(z.string()).max(MAX_CAMPAIGN_TARGET_ZONES).default([]),
+  })
+  .refine((campaign) => campaign.endsAt > campaign.startsAt, { message: "Campaigns must end after they start", path: ["endsAt"] })
+  .refine((campaign) => campaign.endsAt.getTime() > Date.now(), { message: "Campaigns must end in the future", path: ["endsAt"] })
+  .refine(
+    (campaign) => campaign.endsAt.getTime() - campaign.startsAt.getTime() <= MAX_CAMPAIGN_DAYS * 24 * 60 * 60 * 1000,
+    { message: `Campaigns can run for at most ${MAX_CAMPAIGN_DAYS} days`, path: ["endsAt"] }
+  )
+  .refine((campaign) => campaign.startHour !== campaign.endHour, {
+    message: "Campaign hours must not start and end at the same time",
+    path: ["endHour"],
+  });
+
+const campaignInventorySchema = z.object({
+  coinValue: z.number().int().min(10).max(500),
+  quantity: z.number().int().min(1).max(1000),
+  direction: z.enum(["assign", "release"]),
+});
+
+// The sponsor's or a campaign's branding; fields left out are unchanged.
+// Logos are uploaded separately, as the raw image.
+const brandingSchema = z.object({
+  brandMessage: z
+    .string()
+    .trim()
+    .max(MAX_BRAND_MESSAGE_LENGTH)
+    .nullable()
+    .optional()
+    .transform((message) => (message === "" ? null : message)),
+  brandColor: z.string().regex(BRAND_COLOR_PATTERN, "Colours must be written as #rrggbb").nullable().optional(),
+  removeLogo: z.boolean().optional(),
+});
+
+const timezoneSchema = z.object({
+  timezone: z.string().max(64).refine(isValidTimezone, "Unknown timezone"),
 });
 
 const checkoutSchema = z.object({
-  coinValue: z.number().min(10).max(500),
-  quantity: z.number().min(1).max(1000),
+  coinValue: z.number().int().min(10).max(500),
+  quantity: z.number().int().min(1).max(1000),
+});
+
+const refundSchema = z.object({
+  purchaseOrderId: z.string(),
+  quantity: z.number().int().min(1).max(1000),
+});
+
+const paymentSuccessSchema = z.object({
+  session_id: z.string().min(1),
+});
+
+const adminReasonSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+});
+
+const adminSuspendSchema = adminReasonSchema.extend({
+  suspended: z.boolean(),
+});
+
+const adminInventorySchema = adminReasonSchema.extend({
+  coinValue: z.number().int().min(10).max(500),
+  delta: z.number().int().min(-10000).max(10000).refine((delta) => delta !== 0, "Delta must not be zero"),
+});
+
+const adminPayoutReviewSchema = adminReasonSchema.extend({
+  outcome: z.enum(["paid", "failed"]),
+  stripeTransferId: z.string().trim().min(1).optional(),
+});
+
+const adminUserFiltersSchema = z.object({
+  search: z.string().max(100).optional(),
+  role: z.enum(["player", "sponsor", "admin"]).optional(),
+  suspended: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+});
+
+const adminSponsorFiltersSchema = z.object({
+  search: z.string().max(100).optional(),
+});
+
+const adminSessionFiltersSchema = z.object({
+  status: z.enum(["active", "completed", "abandoned"]).optional(),
+  playerId: z.string().optional(),
+});
+
+const adminCoinFiltersSchema = z.object({
+  status: z.enum(["available", "placed", "collected", "expired"]).optional(),
+  sponsorId: z.string().optional(),
+  sessionId: z.string().optional(),
+});
+
+const adminEscrowFiltersSchema = z.object({
+  status: z.enum(["held", "released", "refunded"]).optional(),
+  sponsorId: z.string().optional(),
+  coinId: z.string().optional(),
+});
+
+const adminAuditFiltersSchema = z.object({
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  actorId: z.string().optional(),
+});
+
+const auditTrailScopeSchema = z.enum(["coin", "session", "sponsor"]);
+
+// Null clears an override so the value is inherited from the wider scope
+const gameConfigOverride = (key: GameConfigKey) =>
+  z.number().int().min(GAME_CONFIG_LIMITS[key].min).max(GAME_CONFIG_LIMITS[key].max).nullable();
+
+const upsertGameConfigSchema = adminReasonSchema
+  .extend({
+    scope: z.enum(["global", "region", "campaign"]),
+    scopeKey: z.string().trim().max(100).default(""),
+    collectionRadiusMeters: gameConfigOverride("collectionRadiusMeters"),
+    maxCollectionRadiusMeters: gameConfigOverride("maxCollectionRadiusMeters"),
+    coinTtlMinutes: gameConfigOverride("coinTtlMinutes"),
+    placementMinMeters: gameConfigOverride("placementMinMeters"),
+    placementMaxMeters: gameConfigOverride("placementMaxMeters"),
+    minCoinsPerSession: gameConfigOverride("minCoinsPerSession"),
+    maxCoinsPerSession: gameConfigOverride("maxCoinsPerSession"),
+  })
+  .refine((config) => (config.scope === "global") === (config.scopeKey === ""), {
+    message: "Global rules take no key; region and campaign rules need one",
+    path: ["scopeKey"],
+  })
+  .refine((config) => config.scope !== "region" || /^-?\d+\.\d:-?\d+\.\d$/.test(config.scopeKey), {
+    message: "Region keys look like 51.5:-0.5",
+    path: ["scopeKey"],
+  })
+  .refine(
+    (config) =>
+      config.collectionRadiusMeters === null ||
+      config.maxCollectionRadiusMeters === null ||
+      config.collectionRadiusMeters <= config.maxCollectionRadiusMeters,
+    { message: "Collection radius must not exceed its cap", path: ["collectionRadiusMeters"] }
+  )
+  .refine(
+    (config) =>
+      config.placementMinMeters === null ||
+      config.placementMaxMeters === null ||
+      config.placementMinMeters <= config.placementMaxMeters,
+    { message: "Closest placement must not be further than the furthest", path: ["placementMinMeters"] }
+  )
+  .refine(
+    (config) =>
+      config.minCoinsPerSession === null ||
+      config.maxCoinsPerSession === null ||
+      config.minCoinsPerSession <= config.maxCoinsPerSession,
+    { message: "Fewest hearts must not exceed most hearts", path: ["minCoinsPerSession"] }
+  );
+
+const cheatFlagFiltersSchema = z.object({
+  status: z.enum(["open", "dismissed", "confirmed"]).optional(),
+  playerId: z.string().optional(),
+  sessionId: z.string().optional(),
 });
 
-const COLLECTION_RADIUS_METERS = 10;
-const COIN_TTL_MINUTES = 30;
+const resolveCheatFlagSchema = adminReasonSchema.extend({
+  status: z.enum(["dismissed", "confirmed"]),
+});
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Admins are flagged on user_roles. User ids listed in ADMIN_USER_IDS (comma
+// separated) are promoted the first time they're seen, to bootstrap the first admin.
+async function resolveIsAdmin(userId: string, role: UserRole | undefined): Promise<boolean> {
+  if (role?.isAdmin) return true;
+
+  const bootstrapIds = (process.env.ADMIN_USER_IDS || "").split(",").map((id) => id.trim());
+  if (!userId || !bootstrapIds.includes(userId)) return false;
+
+  if (role) {
+    await storage.setUserAdmin(userId, true, { type: "system" }, "Listed in ADMIN_USER_IDS");
+  }
+  return true;
+}
+
+const isAdmin: RequestHandler = async (req: any, res, next) => {
+  try {
+    const userId = req.user?.claims?.sub;
+    const role = await storage.getUserRole(userId);
+    if (!(await resolveIsAdmin(userId, role))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    next();
+  } catch (error) {
+    console.error("Error checking admin access:", error);
+    res.status(500).json({ message: "Failed to check admin access" });
+  }
+};
+
+const userActor = (req: any): AuditActor => ({ type: "user", id: req.user?.claims?.sub });
+const adminActor = (req: any): AuditActor => ({ type: "admin", id: req.user?.claims?.sub });
+
+// The parts of an achievement the client shows as a badge
+const toBadge = ({ id, name, description, icon }: Achievement) => ({ id, name, description, icon });
+
+// Sponsors' dropped coins near a player, nearest first
+async function dropsNear(latitude: number, longitude: number) {
+  const drops = await storage.getDroppedCoinsNear(circleBounds({ latitude, longitude }, DROP_DISCOVERY_RADIUS_METERS));
+  return drops
+    .map((coin) => ({ coin, distance: calculateDistance(latitude, longitude, coin.latitude, coin.longitude) }))
+    .filter(({ distance }) => distance <= DROP_DISCOVERY_RADIUS_METERS)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ coin }) => coin);
+}
+
+// Coins with who sponsored them, as players see it
+async function withSponsors<T extends GeneratedCoin>(coins: T[]) {
+  const sponsors = await storage.getSponsorProfilesByIds(Array.from(new Set(coins.map((coin) => coin.sponsorId))));
+  const campaigns = await storage.getCampaignsByIds(
+    Array.from(new Set(coins.flatMap((coin) => (coin.campaignId ? [coin.campaignId] : []))))
+  );
+  return coins.map((coin) => {
+    const sponsor = sponsors.find((profile) => profile.id === coin.sponsorId);
+    const campaign = campaigns.find((row) => row.id === coin.campaignId);
+    return { ...coin, sponsor: sponsor ? resolveBranding(sponsor, campaign) : null };
+  });
+}
+
+// Coins with the collection radius rules each is held to. Campaign coins can
+// have their own, so the client checks reach per coin rather than from the
+// region's rules alone.
+async function withCollectionRadius<T extends GeneratedCoin>(coins: T[], region: string | null) {
+  const campaignIds = Array.from(new Set(coins.map((coin) => coin.campaignId)));
+  const configs = new Map(
+    await Promise.all(
+      campaignIds.map(async (campaignId) => [campaignId, await getGameConfig({ region, campaignId })] as const)
+    )
+  );
+  return coins.map((coin) => {
+    const { collectionRadiusMeters, maxCollectionRadiusMeters } = configs.get(coin.campaignId)!;
+    return { ...coin, collectionRadiusMeters, maxCollectionRadiusMeters };
+  });
+}
+
+// An uploaded logo's bytes, checked against the types we accept by its
+// content rather than the type the browser claimed
+function readLogoUpload(body: unknown): { bytes: Buffer; extension: string } | { status: number; message: string } {
+  if (!Buffer.isBuffer(body) || body.length === 0) {
+    return { status: 415, message: "Logos must be PNG, JPEG or WebP images" };
+  }
+  const extension = detectImageExtension(body);
+  if (!extension) {
+    return { status: 400, message: "That file isn't a PNG, JPEG or WebP image" };
+  }
+  return { bytes: body, extension };
+}
+
+// Stripe rejects GBP charges below 30p
+const STRIPE_MINIMUM_CHARGE_PENCE = 30;
+// Sponsors' dropped coins show up for players within this distance
+const DROP_DISCOVERY_RADIUS_METERS = 2000;
 
 export async function registerRoutes(
   httpServer: Server,
@@ -54,16 +464,25 @@ export async function registerRoutes(
           currentRole: null,
           hasPlayerProfile: false,
           hasSponsorProfile: false,
+          isAdmin: false,
         });
       }
 
       const playerProfile = await storage.getPlayerProfile(userId);
       const sponsorProfile = await storage.getSponsorProfile(userId);
+      const admin = await resolveIsAdmin(userId, role);
+
+      // Someone whose admin access was revoked falls back to a regular role
+      const currentRole =
+        role.currentRole === "admin" && !admin
+          ? playerProfile ? "player" : "sponsor"
+          : role.currentRole;
 
       res.json({
-        currentRole: role.currentRole,
+        currentRole,
         hasPlayerProfile: !!playerProfile,
         hasSponsorProfile: !!sponsorProfile,
+        isAdmin: admin,
       });
     } catch (error) {
       console.error("Error getting user role:", error);
@@ -85,15 +504,16 @@ export async function registerRoutes(
           currentRole: data.role,
           hasPlayerProfile: data.role === "player",
           hasSponsorProfile: data.role === "sponsor",
-        });
+        }, userActor(req));
       } else {
         // Update profile flags when creating profile for existing role
         await storage.updateUserRoleProfileFlags(
           userId,
           data.role === "player",
-          data.role === "sponsor"
+          data.role === "sponsor",
+          userActor(req)
         );
-        await storage.updateUserRole(userId, data.role);
+        await storage.updateUserRole(userId, data.role, userActor(req));
       }
 
       // Create profile based on role
@@ -106,7 +526,7 @@ export async function registerRoutes(
           await storage.createPlayerProfile({
             userId,
             username: data.username,
-          });
+          }, userActor(req));
         }
       } else {
         const existingProfile = await storage.getSponsorProfile(userId);
@@ -114,7 +534,7 @@ export async function registerRoutes(
           await storage.createSponsorProfile({
             userId,
             companyName: data.companyName || null,
-          });
+          }, userActor(req));
         }
       }
 
@@ -135,7 +555,12 @@ export async function registerRoutes(
       const { role } = switchRoleSchema.parse(req.body);
 
       // Check if user has the required profile
-      if (role === "player") {
+      if (role === "admin") {
+        const userRole = await storage.getUserRole(userId);
+        if (!userRole || !(await resolveIsAdmin(userId, userRole))) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+      } else if (role === "player") {
         const profile = await storage.getPlayerProfile(userId);
         if (!profile) {
           return res.status(400).json({ message: "Create a player profile first" });
@@ -144,12 +569,12 @@ export async function registerRoutes(
         const profile = await storage.getSponsorProfile(userId);
         if (!profile) {
           // Auto-create sponsor profile and update role flags
-          await storage.createSponsorProfile({ userId, companyName: null });
-          await storage.updateUserRoleProfileFlags(userId, false, true);
+          await storage.createSponsorProfile({ userId, companyName: null }, userActor(req));
+          await storage.updateUserRoleProfileFlags(userId, false, true, userActor(req));
         }
       }
 
-      await storage.updateUserRole(userId, role);
+      await storage.updateUserRole(userId, role, userActor(req));
       res.json({ success: true, role });
     } catch (error) {
       console.error("Error switching role:", error);
@@ -157,6 +582,27 @@ export async function registerRoutes(
     }
   });
 
+  // ==================== Game Rules Routes ====================
+
+  // The rules in force for a region (or the region containing a point), so
+  // the client shows the same collection radius the server enforces
+  app.get("/api/config", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const query = gameConfigQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid filters" });
+      }
+
+      const { latitude, longitude } = query.data;
+      const region = query.data.region ??
+        (latitude !== undefined && longitude !== undefined ? regionForLocation(latitude, longitude) : null);
+      res.json(await getGameConfig({ region }));
+    } catch (error) {
+      console.error("Error getting game config:", error);
+      res.status(500).json({ message: "Failed to get game rules" });
+    }
+  });
+
   // ==================== Player Routes ====================
 
   // Get player stats
@@ -169,61 +615,21 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Player profile not found" });
       }
 
-      const leaderboard = await storage.getLeaderboard(20);
-      const rank = await storage.getPlayerRank(userId);
+      const standing = await storage.getLeaderboardStanding(profile.id, {
+        period: "all",
+        metric: "coins",
+        region: GLOBAL_REGION,
+      });
       const activeSession = await storage.getActiveSession(profile.id);
+      const [lastSession] = await storage.getFinishedSessions(profile.id, 1);
       const totalCoins = await storage.getTotalAvailableCoins();
 
-      // Build leaderboard with context (4 above, current, 4 below)
-      const playerIndex = leaderboard.findIndex(p => p.userId === userId);
-      let contextLeaderboard = [];
-
-      if (playerIndex === -1 && leaderboard.length > 0) {
-        // Player not in top 20, show top and player's position
-        contextLeaderboard = leaderboard.slice(0, 4).map((p, i) => ({
-          rank: i + 1,
-          username: p.username,
-          totalCoinsCollected: p.totalCoinsCollected,
-          totalDonated: p.totalDonated,
-          isCurrentUser: p.userId === userId,
-        }));
-        contextLeaderboard.push({
-          rank,
-          username: profile.username,
-          totalCoinsCollected: profile.totalCoinsCollected,
-          totalDonated: profile.totalDonated,
-          isCurrentUser: true,
-        });
-      } else {
-        const start = Math.max(0, playerIndex - 4);
-        const end = Math.min(leaderboard.length, playerIndex + 5);
-        contextLeaderboard = leaderboard.slice(start, end).map((p, i) => ({
-          rank: start + i + 1,
-          username: p.username,
-          totalCoinsCollected: p.totalCoinsCollected,
-          totalDonated: p.totalDonated,
-          isCurrentUser: p.userId === userId,
-        }));
-      }
-
-      // Mock history data for now (would come from collection_history aggregation)
-      const history = [];
-      const now = new Date();
-      for (let i = 6; i >= 0; i--) {
-        const date = new Date(now);
-        date.setDate(date.getDate() - i);
-        history.push({
-          date: date.toISOString().split("T")[0],
-          coins: Math.round(profile.totalCoinsCollected * (7 - i) / 7),
-          donated: Math.round(profile.totalDonated * (7 - i) / 7),
-        });
-      }
-
       res.json({
         profile,
-        leaderboard: contextLeaderboard,
-        history,
+        rank: standing?.rank ?? null,
         activeSession,
+        lastSession: lastSession ?? null,
+        streak: streakStatus(profile, localDate(new Date(), profile.timezone)),
         coinsAvailable: totalCoins > 0,
       });
     } catch (error) {
@@ -232,6 +638,100 @@ export async function registerRoutes(
     }
   });
 
+  // Leaderboard for this week, this month or all time, globally or in the
+  // player's home region (where they started their latest session)
+  app.get("/api/player/leaderboard", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const filters = leaderboardQuerySchema.safeParse(req.query);
+      if (!filters.success) {
+        return res.status(400).json({ message: "Invalid filters" });
+      }
+
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const { period, metric, scope } = filters.data;
+      const toEntry = (row: LeaderboardRow) => ({
+        rank: row.rank,
+        username: row.username,
+        coins: row.coins,
+        donated: row.donated,
+        isCurrentUser: row.playerId === profile.id,
+      });
+
+      // Friends are ranked among themselves (and you) from the global board
+      if (scope === "friends") {
+        const playerIds = [profile.id, ...(await storage.getFriendIds(profile.id))];
+        const rows = await storage.getLeaderboardAmong({ period, metric }, playerIds, playerIds.length);
+        const standing = rows.find((row) => row.playerId === profile.id);
+        return res.json({
+          period,
+          metric,
+          region: null,
+          regionLabel: "You and your friends",
+          refreshedAt: rows[0]?.refreshedAt ?? null,
+          entries: rows.slice(0, 20).map(toEntry),
+          you: standing ? toEntry(standing) : null,
+        });
+      }
+
+      const region = scope === "global" ? GLOBAL_REGION : await storage.getPlayerRegion(profile.id);
+      if (!region) {
+        return res.json({ period, metric, region: null, regionLabel: null, refreshedAt: null, entries: [], you: null });
+      }
+
+      const query = { period, metric, region };
+      const entries = await storage.getLeaderboard(query, 20);
+      const standing = await storage.getLeaderboardStanding(profile.id, query);
+
+      res.json({
+        period,
+        metric,
+        region,
+        regionLabel: describeRegion(region),
+        refreshedAt: entries[0]?.refreshedAt ?? standing?.refreshedAt ?? null,
+        entries: entries.map(toEntry),
+        you: standing ? toEntry(standing) : null,
+      });
+    } catch (error) {
+      console.error("Error getting leaderboard:", error);
+      res.status(500).json({ message: "Failed to get leaderboard" });
+    }
+  });
+
+  // The achievement catalogue with what the player has earned and how close
+  // they are to the rest
+  app.get("/api/player/achievements", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const catalogue = await storage.getAchievementCatalogue();
+      const earned = new Map(
+        (await storage.getPlayerAchievements(profile.id)).map((row) => [row.achievementId, row.earnedAt])
+      );
+      const progress = await storage.getAchievementProgress(profile.id);
+
+      res.json(
+        catalogue.map((achievement) => ({
+          ...toBadge(achievement),
+          threshold: achievement.threshold,
+          progress: Math.min(progress?.[achievement.rule] ?? 0, achievement.threshold),
+          earnedAt: earned.get(achievement.id) ?? null,
+        }))
+      );
+    } catch (error) {
+      console.error("Error getting achievements:", error);
+      res.status(500).json({ message: "Failed to get achievements" });
+    }
+  });
+
   // Get active session
   app.get("/api/player/session/active", isAuthenticated, async (req: any, res: Response) => {
     try {
@@ -244,11 +744,21 @@ export async function registerRoutes(
 
       const session = await storage.getActiveSession(profile.id);
       if (!session) {
-        return res.json({ session: null, coins: [] });
+        return res.json({ session: null, coins: [], drops: [] });
       }
 
+      // Drops are found around the player's last tracked position
       const coins = await storage.getActiveCoinsForSession(session.id);
-      res.json({ session, coins });
+      const latest = await storage.getLatestSessionPoint(session.id);
+      const drops = await dropsNear(
+        latest?.latitude ?? session.startLatitude,
+        latest?.longitude ?? session.startLongitude
+      );
+      res.json({
+        session,
+        coins: await withCollectionRadius(await withSponsors(coins), session.region),
+        drops: await withCollectionRadius(await withSponsors(drops), session.region),
+      });
     } catch (error) {
       console.error("Error getting active session:", error);
       res.status(500).json({ message: "Failed to get active session" });
@@ -259,74 +769,98 @@ export async function registerRoutes(
   app.post("/api/player/session/start", isAuthenticated, async (req: any, res: Response) => {
     try {
       const userId = req.user?.claims?.sub;
-      const { latitude, longitude } = startSessionSchema.parse(req.body);
+      const { latitude, longitude, accuracy } = startSessionSchema.parse(req.body);
 
       const profile = await storage.getPlayerProfile(userId);
       if (!profile) {
         return res.status(404).json({ message: "Player profile not found" });
       }
 
+      if (profile.suspendedAt) {
+        return res.status(403).json({ message: "Your account is suspended" });
+      }
+
       // Check for existing active session
       const existingSession = await storage.getActiveSession(profile.id);
       if (existingSession) {
         return res.status(400).json({ message: "You already have an active session" });
       }
 
-      // Get random coins from inventory (1-10 coins)
-      const coinCount = Math.floor(Math.random() * 10) + 1;
-      const coinsToPlace = await storage.getRandomAvailableCoinsFromInventory(coinCount);
-
       // Create session even if no coins available (UI will show friendly message)
+      const region = regionForLocation(latitude, longitude);
       const session = await storage.createSession({
         playerId: profile.id,
         status: "active",
         startLatitude: latitude,
         startLongitude: longitude,
+        region,
         coinsCollected: 0,
         totalValue: 0,
-      });
-
-      // Place coins and create escrow records
-      const expiresAt = new Date(Date.now() + COIN_TTL_MINUTES * 60 * 1000);
-
-      for (const coinData of coinsToPlace) {
-        // Generate random location 1-2km away
-        const coinLocation = generateRandomPointInRadius(latitude, longitude, 1, 2);
-
-        // Decrement inventory
-        const decremented = await storage.decrementInventory(
-          coinData.sponsorId,
-          coinData.coinValue,
-          1
-        );
-
-        if (!decremented) continue;
-
-        // Create placed coin
-        const coin = await storage.createGeneratedCoin({
-          sponsorId: coinData.sponsorId,
-          sessionId: session.id,
-          coinValue: coinData.coinValue,
-          latitude: coinLocation.latitude,
-          longitude: coinLocation.longitude,
-          status: "placed",
-          expiresAt,
-        });
+      }, userActor(req));
+      await recordSessionFix(session, { latitude, longitude, accuracy: accuracy ?? null }, "start");
+
+      // Reserve a number of coins from inventory within the region's range,
+      // each placed in its ring around the player somewhere the placement
+      // validators accept (on a path, out of rivers)
+      const config = await getGameConfig({ region });
+      const coinCount =
+        config.minCoinsPerSession +
+        Math.floor(Math.random() * (config.maxCoinsPerSession - config.minCoinsPerSession + 1));
+      const player = { latitude, longitude };
+      const placements = generatePlacements(
+        player,
+        coinCount,
+        config.placementMinMeters / 1000,
+        config.placementMaxMeters / 1000
+      );
+      const expiresAt = new Date(Date.now() + config.coinTtlMinutes * 60 * 1000);
+
+      // Stock sponsors reserved for the player's challenges is drawn first,
+      // then stock attached to zones the player can reach, placed inside them
+      const challengeIds = await storage.getRunningChallengeIds(profile.id);
+      const reachMeters = config.placementMaxMeters;
+      const zonePlacements: Record<string, CoinPlacement[]> = {};
+      for (const zone of await storage.getStockedZonesNear(circleBounds(player, reachMeters))) {
+        if (!zoneIntersectsReach(zone, player, reachMeters)) continue;
+        const points = placementsInZone(zone, player, reachMeters, coinCount);
+        if (points.length > 0) zonePlacements[zone.id] = points;
+      }
 
-        // Create escrow record
-        await storage.createEscrow({
-          coinId: coin.id,
-          sponsorId: coinData.sponsorId,
-          amount: coinData.coinValue,
-          status: "held",
-        });
+      // Campaigns are only drawn from within their dates and hours, and when
+      // they target an area, only for players who can reach it
+      const running = await storage.getStockedCampaignsRunning();
+      const targetZones = await storage.getPlacementZonesByIds(
+        Array.from(new Set(running.flatMap((campaign) => campaign.targetZoneIds)))
+      );
+      const zonesById = new Map(targetZones.map((zone) => [zone.id, zone]));
+      const campaignPlacements: Record<string, CoinPlacement[] | null> = {};
+      const campaignExpiresAt: Record<string, Date> = {};
+      for (const campaign of running) {
+        const points = campaignPlacementsFor(campaign, zonesById, player, reachMeters, coinCount);
+        if (points === undefined) continue;
+        campaignPlacements[campaign.id] = points;
+        const { coinTtlMinutes } = await getGameConfig({ region, campaignId: campaign.id });
+        campaignExpiresAt[campaign.id] = new Date(Date.now() + coinTtlMinutes * 60 * 1000);
       }
 
+      await storage.reserveCoins(session.id, placements, expiresAt, userActor(req), {
+        challengeIds,
+        zonePlacements,
+        campaignPlacements,
+        campaignExpiresAt,
+      });
+
       const coins = await storage.getActiveCoinsForSession(session.id);
-      const message = coins.length === 0 
+      const drops = await dropsNear(latitude, longitude);
+      const message = coins.length === 0 && drops.length === 0
         ? "No coins are available right now. Sponsors haven't placed any coins yet." 
         : undefined;
-      res.json({ session, coins, message });
+      res.json({
+        session,
+        coins: await withCollectionRadius(await withSponsors(coins), session.region),
+        drops: await withCollectionRadius(await withSponsors(drops), session.region),
+        message,
+      });
     } catch (error) {
       console.error("Error starting session:", error);
       res.status(500).json({ message: "Failed to start session" });
@@ -351,33 +885,68 @@ export async function registerRoutes(
       // Mark remaining coins as expired and return to inventory
       const remainingCoins = await storage.getActiveCoinsForSession(session.id);
       for (const coin of remainingCoins) {
-        await storage.updateCoinStatus(coin.id, "expired");
-        await storage.addToInventory(coin.sponsorId, coin.coinValue, 1);
-        await storage.refundEscrow(coin.id);
+        await storage.expireCoin(coin.id, userActor(req), "Session ended");
       }
 
-      // End session
+      // End session, with walking stats worked out from its location trail
       const status = session.coinsCollected > 0 ? "completed" : "abandoned";
-      await storage.endSession(session.id, status);
+      const walk = computeWalkStats(await storage.getSessionPoints(session.id));
+      await storage.endSession(session.id, status, walk, userActor(req));
+      const achievements = await checkAchievements(profile.id, "session_end", session.id);
 
-      res.json({ success: true, status });
+      res.json({ success: true, status, walk, achievements: achievements.map(toBadge) });
     } catch (error) {
       console.error("Error ending session:", error);
       res.status(500).json({ message: "Failed to end session" });
     }
   });
 
+  // Record a batch of position fixes from the session page's location watch
+  app.post("/api/player/session/:id/track", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const { points } = trackSessionSchema.parse(req.body);
+
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const session = await storage.getSession(req.params.id);
+      if (!session || session.playerId !== profile.id) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      if (session.status !== "active") {
+        return res.status(400).json({ message: "Session is not active" });
+      }
+
+      const { stored } = await recordSessionTrack(
+        session,
+        points.map((point) => ({ ...point, accuracy: point.accuracy ?? null }))
+      );
+      res.json({ stored });
+    } catch (error) {
+      console.error("Error tracking session:", error);
+      res.status(500).json({ message: "Failed to record location" });
+    }
+  });
+
   // Collect coin
   app.post("/api/player/coin/collect", isAuthenticated, async (req: any, res: Response) => {
     try {
       const userId = req.user?.claims?.sub;
-      const { coinId, latitude, longitude } = collectCoinSchema.parse(req.body);
+      const { coinId, latitude, longitude, accuracy } = collectCoinSchema.parse(req.body);
 
       const profile = await storage.getPlayerProfile(userId);
       if (!profile) {
         return res.status(404).json({ message: "Player profile not found" });
       }
 
+      if (profile.suspendedAt) {
+        return res.status(403).json({ message: "Your account is suspended" });
+      }
+
       const session = await storage.getActiveSession(profile.id);
       if (!session) {
         return res.status(400).json({ message: "No active session" });
@@ -388,58 +957,62 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Coin not found" });
       }
 
-      if (coin.status !== "placed") {
+      // Dropped coins ("available") are open to any player until collected
+      if (coin.status !== "placed" && coin.status !== "available") {
         return res.status(400).json({ message: "Coin is no longer available" });
       }
 
-      if (coin.sessionId !== session.id) {
+      if (coin.status === "placed" && coin.sessionId !== session.id) {
         return res.status(400).json({ message: "Coin not in your session" });
       }
 
-      // Check distance
+      // Check the fix is plausible given the session's trail before trusting it
+      const assessment = await recordSessionFix(
+        session,
+        { latitude, longitude, accuracy: accuracy ?? null },
+        "collect",
+        coin.id
+      );
+      if (assessment.rejection) {
+        return res.status(400).json({ message: assessment.rejection });
+      }
+
+      // Check distance, allowing for the fix's reported accuracy up to the cap
+      const config = await getGameConfig({ region: session.region, campaignId: coin.campaignId });
+      const { radiusMeters } = collectionReach(config, accuracy);
       const distance = calculateDistance(latitude, longitude, coin.latitude, coin.longitude);
-      if (distance > COLLECTION_RADIUS_METERS) {
+      if (distance > radiusMeters) {
         return res.status(400).json({ 
-          message: `Too far from coin. Get within ${COLLECTION_RADIUS_METERS}m (currently ${Math.round(distance)}m away)` 
+          message: `Too far from coin. Get within ${radiusMeters}m (currently ${Math.round(distance)}m away)` 
         });
       }
 
-      // Check if expired
-      if (new Date(coin.expiresAt) < new Date()) {
-        await storage.updateCoinStatus(coin.id, "expired");
-        await storage.addToInventory(coin.sponsorId, coin.coinValue, 1);
-        await storage.refundEscrow(coin.id);
-        return res.status(400).json({ message: "Coin has expired" });
+      // Collect the coin! Status, escrow, stats, session and history all
+      // change in one transaction, so a repeated tap can't double-credit.
+      const result = await storage.collectCoin(coin.id, profile.id, session.id, userActor(req));
+      switch (result.status) {
+        case "not_found":
+          return res.status(404).json({ message: "Coin not found" });
+        case "unavailable":
+          return res.status(400).json({ message: "Coin is no longer available" });
+        case "wrong_session":
+          return res.status(400).json({ message: "Coin not in your session" });
+        case "expired":
+          return res.status(400).json({ message: "Coin has expired" });
       }
 
-      // Collect the coin!
-      await storage.updateCoinStatus(coin.id, "collected", profile.id);
-      await storage.releaseEscrow(coin.id);
-      
-      // Update player stats
-      await storage.updatePlayerStats(userId, 1, coin.coinValue);
-      
-      // Update sponsor stats
-      await storage.updateSponsorStats(coin.sponsorId, 0, coin.coinValue);
-
-      // Update session
-      await storage.updateSession(session.id, {
-        coinsCollected: session.coinsCollected + 1,
-        totalValue: session.totalValue + coin.coinValue,
-      });
-
-      // Add to history
-      await storage.addCollectionHistory({
-        playerId: profile.id,
-        coinId: coin.id,
-        sessionId: session.id,
-        coinValue: coin.coinValue,
-      });
+      const achievements = await checkAchievements(profile.id, "collection", session.id);
+      const [{ sponsor }] = await withSponsors([coin]);
 
       res.json({ 
         success: true, 
         coinValue: coin.coinValue,
-        message: `£${(coin.coinValue / 100).toFixed(2)} donated to British Heart Foundation!`
+        message: sponsor
+          ? `£${(coin.coinValue / 100).toFixed(2)} donated to British Heart Foundation, sponsored by ${sponsor.name}!`
+          : `£${(coin.coinValue / 100).toFixed(2)} donated to British Heart Foundation!`,
+        sponsor,
+        streak: { current: result.streak.currentStreak, freezes: result.streak.streakFreezes },
+        achievements: achievements.map(toBadge),
       });
     } catch (error) {
       console.error("Error collecting coin:", error);
@@ -474,115 +1047,1491 @@ export async function registerRoutes(
     }
   });
 
-  // ==================== Sponsor Routes ====================
-
-  // Get sponsor stats
-  app.get("/api/sponsor/stats", isAuthenticated, async (req: any, res: Response) => {
+  // Coins and donations over time, bucketed in the player's timezone
+  app.get("/api/player/history/series", isAuthenticated, async (req: any, res: Response) => {
     try {
+      const filters = historySeriesSchema.safeParse(req.query);
+      if (!filters.success) {
+        return res.status(400).json({ message: "Invalid filters" });
+      }
+
       const userId = req.user?.claims?.sub;
-      const profile = await storage.getSponsorProfile(userId);
-      
+      const profile = await storage.getPlayerProfile(userId);
       if (!profile) {
-        return res.status(404).json({ message: "Sponsor profile not found" });
+        return res.status(404).json({ message: "Player profile not found" });
       }
 
-      const inventory = await storage.getCoinInventory(profile.id);
-      const coins = await storage.getCoinsForSponsor(profile.id);
+      const { range, bucket } = filters.data;
+      const points = await storage.getPlayerHistorySeries(profile.id, profile.timezone, range, bucket);
+      res.json({ range, bucket, timezone: profile.timezone, points });
+    } catch (error) {
+      console.error("Error getting history series:", error);
+      res.status(500).json({ message: "Failed to get history" });
+    }
+  });
 
-      const stats = {
-        totalInInventory: inventory.reduce((sum, inv) => sum + inv.quantity, 0),
-        totalPlaced: coins.filter(c => c.status === "placed").length,
-        totalCollected: coins.filter(c => c.status === "collected").length,
-        totalExpired: coins.filter(c => c.status === "expired").length,
-      };
+  // Record the timezone reported by the player's browser
+  app.post("/api/player/timezone", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const { timezone } = timezoneSchema.parse(req.body);
 
-      res.json({
-        profile,
-        inventory,
-        recentCoins: coins.slice(0, 10),
-        stats,
-      });
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const updated = await storage.updatePlayerTimezone(profile.id, timezone, userActor(req));
+      res.json({ success: true, timezone: updated?.timezone ?? timezone });
     } catch (error) {
-      console.error("Error getting sponsor stats:", error);
-      res.status(500).json({ message: "Failed to get sponsor stats" });
+      console.error("Error updating timezone:", error);
+      res.status(500).json({ message: "Failed to update timezone" });
     }
   });
 
-  // Get sponsor coins
-  app.get("/api/sponsor/coins", isAuthenticated, async (req: any, res: Response) => {
+  // Finished sessions, newest first
+  app.get("/api/player/sessions", isAuthenticated, async (req: any, res: Response) => {
     try {
       const userId = req.user?.claims?.sub;
-      const profile = await storage.getSponsorProfile(userId);
-      
+      const profile = await storage.getPlayerProfile(userId);
+
       if (!profile) {
-        return res.status(404).json({ message: "Sponsor profile not found" });
+        return res.status(404).json({ message: "Player profile not found" });
       }
 
-      const coins = await storage.getCoinsForSponsor(profile.id);
-      res.json(coins);
+      res.json(await storage.getFinishedSessions(profile.id));
     } catch (error) {
-      console.error("Error getting sponsor coins:", error);
-      res.status(500).json({ message: "Failed to get coins" });
+      console.error("Error getting sessions:", error);
+      res.status(500).json({ message: "Failed to get sessions" });
     }
   });
 
-  // Sandbox mock payment - directly adds coins to inventory (no Stripe)
-  app.post("/api/sponsor/checkout", isAuthenticated, async (req: any, res: Response) => {
+  // A finished session's walked route and the coins collected along it
+  app.get("/api/player/session/:id/replay", isAuthenticated, async (req: any, res: Response) => {
     try {
       const userId = req.user?.claims?.sub;
-      const { coinValue, quantity } = checkoutSchema.parse(req.body);
+      const profile = await storage.getPlayerProfile(userId);
 
-      const profile = await storage.getSponsorProfile(userId);
       if (!profile) {
-        return res.status(404).json({ message: "Sponsor profile not found" });
+        return res.status(404).json({ message: "Player profile not found" });
       }
 
-      const totalAmount = coinValue * quantity;
-
-      // Sandbox mode: directly add coins to inventory without real payment
-      await storage.addToInventory(profile.id, coinValue, quantity);
+      const session = await storage.getSession(req.params.id);
+      if (!session || session.playerId !== profile.id) {
+        return res.status(404).json({ message: "Session not found" });
+      }
 
-      // Update sponsor stats (coinsPlaced = 0 for purchases, donated = totalAmount, coinsPurchased = quantity)
-      await storage.updateSponsorStats(userId, 0, totalAmount, quantity);
+      if (!session.endedAt) {
+        return res.status(400).json({ message: "Session is still active" });
+      }
 
-      res.json({ 
-        success: true, 
-        message: `Successfully added ${quantity} coins worth £${(coinValue / 100).toFixed(2)} each`,
-        coins: quantity,
-        value: coinValue,
-        total: totalAmount,
+      const points = await storage.getSessionPoints(session.id);
+      const collections = await storage.getSessionCollections(session.id);
+      res.json({
+        session,
+        points: points.map(({ latitude, longitude, accuracy, source, recordedAt }) => ({
+          latitude,
+          longitude,
+          accuracy,
+          source,
+          recordedAt,
+        })),
+        collections,
       });
     } catch (error) {
-      console.error("Error processing sandbox payment:", error);
-      res.status(500).json({ message: "Failed to process payment" });
+      console.error("Error getting session replay:", error);
+      res.status(500).json({ message: "Failed to get session replay" });
     }
   });
 
-  // Handle successful payment (called after Stripe redirect)
-  app.get("/api/sponsor/payment-success", isAuthenticated, async (req: any, res: Response) => {
+  // ==================== Friends Routes ====================
+
+  // Friends, pending requests both ways, and blocked players
+  app.get("/api/friends", isAuthenticated, async (req: any, res: Response) => {
     try {
       const userId = req.user?.claims?.sub;
-      const { coins, value } = req.query;
-
-      if (!coins || !value) {
-        return res.status(400).json({ message: "Missing parameters" });
-      }
-
-      const profile = await storage.getSponsorProfile(userId);
+      const profile = await storage.getPlayerProfile(userId);
       if (!profile) {
-        return res.status(404).json({ message: "Sponsor profile not found" });
+        return res.status(404).json({ message: "Player profile not found" });
       }
 
-      const quantity = parseInt(coins as string);
-      const coinValue = parseInt(value as string);
+      const overview = await storage.getFriendsOverview(profile.id);
+      res.json(overview);
+    } catch (error) {
+      console.error("Error getting friends:", error);
+      res.status(500).json({ message: "Failed to get friends" });
+    }
+  });
+
+  // Send a friend request by username
+  app.post("/api/friends/requests", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const { username } = friendRequestSchema.parse(req.body);
+      const target = await storage.getPlayerProfileByUsername(username);
+      if (!target) {
+        return res.status(404).json({ message: "No player with that username" });
+      }
+
+      const result = await storage.sendFriendRequest(profile.id, target.id, userActor(req));
+      switch (result.status) {
+        case "requested":
+        case "accepted":
+          return res.json({ status: result.status, username: target.username });
+        case "self":
+          return res.status(400).json({ message: "You can't add yourself as a friend" });
+        case "already_friends":
+          return res.status(409).json({ message: "You're already friends" });
+        case "already_requested":
+          return res.status(409).json({ message: "Friend request already sent" });
+        case "blocked":
+          // Don't reveal which side did the blocking
+          return res.status(403).json({ message: "You can't send a friend request to this player" });
+      }
+    } catch (error) {
+      console.error("Error sending friend request:", error);
+      res.status(500).json({ message: "Failed to send friend request" });
+    }
+  });
+
+  // Accept or decline a friend request sent to you
+  app.post("/api/friends/requests/:id/respond", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const { accept } = respondFriendRequestSchema.parse(req.body);
+      const result = await storage.respondToFriendRequest(profile.id, req.params.id, accept, userActor(req));
+      if (result === "not_found") {
+        return res.status(404).json({ message: "Friend request not found" });
+      }
+      res.json({ status: result });
+    } catch (error) {
+      console.error("Error responding to friend request:", error);
+      res.status(500).json({ message: "Failed to respond to friend request" });
+    }
+  });
+
+  // Remove a friend, or cancel a pending request
+  app.post("/api/friends/:playerId/remove", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const removed = await storage.removeFriend(profile.id, req.params.playerId, userActor(req));
+      if (!removed) {
+        return res.status(404).json({ message: "Friend not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing friend:", error);
+      res.status(500).json({ message: "Failed to remove friend" });
+    }
+  });
+
+  // Block a player: removes any friendship and stops future requests either way
+  app.post("/api/friends/:playerId/block", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const target = await storage.getPlayerProfileById(req.params.playerId);
+      if (!target) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+
+      const result = await storage.blockPlayer(profile.id, target.id, userActor(req));
+      if (result === "self") {
+        return res.status(400).json({ message: "You can't block yourself" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error blocking player:", error);
+      res.status(500).json({ message: "Failed to block player" });
+    }
+  });
+
+  app.post("/api/friends/:playerId/unblock", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const unblocked = await storage.unblockPlayer(profile.id, req.params.playerId, userActor(req));
+      if (!unblocked) {
+        return res.status(404).json({ message: "Player isn't blocked" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error unblocking player:", error);
+      res.status(500).json({ message: "Failed to unblock player" });
+    }
+  });
+
+  // Groups you belong to, with their shared totals
+  app.get("/api/groups", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const groups = await storage.getPlayerGroups(profile.id);
+      res.json(groups.map((group) => ({ ...group, isOwner: group.ownerId === profile.id })));
+    } catch (error) {
+      console.error("Error getting groups:", error);
+      res.status(500).json({ message: "Failed to get groups" });
+    }
+  });
+
+  app.post("/api/groups", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const { name } = createGroupSchema.parse(req.body);
+      const group = await storage.createGroup(profile.id, name, userActor(req));
+      res.json(group);
+    } catch (error) {
+      console.error("Error creating group:", error);
+      res.status(500).json({ message: "Failed to create group" });
+    }
+  });
+
+  // Join a group with its invite code
+  app.post("/api/groups/join", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const { inviteCode } = joinGroupSchema.parse(req.body);
+      const result = await storage.joinGroup(profile.id, inviteCode, userActor(req));
+      if (result.status === "not_found") {
+        return res.status(404).json({ message: "Invite code not recognised" });
+      }
+      res.json({ status: result.status, group: { id: result.group.id, name: result.group.name } });
+    } catch (error) {
+      console.error("Error joining group:", error);
+      res.status(500).json({ message: "Failed to join group" });
+    }
+  });
+
+  // A group's members, ranked by what they've raised since joining
+  app.get("/api/groups/:id", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const detail = await storage.getGroupDetail(req.params.id, profile.id);
+      if (!detail) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+
+      const isOwner = detail.group.ownerId === profile.id;
+      res.json({
+        group: {
+          id: detail.group.id,
+          name: detail.group.name,
+          createdAt: detail.group.createdAt,
+          // Only the owner can share the code
+          inviteCode: isOwner ? detail.group.inviteCode : null,
+          isOwner,
+        },
+        members: detail.members.map(({ playerId, ...member }) => ({
+          ...member,
+          isOwner: playerId === detail.group.ownerId,
+          isCurrentUser: playerId === profile.id,
+        })),
+        totalCoins: detail.totalCoins,
+        totalDonated: detail.totalDonated,
+      });
+    } catch (error) {
+      console.error("Error getting group:", error);
+      res.status(500).json({ message: "Failed to get group" });
+    }
+  });
+
+  app.post("/api/groups/:id/leave", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const left = await storage.leaveGroup(profile.id, req.params.id, userActor(req));
+      if (!left) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error leaving group:", error);
+      res.status(500).json({ message: "Failed to leave group" });
+    }
+  });
+
+  // Replace the invite code so the old one stops working (owner only)
+  app.post("/api/groups/:id/invite-code", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const group = await storage.regenerateGroupInviteCode(profile.id, req.params.id, userActor(req));
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      res.json({ inviteCode: group.inviteCode });
+    } catch (error) {
+      console.error("Error regenerating invite code:", error);
+      res.status(500).json({ message: "Failed to regenerate invite code" });
+    }
+  });
+
+  // ==================== Challenges Routes ====================
+
+  // Challenges you're in, with progress
+  app.get("/api/challenges", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const challenges = await storage.getPlayerChallenges(profile.id);
+      res.json(challenges.map((challenge) => ({ ...challenge, isOwner: challenge.createdBy === profile.id })));
+    } catch (error) {
+      console.error("Error getting challenges:", error);
+      res.status(500).json({ message: "Failed to get challenges" });
+    }
+  });
+
+  app.post("/api/challenges", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const { name, description, targetAmount, endsAt } = createChallengeSchema.parse(req.body);
+      const challenge = await storage.createChallenge(
+        profile.id,
+        { name, description: description || null, targetAmount, endsAt },
+        userActor(req)
+      );
+      res.json(challenge);
+    } catch (error) {
+      console.error("Error creating challenge:", error);
+      res.status(500).json({ message: "Failed to create challenge" });
+    }
+  });
+
+  // Join a challenge with its invite code
+  app.post("/api/challenges/join", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getPlayerProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Player profile not found" });
+      }
+
+      const { inviteCode } = joinChallengeSchema.parse(req.body);
+      const result = await storage.joinChallenge(profile.id, inviteCode, userActor(req));
+      switch (result.status) {
+        case "joined":
+        case "already_member":
+          return res.json({
+            status: result.status,
+            challenge: { id: result.challenge.id, name: result.challenge.name },
+          });
+        case "not_found":
+          return res.status(404).json({ message: "Invite code not recognised" });
+        case "ended":
+          return res.status(409).json({ message: "This challenge has ended" });
+      }
+    } catch (error) {
+      console.error("Error joining challenge:", error);
+      res.status(500).json({ message: "Failed to join challenge" });
+    }
+  });
+
+  // Progress, top contributors and sponsor reserves. Sponsors can view any
+  // challenge to decide whether to back it; only members see the invite code.
+  app.get("/api/challenges/:id", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const detail = await storage.getChallengeDetail(req.params.id);
+      if (!detail) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+
+      const profile = await storage.getPlayerProfile(userId);
+      const isMember = !!profile && (await storage.isChallengeMember(detail.challenge.id, profile.id));
+      const { inviteCode, createdBy, reservationsReleasedAt, ...challenge } = detail.challenge;
+
+      res.json({
+        challenge: {
+          ...challenge,
+          inviteCode: isMember ? inviteCode : null,
+          isOwner: !!profile && createdBy === profile.id,
+          isMember,
+        },
+        contributors: detail.contributors.slice(0, 10).map(({ playerId, ...contributor }) => ({
+          ...contributor,
+          isCurrentUser: !!profile && playerId === profile.id,
+        })),
+        reserves: detail.reserves.map(({ sponsorId, ...reserve }) => reserve),
+      });
+    } catch (error) {
+      console.error("Error getting challenge:", error);
+      res.status(500).json({ message: "Failed to get challenge" });
+    }
+  });
+
+  // ==================== Sponsor Routes ====================
+
+  // Get sponsor stats
+  app.get("/api/sponsor/stats", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+      
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const inventory = await storage.getCoinInventory(profile.id);
+      const coins = await storage.getCoinsForSponsor(profile.id);
+
+      const stats = {
+        totalInInventory: inventory.reduce((sum, inv) => sum + inv.quantity, 0),
+        totalPlaced: coins.filter(c => c.status === "placed" || c.status === "available").length,
+        totalCollected: coins.filter(c => c.status === "collected").length,
+        totalExpired: coins.filter(c => c.status === "expired").length,
+      };
+
+      res.json({
+        profile,
+        inventory,
+        recentCoins: coins.slice(0, 10),
+        stats,
+      });
+    } catch (error) {
+      console.error("Error getting sponsor stats:", error);
+      res.status(500).json({ message: "Failed to get sponsor stats" });
+    }
+  });
+
+  // Get sponsor coins
+  app.get("/api/sponsor/coins", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+      
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const coins = await storage.getCoinsForSponsor(profile.id);
+      res.json(coins);
+    } catch (error) {
+      console.error("Error getting sponsor coins:", error);
+      res.status(500).json({ message: "Failed to get coins" });
+    }
+  });
+
+  // Start a coin purchase. In sandbox mode coins are added to inventory
+  // directly; otherwise a Stripe Checkout Session is created and inventory is
+  // only credited by the webhook once Stripe reports it paid.
+  app.post("/api/sponsor/checkout", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const parsed = checkoutSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid heart value or quantity" });
+      }
+      const { coinValue, quantity } = parsed.data;
+
+      const profile = await storage.getSponsorProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const totalAmount = coinValue * quantity;
+
+      if (isPaymentsSandbox()) {
+        // Sandbox mode: directly add coins to inventory without real payment.
+        // Purchases don't count as donations; those are recorded on collection.
+        await storage.fulfillSandboxPurchase(profile.id, coinValue, quantity, userActor(req));
+
+        return res.json({ 
+          success: true, 
+          mode: "sandbox",
+          message: `Successfully added ${quantity} coins worth £${(coinValue / 100).toFixed(2)} each`,
+          coins: quantity,
+          value: coinValue,
+          total: totalAmount,
+        });
+      }
+
+      if (totalAmount < STRIPE_MINIMUM_CHARGE_PENCE) {
+        return res.status(400).json({
+          message: `Minimum purchase is £${(STRIPE_MINIMUM_CHARGE_PENCE / 100).toFixed(2)}`,
+        });
+      }
+
+      const stripe = await getUncachableStripeClient();
+
+      let customerId = profile.stripeCustomerId;
+      if (!customerId) {
+        const customer = await stripe.customers.create({
+          name: profile.companyName || undefined,
+          metadata: { sponsorId: profile.id, userId },
+        });
+        customerId = customer.id;
+        await storage.updateSponsorStripeCustomerId(userId, customerId, userActor(req));
+      }
+
+      // The order exists before the Checkout Session, so a webhook that
+      // arrives before the session id is attached still finds it by id
+      const order = await storage.createPurchaseOrder({
+        sponsorId: profile.id,
+        coinValue,
+        quantity,
+        amount: totalAmount,
+        status: "pending",
+      }, userActor(req));
+
+      const baseUrl = `${req.protocol}://${req.get("host")}`;
+      let checkoutSession;
+      try {
+        checkoutSession = await stripe.checkout.sessions.create({
+          mode: "payment",
+          customer: customerId,
+          client_reference_id: order.id,
+          line_items: [
+            {
+              price_data: {
+                currency: "gbp",
+                unit_amount: coinValue,
+                product_data: {
+                  name: `£${(coinValue / 100).toFixed(2)} Give Go heart`,
+                  description: "Donated to the British Heart Foundation when collected",
+                },
+              },
+              quantity,
+            },
+          ],
+          metadata: {
+            sponsorId: profile.id,
+            purchaseOrderId: order.id,
+            coinValue: String(coinValue),
+            quantity: String(quantity),
+          },
+          success_url: `${baseUrl}/sponsor?checkout=success&session_id={CHECKOUT_SESSION_ID}`,
+          cancel_url: `${baseUrl}/sponsor/purchase?checkout=cancelled`,
+        });
+      } catch (error) {
+        // No session means nothing can be paid, so the order won't be either
+        await storage.expirePurchaseOrder({ checkoutSessionId: null, orderId: order.id }, userActor(req));
+        throw error;
+      }
+
+      await storage.attachCheckoutSession(order.id, checkoutSession.id, userActor(req));
+
+      res.json({
+        success: true,
+        mode: "stripe",
+        url: checkoutSession.url,
+      });
+    } catch (error) {
+      console.error("Error creating checkout:", error);
+      res.status(500).json({ message: "Failed to process payment" });
+    }
+  });
+
+  // Read back the status of a checkout after the Stripe redirect. Inventory is
+  // credited by the webhook, never here.
+  app.get("/api/sponsor/payment-success", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const parsed = paymentSuccessSchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Missing parameters" });
+      }
+
+      const profile = await storage.getSponsorProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const order = await storage.getPurchaseOrderByCheckoutSession(parsed.data.session_id);
+      if (!order || order.sponsorId !== profile.id) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      res.json({
+        status: order.status,
+        quantity: order.quantity,
+        coinValue: order.coinValue,
+        amount: order.amount,
+      });
+    } catch (error) {
+      console.error("Error getting payment status:", error);
+      res.status(500).json({ message: "Failed to get payment status" });
+    }
+  });
+
+  // List purchase orders, including how many hearts are still refundable
+  app.get("/api/sponsor/orders", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const orders = await storage.getPurchaseOrdersForSponsor(profile.id);
+      res.json(
+        orders.map((order) => ({
+          ...order,
+          refundableQuantity:
+            order.status === "paid" && order.stripePaymentIntentId
+              ? order.quantity - order.refundedQuantity
+              : 0,
+        }))
+      );
+    } catch (error) {
+      console.error("Error getting sponsor orders:", error);
+      res.status(500).json({ message: "Failed to get orders" });
+    }
+  });
+
+  // Refund hearts that were purchased but never placed
+  app.post("/api/sponsor/refunds", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const { purchaseOrderId, quantity } = refundSchema.parse(req.body);
+
+      const profile = await storage.getSponsorProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const result = await storage.requestSponsorRefund(profile.id, purchaseOrderId, quantity, userActor(req));
+      switch (result.status) {
+        case "order_not_found":
+          return res.status(404).json({ message: "Order not found" });
+        case "not_refundable":
+          return res.status(400).json({ message: "This order can't be refunded" });
+        case "exceeds_order":
+          return res.status(400).json({ message: "Quantity exceeds the hearts left on this order" });
+        case "insufficient_inventory":
+          return res.status(400).json({ message: "Not enough unplaced hearts in inventory to refund" });
+      }
+
+      const { refund, paymentIntentId } = result;
+      const outcome = await issueSponsorRefund(refund, paymentIntentId, userActor(req));
+      if (outcome === "failed") {
+        return res.status(502).json({ message: "Refund could not be processed. Your hearts are back in inventory." });
+      }
+      if (outcome === "pending") {
+        return res.status(202).json({
+          success: true,
+          pending: true,
+          quantity: refund.quantity,
+          amount: refund.amount,
+          message: "Your refund is being processed and will reach you shortly",
+        });
+      }
+
+      res.json({
+        success: true,
+        quantity: refund.quantity,
+        amount: refund.amount,
+        message: `Refunded £${(refund.amount / 100).toFixed(2)} for ${refund.quantity} hearts`,
+      });
+    } catch (error) {
+      console.error("Error processing refund:", error);
+      res.status(500).json({ message: "Failed to process refund" });
+    }
+  });
+
+  // Running challenges a sponsor could back
+  app.get("/api/sponsor/challenges", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const challenges = await storage.getOpenChallenges();
+      res.json(challenges.map(({ inviteCode, createdBy, reservationsReleasedAt, ...challenge }) => challenge));
+    } catch (error) {
+      console.error("Error getting open challenges:", error);
+      res.status(500).json({ message: "Failed to get challenges" });
+    }
+  });
+
+  // Reserve inventory so only the challenge's members can collect it
+  app.post("/api/sponsor/challenges/:id/reserve", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const { coinValue, quantity } = reserveForChallengeSchema.parse(req.body);
+      const result = await storage.reserveInventoryForChallenge(
+        profile.id,
+        req.params.id,
+        coinValue,
+        quantity,
+        userActor(req)
+      );
+      switch (result.status) {
+        case "reserved":
+          return res.json({ success: true, inventory: result.inventory });
+        case "challenge_not_found":
+          return res.status(404).json({ message: "Challenge not found" });
+        case "challenge_ended":
+          return res.status(409).json({ message: "This challenge has ended" });
+        case "insufficient_inventory":
+          return res.status(400).json({ message: "Not enough hearts of that value in your inventory" });
+      }
+    } catch (error) {
+      console.error("Error reserving inventory for challenge:", error);
+      res.status(500).json({ message: "Failed to reserve hearts" });
+    }
+  });
+
+  // Drop a heart from general stock at a chosen spot, for any player to find
+  app.post("/api/sponsor/drops", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const drop = dropCoinSchema.parse(req.body);
+      const result = await storage.dropCoin(profile.id, drop, userActor(req));
+      switch (result.status) {
+        case "dropped":
+          return res.json({ success: true, coin: result.coin });
+        case "insufficient_inventory":
+          return res.status(400).json({ message: "No hearts of that value in your inventory" });
+      }
+    } catch (error) {
+      console.error("Error dropping coin:", error);
+      res.status(500).json({ message: "Failed to drop heart" });
+    }
+  });
+
+  app.get("/api/sponsor/zones", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      res.json(await storage.getPlacementZones(profile.id));
+    } catch (error) {
+      console.error("Error getting placement zones:", error);
+      res.status(500).json({ message: "Failed to get zones" });
+    }
+  });
+
+  app.post("/api/sponsor/zones", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const input = createZoneSchema.parse(req.body);
+      const zone = await storage.createPlacementZone(profile.id, input, userActor(req));
+      res.json(zone);
+    } catch (error) {
+      console.error("Error creating placement zone:", error);
+      res.status(500).json({ message: "Failed to create zone" });
+    }
+  });
+
+  // Attach general stock to a zone, or release a zone's stock back
+  app.post("/api/sponsor/zones/:id/inventory", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const { coinValue, quantity, direction } = zoneInventorySchema.parse(req.body);
+      const result = await storage.moveZoneInventory(
+        profile.id,
+        req.params.id,
+        coinValue,
+        quantity,
+        direction,
+        userActor(req)
+      );
+      switch (result.status) {
+        case "moved":
+          return res.json({ success: true, inventory: result.inventory });
+        case "zone_not_found":
+          return res.status(404).json({ message: "Zone not found" });
+        case "zone_archived":
+          return res.status(409).json({ message: "This zone has been archived" });
+        case "insufficient_inventory":
+          return res.status(400).json({
+            message:
+              direction === "assign"
+                ? "Not enough hearts of that value in your inventory"
+                : "Not enough hearts of that value in this zone",
+          });
+      }
+    } catch (error) {
+      console.error("Error moving zone inventory:", error);
+      res.status(500).json({ message: "Failed to update zone inventory" });
+    }
+  });
+
+  app.post("/api/sponsor/zones/:id/archive", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const result = await storage.archivePlacementZone(profile.id, req.params.id, userActor(req));
+      switch (result.status) {
+        case "archived":
+          return res.json({ success: true, released: result.released });
+        case "not_found":
+          return res.status(404).json({ message: "Zone not found" });
+        case "already_archived":
+          return res.status(409).json({ message: "This zone is already archived" });
+      }
+    } catch (error) {
+      console.error("Error archiving placement zone:", error);
+      res.status(500).json({ message: "Failed to archive zone" });
+    }
+  });
+
+  // The sponsor's campaigns with their allocation, spend and results
+  app.get("/api/sponsor/campaigns", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const campaigns = await storage.getCampaigns(profile.id);
+      res.json(campaigns.map((campaign) => ({ ...campaign, status: campaignStatus(campaign, campaign.spentToday) })));
+    } catch (error) {
+      console.error("Error getting campaigns:", error);
+      res.status(500).json({ message: "Failed to get campaigns" });
+    }
+  });
+
+  app.post("/api/sponsor/campaigns", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
 
-      // Add coins to inventory
-      await storage.addToInventory(profile.id, coinValue, quantity);
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
 
-      res.json({ success: true, quantity, coinValue });
+      const input = createCampaignSchema.parse(req.body);
+      const result = await storage.createCampaign(profile.id, input, userActor(req));
+      switch (result.status) {
+        case "created":
+          return res.json(result.campaign);
+        case "zone_not_found":
+          return res.status(400).json({ message: "Target zones must be your own active zones" });
+      }
     } catch (error) {
-      console.error("Error processing payment success:", error);
-      res.status(500).json({ message: "Failed to process payment" });
+      console.error("Error creating campaign:", error);
+      res.status(500).json({ message: "Failed to create campaign" });
+    }
+  });
+
+  // Allocate general stock to a campaign, or release its allocation back
+  app.post("/api/sponsor/campaigns/:id/inventory", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const { coinValue, quantity, direction } = campaignInventorySchema.parse(req.body);
+      const result = await storage.moveCampaignInventory(
+        profile.id,
+        req.params.id,
+        coinValue,
+        quantity,
+        direction,
+        userActor(req)
+      );
+      switch (result.status) {
+        case "moved":
+          return res.json({ success: true, inventory: result.inventory });
+        case "campaign_not_found":
+          return res.status(404).json({ message: "Campaign not found" });
+        case "campaign_archived":
+          return res.status(409).json({ message: "This campaign has been archived" });
+        case "insufficient_inventory":
+          return res.status(400).json({
+            message:
+              direction === "assign"
+                ? "Not enough hearts of that value in your inventory"
+                : "Not enough hearts of that value in this campaign",
+          });
+      }
+    } catch (error) {
+      console.error("Error moving campaign inventory:", error);
+      res.status(500).json({ message: "Failed to update campaign inventory" });
+    }
+  });
+
+  app.post("/api/sponsor/campaigns/:id/archive", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const result = await storage.archiveCampaign(profile.id, req.params.id, userActor(req));
+      switch (result.status) {
+        case "archived":
+          return res.json({ success: true, released: result.released });
+        case "not_found":
+          return res.status(404).json({ message: "Campaign not found" });
+        case "already_archived":
+          return res.status(409).json({ message: "This campaign is already archived" });
+      }
+    } catch (error) {
+      console.error("Error archiving campaign:", error);
+      res.status(500).json({ message: "Failed to archive campaign" });
+    }
+  });
+
+  // Branding shown on the sponsor's hearts. A campaign's own branding, set
+  // below, takes precedence for that campaign's hearts.
+  app.post("/api/sponsor/branding", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const { removeLogo: clearLogo, ...update } = brandingSchema.parse(req.body);
+      const result = await storage.updateSponsorBranding(
+        profile.id,
+        clearLogo ? { ...update, logoUrl: null } : update,
+        userActor(req)
+      );
+      if (!result) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+      if (clearLogo) await removeLogo(result.previousLogoUrl);
+      res.json(result.profile);
+    } catch (error) {
+      console.error("Error updating sponsor branding:", error);
+      res.status(500).json({ message: "Failed to update branding" });
+    }
+  });
+
+  app.post("/api/sponsor/branding/logo", isAuthenticated, logoUpload, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const upload = readLogoUpload(req.body);
+      if ("status" in upload) {
+        return res.status(upload.status).json({ message: upload.message });
+      }
+
+      const logoUrl = await saveLogo(upload.bytes, upload.extension);
+      const result = await storage.updateSponsorBranding(profile.id, { logoUrl }, userActor(req));
+      if (!result) {
+        await removeLogo(logoUrl);
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+      await removeLogo(result.previousLogoUrl);
+      res.json(result.profile);
+    } catch (error) {
+      console.error("Error uploading sponsor logo:", error);
+      res.status(500).json({ message: "Failed to upload logo" });
+    }
+  });
+
+  app.post("/api/sponsor/campaigns/:id/branding", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const { removeLogo: clearLogo, ...update } = brandingSchema.parse(req.body);
+      const result = await storage.updateCampaignBranding(
+        profile.id,
+        req.params.id,
+        clearLogo ? { ...update, logoUrl: null } : update,
+        userActor(req)
+      );
+      switch (result.status) {
+        case "updated":
+          if (clearLogo) await removeLogo(result.previousLogoUrl);
+          return res.json(result.campaign);
+        case "not_found":
+          return res.status(404).json({ message: "Campaign not found" });
+        case "campaign_archived":
+          return res.status(409).json({ message: "This campaign has been archived" });
+      }
+    } catch (error) {
+      console.error("Error updating campaign branding:", error);
+      res.status(500).json({ message: "Failed to update branding" });
+    }
+  });
+
+  app.post("/api/sponsor/campaigns/:id/branding/logo", isAuthenticated, logoUpload, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const upload = readLogoUpload(req.body);
+      if ("status" in upload) {
+        return res.status(upload.status).json({ message: upload.message });
+      }
+
+      const logoUrl = await saveLogo(upload.bytes, upload.extension);
+      const result = await storage.updateCampaignBranding(profile.id, req.params.id, { logoUrl }, userActor(req));
+      if (result.status !== "updated") {
+        await removeLogo(logoUrl);
+      }
+      switch (result.status) {
+        case "updated":
+          await removeLogo(result.previousLogoUrl);
+          return res.json(result.campaign);
+        case "not_found":
+          return res.status(404).json({ message: "Campaign not found" });
+        case "campaign_archived":
+          return res.status(409).json({ message: "This campaign has been archived" });
+      }
+    } catch (error) {
+      console.error("Error uploading campaign logo:", error);
+      res.status(500).json({ message: "Failed to upload logo" });
+    }
+  });
+
+  // Charity payouts that include this sponsor's collected hearts
+  app.get("/api/sponsor/payouts", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const profile = await storage.getSponsorProfile(userId);
+
+      if (!profile) {
+        return res.status(404).json({ message: "Sponsor profile not found" });
+      }
+
+      const reports = await storage.getPayoutsForSponsor(profile.id);
+      res.json(
+        reports.map(({ payout, lines }) => ({
+          payout,
+          sponsorAmount: lines.reduce((sum, line) => sum + line.amount, 0),
+          lines,
+        }))
+      );
+    } catch (error) {
+      console.error("Error getting sponsor payouts:", error);
+      res.status(500).json({ message: "Failed to get payouts" });
+    }
+  });
+
+  // ==================== Admin Routes ====================
+
+  // Check the donation ledger balances and report any counter drift
+  app.get("/api/admin/ledger/verify", isAuthenticated, isAdmin, async (_req: any, res: Response) => {
+    try {
+      const report = await storage.verifyLedger();
+      res.json(report);
+    } catch (error) {
+      console.error("Error verifying ledger:", error);
+      res.status(500).json({ message: "Failed to verify ledger" });
+    }
+  });
+
+  // Award every player the achievements their existing history has earned
+  app.post("/api/admin/achievements/backfill", isAuthenticated, isAdmin, async (_req: any, res: Response) => {
+    try {
+      const result = await backfillAchievements();
+      res.json(result);
+    } catch (error) {
+      console.error("Error backfilling achievements:", error);
+      res.status(500).json({ message: "Failed to backfill achievements" });
+    }
+  });
+
+  // List users with their roles and profiles
+  app.get("/api/admin/users", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const parsed = adminUserFiltersSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid filters" });
+      }
+
+      res.json(await storage.listUsers(parsed.data));
+    } catch (error) {
+      console.error("Error listing users:", error);
+      res.status(500).json({ message: "Failed to list users" });
+    }
+  });
+
+  // List sponsors with their unplaced inventory
+  app.get("/api/admin/sponsors", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const parsed = adminSponsorFiltersSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid filters" });
+      }
+
+      res.json(await storage.listSponsors(parsed.data));
+    } catch (error) {
+      console.error("Error listing sponsors:", error);
+      res.status(500).json({ message: "Failed to list sponsors" });
+    }
+  });
+
+  app.get("/api/admin/sessions", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const parsed = adminSessionFiltersSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid filters" });
+      }
+
+      res.json(await storage.listSessions(parsed.data));
+    } catch (error) {
+      console.error("Error listing sessions:", error);
+      res.status(500).json({ message: "Failed to list sessions" });
+    }
+  });
+
+  app.get("/api/admin/coins", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const parsed = adminCoinFiltersSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid filters" });
+      }
+
+      res.json(await storage.listCoins(parsed.data));
+    } catch (error) {
+      console.error("Error listing coins:", error);
+      res.status(500).json({ message: "Failed to list coins" });
+    }
+  });
+
+  app.get("/api/admin/escrow", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const parsed = adminEscrowFiltersSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid filters" });
+      }
+
+      res.json(await storage.listEscrow(parsed.data));
+    } catch (error) {
+      console.error("Error listing escrow:", error);
+      res.status(500).json({ message: "Failed to list escrow" });
+    }
+  });
+
+  app.get("/api/admin/audit", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const parsed = adminAuditFiltersSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid filters" });
+      }
+
+      res.json(await storage.getAuditEvents(parsed.data));
+    } catch (error) {
+      console.error("Error listing audit events:", error);
+      res.status(500).json({ message: "Failed to list audit events" });
+    }
+  });
+
+  // Full audit trail for one coin, session or sponsor, oldest first
+  app.get("/api/admin/audit/:scope/:id", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const scope = auditTrailScopeSchema.safeParse(req.params.scope);
+      if (!scope.success) {
+        return res.status(400).json({ message: "Trail scope must be coin, session or sponsor" });
+      }
+
+      res.json(await storage.getAuditTrail(scope.data, req.params.id));
+    } catch (error) {
+      console.error("Error getting audit trail:", error);
+      res.status(500).json({ message: "Failed to get audit trail" });
+    }
+  });
+
+  // Force-expire a placed coin, returning it to the sponsor's inventory
+  app.post("/api/admin/coins/:id/expire", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const { reason } = adminReasonSchema.parse(req.body);
+      const result = await storage.adminExpireCoin(req.params.id, adminActor(req), reason);
+      switch (result) {
+        case "not_found":
+          return res.status(404).json({ message: "Coin not found" });
+        case "not_placed":
+          return res.status(400).json({ message: "Only placed coins can be expired" });
+      }
+
+      res.json({ success: true, message: "Coin expired and returned to inventory" });
+    } catch (error) {
+      console.error("Error expiring coin:", error);
+      res.status(500).json({ message: "Failed to expire coin" });
+    }
+  });
+
+  // Refund held escrow back to the sponsor's inventory
+  app.post("/api/admin/escrow/:id/refund", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const { reason } = adminReasonSchema.parse(req.body);
+      const result = await storage.adminRefundEscrow(req.params.id, adminActor(req), reason);
+      switch (result) {
+        case "not_found":
+          return res.status(404).json({ message: "Escrow not found" });
+        case "not_held":
+          return res.status(400).json({ message: "Only held escrow can be refunded" });
+      }
+
+      res.json({ success: true, message: "Escrow refunded to sponsor inventory" });
+    } catch (error) {
+      console.error("Error refunding escrow:", error);
+      res.status(500).json({ message: "Failed to refund escrow" });
+    }
+  });
+
+  // Settle a payout the payout job sent to review, once the charity's
+  // connected account shows whether the transfer arrived. A failed payout's
+  // escrow is rebatched into the next payout.
+  app.post("/api/admin/payouts/:id/review", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const { outcome, stripeTransferId, reason } = adminPayoutReviewSchema.parse(req.body);
+      const settled =
+        outcome === "paid"
+          ? await storage.markPayoutPaid(req.params.id, stripeTransferId ?? null, adminActor(req), reason)
+          : await storage.markPayoutFailed(req.params.id, reason, adminActor(req), true);
+      if (!settled) {
+        return res.status(400).json({ message: "Payout not found or not in review" });
+      }
+
+      res.json({
+        success: true,
+        message: outcome === "paid" ? "Payout marked paid" : "Payout failed and its escrow returned for the next payout",
+      });
+    } catch (error) {
+      console.error("Error reviewing payout:", error);
+      res.status(500).json({ message: "Failed to review payout" });
+    }
+  });
+
+  // Suspend or reinstate a player. Suspended players can't start sessions or collect.
+  app.post("/api/admin/players/:id/suspend", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const { suspended, reason } = adminSuspendSchema.parse(req.body);
+      const profile = await storage.setPlayerSuspended(req.params.id, suspended, adminActor(req), reason);
+      if (!profile) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+
+      res.json({
+        success: true,
+        profile,
+        message: suspended ? `${profile.username} suspended` : `${profile.username} reinstated`,
+      });
+    } catch (error) {
+      console.error("Error suspending player:", error);
+      res.status(500).json({ message: "Failed to update player" });
+    }
+  });
+
+  // Add or remove unplaced hearts of one denomination
+  app.post("/api/admin/sponsors/:id/inventory", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const { coinValue, delta, reason } = adminInventorySchema.parse(req.body);
+      const result = await storage.adjustSponsorInventory(req.params.id, coinValue, delta, adminActor(req), reason);
+      switch (result.status) {
+        case "sponsor_not_found":
+          return res.status(404).json({ message: "Sponsor not found" });
+        case "insufficient_inventory":
+          return res.status(400).json({ message: "Not enough unplaced hearts to remove" });
+      }
+
+      res.json({
+        success: true,
+        inventory: result.inventory,
+        message: `Inventory now ${result.inventory.quantity} × £${(coinValue / 100).toFixed(2)}`,
+      });
+    } catch (error) {
+      console.error("Error adjusting inventory:", error);
+      res.status(500).json({ message: "Failed to adjust inventory" });
+    }
+  });
+
+  // Every game rule override, with a readable label for region keys
+  app.get("/api/admin/game-configs", isAuthenticated, isAdmin, async (_req: any, res: Response) => {
+    try {
+      const rows = await storage.getGameConfigs();
+      res.json(rows.map((row) => ({
+        ...row,
+        label: row.scope === "region" ? describeRegion(row.scopeKey) : row.scope === "global" ? "Everywhere" : row.scopeKey,
+      })));
+    } catch (error) {
+      console.error("Error listing game configs:", error);
+      res.status(500).json({ message: "Failed to list game rules" });
+    }
+  });
+
+  // Set the overrides for a scope, creating its row if needed
+  app.post("/api/admin/game-configs", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const { scope, scopeKey, reason, ...overrides } = upsertGameConfigSchema.parse(req.body);
+      const config = await storage.upsertGameConfig(scope, scopeKey, overrides, adminActor(req), reason);
+      clearGameConfigCache();
+      res.json({ success: true, config, message: "Game rules saved" });
+    } catch (error) {
+      console.error("Error saving game config:", error);
+      res.status(500).json({ message: "Failed to save game rules" });
+    }
+  });
+
+  app.post("/api/admin/game-configs/:id/delete", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const { reason } = adminReasonSchema.parse(req.body);
+      const deleted = await storage.deleteGameConfig(req.params.id, adminActor(req), reason);
+      if (!deleted) {
+        return res.status(404).json({ message: "Game rules not found" });
+      }
+
+      clearGameConfigCache();
+      res.json({ success: true, message: "Game rules removed" });
+    } catch (error) {
+      console.error("Error deleting game config:", error);
+      res.status(500).json({ message: "Failed to remove game rules" });
+    }
+  });
+
+  // Players with open anti-cheat flags, most recently flagged first
+  app.get("/api/admin/review-queue", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      res.json(await storage.getReviewQueue());
+    } catch (error) {
+      console.error("Error getting review queue:", error);
+      res.status(500).json({ message: "Failed to get review queue" });
+    }
+  });
+
+  app.get("/api/admin/cheat-flags", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const filters = cheatFlagFiltersSchema.safeParse(req.query);
+      if (!filters.success) {
+        return res.status(400).json({ message: "Invalid filters" });
+      }
+      res.json(await storage.listCheatFlags(filters.data));
+    } catch (error) {
+      console.error("Error listing cheat flags:", error);
+      res.status(500).json({ message: "Failed to list cheat flags" });
+    }
+  });
+
+  // A session's stored location trail, including rejected fixes, for reviewing flags against
+  app.get("/api/admin/sessions/:id/points", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      res.json(await storage.getSessionPoints(req.params.id, { includeRejected: true }));
+    } catch (error) {
+      console.error("Error getting session points:", error);
+      res.status(500).json({ message: "Failed to get session points" });
+    }
+  });
+
+  // Dismiss a flag as a false positive, or confirm it as cheating
+  app.post("/api/admin/cheat-flags/:id/resolve", isAuthenticated, isAdmin, async (req: any, res: Response) => {
+    try {
+      const { status, reason } = resolveCheatFlagSchema.parse(req.body);
+      const flag = await storage.resolveCheatFlag(req.params.id, status, adminActor(req), reason);
+      if (!flag) {
+        return res.status(400).json({ message: "Flag not found or already reviewed" });
+      }
+
+      res.json({ success: true, flag, message: status === "confirmed" ? "Flag confirmed" : "Flag dismissed" });
+    } catch (error) {
+      console.error("Error resolving cheat flag:", error);
+      res.status(500).json({ message: "Failed to resolve cheat flag" });
     }
   });
 
@@ -0,0 +1,50 @@
+import type Stripe from "stripe";
+import type { SponsorRefund } from "@shared/schema";
+import { storage, type AuditActor } from "./storage";
+import { getUncachableStripeClient, isPermanentStripeError } from "./stripeClient";
+
+export type RefundOutcome = "succeeded" | "failed" | "pending";
+
+// Send a pending refund to Stripe and record what happened. Only a refund
+// Stripe definitely rejected is failed, which puts the hearts back in
+// inventory. When the outcome is unknown (a timeout, an outage) or the
+// result couldn't be recorded, the refund stays pending and the retry job
+// sends it again: an earlier attempt that went through is found by its
+// refundId metadata, and otherwise the same idempotency key is reused.
+export async function issueSponsorRefund(
+  refund: SponsorRefund,
+  paymentIntentId: string,
+  actor: AuditActor
+): Promise<RefundOutcome> {
+  let stripeRefund: Stripe.Refund;
+  try {
+    const stripe = await getUncachableStripeClient();
+    const earlier = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+    stripeRefund =
+      earlier.data.find((r) => r.metadata?.refundId === refund.id) ??
+      (await stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          amount: refund.amount,
+          metadata: { refundId: refund.id, sponsorId: refund.sponsorId },
+        },
+        { idempotencyKey: `sponsor-refund-${refund.id}` }
+      ));
+  } catch (error: any) {
+    if (isPermanentStripeError(error)) {
+      console.error(`Stripe rejected refund ${refund.id}:`, error);
+      await storage.failSponsorRefund(refund.id, error.message || "Refund failed", actor);
+      return "failed";
+    }
+    console.warn(`Refund ${refund.id} may not have reached Stripe, will retry:`, error);
+    return "pending";
+  }
+
+  try {
+    await storage.completeSponsorRefund(refund.id, stripeRefund.id, actor);
+  } catch (error) {
+    console.error(`Refund ${refund.id} was issued as ${stripeRefund.id} but not recorded, will retry:`, error);
+    return "pending";
+  }
+  return "succeeded";
+}
@@ -0,0 +1,152 @@
+import { randomUUID } from "crypto";
+import { and, eq } from "drizzle-orm";
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  auditEvents,
+  charityPayouts,
+  collectionHistory,
+  escrow,
+  generatedCoins,
+  ledgerEntries,
+  playerProfiles,
+  playerSessions,
+  sponsorProfiles,
+} from "@shared/schema";
+
+// Collects fired at the same coin at once
+const CONCURRENT_COLLECTS = 8;
+const COIN_VALUE = 50;
+
+describe.skipIf(!process.env.TEST_DATABASE_URL)("collectCoin", () => {
+  // The database connects as soon as it's imported, so it's only loaded
+  // when a test database is configured
+  let db: typeof import("./db").db;
+  let storage: typeof import("./storage").storage;
+
+  beforeAll(async () => {
+    ({ db } = await import("./db"));
+    ({ storage } = await import("./storage"));
+  });
+
+  // A player partway through a session with one placed coin held in escrow
+  async function placedCoin() {
+    const [sponsor] = await db
+      .insert(sponsorProfiles)
+      .values({ userId: randomUUID(), companyName: "Test Sponsor" })
+      .returning();
+    const [player] = await db
+      .insert(playerProfiles)
+      .values({ userId: randomUUID(), username: `player-${randomUUID()}` })
+      .returning();
+    const [session] = await db
+      .insert(playerSessions)
+      .values({ playerId: player.id, startLatitude: 51.5, startLongitude: -0.12 })
+      .returning();
+    const [coin] = await db
+      .insert(generatedCoins)
+      .values({
+        sponsorId: sponsor.id,
+        sessionId: session.id,
+        coinValue: COIN_VALUE,
+        latitude: 51.5001,
+        longitude: -0.12,
+        status: "placed",
+        expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+      })
+      .returning();
+    await db.insert(escrow).values({ coinId: coin.id, sponsorId: sponsor.id, amount: COIN_VALUE });
+    return { player, session, coin };
+  }
+
+  it("collects a coin exactly once when collects race", async () => {
+    const { player, session, coin } = await placedCoin();
+
+    const results = await Promise.all(
+      Array.from({ length: CONCURRENT_COLLECTS }, () =>
+        storage.collectCoin(coin.id, player.id, session.id, { type: "user", id: player.userId })
+      )
+    );
+
+    expect(results.filter((result) => result.status === "collected")).toHaveLength(1);
+    expect(results.filter((result) => result.status === "unavailable")).toHaveLength(CONCURRENT_COLLECTS - 1);
+
+    const released = await db
+      .select()
+      .from(auditEvents)
+      .where(and(eq(auditEvents.coinId, coin.id), eq(auditEvents.action, "escrow.release")));
+    expect(released).toHaveLength(1);
+    const escrowRows = await db.select().from(escrow).where(eq(escrow.coinId, coin.id));
+    expect(escrowRows.map((row) => row.status)).toEqual(["released"]);
+
+    const history = await db.select().from(collectionHistory).where(eq(collectionHistory.coinId, coin.id));
+    expect(history).toHaveLength(1);
+
+    const ledger = await db
+      .select()
+      .from(ledgerEntries)
+      .where(and(eq(ledgerEntries.coinId, coin.id), eq(ledgerEntries.kind, "collection")));
+    expect(ledger).toHaveLength(2);
+
+    const [profile] = await db.select().from(playerProfiles).where(eq(playerProfiles.id, player.id));
+    expect(profile.totalCoinsCollected).toBe(1);
+    expect(profile.totalDonated).toBe(COIN_VALUE);
+  });
+});
+
+describe.skipIf(!process.env.TEST_DATABASE_URL)("charity payouts", () => {
+  let db: typeof import("./db").db;
+  let storage: typeof import("./storage").storage;
+  const actor = { type: "system" as const, id: "test" };
+
+  beforeAll(async () => {
+    ({ db } = await import("./db"));
+    ({ storage } = await import("./storage"));
+  });
+
+  // Escrow for one collected coin, released at the given time and not yet paid out
+  async function releasedEscrow(releasedAt: Date) {
+    const [sponsor] = await db
+      .insert(sponsorProfiles)
+      .values({ userId: randomUUID(), companyName: "Test Sponsor" })
+      .returning();
+    const [row] = await db
+      .insert(escrow)
+      .values({ coinId: randomUUID(), sponsorId: sponsor.id, amount: COIN_VALUE, status: "released", releasedAt })
+      .returning();
+    return row;
+  }
+
+  it("rebatches a failed payout's escrow into the next period, not the failed one", async () => {
+    const released = await releasedEscrow(new Date("2024-01-01T12:00:00Z"));
+    const failedPeriod = new Date("2024-01-02T00:00:00Z");
+
+    const payout = await storage.createCharityPayout(failedPeriod, "stripe_transfer", actor);
+    expect(payout?.escrowCount).toBe(1);
+    expect(await storage.markPayoutFailed(payout!.id, "Rejected", actor)).toBe(true);
+
+    expect(await storage.createCharityPayout(failedPeriod, "stripe_transfer", actor)).toBeUndefined();
+    const [waiting] = await db.select().from(escrow).where(eq(escrow.id, released.id));
+    expect(waiting.payoutId).toBeNull();
+
+    const next = await storage.createCharityPayout(new Date("2024-01-03T00:00:00Z"), "stripe_transfer", actor);
+    expect(next?.escrowCount).toBe(1);
+    expect(next!.periodStart.getTime()).toBeLessThanOrEqual(released.releasedAt!.getTime());
+    const [rebatched] = await db.select().from(escrow).where(eq(escrow.id, released.id));
+    expect(rebatched.payoutId).toBe(next!.id);
+  });
+
+  it("keeps a payout in review batched until an admin settles it", async () => {
+    const released = await releasedEscrow(new Date("2024-02-01T12:00:00Z"));
+    const payout = await storage.createCharityPayout(new Date("2024-02-02T00:00:00Z"), "stripe_transfer", actor);
+
+    await storage.markPayoutForReview(payout!.id, "Timed out", actor);
+    const [inReview] = await db.select().from(charityPayouts).where(eq(charityPayouts.id, payout!.id));
+    expect(inReview.status).toBe("review");
+    expect((await db.select().from(escrow).where(eq(escrow.id, released.id)))[0].payoutId).toBe(payout!.id);
+
+    // The job's own transitions only apply to pending payouts
+    expect(await storage.markPayoutFailed(payout!.id, "Rejected", actor)).toBe(false);
+    expect(await storage.markPayoutFailed(payout!.id, "No transfer on the connected account", actor, true)).toBe(true);
+    expect((await db.select().from(escrow).where(eq(escrow.id, released.id)))[0].payoutId).toBeNull();
+  });
+});
@@ -1,5 +1,21 @@
 import { db } from "./db";
-import { eq, and, desc, sql, gte, lte, ne, inArray } from "drizzle-orm";
+import {
+  eq,
+  and,
+  or,
+  desc,
+  sql,
+  gt,
+  gte,
+  lt,
+  lte,
+  inArray,
+  isNull,
+  isNotNull,
+  ilike,
+  getTableColumns,
+  type SQL,
+} from "drizzle-orm";
 import {
   playerProfiles,
   sponsorProfiles,
@@ -9,6 +25,28 @@ import {
   escrow,
   collectionHistory,
   userRoles,
+  purchaseOrders,
+  processedWebhookEvents,
+  webhookAuditLog,
+  sponsorRefunds,
+  charityPayouts,
+  ledgerEntries,
+  auditEvents,
+  users,
+  playerSessionPoints,
+  cheatFlags,
+  leaderboardEntries,
+  friendships,
+  playerBlocks,
+  playerGroups,
+  playerGroupMembers,
+  challenges,
+  challengeMembers,
+  achievements,
+  playerAchievements,
+  placementZones,
+  gameConfigs,
+  campaigns,
   type PlayerProfile,
   type InsertPlayerProfile,
   type SponsorProfile,
@@ -16,71 +54,861 @@ import {
   type CoinInventory,
   type InsertCoinInventory,
   type GeneratedCoin,
-  type InsertGeneratedCoin,
   type PlayerSession,
   type InsertPlayerSession,
   type Escrow,
-  type InsertEscrow,
   type CollectionHistory,
-  type InsertCollectionHistory,
   type UserRole,
   type InsertUserRole,
+  type PurchaseOrder,
+  type InsertPurchaseOrder,
+  type WebhookAuditLog,
+  type InsertWebhookAuditLog,
+  type SponsorRefund,
+  type CharityPayout,
+  type InsertLedgerEntry,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type PlayerSessionPoint,
+  type InsertPlayerSessionPoint,
+  type CheatFlag,
+  type InsertCheatFlag,
+  type LeaderboardEntry,
+  type Friendship,
+  type PlayerGroup,
+  type Challenge,
+  type Achievement,
+  type InsertAchievement,
+  type AchievementRule,
+  type PlayerAchievement,
+  type PlacementZone,
+  type Campaign,
+  type GameConfigRow,
+  type GameConfigScope,
 } from "@shared/schema";
-import { randomUUID } from "crypto";
+import type { GameConfigOverrides } from "@shared/gameConfig";
+import type { BrandingFields } from "@shared/branding";
+import { randomUUID, randomInt } from "crypto";
+import { GLOBAL_REGION } from "./regions";
+import { advanceStreak, localDate, type StreakState } from "./streaks";
+import { circleBounds, polygonBounds, type BoundingBox } from "./utils/geometry";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type CollectCoinResult =
+  | { status: "collected"; coin: GeneratedCoin; streak: StreakState }
+  | { status: "not_found" | "unavailable" | "wrong_session" | "expired" };
+
+export interface PendingSponsorRefund {
+  refund: SponsorRefund;
+  paymentIntentId: string;
+}
+
+export type FulfillPurchaseResult = "fulfilled" | "duplicate_event" | "not_found" | "already_processed";
+
+// How a Stripe event names its order: by the Checkout Session, and by the
+// order id passed as its client_reference_id. The id finds the order even
+// when the event arrives before the session id has been attached to it.
+export interface CheckoutReference {
+  checkoutSessionId: string | null;
+  orderId: string | null;
+}
+
+export type RequestRefundResult =
+  | { status: "created"; refund: SponsorRefund; paymentIntentId: string }
+  | { status: "order_not_found" | "not_refundable" | "exceeds_order" | "insufficient_inventory" };
+
+export interface PayoutReportLine {
+  escrowId: string;
+  coinId: string;
+  sponsorId: string;
+  amount: number;
+  releasedAt: Date | null;
+  coinValue: number;
+  sessionId: string | null;
+  collectedAt: Date | null;
+  collectedBy: string | null;
+}
+
+export interface PayoutReport {
+  payout: CharityPayout;
+  lines: PayoutReportLine[];
+}
+
+type LedgerKind = InsertLedgerEntry["kind"];
+type LedgerAccount = InsertLedgerEntry["account"];
+type LedgerRefs = Pick<
+  InsertLedgerEntry,
+  "sponsorId" | "playerId" | "sessionId" | "coinId" | "purchaseOrderId" | "refundId" | "payoutId"
+>;
+
+export interface LedgerDrift {
+  check: string;
+  entityId: string | null;
+  ledger: number;
+  recorded: number;
+}
+
+interface LedgerBalance {
+  id: string | null;
+  amount: number;
+}
+
+interface RecordedBalances {
+  inventory: LedgerBalance[];
+  held: LedgerBalance[];
+  payable: number;
+}
+
+export type OpeningBalanceResult =
+  | { status: "already_posted" }
+  | { status: "posted"; collections: number; adjustments: number };
+
+export interface LedgerVerificationReport {
+  checkedAt: Date;
+  entryCount: number;
+  unbalancedTransactions: { transactionId: string; debits: number; credits: number }[];
+  drift: LedgerDrift[];
+  ok: boolean;
+}
+
+export interface CoinPlacement {
+  latitude: number;
+  longitude: number;
+}
+
+export interface CoinDrop extends CoinPlacement {
+  coinValue: number;
+  expiresAt: Date;
+}
+
+export type DropCoinResult =
+  | { status: "dropped"; coin: GeneratedCoin }
+  | { status: "insufficient_inventory" };
+
+export interface AuditActor {
+  type: InsertAuditEvent["actorType"];
+  id?: string | null;
+}
+
+type AuditRecord = Omit<InsertAuditEvent, "id" | "createdAt" | "actorType" | "actorId">;
+
+export type AuditTrailScope = "coin" | "session" | "sponsor";
+
+export interface AuditEventFilters {
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  limit?: number;
+}
+
+export interface AdminUserFilters {
+  search?: string;
+  role?: "player" | "sponsor" | "admin";
+  suspended?: boolean;
+}
+
+export interface AdminUserRow {
+  userId: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  currentRole: "player" | "sponsor" | "admin" | null;
+  isAdmin: boolean;
+  playerId: string | null;
+  username: string | null;
+  suspendedAt: Date | null;
+  suspensionReason: string | null;
+  sponsorId: string | null;
+  companyName: string | null;
+  createdAt: Date | null;
+}
+
+export interface AdminSponsorFilters {
+  search?: string;
+}
+
+export type AdminSponsorRow = SponsorProfile & { inventoryQuantity: number; inventoryValue: number };
+
+export interface AdminSessionFilters {
+  status?: PlayerSession["status"];
+  playerId?: string;
+}
+
+export interface AdminCoinFilters {
+  status?: GeneratedCoin["status"];
+  sponsorId?: string;
+  sessionId?: string;
+}
+
+export interface AdminEscrowFilters {
+  status?: Escrow["status"];
+  sponsorId?: string;
+  coinId?: string;
+}
+
+export type AdjustInventoryResult =
+  | { status: "adjusted"; inventory: CoinInventory }
+  | { status: "sponsor_not_found" | "insufficient_inventory" };
+
+export interface CheatFlagFilters {
+  status?: CheatFlag["status"];
+  playerId?: string;
+  sessionId?: string;
+}
+
+export interface ReviewQueueEntry {
+  playerId: string;
+  username: string | null;
+  suspendedAt: Date | null;
+  openFlags: number;
+  kinds: CheatFlag["kind"][];
+  sessionIds: string[];
+  lastFlaggedAt: Date;
+}
+
+export type SessionWalkStats = Pick<
+  PlayerSession,
+  "distanceMeters" | "activeSeconds" | "paceSecondsPerKm" | "estimatedSteps"
+>;
+
+export type LeaderboardPeriod = LeaderboardEntry["period"];
+export type LeaderboardMetric = "coins" | "donated";
+
+export interface LeaderboardQuery {
+  period: LeaderboardPeriod;
+  metric: LeaderboardMetric;
+  region: string;
+}
+
+export type LeaderboardRow = Pick<
+  LeaderboardEntry,
+  "playerId" | "coins" | "donated" | "lastCollectedAt" | "refreshedAt"
+> & { rank: number; username: string };
+
+export interface FriendSummary {
+  playerId: string;
+  username: string;
+  since: Date;
+}
+
+export interface FriendRequestSummary {
+  id: string;
+  playerId: string;
+  username: string;
+  createdAt: Date;
+}
+
+export interface FriendsOverview {
+  friends: FriendSummary[];
+  incoming: FriendRequestSummary[];
+  outgoing: FriendRequestSummary[];
+  blocked: { playerId: string; username: string }[];
+}
+
+export type FriendRequestResult =
+  | { status: "requested" | "accepted"; friendship: Friendship }
+  | { status: "self" | "already_friends" | "already_requested" | "blocked" };
+
+export interface GroupMemberStanding {
+  playerId: string;
+  username: string;
+  joinedAt: Date;
+  rank: number;
+  coins: number;
+  donated: number;
+}
+
+export type GroupSummary = PlayerGroup & { memberCount: number; totalCoins: number; totalDonated: number };
+
+export interface GroupDetail {
+  group: PlayerGroup;
+  members: GroupMemberStanding[];
+  totalCoins: number;
+  totalDonated: number;
+}
+
+export type JoinGroupResult =
+  | { status: "joined" | "already_member"; group: PlayerGroup }
+  | { status: "not_found" };
+
+export interface CreateChallengeInput {
+  name: string;
+  description: string | null;
+  targetAmount: number;
+  endsAt: Date;
+}
+
+export type ChallengeSummary = Challenge & { memberCount: number; coins: number; raised: number };
+
+export interface ChallengeContributor {
+  playerId: string;
+  username: string;
+  rank: number;
+  coins: number;
+  donated: number;
+}
+
+export interface ChallengeReserve {
+  sponsorId: string;
+  companyName: string | null;
+  coinValue: number;
+  quantity: number;
+}
+
+export interface ChallengeDetail {
+  challenge: ChallengeSummary;
+  contributors: ChallengeContributor[];
+  reserves: ChallengeReserve[];
+}
+
+export type JoinChallengeResult =
+  | { status: "joined" | "already_member"; challenge: Challenge }
+  | { status: "not_found" | "ended" };
+
+export type ReserveForChallengeResult =
+  | { status: "reserved"; inventory: CoinInventory }
+  | { status: "challenge_not_found" | "challenge_ended" | "insufficient_inventory" };
+
+export type CreatePlacementZoneInput = { name: string } & (
+  | { shape: "circle"; centerLatitude: number; centerLongitude: number; radiusMeters: number }
+  | { shape: "polygon"; points: [number, number][] }
+);
+
+export interface PlacementZoneSummary extends PlacementZone {
+  stock: { coinValue: number; quantity: number }[];
+  coinsPlaced: number;
+  coinsCollected: number;
+}
+
+export type MoveZoneInventoryResult =
+  | { status: "moved"; inventory: CoinInventory }
+  | { status: "zone_not_found" | "zone_archived" | "insufficient_inventory" };
+
+export type ArchivePlacementZoneResult =
+  | { status: "archived"; released: number }
+  | { status: "not_found" | "already_archived" };
+
+export interface CreateCampaignInput {
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+  dailySpendCap: number | null;
+  startHour: number;
+  endHour: number;
+  timezone: string;
+  targetZoneIds: string[];
+}
+
+export type CreateCampaignResult =
+  | { status: "created"; campaign: Campaign }
+  | { status: "zone_not_found" };
+
+export interface CampaignSummary extends Campaign {
+  stock: { coinValue: number; quantity: number }[];
+  coinsPlaced: number;
+  coinsCollected: number;
+  donated: number; // value of its collected coins, in pence
+  spentToday: number; // value placed today in its timezone, less expiries
+}
+
+export type MoveCampaignInventoryResult =
+  | { status: "moved"; inventory: CoinInventory }
+  | { status: "campaign_not_found" | "campaign_archived" | "insufficient_inventory" };
+
+export type ArchiveCampaignResult =
+  | { status: "archived"; released: number }
+  | { status: "not_found" | "already_archived" };
+
+// Fields left out are unchanged; null clears one
+export type BrandingUpdate = Partial<BrandingFields>;
+
+export interface UpdateSponsorBrandingResult {
+  profile: SponsorProfile;
+  previousLogoUrl: string | null;
+}
+
+export type UpdateCampaignBrandingResult =
+  | { status: "updated"; campaign: Campaign; previousLogoUrl: string | null }
+  | { status: "not_found" | "campaign_archived" };
+
+export interface ReserveCoinsOptions {
+  // Running challenges the player belongs to, whose reserves they can draw
+  challengeIds?: string[];
+  // Points inside each stocked zone within the player's reach, by zone id.
+  // A coin drawn from a zone's stock takes the next of that zone's points.
+  zonePlacements?: Record<string, CoinPlacement[]>;
+  // Campaigns eligible for this player right now, by id. Null places the
+  // campaign's coins like general stock; a list holds points inside its
+  // target zones, used up like a zone's.
+  campaignPlacements?: Record<string, CoinPlacement[] | null>;
+  // When coins from a campaign expire, where its game rules set their own lifetime
+  campaignExpiresAt?: Record<string, Date>;
+}
+
+// Each achievement rule's current measure for a player
+export type AchievementProgress = Record<AchievementRule, number>;
+
+export type HistoryRange = "7d" | "30d" | "12m" | "all";
+export type HistoryBucket = "day" | "week" | "month";
+
+export interface HistoryPoint {
+  date: string; // first local day of the bucket, YYYY-MM-DD
+  coins: number;
+  donated: number;
+}
+
+export interface SessionCollection {
+  coinId: string;
+  coinValue: number;
+  latitude: number;
+  longitude: number;
+  collectedAt: Date;
+}
+
+const ADMIN_LIST_LIMIT = 200;
+
+// Coins waiting in the world: placed for a session, or dropped by a sponsor
+// for anyone to find
+const LIVE_COIN_STATUSES: GeneratedCoin["status"][] = ["placed", "available"];
+
+// Lock the order a Stripe event refers to. An order found by id whose
+// attached session is a different one isn't the event's order.
+async function lockPurchaseOrder(tx: Transaction, checkout: CheckoutReference): Promise<PurchaseOrder | undefined> {
+  const { orderId, checkoutSessionId } = checkout;
+  if (!orderId && !checkoutSessionId) return undefined;
+
+  const [order] = await tx
+    .select()
+    .from(purchaseOrders)
+    .where(orderId ? eq(purchaseOrders.id, orderId) : eq(purchaseOrders.checkoutSessionId, checkoutSessionId!))
+    .for("update");
+  if (order?.checkoutSessionId && checkoutSessionId && order.checkoutSessionId !== checkoutSessionId) {
+    return undefined;
+  }
+  return order;
+}
+
+// A draw that finds every eligible inventory row locked by a concurrent
+// session start waits and tries again this many times before treating the
+// stock as exhausted
+const LOCKED_STOCK_RETRIES = 5;
+const LOCKED_STOCK_RETRY_MS = 50;
+
+// Backfilled ledger entries are inserted this many rows at a time
+const OPENING_BALANCE_BATCH_SIZE = 1000;
+
+// Invite codes avoid characters that are easy to misread (0/O, 1/I)
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 8;
+
+function generateInviteCode(): string {
+  return Array.from({ length: INVITE_CODE_LENGTH }, () => INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)]).join("");
+}
+
+const friendPairKey = (a: string, b: string) => [a, b].sort().join(":");
+
+// Which of a sponsor's inventory rows to use: general stock, a challenge's
+// reserve, a placement zone's stock or a campaign's allocation
+interface InventoryPool {
+  challengeId?: string | null;
+  zoneId?: string | null;
+  campaignId?: string | null;
+}
+
+function inventoryPoolIs(pool: InventoryPool): SQL {
+  return and(
+    pool.challengeId ? eq(coinInventory.challengeId, pool.challengeId) : isNull(coinInventory.challengeId),
+    pool.zoneId ? eq(coinInventory.zoneId, pool.zoneId) : isNull(coinInventory.zoneId),
+    pool.campaignId ? eq(coinInventory.campaignId, pool.campaignId) : isNull(coinInventory.campaignId)
+  )!;
+}
+
+// Value of each campaign's coins placed so far today in the campaign's own
+// timezone. Expired coins went back to stock, so they don't count as spent.
+async function campaignSpendToday(executor: Transaction | typeof db, campaignIds: string[]): Promise<Map<string, number>> {
+  if (campaignIds.length === 0) return new Map();
+  const rows = await executor
+    .select({
+      campaignId: campaigns.id,
+      spent: sql<number>`COALESCE(SUM(${generatedCoins.coinValue}), 0)::int`,
+    })
+    .from(generatedCoins)
+    .innerJoin(campaigns, eq(campaigns.id, generatedCoins.campaignId))
+    .where(
+      and(
+        inArray(generatedCoins.campaignId, campaignIds),
+        sql`${generatedCoins.status} <> 'expired'`,
+        sql`((${generatedCoins.placedAt} AT TIME ZONE 'UTC') AT TIME ZONE ${campaigns.timezone})::date = (NOW() AT TIME ZONE ${campaigns.timezone})::date`
+      )
+    )
+    .groupBy(campaigns.id);
+  return new Map(rows.map((row) => [row.campaignId, row.spent]));
+}
+
+const ledgerDebits = sql<number>`COALESCE(SUM(${ledgerEntries.amount}) FILTER (WHERE ${ledgerEntries.direction} = 'debit'), 0)::int`;
+const ledgerCredits = sql<number>`COALESCE(SUM(${ledgerEntries.amount}) FILTER (WHERE ${ledgerEntries.direction} = 'credit'), 0)::int`;
+
+// Credit-normal balance of a ledger account, per sponsor
+async function ledgerBalanceBySponsor(
+  executor: Transaction | typeof db,
+  account: LedgerAccount
+): Promise<LedgerBalance[]> {
+  return executor
+    .select({ id: ledgerEntries.sponsorId, amount: sql<number>`(${ledgerCredits} - ${ledgerDebits})::int` })
+    .from(ledgerEntries)
+    .where(eq(ledgerEntries.account, account))
+    .groupBy(ledgerEntries.sponsorId);
+}
+
+// What the inventory, escrow and payable accounts should hold according to
+// recorded state. Released escrow not yet covered by a paid payout is still
+// owed to the charity.
+async function recordedBalances(executor: Transaction | typeof db): Promise<RecordedBalances> {
+  const inventory = await executor
+    .select({
+      id: coinInventory.sponsorId,
+      amount: sql<number>`SUM(${coinInventory.quantity} * ${coinInventory.coinValue})::int`,
+    })
+    .from(coinInventory)
+    .groupBy(coinInventory.sponsorId);
+
+  const held = await executor
+    .select({ id: escrow.sponsorId, amount: sql<number>`SUM(${escrow.amount})::int` })
+    .from(escrow)
+    .where(eq(escrow.status, "held"))
+    .groupBy(escrow.sponsorId);
 
+  const [payable] = await executor
+    .select({ amount: sql<number>`COALESCE(SUM(${escrow.amount}), 0)::int` })
+    .from(escrow)
+    .leftJoin(charityPayouts, eq(charityPayouts.id, escrow.payoutId))
+    .where(
+      and(
+        eq(escrow.status, "released"),
+        sql`(${charityPayouts.status} IS NULL OR ${charityPayouts.status} <> 'paid')`
+      )
+    );
+
+  return { inventory, held, payable: payable?.amount ?? 0 };
+}
+
+// Dense-rank rows already sorted best first, by the given score
+function denseRank<T>(rows: T[], score: (row: T) => number): (T & { rank: number })[] {
+  let rank = 0;
+  let previous: number | undefined;
+  return rows.map((row) => {
+    if (score(row) !== previous) {
+      rank += 1;
+      previous = score(row);
+    }
+    return { ...row, rank };
+  });
+}
+
+const leaderboardColumns = {
+  playerId: leaderboardEntries.playerId,
+  coins: leaderboardEntries.coins,
+  donated: leaderboardEntries.donated,
+  lastCollectedAt: leaderboardEntries.lastCollectedAt,
+  refreshedAt: leaderboardEntries.refreshedAt,
+};
+
+// Weeks start on Monday; periods are in UTC so every region shares them
+function leaderboardPeriodStart(period: LeaderboardPeriod, now: Date): Date {
+  if (period === "all") return new Date(0);
+  if (period === "month") return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysSinceMonday));
+}
+
+function leaderboardBoard(query: LeaderboardQuery): SQL {
+  return and(
+    eq(leaderboardEntries.period, query.period),
+    eq(leaderboardEntries.periodStart, leaderboardPeriodStart(query.period, new Date())),
+    eq(leaderboardEntries.region, query.region)
+  )!;
+}
+
+// Every method that changes state writes audit events in the same
+// transaction, with two exceptions: addSessionPoints, whose trail points are
+// raw telemetry and already an append-only log, and refreshLeaderboards,
+// whose boards are rebuilt wholesale from collection history.
 export interface IStorage {
   // User Roles
   getUserRole(userId: string): Promise<UserRole | undefined>;
-  createUserRole(data: InsertUserRole): Promise<UserRole>;
-  updateUserRole(userId: string, role: "player" | "sponsor"): Promise<UserRole | undefined>;
-  updateUserRoleProfileFlags(userId: string, hasPlayerProfile: boolean, hasSponsorProfile: boolean): Promise<void>;
+  createUserRole(data: InsertUserRole, actor: AuditActor): Promise<UserRole>;
+  updateUserRole(userId: string, role: "player" | "sponsor" | "admin", actor: AuditActor): Promise<UserRole | undefined>;
+  updateUserRoleProfileFlags(
+    userId: string,
+    hasPlayerProfile: boolean,
+    hasSponsorProfile: boolean,
+    actor: AuditActor
+  ): Promise<void>;
+  setUserAdmin(userId: string, isAdmin: boolean, actor: AuditActor, reason: string): Promise<UserRole | undefined>;
 
   // Player Profiles
   getPlayerProfile(userId: string): Promise<PlayerProfile | undefined>;
   getPlayerProfileById(id: string): Promise<PlayerProfile | undefined>;
-  createPlayerProfile(data: InsertPlayerProfile): Promise<PlayerProfile>;
-  updatePlayerStats(userId: string, coinsCollected: number, donated: number): Promise<void>;
-  getLeaderboard(limit?: number): Promise<PlayerProfile[]>;
-  getPlayerRank(userId: string): Promise<number>;
+  createPlayerProfile(data: InsertPlayerProfile, actor: AuditActor): Promise<PlayerProfile>;
+  updatePlayerTimezone(playerId: string, timezone: string, actor: AuditActor): Promise<PlayerProfile | undefined>;
 
   // Sponsor Profiles
   getSponsorProfile(userId: string): Promise<SponsorProfile | undefined>;
   getSponsorProfileById(id: string): Promise<SponsorProfile | undefined>;
-  createSponsorProfile(data: InsertSponsorProfile): Promise<SponsorProfile>;
-  updateSponsorStripeCustomerId(userId: string, customerId: string): Promise<void>;
-  updateSponsorPurchasedCount(userId: string, quantity: number): Promise<void>;
-  updateSponsorStats(userId: string, coinsPlaced: number, donated: number, coinsPurchased?: number): Promise<void>;
+  createSponsorProfile(data: InsertSponsorProfile, actor: AuditActor): Promise<SponsorProfile>;
+  updateSponsorStripeCustomerId(userId: string, customerId: string, actor: AuditActor): Promise<void>;
+  getSponsorProfilesByIds(ids: string[]): Promise<SponsorProfile[]>;
+  updateSponsorBranding(
+    sponsorId: string,
+    update: BrandingUpdate,
+    actor: AuditActor
+  ): Promise<UpdateSponsorBrandingResult | undefined>;
 
   // Coin Inventory
   getCoinInventory(sponsorId: string): Promise<CoinInventory[]>;
-  addToInventory(sponsorId: string, coinValue: number, quantity: number): Promise<CoinInventory>;
-  decrementInventory(sponsorId: string, coinValue: number, quantity: number): Promise<boolean>;
   getTotalAvailableCoins(): Promise<number>;
 
   // Generated Coins
   getGeneratedCoin(id: string): Promise<GeneratedCoin | undefined>;
-  createGeneratedCoin(data: InsertGeneratedCoin): Promise<GeneratedCoin>;
   getActiveCoinsForSession(sessionId: string): Promise<GeneratedCoin[]>;
   getCoinsForSponsor(sponsorId: string): Promise<GeneratedCoin[]>;
-  updateCoinStatus(id: string, status: "available" | "placed" | "collected" | "expired", collectedBy?: string): Promise<void>;
   getExpiredCoins(): Promise<GeneratedCoin[]>;
-  getRandomAvailableCoinsFromInventory(count: number): Promise<{ sponsorId: string; coinValue: number }[]>;
+  getDroppedCoinsNear(bounds: BoundingBox): Promise<GeneratedCoin[]>;
+  dropCoin(sponsorId: string, drop: CoinDrop, actor: AuditActor): Promise<DropCoinResult>;
+  reserveCoins(
+    sessionId: string,
+    placements: CoinPlacement[],
+    expiresAt: Date,
+    actor: AuditActor,
+    options?: ReserveCoinsOptions
+  ): Promise<GeneratedCoin[]>;
+  collectCoin(coinId: string, playerId: string, sessionId: string, actor: AuditActor): Promise<CollectCoinResult>;
+  expireCoin(coinId: string, actor: AuditActor, reason: string): Promise<boolean>;
 
   // Player Sessions
   getActiveSession(playerId: string): Promise<PlayerSession | undefined>;
-  createSession(data: InsertPlayerSession): Promise<PlayerSession>;
-  updateSession(id: string, data: Partial<PlayerSession>): Promise<void>;
-  endSession(id: string, status: "completed" | "abandoned"): Promise<void>;
+  getSession(id: string): Promise<PlayerSession | undefined>;
+  getFinishedSessions(playerId: string, limit?: number): Promise<PlayerSession[]>;
+  getSessionCollections(sessionId: string): Promise<SessionCollection[]>;
+  createSession(data: InsertPlayerSession, actor: AuditActor): Promise<PlayerSession>;
+  endSession(id: string, status: "completed" | "abandoned", walk: SessionWalkStats, actor: AuditActor): Promise<void>;
+
+  // Anti-cheat
+  addSessionPoints(points: InsertPlayerSessionPoint[]): Promise<void>;
+  getSessionPoints(sessionId: string, options?: { includeRejected?: boolean }): Promise<PlayerSessionPoint[]>;
+  getLatestSessionPoint(sessionId: string): Promise<PlayerSessionPoint | undefined>;
+  addCheatFlags(flags: InsertCheatFlag[], actor: AuditActor): Promise<CheatFlag[]>;
+  listCheatFlags(filters: CheatFlagFilters): Promise<CheatFlag[]>;
+  getReviewQueue(): Promise<ReviewQueueEntry[]>;
+  resolveCheatFlag(
+    id: string,
+    status: "dismissed" | "confirmed",
+    actor: AuditActor,
+    reason: string
+  ): Promise<CheatFlag | undefined>;
 
-  // Escrow
-  createEscrow(data: InsertEscrow): Promise<Escrow>;
-  releaseEscrow(coinId: string): Promise<void>;
-  refundEscrow(coinId: string): Promise<void>;
+  // Purchase Orders
+  createPurchaseOrder(data: InsertPurchaseOrder, actor: AuditActor): Promise<PurchaseOrder>;
+  attachCheckoutSession(orderId: string, checkoutSessionId: string, actor: AuditActor): Promise<void>;
+  getPurchaseOrderByCheckoutSession(checkoutSessionId: string): Promise<PurchaseOrder | undefined>;
+  fulfillPurchaseOrder(
+    eventId: string,
+    eventType: string,
+    checkout: CheckoutReference,
+    paymentIntentId: string | null,
+    actor: AuditActor
+  ): Promise<FulfillPurchaseResult>;
+  expirePurchaseOrder(checkout: CheckoutReference, actor: AuditActor): Promise<void>;
+  fulfillSandboxPurchase(sponsorId: string, coinValue: number, quantity: number, actor: AuditActor): Promise<PurchaseOrder>;
+  getPurchaseOrdersForSponsor(sponsorId: string): Promise<PurchaseOrder[]>;
+
+  // Sponsor Refunds
+  requestSponsorRefund(
+    sponsorId: string,
+    purchaseOrderId: string,
+    quantity: number,
+    actor: AuditActor
+  ): Promise<RequestRefundResult>;
+  completeSponsorRefund(id: string, stripeRefundId: string, actor: AuditActor): Promise<void>;
+  failSponsorRefund(id: string, reason: string, actor: AuditActor): Promise<void>;
+  getPendingSponsorRefunds(createdBefore: Date): Promise<PendingSponsorRefund[]>;
+
+  // Charity Payouts
+  createCharityPayout(
+    periodEnd: Date,
+    method: "stripe_transfer" | "donation_ledger",
+    actor: AuditActor
+  ): Promise<CharityPayout | undefined>;
+  getPendingPayouts(): Promise<CharityPayout[]>;
+  markPayoutPaid(
+    id: string,
+    stripeTransferId: string | null,
+    actor: AuditActor,
+    reviewReason?: string
+  ): Promise<boolean>;
+  recordPayoutRetry(id: string, reason: string, actor: AuditActor): Promise<void>;
+  markPayoutForReview(id: string, reason: string, actor: AuditActor): Promise<void>;
+  markPayoutFailed(id: string, reason: string, actor: AuditActor, fromReview?: boolean): Promise<boolean>;
+  getPayoutReport(payoutId: string, sponsorId?: string): Promise<PayoutReport | undefined>;
+  getPayoutsForSponsor(sponsorId: string): Promise<PayoutReport[]>;
+
+  // Webhook Audit Log
+  addWebhookAuditLog(data: InsertWebhookAuditLog): Promise<WebhookAuditLog>;
+
+  // Ledger
+  verifyLedger(): Promise<LedgerVerificationReport>;
+  postOpeningBalances(actor: AuditActor): Promise<OpeningBalanceResult>;
+
+  // Admin
+  listUsers(filters: AdminUserFilters): Promise<AdminUserRow[]>;
+  listSponsors(filters: AdminSponsorFilters): Promise<AdminSponsorRow[]>;
+  listSessions(filters: AdminSessionFilters): Promise<PlayerSession[]>;
+  listCoins(filters: AdminCoinFilters): Promise<GeneratedCoin[]>;
+  listEscrow(filters: AdminEscrowFilters): Promise<Escrow[]>;
+  adminExpireCoin(coinId: string, actor: AuditActor, reason: string): Promise<"expired" | "not_found" | "not_placed">;
+  adminRefundEscrow(escrowId: string, actor: AuditActor, reason: string): Promise<"refunded" | "not_found" | "not_held">;
+  setPlayerSuspended(
+    playerId: string,
+    suspended: boolean,
+    actor: AuditActor,
+    reason: string
+  ): Promise<PlayerProfile | undefined>;
+  adjustSponsorInventory(
+    sponsorId: string,
+    coinValue: number,
+    delta: number,
+    actor: AuditActor,
+    reason: string
+  ): Promise<AdjustInventoryResult>;
+
+  // Audit Events
+  getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]>;
+  getAuditTrail(scope: AuditTrailScope, id: string): Promise<AuditEvent[]>;
+
+  // Leaderboards
+  refreshLeaderboards(now?: Date): Promise<number>;
+  getLeaderboard(query: LeaderboardQuery, limit?: number): Promise<LeaderboardRow[]>;
+  getLeaderboardStanding(playerId: string, query: LeaderboardQuery): Promise<LeaderboardRow | undefined>;
+  getPlayerRegion(playerId: string): Promise<string | undefined>;
+  getLeaderboardAmong(
+    query: Omit<LeaderboardQuery, "region">,
+    playerIds: string[],
+    limit?: number
+  ): Promise<LeaderboardRow[]>;
+
+  // Friends
+  getPlayerProfileByUsername(username: string): Promise<PlayerProfile | undefined>;
+  getFriendsOverview(playerId: string): Promise<FriendsOverview>;
+  getFriendIds(playerId: string): Promise<string[]>;
+  sendFriendRequest(fromId: string, toId: string, actor: AuditActor): Promise<FriendRequestResult>;
+  respondToFriendRequest(
+    playerId: string,
+    requestId: string,
+    accept: boolean,
+    actor: AuditActor
+  ): Promise<"accepted" | "declined" | "not_found">;
+  removeFriend(playerId: string, friendId: string, actor: AuditActor): Promise<boolean>;
+  blockPlayer(playerId: string, targetId: string, actor: AuditActor): Promise<"blocked" | "self">;
+  unblockPlayer(playerId: string, targetId: string, actor: AuditActor): Promise<boolean>;
+
+  // Groups
+  createGroup(ownerId: string, name: string, actor: AuditActor): Promise<PlayerGroup>;
+  joinGroup(playerId: string, inviteCode: string, actor: AuditActor): Promise<JoinGroupResult>;
+  leaveGroup(playerId: string, groupId: string, actor: AuditActor): Promise<boolean>;
+  regenerateGroupInviteCode(ownerId: string, groupId: string, actor: AuditActor): Promise<PlayerGroup | undefined>;
+  getPlayerGroups(playerId: string): Promise<GroupSummary[]>;
+  getGroupDetail(groupId: string, playerId: string): Promise<GroupDetail | undefined>;
+
+  // Challenges
+  createChallenge(playerId: string, input: CreateChallengeInput, actor: AuditActor): Promise<Challenge>;
+  joinChallenge(playerId: string, inviteCode: string, actor: AuditActor): Promise<JoinChallengeResult>;
+  getPlayerChallenges(playerId: string): Promise<ChallengeSummary[]>;
+  getOpenChallenges(limit?: number): Promise<ChallengeSummary[]>;
+  getChallengeDetail(challengeId: string): Promise<ChallengeDetail | undefined>;
+  isChallengeMember(challengeId: string, playerId: string): Promise<boolean>;
+  getRunningChallengeIds(playerId: string): Promise<string[]>;
+  reserveInventoryForChallenge(
+    sponsorId: string,
+    challengeId: string,
+    coinValue: number,
+    quantity: number,
+    actor: AuditActor
+  ): Promise<ReserveForChallengeResult>;
+  getEndedChallengesWithReserves(now?: Date): Promise<Challenge[]>;
+  releaseChallengeReserves(challengeId: string, actor: AuditActor): Promise<number>;
+
+  // Placement Zones
+  createPlacementZone(sponsorId: string, input: CreatePlacementZoneInput, actor: AuditActor): Promise<PlacementZone>;
+  getPlacementZones(sponsorId: string): Promise<PlacementZoneSummary[]>;
+  getStockedZonesNear(bounds: BoundingBox): Promise<PlacementZone[]>;
+  moveZoneInventory(
+    sponsorId: string,
+    zoneId: string,
+    coinValue: number,
+    quantity: number,
+    direction: "assign" | "release",
+    actor: AuditActor
+  ): Promise<MoveZoneInventoryResult>;
+  archivePlacementZone(sponsorId: string, zoneId: string, actor: AuditActor): Promise<ArchivePlacementZoneResult>;
+  getPlacementZonesByIds(zoneIds: string[]): Promise<PlacementZone[]>;
+
+  // Campaigns
+  createCampaign(sponsorId: string, input: CreateCampaignInput, actor: AuditActor): Promise<CreateCampaignResult>;
+  getCampaigns(sponsorId: string): Promise<CampaignSummary[]>;
+  getStockedCampaignsRunning(now?: Date): Promise<Campaign[]>;
+  getEndedCampaigns(now?: Date): Promise<Campaign[]>;
+  moveCampaignInventory(
+    sponsorId: string,
+    campaignId: string,
+    coinValue: number,
+    quantity: number,
+    direction: "assign" | "release",
+    actor: AuditActor
+  ): Promise<MoveCampaignInventoryResult>;
+  archiveCampaign(sponsorId: string, campaignId: string, actor: AuditActor): Promise<ArchiveCampaignResult>;
+  getCampaignsByIds(ids: string[]): Promise<Campaign[]>;
+  updateCampaignBranding(
+    sponsorId: string,
+    campaignId: string,
+    update: BrandingUpdate,
+    actor: AuditActor
+  ): Promise<UpdateCampaignBrandingResult>;
+
+  // Game Configs
+  getGameConfigs(): Promise<GameConfigRow[]>;
+  upsertGameConfig(
+    scope: GameConfigScope,
+    scopeKey: string,
+    overrides: GameConfigOverrides,
+    actor: AuditActor,
+    reason: string
+  ): Promise<GameConfigRow>;
+  deleteGameConfig(id: string, actor: AuditActor, reason: string): Promise<boolean>;
+
+  // Achievements
+  getAchievementCatalogue(): Promise<Achievement[]>;
+  addMissingAchievements(defaults: InsertAchievement[], actor: AuditActor): Promise<number>;
+  getPlayerAchievements(playerId: string): Promise<PlayerAchievement[]>;
+  getAchievementProgress(playerId: string): Promise<AchievementProgress | undefined>;
+  awardAchievements(
+    playerId: string,
+    achievementIds: string[],
+    sessionId: string | null,
+    actor: AuditActor
+  ): Promise<Achievement[]>;
+  getAllPlayerIds(): Promise<string[]>;
 
   // Collection History
-  addCollectionHistory(data: InsertCollectionHistory): Promise<CollectionHistory>;
   getPlayerHistory(playerId: string): Promise<CollectionHistory[]>;
   getPlayerHistoryStats(playerId: string): Promise<{ totalCoins: number; totalDonated: number }>;
+  getPlayerHistorySeries(
+    playerId: string,
+    timezone: string,
+    range: HistoryRange,
+    bucket: HistoryBucket
+  ): Promise<HistoryPoint[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -90,35 +918,102 @@ export class DatabaseStorage implements IStorage {
     return role;
   }
 
-  async createUserRole(data: InsertUserRole): Promise<UserRole> {
-    const [role] = await db.insert(userRoles).values(data).returning();
-    return role;
+  async createUserRole(data: InsertUserRole, actor: AuditActor): Promise<UserRole> {
+    return db.transaction(async (tx) => {
+      const [role] = await tx.insert(userRoles).values(data).returning();
+      await this.recordAudit(tx, actor, {
+        action: "user_role.create",
+        entityType: "user",
+        entityId: role.userId,
+        after: role,
+      });
+      return role;
+    });
   }
 
-  async updateUserRole(userId: string, role: "player" | "sponsor"): Promise<UserRole | undefined> {
-    const [updated] = await db
-      .update(userRoles)
-      .set({ currentRole: role })
-      .where(eq(userRoles.userId, userId))
-      .returning();
-    return updated;
+  async updateUserRole(
+    userId: string,
+    role: "player" | "sponsor" | "admin",
+    actor: AuditActor
+  ): Promise<UserRole | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(userRoles).where(eq(userRoles.userId, userId)).for("update");
+      if (!before) return undefined;
+      if (before.currentRole === role) return before;
+
+      const [updated] = await tx
+        .update(userRoles)
+        .set({ currentRole: role })
+        .where(eq(userRoles.id, before.id))
+        .returning();
+
+      await this.recordAudit(tx, actor, {
+        action: "user_role.switch",
+        entityType: "user",
+        entityId: userId,
+        before,
+        after: updated,
+      });
+      return updated;
+    });
   }
 
   async updateUserRoleProfileFlags(
     userId: string,
     hasPlayerProfile: boolean,
-    hasSponsorProfile: boolean
+    hasSponsorProfile: boolean,
+    actor: AuditActor
   ): Promise<void> {
-    const currentRole = await this.getUserRole(userId);
-    if (!currentRole) return;
-    
-    await db
-      .update(userRoles)
-      .set({
-        hasPlayerProfile: currentRole.hasPlayerProfile || hasPlayerProfile,
-        hasSponsorProfile: currentRole.hasSponsorProfile || hasSponsorProfile,
-      })
-      .where(eq(userRoles.userId, userId));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(userRoles).where(eq(userRoles.userId, userId)).for("update");
+      if (!before) return;
+
+      const flags = {
+        hasPlayerProfile: before.hasPlayerProfile || hasPlayerProfile,
+        hasSponsorProfile: before.hasSponsorProfile || hasSponsorProfile,
+      };
+      if (flags.hasPlayerProfile === before.hasPlayerProfile && flags.hasSponsorProfile === before.hasSponsorProfile) {
+        return;
+      }
+
+      const [after] = await tx.update(userRoles).set(flags).where(eq(userRoles.id, before.id)).returning();
+      await this.recordAudit(tx, actor, {
+        action: "user_role.profile_flags",
+        entityType: "user",
+        entityId: userId,
+        before,
+        after,
+      });
+    });
+  }
+
+  async setUserAdmin(userId: string, isAdmin: boolean, actor: AuditActor, reason: string): Promise<UserRole | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(userRoles).where(eq(userRoles.userId, userId)).for("update");
+      if (!before || before.isAdmin === isAdmin) return before;
+
+      const [after] = await tx
+        .update(userRoles)
+        .set({
+          isAdmin,
+          // Drop a revoked admin back to a role they can actually use
+          ...(!isAdmin && before.currentRole === "admin"
+            ? { currentRole: before.hasPlayerProfile ? ("player" as const) : ("sponsor" as const) }
+            : {}),
+        })
+        .where(eq(userRoles.id, before.id))
+        .returning();
+
+      await this.recordAudit(tx, actor, {
+        action: isAdmin ? "user.grant_admin" : "user.revoke_admin",
+        entityType: "user",
+        entityId: userId,
+        before,
+        after,
+        reason,
+      });
+      return after;
+    });
   }
 
   // Player Profiles
@@ -132,39 +1027,45 @@ export class DatabaseStorage implements IStorage {
     return profile;
   }
 
-  async createPlayerProfile(data: InsertPlayerProfile): Promise<PlayerProfile> {
-    const [profile] = await db.insert(playerProfiles).values(data).returning();
-    return profile;
-  }
-
-  async updatePlayerStats(userId: string, coinsCollected: number, donated: number): Promise<void> {
-    await db
-      .update(playerProfiles)
-      .set({
-        totalCoinsCollected: sql`${playerProfiles.totalCoinsCollected} + ${coinsCollected}`,
-        totalDonated: sql`${playerProfiles.totalDonated} + ${donated}`,
-      })
-      .where(eq(playerProfiles.userId, userId));
+  async createPlayerProfile(data: InsertPlayerProfile, actor: AuditActor): Promise<PlayerProfile> {
+    return db.transaction(async (tx) => {
+      const [profile] = await tx.insert(playerProfiles).values(data).returning();
+      await this.recordAudit(tx, actor, {
+        action: "player.create",
+        entityType: "player",
+        entityId: profile.id,
+        after: profile,
+        playerId: profile.id,
+      });
+      return profile;
+    });
   }
 
-  async getLeaderboard(limit = 100): Promise<PlayerProfile[]> {
-    return db
-      .select()
-      .from(playerProfiles)
-      .orderBy(desc(playerProfiles.totalCoinsCollected))
-      .limit(limit);
-  }
+  async updatePlayerTimezone(playerId: string, timezone: string, actor: AuditActor): Promise<PlayerProfile | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(playerProfiles)
+        .where(eq(playerProfiles.id, playerId))
+        .for("update");
+      if (!before || before.timezone === timezone) return before;
 
-  async getPlayerRank(userId: string): Promise<number> {
-    const profile = await this.getPlayerProfile(userId);
-    if (!profile) return 0;
+      const [after] = await tx
+        .update(playerProfiles)
+        .set({ timezone })
+        .where(eq(playerProfiles.id, playerId))
+        .returning();
 
-    const result = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(playerProfiles)
-      .where(sql`${playerProfiles.totalCoinsCollected} > ${profile.totalCoinsCollected}`);
-    
-    return (result[0]?.count || 0) + 1;
+      await this.recordAudit(tx, actor, {
+        action: "player.timezone",
+        entityType: "player",
+        entityId: playerId,
+        before: { timezone: before.timezone },
+        after: { timezone: after.timezone },
+        playerId,
+      });
+      return after;
+    });
   }
 
   // Sponsor Profiles
@@ -178,41 +1079,114 @@ export class DatabaseStorage implements IStorage {
     return profile;
   }
 
-  async createSponsorProfile(data: InsertSponsorProfile): Promise<SponsorProfile> {
-    const [profile] = await db.insert(sponsorProfiles).values(data).returning();
-    return profile;
+  async createSponsorProfile(data: InsertSponsorProfile, actor: AuditActor): Promise<SponsorProfile> {
+    return db.transaction(async (tx) => {
+      const [profile] = await tx.insert(sponsorProfiles).values(data).returning();
+      await this.recordAudit(tx, actor, {
+        action: "sponsor.create",
+        entityType: "sponsor",
+        entityId: profile.id,
+        after: profile,
+        sponsorId: profile.id,
+      });
+      return profile;
+    });
+  }
+
+  async updateSponsorStripeCustomerId(userId: string, customerId: string, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(sponsorProfiles)
+        .where(eq(sponsorProfiles.userId, userId))
+        .for("update");
+      if (!before) return;
+
+      const [after] = await tx
+        .update(sponsorProfiles)
+        .set({ stripeCustomerId: customerId })
+        .where(eq(sponsorProfiles.id, before.id))
+        .returning();
+
+      await this.recordAudit(tx, actor, {
+        action: "sponsor.stripe_customer",
+        entityType: "sponsor",
+        entityId: before.id,
+        before: { stripeCustomerId: before.stripeCustomerId },
+        after: { stripeCustomerId: after.stripeCustomerId },
+        sponsorId: before.id,
+      });
+    });
   }
 
-  async updateSponsorStripeCustomerId(userId: string, customerId: string): Promise<void> {
-    await db
-      .update(sponsorProfiles)
-      .set({ stripeCustomerId: customerId })
-      .where(eq(sponsorProfiles.userId, userId));
+  async getSponsorProfilesByIds(ids: string[]): Promise<SponsorProfile[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(sponsorProfiles).where(inArray(sponsorProfiles.id, ids));
   }
 
-  async updateSponsorPurchasedCount(userId: string, quantity: number): Promise<void> {
-    await db
-      .update(sponsorProfiles)
-      .set({
-        totalCoinsPurchased: sql`${sponsorProfiles.totalCoinsPurchased} + ${quantity}`,
-      })
-      .where(eq(sponsorProfiles.userId, userId));
+  async updateSponsorBranding(
+    sponsorId: string,
+    update: BrandingUpdate,
+    actor: AuditActor
+  ): Promise<UpdateSponsorBrandingResult | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(sponsorProfiles)
+        .where(eq(sponsorProfiles.id, sponsorId))
+        .for("update");
+      if (!before) return undefined;
+
+      const [profile] = await tx
+        .update(sponsorProfiles)
+        .set(update)
+        .where(eq(sponsorProfiles.id, sponsorId))
+        .returning();
+      await this.recordAudit(tx, actor, {
+        action: "sponsor.branding",
+        entityType: "sponsor",
+        entityId: sponsorId,
+        before: { logoUrl: before.logoUrl, brandMessage: before.brandMessage, brandColor: before.brandColor },
+        after: { logoUrl: profile.logoUrl, brandMessage: profile.brandMessage, brandColor: profile.brandColor },
+        sponsorId,
+      });
+      return { profile, previousLogoUrl: before.logoUrl };
+    });
   }
 
-  async updateSponsorStats(userId: string, coinsPlaced: number, donated: number, coinsPurchased?: number): Promise<void> {
-    const updateFields: Record<string, any> = {
-      totalCoinsPlaced: sql`${sponsorProfiles.totalCoinsPlaced} + ${coinsPlaced}`,
-      totalDonated: sql`${sponsorProfiles.totalDonated} + ${donated}`,
-    };
-    
-    if (coinsPurchased !== undefined && coinsPurchased > 0) {
-      updateFields.totalCoinsPurchased = sql`${sponsorProfiles.totalCoinsPurchased} + ${coinsPurchased}`;
-    }
-    
-    await db
-      .update(sponsorProfiles)
-      .set(updateFields)
-      .where(eq(sponsorProfiles.userId, userId));
+  // Increment a sponsor's counters and audit the change. The before values
+  // are derived from the incremented row, which is exact inside the update.
+  private async incrementSponsorCounters(
+    tx: Transaction,
+    actor: AuditActor,
+    sponsorId: string,
+    deltas: { totalCoinsPurchased?: number; totalCoinsPlaced?: number; totalDonated?: number },
+    refs: Omit<AuditRecord, "action" | "entityType" | "entityId"> = {}
+  ): Promise<void> {
+    const set: Partial<Record<keyof typeof deltas, SQL>> = {};
+    (Object.keys(deltas) as (keyof typeof deltas)[]).forEach((key) => {
+      set[key] = sql`${sponsorProfiles[key]} + ${deltas[key]}`;
+    });
+
+    const [after] = await tx.update(sponsorProfiles).set(set).where(eq(sponsorProfiles.id, sponsorId)).returning();
+    if (!after) return;
+
+    const before: Record<string, number> = {};
+    const changed: Record<string, number> = {};
+    (Object.keys(deltas) as (keyof typeof deltas)[]).forEach((key) => {
+      before[key] = after[key] - (deltas[key] ?? 0);
+      changed[key] = after[key];
+    });
+
+    await this.recordAudit(tx, actor, {
+      action: "sponsor.counters",
+      entityType: "sponsor",
+      entityId: sponsorId,
+      before,
+      after: changed,
+      sponsorId,
+      ...refs,
+    });
   }
 
   // Coin Inventory
@@ -220,43 +1194,99 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(coinInventory).where(eq(coinInventory.sponsorId, sponsorId));
   }
 
-  async addToInventory(sponsorId: string, coinValue: number, quantity: number): Promise<CoinInventory> {
-    // Try to update existing inventory first
-    const [existing] = await db
+  private async addToInventoryWith(
+    tx: Transaction,
+    actor: AuditActor,
+    sponsorId: string,
+    coinValue: number,
+    quantity: number,
+    refs: Omit<AuditRecord, "action" | "entityType" | "entityId"> = {},
+    pool: InventoryPool = {}
+  ): Promise<CoinInventory> {
+    // Try to update existing inventory first. Stock reserved for a challenge,
+    // attached to a zone or allocated to a campaign is kept in its own row,
+    // apart from the sponsor's general stock.
+    const [existing] = await tx
       .select()
       .from(coinInventory)
-      .where(and(eq(coinInventory.sponsorId, sponsorId), eq(coinInventory.coinValue, coinValue)));
+      .where(
+        and(
+          eq(coinInventory.sponsorId, sponsorId),
+          eq(coinInventory.coinValue, coinValue),
+          inventoryPoolIs(pool)
+        )
+      )
+      .for("update");
 
+    let inventory: CoinInventory;
     if (existing) {
-      const [updated] = await db
+      [inventory] = await tx
         .update(coinInventory)
         .set({ quantity: sql`${coinInventory.quantity} + ${quantity}` })
         .where(eq(coinInventory.id, existing.id))
         .returning();
-      return updated;
+    } else {
+      [inventory] = await tx
+        .insert(coinInventory)
+        .values({
+          sponsorId,
+          coinValue,
+          quantity,
+          challengeId: pool.challengeId ?? null,
+          zoneId: pool.zoneId ?? null,
+          campaignId: pool.campaignId ?? null,
+        })
+        .returning();
     }
 
-    const [created] = await db
-      .insert(coinInventory)
-      .values({ sponsorId, coinValue, quantity })
-      .returning();
-    return created;
+    await this.recordAudit(tx, actor, {
+      action: "inventory.add",
+      entityType: "inventory",
+      entityId: inventory.id,
+      before: existing ?? null,
+      after: inventory,
+      sponsorId,
+      ...refs,
+    });
+    return inventory;
   }
 
-  async decrementInventory(sponsorId: string, coinValue: number, quantity: number): Promise<boolean> {
-    const [existing] = await db
-      .select()
-      .from(coinInventory)
-      .where(and(eq(coinInventory.sponsorId, sponsorId), eq(coinInventory.coinValue, coinValue)));
-
-    if (!existing || existing.quantity < quantity) return false;
-
-    await db
+  // Take coins out of inventory (general stock unless a pool is given) with a
+  // guarded update, so concurrent callers can never take the quantity below zero
+  private async removeFromInventoryWith(
+    tx: Transaction,
+    actor: AuditActor,
+    sponsorId: string,
+    coinValue: number,
+    quantity: number,
+    refs: Omit<AuditRecord, "action" | "entityType" | "entityId"> = {},
+    pool: InventoryPool = {}
+  ): Promise<CoinInventory | undefined> {
+    const [inventory] = await tx
       .update(coinInventory)
       .set({ quantity: sql`${coinInventory.quantity} - ${quantity}` })
-      .where(eq(coinInventory.id, existing.id));
+      .where(
+        and(
+          eq(coinInventory.sponsorId, sponsorId),
+          eq(coinInventory.coinValue, coinValue),
+          inventoryPoolIs(pool),
+          gte(coinInventory.quantity, quantity)
+        )
+      )
+      .returning();
 
-    return true;
+    if (!inventory) return undefined;
+
+    await this.recordAudit(tx, actor, {
+      action: "inventory.remove",
+      entityType: "inventory",
+      entityId: inventory.id,
+      before: { ...inventory, quantity: inventory.quantity + quantity },
+      after: inventory,
+      sponsorId,
+      ...refs,
+    });
+    return inventory;
   }
 
   async getTotalAvailableCoins(): Promise<number> {
@@ -272,11 +1302,6 @@ export class DatabaseStorage implements IStorage {
     return coin;
   }
 
-  async createGeneratedCoin(data: InsertGeneratedCoin): Promise<GeneratedCoin> {
-    const [coin] = await db.insert(generatedCoins).values(data).returning();
-    return coin;
-  }
-
   async getActiveCoinsForSession(sessionId: string): Promise<GeneratedCoin[]> {
     return db
       .select()
@@ -292,102 +1317,3082 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(generatedCoins.placedAt));
   }
 
-  async updateCoinStatus(
-    id: string,
-    status: "available" | "placed" | "collected" | "expired",
-    collectedBy?: string
-  ): Promise<void> {
-    const updateData: Partial<GeneratedCoin> = { status };
-    if (status === "collected") {
-      updateData.collectedAt = new Date();
-      if (collectedBy) updateData.collectedBy = collectedBy;
-    }
-    await db.update(generatedCoins).set(updateData).where(eq(generatedCoins.id, id));
-  }
-
   async getExpiredCoins(): Promise<GeneratedCoin[]> {
     return db
       .select()
       .from(generatedCoins)
       .where(
         and(
-          eq(generatedCoins.status, "placed"),
+          inArray(generatedCoins.status, LIVE_COIN_STATUSES),
           lte(generatedCoins.expiresAt, new Date())
         )
       );
   }
 
-  async getRandomAvailableCoinsFromInventory(count: number): Promise<{ sponsorId: string; coinValue: number }[]> {
-    // Get all inventory items with available coins
-    const inventory = await db
+  // Unexpired sponsor drops in a bounding box; the caller checks the distance
+  async getDroppedCoinsNear(bounds: BoundingBox): Promise<GeneratedCoin[]> {
+    return db
       .select()
-      .from(coinInventory)
-      .where(sql`${coinInventory.quantity} > 0`);
+      .from(generatedCoins)
+      .where(
+        and(
+          eq(generatedCoins.status, "available"),
+          gt(generatedCoins.expiresAt, new Date()),
+          gte(generatedCoins.latitude, bounds.minLatitude),
+          lte(generatedCoins.latitude, bounds.maxLatitude),
+          gte(generatedCoins.longitude, bounds.minLongitude),
+          lte(generatedCoins.longitude, bounds.maxLongitude)
+        )
+      );
+  }
 
-    if (inventory.length === 0) return [];
+  // Put a coin from the sponsor's general stock at a chosen spot. It belongs
+  // to no session: any player in range can collect it until it expires. The
+  // money moves into escrow exactly as it does for a session placement.
+  async dropCoin(sponsorId: string, drop: CoinDrop, actor: AuditActor): Promise<DropCoinResult> {
+    return db.transaction(async (tx) => {
+      const inventory = await this.removeFromInventoryWith(tx, actor, sponsorId, drop.coinValue, 1, {
+        reason: "Dropped at a fixed location",
+      });
+      if (!inventory) return { status: "insufficient_inventory" as const };
 
-    // Flatten into individual coin records and shuffle
-    const coins: { sponsorId: string; coinValue: number }[] = [];
-    for (const inv of inventory) {
-      for (let i = 0; i < inv.quantity && coins.length < count * 2; i++) {
-        coins.push({ sponsorId: inv.sponsorId, coinValue: inv.coinValue });
-      }
-    }
+      const [coin] = await tx
+        .insert(generatedCoins)
+        .values({
+          sponsorId,
+          coinValue: drop.coinValue,
+          latitude: drop.latitude,
+          longitude: drop.longitude,
+          status: "available",
+          expiresAt: drop.expiresAt,
+        })
+        .returning();
 
-    // Shuffle and take requested count
-    const shuffled = coins.sort(() => Math.random() - 0.5);
-    return shuffled.slice(0, Math.min(count, shuffled.length));
-  }
+      const [held] = await tx
+        .insert(escrow)
+        .values({ coinId: coin.id, sponsorId, amount: coin.coinValue, status: "held" })
+        .returning();
 
-  // Player Sessions
-  async getActiveSession(playerId: string): Promise<PlayerSession | undefined> {
-    const [session] = await db
-      .select()
-      .from(playerSessions)
-      .where(and(eq(playerSessions.playerId, playerId), eq(playerSessions.status, "active")));
-    return session;
-  }
+      const refs = { sponsorId, coinId: coin.id };
+      await this.recordAudit(tx, actor, [
+        { action: "coin.drop", entityType: "coin", entityId: coin.id, after: coin, ...refs },
+        { action: "escrow.hold", entityType: "escrow", entityId: held.id, after: held, ...refs },
+      ]);
 
-  async createSession(data: InsertPlayerSession): Promise<PlayerSession> {
-    const [session] = await db.insert(playerSessions).values(data).returning();
-    return session;
-  }
+      await this.incrementSponsorCounters(tx, actor, sponsorId, { totalCoinsPlaced: 1 }, { coinId: coin.id });
 
-  async updateSession(id: string, data: Partial<PlayerSession>): Promise<void> {
-    await db.update(playerSessions).set(data).where(eq(playerSessions.id, id));
-  }
+      await this.postLedger(tx, "placement", "sponsor_inventory", "escrow_held", coin.coinValue, refs);
 
-  async endSession(id: string, status: "completed" | "abandoned"): Promise<void> {
-    await db
-      .update(playerSessions)
-      .set({ status, endedAt: new Date() })
-      .where(eq(playerSessions.id, id));
+      return { status: "dropped" as const, coin };
+    });
   }
 
-  // Escrow
-  async createEscrow(data: InsertEscrow): Promise<Escrow> {
-    const [row] = await db.insert(escrow).values(data).returning();
-    return row;
-  }
+  // Reserve one coin per placement from random sponsors' inventory and place
+  // it for the session. Each inventory row is decremented with a guarded
+  // UPDATE, so two sessions can't both draw the last coin of a denomination,
+  // and the coin and escrow rows are written in the same transaction.
+  // Stock reserved for one of the given challenges is drawn first, then stock
+  // attached to a zone in reach, then eligible campaigns' allocations, then
+  // general stock; other challenges', zones' and campaigns' stock is never
+  // touched. Eligible campaigns are locked so concurrent sessions can't both
+  // spend the last of a daily cap, and a coin worth more than what's left of
+  // its campaign's cap today isn't drawn.
+  async reserveCoins(
+    sessionId: string,
+    placements: CoinPlacement[],
+    expiresAt: Date,
+    actor: AuditActor,
+    options: ReserveCoinsOptions = {}
+  ): Promise<GeneratedCoin[]> {
+    const challengeIds = options.challengeIds ?? [];
+    const challengeEligible =
+      challengeIds.length > 0
+        ? or(isNull(coinInventory.challengeId), inArray(coinInventory.challengeId, challengeIds))
+        : isNull(coinInventory.challengeId);
+    // Copied so points can be used up without touching the caller's lists
+    const zonePlacements = Object.fromEntries(
+      Object.entries(options.zonePlacements ?? {}).map(([zoneId, points]) => [zoneId, points.slice()])
+    );
+    const campaignPlacements = Object.fromEntries(
+      Object.entries(options.campaignPlacements ?? {}).map(([campaignId, points]) => [campaignId, points?.slice() ?? null])
+    );
 
-  async releaseEscrow(coinId: string): Promise<void> {
-    await db
+    return db.transaction(async (tx) => {
+      const coins: GeneratedCoin[] = [];
+
+      // What each eligible campaign may still spend today; absent for no cap
+      const budgets = new Map<string, number>();
+      const campaignIds = Object.keys(campaignPlacements);
+      if (campaignIds.length > 0) {
+        const locked = await tx
+          .select({ id: campaigns.id, dailySpendCap: campaigns.dailySpendCap })
+          .from(campaigns)
+          .where(inArray(campaigns.id, campaignIds))
+          .orderBy(campaigns.id)
+          .for("update");
+        const spent = await campaignSpendToday(tx, campaignIds);
+        for (const campaign of locked) {
+          if (campaign.dailySpendCap !== null) {
+            budgets.set(campaign.id, campaign.dailySpendCap - (spent.get(campaign.id) ?? 0));
+          }
+        }
+      }
+
+      for (const placement of placements) {
+        // A zone stops being eligible once its points run out
+        const zoneIds = Object.keys(zonePlacements).filter((zoneId) => zonePlacements[zoneId].length > 0);
+        const zoneEligible =
+          zoneIds.length > 0
+            ? or(isNull(coinInventory.zoneId), inArray(coinInventory.zoneId, zoneIds))
+            : isNull(coinInventory.zoneId);
+        // Likewise a campaign once its target points or today's budget run out
+        const campaignConditions = Object.keys(campaignPlacements)
+          .filter((campaignId) => campaignPlacements[campaignId]?.length !== 0)
+          .filter((campaignId) => (budgets.get(campaignId) ?? Infinity) > 0)
+          .map((campaignId) => {
+            const budget = budgets.get(campaignId);
+            return budget === undefined
+              ? eq(coinInventory.campaignId, campaignId)
+              : and(eq(coinInventory.campaignId, campaignId), lte(coinInventory.coinValue, budget));
+          });
+        const campaignEligible = or(isNull(coinInventory.campaignId), ...campaignConditions);
+        const eligible = and(challengeEligible, zoneEligible, campaignEligible);
+
+        // Rows another session start has locked are skipped rather than
+        // waited on, since each transaction holds the rows it has already
+        // drawn and blocking could deadlock. Finding nothing only means the
+        // stock is exhausted once no eligible row has any left; otherwise
+        // the rows are locked, so wait for them to be released and retry.
+        let inventory: CoinInventory | undefined;
+        for (let attempt = 0; ; attempt++) {
+          [inventory] = await tx
+            .update(coinInventory)
+            .set({ quantity: sql`${coinInventory.quantity} - 1` })
+            .where(
+              and(
+                eq(
+                  coinInventory.id,
+                  sql`(SELECT ${coinInventory.id} FROM ${coinInventory} WHERE ${coinInventory.quantity} > 0 AND ${eligible} ORDER BY ${coinInventory.challengeId} IS NULL, ${coinInventory.zoneId} IS NULL, ${coinInventory.campaignId} IS NULL, random() LIMIT 1 FOR UPDATE SKIP LOCKED)`
+                ),
+                gt(coinInventory.quantity, 0)
+              )
+            )
+            .returning();
+          if (inventory || attempt >= LOCKED_STOCK_RETRIES) break;
+
+          const [remaining] = await tx
+            .select({ id: coinInventory.id })
+            .from(coinInventory)
+            .where(and(gt(coinInventory.quantity, 0), eligible))
+            .limit(1);
+          if (!remaining) break;
+          await new Promise((resolve) => setTimeout(resolve, LOCKED_STOCK_RETRY_MS * (attempt + 1)));
+        }
+
+        // Inventory exhausted
+        if (!inventory) break;
+
+        let point = placement;
+        if (inventory.zoneId) {
+          point = zonePlacements[inventory.zoneId].shift()!;
+        } else if (inventory.campaignId) {
+          point = campaignPlacements[inventory.campaignId]?.shift() ?? placement;
+          const budget = budgets.get(inventory.campaignId);
+          if (budget !== undefined) budgets.set(inventory.campaignId, budget - inventory.coinValue);
+        }
+        const [coin] = await tx
+          .insert(generatedCoins)
+          .values({
+            sponsorId: inventory.sponsorId,
+            sessionId,
+            coinValue: inventory.coinValue,
+            latitude: point.latitude,
+            longitude: point.longitude,
+            status: "placed",
+            expiresAt: (inventory.campaignId && options.campaignExpiresAt?.[inventory.campaignId]) || expiresAt,
+            challengeId: inventory.challengeId,
+            zoneId: inventory.zoneId,
+            campaignId: inventory.campaignId,
+          })
+          .returning();
+
+        const [held] = await tx
+          .insert(escrow)
+          .values({
+            coinId: coin.id,
+            sponsorId: inventory.sponsorId,
+            amount: inventory.coinValue,
+            status: "held",
+          })
+          .returning();
+
+        const refs = { sponsorId: coin.sponsorId, sessionId, coinId: coin.id };
+        await this.recordAudit(tx, actor, [
+          {
+            action: "inventory.remove",
+            entityType: "inventory",
+            entityId: inventory.id,
+            before: { ...inventory, quantity: inventory.quantity + 1 },
+            after: inventory,
+            ...refs,
+          },
+          { action: "coin.place", entityType: "coin", entityId: coin.id, after: coin, ...refs },
+          { action: "escrow.hold", entityType: "escrow", entityId: held.id, after: held, ...refs },
+        ]);
+
+        await this.incrementSponsorCounters(tx, actor, inventory.sponsorId, { totalCoinsPlaced: 1 }, { sessionId, coinId: coin.id });
+
+        await this.postLedger(tx, "placement", "sponsor_inventory", "escrow_held", coin.coinValue, refs);
+
+        coins.push(coin);
+      }
+
+      return coins;
+    });
+  }
+
+  // Collect a placed coin as one atomic operation. The coin row is locked so
+  // concurrent collects of the same coin serialise, and only a placed coin can
+  // transition to collected; every related write rolls back if any step fails.
+  // A sponsor's dropped coin can be collected in any session, and joins the
+  // session of whoever gets to it first.
+  async collectCoin(coinId: string, playerId: string, sessionId: string, actor: AuditActor): Promise<CollectCoinResult> {
+    return db.transaction(async (tx) => {
+      const [coin] = await tx
+        .select()
+        .from(generatedCoins)
+        .where(eq(generatedCoins.id, coinId))
+        .for("update");
+
+      if (!coin) return { status: "not_found" };
+      if (!LIVE_COIN_STATUSES.includes(coin.status)) return { status: "unavailable" };
+      if (coin.status === "placed" && coin.sessionId !== sessionId) return { status: "wrong_session" };
+
+      if (coin.expiresAt <= new Date()) {
+        await this.expirePlacedCoin(tx, coin, actor, "Expired before collection");
+        return { status: "expired" };
+      }
+
+      const now = new Date();
+      const [collected] = await tx
+        .update(generatedCoins)
+        .set({ status: "collected", collectedAt: now, collectedBy: playerId, sessionId })
+        .where(and(eq(generatedCoins.id, coin.id), eq(generatedCoins.status, coin.status)))
+        .returning();
+
+      if (!collected) return { status: "unavailable" };
+
+      const refs = { sponsorId: coin.sponsorId, playerId, sessionId, coinId: coin.id };
+
+      const [escrowBefore] = await tx
+        .select()
+        .from(escrow)
+        .where(and(eq(escrow.coinId, coin.id), eq(escrow.status, "held")))
+        .for("update");
+      const [escrowAfter] = await tx
+        .update(escrow)
+        .set({ status: "released", releasedAt: now })
+        .where(and(eq(escrow.coinId, coin.id), eq(escrow.status, "held")))
+        .returning();
+
+      // The streak moves on by the player's local calendar day
+      const [profile] = await tx.select().from(playerProfiles).where(eq(playerProfiles.id, playerId)).for("update");
+      const streakBefore: StreakState = {
+        currentStreak: profile.currentStreak,
+        longestStreak: profile.longestStreak,
+        lastStreakDate: profile.lastStreakDate,
+        streakFreezes: profile.streakFreezes,
+      };
+      const streak = advanceStreak(streakBefore, localDate(now, profile.timezone));
+
+      const [player] = await tx
+        .update(playerProfiles)
+        .set({
+          totalCoinsCollected: sql`${playerProfiles.totalCoinsCollected} + 1`,
+          totalDonated: sql`${playerProfiles.totalDonated} + ${coin.coinValue}`,
+          ...streak,
+        })
+        .where(eq(playerProfiles.id, playerId))
+        .returning();
+
+      await this.incrementSponsorCounters(tx, actor, coin.sponsorId, { totalDonated: coin.coinValue }, refs);
+
+      const [session] = await tx
+        .update(playerSessions)
+        .set({
+          coinsCollected: sql`${playerSessions.coinsCollected} + 1`,
+          totalValue: sql`${playerSessions.totalValue} + ${coin.coinValue}`,
+        })
+        .where(eq(playerSessions.id, sessionId))
+        .returning();
+
+      const [history] = await tx
+        .insert(collectionHistory)
+        .values({
+          playerId,
+          coinId: coin.id,
+          sessionId,
+          coinValue: coin.coinValue,
+        })
+        .returning();
+
+      const records: AuditRecord[] = [
+        { action: "coin.collect", entityType: "coin", entityId: coin.id, before: coin, after: collected, ...refs },
+        { action: "collection.record", entityType: "collection", entityId: history.id, after: history, ...refs },
+      ];
+      if (escrowAfter) {
+        records.push({
+          action: "escrow.release",
+          entityType: "escrow",
+          entityId: escrowAfter.id,
+          before: escrowBefore,
+          after: escrowAfter,
+          ...refs,
+        });
+      }
+      if (player) {
+        records.push({
+          action: "player.counters",
+          entityType: "player",
+          entityId: player.id,
+          before: {
+            totalCoinsCollected: player.totalCoinsCollected - 1,
+            totalDonated: player.totalDonated - coin.coinValue,
+            ...streakBefore,
+          },
+          after: { totalCoinsCollected: player.totalCoinsCollected, totalDonated: player.totalDonated, ...streak },
+          ...refs,
+        });
+      }
+      if (session) {
+        records.push({
+          action: "session.counters",
+          entityType: "session",
+          entityId: session.id,
+          before: { coinsCollected: session.coinsCollected - 1, totalValue: session.totalValue - coin.coinValue },
+          after: { coinsCollected: session.coinsCollected, totalValue: session.totalValue },
+          ...refs,
+        });
+      }
+      await this.recordAudit(tx, actor, records);
+
+      await this.postLedger(tx, "collection", "escrow_held", "charity_payable", coin.coinValue, refs);
+
+      return { status: "collected", coin: collected, streak };
+    });
+  }
+
+  // Expire a placed coin: return it to the sponsor's inventory and refund its escrow
+  async expireCoin(coinId: string, actor: AuditActor, reason: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [coin] = await tx
+        .select()
+        .from(generatedCoins)
+        .where(eq(generatedCoins.id, coinId))
+        .for("update");
+
+      if (!coin || !LIVE_COIN_STATUSES.includes(coin.status)) return false;
+      return this.expirePlacedCoin(tx, coin, actor, reason);
+    });
+  }
+
+  // Expire a placed (or dropped) coin inside an existing transaction
+  private async expirePlacedCoin(
+    tx: Transaction,
+    coin: GeneratedCoin,
+    actor: AuditActor,
+    reason: string
+  ): Promise<boolean> {
+    const [expired] = await tx
+      .update(generatedCoins)
+      .set({ status: "expired" })
+      .where(and(eq(generatedCoins.id, coin.id), inArray(generatedCoins.status, LIVE_COIN_STATUSES)))
+      .returning();
+
+    if (!expired) return false;
+
+    const refs = { sponsorId: coin.sponsorId, sessionId: coin.sessionId, coinId: coin.id };
+    await this.recordAudit(tx, actor, {
+      action: "coin.expire",
+      entityType: "coin",
+      entityId: coin.id,
+      before: coin,
+      after: expired,
+      reason,
+      ...refs,
+    });
+
+    // A coin from a challenge's reserve goes back to it while the challenge
+    // is running. Locking the challenge serialises this with the release of
+    // its reserves at the deadline.
+    const pool: InventoryPool = {};
+    if (coin.challengeId) {
+      const [challenge] = await tx
+        .select({ id: challenges.id })
+        .from(challenges)
+        .where(and(eq(challenges.id, coin.challengeId), isNull(challenges.reservationsReleasedAt)))
+        .for("update");
+      pool.challengeId = challenge?.id ?? null;
+    }
+    // Likewise a zone's coin goes back to the zone unless it's been archived
+    if (coin.zoneId) {
+      const [zone] = await tx
+        .select({ id: placementZones.id })
+        .from(placementZones)
+        .where(and(eq(placementZones.id, coin.zoneId), isNull(placementZones.archivedAt)))
+        .for("update");
+      pool.zoneId = zone?.id ?? null;
+    }
+    // And a campaign's coin to the campaign, unless it's been archived
+    if (coin.campaignId) {
+      const [campaign] = await tx
+        .select({ id: campaigns.id })
+        .from(campaigns)
+        .where(and(eq(campaigns.id, coin.campaignId), isNull(campaigns.archivedAt)))
+        .for("update");
+      pool.campaignId = campaign?.id ?? null;
+    }
+
+    await this.addToInventoryWith(tx, actor, coin.sponsorId, coin.coinValue, 1, { ...refs, reason }, pool);
+    await this.refundHeldEscrow(tx, actor, coin.id, reason, refs);
+
+    await this.postLedger(tx, "expiry_refund", "escrow_held", "sponsor_inventory", coin.coinValue, refs);
+
+    return true;
+  }
+
+  private async refundHeldEscrow(
+    tx: Transaction,
+    actor: AuditActor,
+    coinId: string,
+    reason: string | null,
+    refs: Omit<AuditRecord, "action" | "entityType" | "entityId">
+  ): Promise<void> {
+    const [before] = await tx
+      .select()
+      .from(escrow)
+      .where(and(eq(escrow.coinId, coinId), eq(escrow.status, "held")))
+      .for("update");
+    if (!before) return;
+
+    const [after] = await tx
       .update(escrow)
-      .set({ status: "released", releasedAt: new Date() })
-      .where(eq(escrow.coinId, coinId));
+      .set({ status: "refunded", releasedAt: new Date() })
+      .where(eq(escrow.id, before.id))
+      .returning();
+
+    await this.recordAudit(tx, actor, {
+      action: "escrow.refund",
+      entityType: "escrow",
+      entityId: before.id,
+      before,
+      after,
+      reason,
+      ...refs,
+    });
+  }
+
+  // Record one balanced ledger transaction: a debit and a credit of the same amount
+  private async postLedger(
+    tx: Transaction,
+    kind: LedgerKind,
+    debit: LedgerAccount,
+    credit: LedgerAccount,
+    amount: number,
+    refs: LedgerRefs
+  ): Promise<void> {
+    if (amount <= 0) return;
+
+    const transactionId = randomUUID();
+    await tx.insert(ledgerEntries).values([
+      { transactionId, kind, account: debit, direction: "debit", amount, ...refs },
+      { transactionId, kind, account: credit, direction: "credit", amount, ...refs },
+    ]);
+  }
+
+  // Player Sessions
+  async getActiveSession(playerId: string): Promise<PlayerSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(playerSessions)
+      .where(and(eq(playerSessions.playerId, playerId), eq(playerSessions.status, "active")));
+    return session;
+  }
+
+  async getSession(id: string): Promise<PlayerSession | undefined> {
+    const [session] = await db.select().from(playerSessions).where(eq(playerSessions.id, id));
+    return session;
+  }
+
+  async getFinishedSessions(playerId: string, limit = 50): Promise<PlayerSession[]> {
+    return db
+      .select()
+      .from(playerSessions)
+      .where(and(eq(playerSessions.playerId, playerId), isNotNull(playerSessions.endedAt)))
+      .orderBy(desc(playerSessions.startedAt))
+      .limit(limit);
+  }
+
+  // Where and when each coin in a session was collected, in collection order
+  async getSessionCollections(sessionId: string): Promise<SessionCollection[]> {
+    return db
+      .select({
+        coinId: collectionHistory.coinId,
+        coinValue: collectionHistory.coinValue,
+        latitude: generatedCoins.latitude,
+        longitude: generatedCoins.longitude,
+        collectedAt: collectionHistory.collectedAt,
+      })
+      .from(collectionHistory)
+      .innerJoin(generatedCoins, eq(generatedCoins.id, collectionHistory.coinId))
+      .where(eq(collectionHistory.sessionId, sessionId))
+      .orderBy(collectionHistory.collectedAt);
+  }
+
+  async createSession(data: InsertPlayerSession, actor: AuditActor): Promise<PlayerSession> {
+    return db.transaction(async (tx) => {
+      const [session] = await tx.insert(playerSessions).values(data).returning();
+      await this.recordAudit(tx, actor, {
+        action: "session.start",
+        entityType: "session",
+        entityId: session.id,
+        after: session,
+        playerId: session.playerId,
+        sessionId: session.id,
+      });
+      return session;
+    });
+  }
+
+  // End an active session, storing its walking stats and adding the distance
+  // to the player's total. Only an active session ends, so the distance is
+  // never added twice.
+  async endSession(
+    id: string,
+    status: "completed" | "abandoned",
+    walk: SessionWalkStats,
+    actor: AuditActor
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(playerSessions).where(eq(playerSessions.id, id)).for("update");
+      if (!before || before.status !== "active") return;
+
+      const [after] = await tx
+        .update(playerSessions)
+        .set({ status, endedAt: new Date(), ...walk })
+        .where(eq(playerSessions.id, id))
+        .returning();
+
+      const records: AuditRecord[] = [
+        {
+          action: "session.end",
+          entityType: "session",
+          entityId: id,
+          before,
+          after,
+          playerId: before.playerId,
+          sessionId: id,
+        },
+      ];
+
+      if (walk.distanceMeters > 0) {
+        const [player] = await tx
+          .update(playerProfiles)
+          .set({ totalDistanceMeters: sql`${playerProfiles.totalDistanceMeters} + ${walk.distanceMeters}` })
+          .where(eq(playerProfiles.id, before.playerId))
+          .returning();
+        if (player) {
+          records.push({
+            action: "player.counters",
+            entityType: "player",
+            entityId: player.id,
+            before: { totalDistanceMeters: player.totalDistanceMeters - walk.distanceMeters },
+            after: { totalDistanceMeters: player.totalDistanceMeters },
+            playerId: player.id,
+            sessionId: id,
+          });
+        }
+      }
+
+      await this.recordAudit(tx, actor, records);
+    });
+  }
+
+  // Anti-cheat
+  async addSessionPoints(points: InsertPlayerSessionPoint[]): Promise<void> {
+    if (points.length === 0) return;
+    await db.insert(playerSessionPoints).values(points);
+  }
+
+  // The session's trail, without rejected fixes unless asked for
+  async getSessionPoints(
+    sessionId: string,
+    { includeRejected = false }: { includeRejected?: boolean } = {}
+  ): Promise<PlayerSessionPoint[]> {
+    return db
+      .select()
+      .from(playerSessionPoints)
+      .where(
+        and(
+          eq(playerSessionPoints.sessionId, sessionId),
+          includeRejected ? undefined : eq(playerSessionPoints.rejected, false)
+        )
+      )
+      .orderBy(playerSessionPoints.recordedAt, playerSessionPoints.receivedAt);
+  }
+
+  async getLatestSessionPoint(sessionId: string): Promise<PlayerSessionPoint | undefined> {
+    const [point] = await db
+      .select()
+      .from(playerSessionPoints)
+      .where(and(eq(playerSessionPoints.sessionId, sessionId), eq(playerSessionPoints.rejected, false)))
+      .orderBy(desc(playerSessionPoints.recordedAt), desc(playerSessionPoints.receivedAt))
+      .limit(1);
+    return point;
+  }
+
+  // Raise flags for review. A session only gets one open flag of each kind,
+  // so a player standing still with a spoofed location doesn't flood the queue.
+  async addCheatFlags(flags: InsertCheatFlag[], actor: AuditActor): Promise<CheatFlag[]> {
+    if (flags.length === 0) return [];
+
+    return db.transaction(async (tx) => {
+      const sessionIds = Array.from(new Set(flags.map((flag) => flag.sessionId)));
+      const open = await tx
+        .select({ sessionId: cheatFlags.sessionId, kind: cheatFlags.kind })
+        .from(cheatFlags)
+        .where(and(inArray(cheatFlags.sessionId, sessionIds), eq(cheatFlags.status, "open")));
+
+      const seen = new Set(open.map((flag) => `${flag.sessionId}:${flag.kind}`));
+      const fresh = flags.filter((flag) => {
+        const key = `${flag.sessionId}:${flag.kind}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      if (fresh.length === 0) return [];
+
+      const created = await tx.insert(cheatFlags).values(fresh).returning();
+      await this.recordAudit(
+        tx,
+        actor,
+        created.map((flag) => ({
+          action: "cheat_flag.raise",
+          entityType: "cheat_flag",
+          entityId: flag.id,
+          after: flag,
+          playerId: flag.playerId,
+          sessionId: flag.sessionId,
+          coinId: flag.coinId,
+        }))
+      );
+      return created;
+    });
+  }
+
+  async listCheatFlags(filters: CheatFlagFilters): Promise<CheatFlag[]> {
+    return db
+      .select()
+      .from(cheatFlags)
+      .where(
+        and(
+          filters.status ? eq(cheatFlags.status, filters.status) : undefined,
+          filters.playerId ? eq(cheatFlags.playerId, filters.playerId) : undefined,
+          filters.sessionId ? eq(cheatFlags.sessionId, filters.sessionId) : undefined
+        )
+      )
+      .orderBy(desc(cheatFlags.createdAt))
+      .limit(ADMIN_LIST_LIMIT);
+  }
+
+  // Players with open flags, most recently flagged first
+  async getReviewQueue(): Promise<ReviewQueueEntry[]> {
+    const lastFlaggedAt = sql<Date>`MAX(${cheatFlags.createdAt})`.mapWith(cheatFlags.createdAt);
+
+    return db
+      .select({
+        playerId: cheatFlags.playerId,
+        username: playerProfiles.username,
+        suspendedAt: playerProfiles.suspendedAt,
+        openFlags: sql<number>`COUNT(*)::int`,
+        kinds: sql<CheatFlag["kind"][]>`ARRAY_AGG(DISTINCT ${cheatFlags.kind})`,
+        sessionIds: sql<string[]>`ARRAY_AGG(DISTINCT ${cheatFlags.sessionId})`,
+        lastFlaggedAt,
+      })
+      .from(cheatFlags)
+      .leftJoin(playerProfiles, eq(playerProfiles.id, cheatFlags.playerId))
+      .where(eq(cheatFlags.status, "open"))
+      .groupBy(cheatFlags.playerId, playerProfiles.username, playerProfiles.suspendedAt)
+      .orderBy(desc(lastFlaggedAt))
+      .limit(ADMIN_LIST_LIMIT);
+  }
+
+  // Close an open flag. Only open flags transition, so two admins reviewing
+  // the same flag can't both record a verdict.
+  async resolveCheatFlag(
+    id: string,
+    status: "dismissed" | "confirmed",
+    actor: AuditActor,
+    reason: string
+  ): Promise<CheatFlag | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(cheatFlags).where(eq(cheatFlags.id, id)).for("update");
+      if (!before || before.status !== "open") return undefined;
+
+      const [after] = await tx
+        .update(cheatFlags)
+        .set({ status, reviewedBy: actor.id ?? null, reviewNote: reason, reviewedAt: new Date() })
+        .where(and(eq(cheatFlags.id, id), eq(cheatFlags.status, "open")))
+        .returning();
+
+      await this.recordAudit(tx, actor, {
+        action: `cheat_flag.${status === "confirmed" ? "confirm" : "dismiss"}`,
+        entityType: "cheat_flag",
+        entityId: id,
+        before,
+        after,
+        reason,
+        playerId: before.playerId,
+        sessionId: before.sessionId,
+        coinId: before.coinId,
+      });
+      return after;
+    });
+  }
+
+  // Purchase Orders
+  async createPurchaseOrder(data: InsertPurchaseOrder, actor: AuditActor): Promise<PurchaseOrder> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx.insert(purchaseOrders).values(data).returning();
+      await this.recordAudit(tx, actor, {
+        action: "purchase_order.create",
+        entityType: "purchase_order",
+        entityId: order.id,
+        after: order,
+        sponsorId: order.sponsorId,
+      });
+      return order;
+    });
+  }
+
+  // Orders are created before their Checkout Session, so a webhook always
+  // has an order to find; the session id is attached once Stripe returns it
+  async attachCheckoutSession(orderId: string, checkoutSessionId: string, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [order] = await tx
+        .update(purchaseOrders)
+        .set({ checkoutSessionId })
+        .where(and(eq(purchaseOrders.id, orderId), isNull(purchaseOrders.checkoutSessionId)))
+        .returning();
+      if (!order) return;
+
+      await this.recordAudit(tx, actor, {
+        action: "purchase_order.checkout_session",
+        entityType: "purchase_order",
+        entityId: order.id,
+        before: { checkoutSessionId: null },
+        after: { checkoutSessionId },
+        sponsorId: order.sponsorId,
+      });
+    });
+  }
+
+  async getPurchaseOrderByCheckoutSession(checkoutSessionId: string): Promise<PurchaseOrder | undefined> {
+    const [order] = await db
+      .select()
+      .from(purchaseOrders)
+      .where(eq(purchaseOrders.checkoutSessionId, checkoutSessionId));
+    return order;
+  }
+
+  // Mark a pending order paid and credit its coins to inventory. Recording the
+  // webhook event and crediting happen in one transaction, so a replayed event
+  // (after a restart or on another instance) can never credit twice. An event
+  // for an order that can't be found isn't recorded, so Stripe's retry of it
+  // is processed rather than skipped as a duplicate.
+  async fulfillPurchaseOrder(
+    eventId: string,
+    eventType: string,
+    checkout: CheckoutReference,
+    paymentIntentId: string | null,
+    actor: AuditActor
+  ): Promise<FulfillPurchaseResult> {
+    return db.transaction(async (tx) => {
+      const before = await lockPurchaseOrder(tx, checkout);
+      if (!before) return "not_found";
+
+      const [event] = await tx
+        .insert(processedWebhookEvents)
+        .values({ eventId, eventType })
+        .onConflictDoNothing({ target: processedWebhookEvents.eventId })
+        .returning();
+
+      if (!event) return "duplicate_event";
+      if (before.status !== "pending") return "already_processed";
+
+      const [order] = await tx
+        .update(purchaseOrders)
+        .set({
+          status: "paid",
+          paidAt: new Date(),
+          stripePaymentIntentId: paymentIntentId,
+          checkoutSessionId: before.checkoutSessionId ?? checkout.checkoutSessionId,
+        })
+        .where(eq(purchaseOrders.id, before.id))
+        .returning();
+
+      await this.recordAudit(tx, actor, {
+        action: "purchase_order.paid",
+        entityType: "purchase_order",
+        entityId: order.id,
+        before,
+        after: order,
+        reason: eventType,
+        sponsorId: order.sponsorId,
+      });
+      await this.creditPurchase(tx, actor, order);
+      return "fulfilled";
+    });
+  }
+
+  // Sandbox purchases skip payment: the order is recorded as paid straight away
+  async fulfillSandboxPurchase(
+    sponsorId: string,
+    coinValue: number,
+    quantity: number,
+    actor: AuditActor
+  ): Promise<PurchaseOrder> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx
+        .insert(purchaseOrders)
+        .values({
+          sponsorId,
+          coinValue,
+          quantity,
+          amount: coinValue * quantity,
+          status: "paid",
+          paidAt: new Date(),
+        })
+        .returning();
+
+      await this.recordAudit(tx, actor, {
+        action: "purchase_order.create",
+        entityType: "purchase_order",
+        entityId: order.id,
+        after: order,
+        reason: "Sandbox purchase",
+        sponsorId,
+      });
+      await this.creditPurchase(tx, actor, order);
+      return order;
+    });
+  }
+
+  private async creditPurchase(tx: Transaction, actor: AuditActor, order: PurchaseOrder): Promise<void> {
+    await this.addToInventoryWith(tx, actor, order.sponsorId, order.coinValue, order.quantity);
+    await this.incrementSponsorCounters(tx, actor, order.sponsorId, { totalCoinsPurchased: order.quantity });
+
+    await this.postLedger(tx, "purchase", "payments_clearing", "sponsor_inventory", order.amount, {
+      sponsorId: order.sponsorId,
+      purchaseOrderId: order.id,
+    });
+  }
+
+  async expirePurchaseOrder(checkout: CheckoutReference, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      const before = await lockPurchaseOrder(tx, checkout);
+      if (before?.status !== "pending") return;
+
+      const [order] = await tx
+        .update(purchaseOrders)
+        .set({ status: "expired" })
+        .where(eq(purchaseOrders.id, before.id))
+        .returning();
+
+      await this.recordAudit(tx, actor, {
+        action: "purchase_order.expire",
+        entityType: "purchase_order",
+        entityId: order.id,
+        before: { status: "pending" },
+        after: { status: order.status },
+        sponsorId: order.sponsorId,
+      });
+    });
+  }
+
+  async getPurchaseOrdersForSponsor(sponsorId: string): Promise<PurchaseOrder[]> {
+    return db
+      .select()
+      .from(purchaseOrders)
+      .where(eq(purchaseOrders.sponsorId, sponsorId))
+      .orderBy(desc(purchaseOrders.createdAt));
+  }
+
+  // Sponsor Refunds
+  // Take unplaced coins back out of inventory and record a pending refund for
+  // them. The Stripe refund is issued afterwards; only if Stripe rejects it
+  // are the coins put back by failSponsorRefund.
+  async requestSponsorRefund(
+    sponsorId: string,
+    purchaseOrderId: string,
+    quantity: number,
+    actor: AuditActor
+  ): Promise<RequestRefundResult> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(and(eq(purchaseOrders.id, purchaseOrderId), eq(purchaseOrders.sponsorId, sponsorId)))
+        .for("update");
+
+      if (!order) return { status: "order_not_found" };
+      if (order.status !== "paid" || !order.stripePaymentIntentId) return { status: "not_refundable" };
+      if (quantity > order.quantity - order.refundedQuantity) return { status: "exceeds_order" };
+
+      const inventory = await this.removeFromInventoryWith(tx, actor, sponsorId, order.coinValue, quantity, {
+        reason: "Sponsor refund",
+      });
+      if (!inventory) return { status: "insufficient_inventory" };
+
+      const [updatedOrder] = await tx
+        .update(purchaseOrders)
+        .set({ refundedQuantity: sql`${purchaseOrders.refundedQuantity} + ${quantity}` })
+        .where(eq(purchaseOrders.id, order.id))
+        .returning();
+
+      await this.incrementSponsorCounters(tx, actor, sponsorId, { totalCoinsPurchased: -quantity });
+
+      const [refund] = await tx
+        .insert(sponsorRefunds)
+        .values({
+          sponsorId,
+          purchaseOrderId: order.id,
+          coinValue: order.coinValue,
+          quantity,
+          amount: order.coinValue * quantity,
+          status: "pending",
+        })
+        .returning();
+
+      await this.recordAudit(tx, actor, [
+        {
+          action: "purchase_order.refund",
+          entityType: "purchase_order",
+          entityId: order.id,
+          before: { refundedQuantity: order.refundedQuantity },
+          after: { refundedQuantity: updatedOrder.refundedQuantity },
+          sponsorId,
+        },
+        { action: "refund.request", entityType: "refund", entityId: refund.id, after: refund, sponsorId },
+      ]);
+
+      await this.postLedger(tx, "sponsor_refund", "sponsor_inventory", "payments_clearing", refund.amount, {
+        sponsorId,
+        purchaseOrderId: order.id,
+        refundId: refund.id,
+      });
+
+      return { status: "created", refund, paymentIntentId: order.stripePaymentIntentId };
+    });
+  }
+
+  async completeSponsorRefund(id: string, stripeRefundId: string, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [refund] = await tx
+        .update(sponsorRefunds)
+        .set({ status: "succeeded", stripeRefundId, completedAt: new Date() })
+        .where(and(eq(sponsorRefunds.id, id), eq(sponsorRefunds.status, "pending")))
+        .returning();
+      if (!refund) return;
+
+      await this.recordAudit(tx, actor, {
+        action: "refund.succeed",
+        entityType: "refund",
+        entityId: refund.id,
+        before: { status: "pending" },
+        after: { status: refund.status, stripeRefundId },
+        sponsorId: refund.sponsorId,
+      });
+    });
+  }
+
+  // Refunds whose Stripe outcome was never recorded, with the payment to refund
+  async getPendingSponsorRefunds(createdBefore: Date): Promise<PendingSponsorRefund[]> {
+    const rows = await db
+      .select({ refund: sponsorRefunds, paymentIntentId: purchaseOrders.stripePaymentIntentId })
+      .from(sponsorRefunds)
+      .innerJoin(purchaseOrders, eq(purchaseOrders.id, sponsorRefunds.purchaseOrderId))
+      .where(and(eq(sponsorRefunds.status, "pending"), lt(sponsorRefunds.createdAt, createdBefore)))
+      .orderBy(sponsorRefunds.createdAt);
+    return rows.flatMap(({ refund, paymentIntentId }) => (paymentIntentId ? [{ refund, paymentIntentId }] : []));
+  }
+
+  // Undo a pending refund that Stripe rejected: the coins go back to inventory
+  async failSponsorRefund(id: string, reason: string, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [refund] = await tx
+        .update(sponsorRefunds)
+        .set({ status: "failed", failureReason: reason, completedAt: new Date() })
+        .where(and(eq(sponsorRefunds.id, id), eq(sponsorRefunds.status, "pending")))
+        .returning();
+
+      if (!refund) return;
+
+      await this.recordAudit(tx, actor, {
+        action: "refund.fail",
+        entityType: "refund",
+        entityId: refund.id,
+        before: { status: "pending" },
+        after: { status: refund.status },
+        reason,
+        sponsorId: refund.sponsorId,
+      });
+
+      await this.addToInventoryWith(tx, actor, refund.sponsorId, refund.coinValue, refund.quantity, {
+        reason: "Refund failed",
+      });
+      const [order] = await tx
+        .update(purchaseOrders)
+        .set({ refundedQuantity: sql`${purchaseOrders.refundedQuantity} - ${refund.quantity}` })
+        .where(eq(purchaseOrders.id, refund.purchaseOrderId))
+        .returning();
+      if (order) {
+        await this.recordAudit(tx, actor, {
+          action: "purchase_order.refund_reversed",
+          entityType: "purchase_order",
+          entityId: order.id,
+          before: { refundedQuantity: order.refundedQuantity + refund.quantity },
+          after: { refundedQuantity: order.refundedQuantity },
+          reason,
+          sponsorId: refund.sponsorId,
+        });
+      }
+      await this.incrementSponsorCounters(tx, actor, refund.sponsorId, { totalCoinsPurchased: refund.quantity });
+
+      // Reverse the refund's ledger transaction
+      await this.postLedger(tx, "sponsor_refund", "payments_clearing", "sponsor_inventory", refund.amount, {
+        sponsorId: refund.sponsorId,
+        purchaseOrderId: refund.purchaseOrderId,
+        refundId: refund.id,
+      });
+    });
+  }
+
+  // Charity Payouts
+  // Batch all released escrow not yet paid out (released before periodEnd)
+  // into one payout. The unique periodEnd stops two instances creating the
+  // same payout twice. It also means escrow unbatched from a failed payout
+  // can't join a new payout for that failed payout's periodEnd: the insert
+  // conflicts, nothing is linked, and the rows go into the next day's payout.
+  async createCharityPayout(
+    periodEnd: Date,
+    method: "stripe_transfer" | "donation_ledger",
+    actor: AuditActor
+  ): Promise<CharityPayout | undefined> {
+    return db.transaction(async (tx) => {
+      const released = await tx
+        .select()
+        .from(escrow)
+        .where(
+          and(
+            eq(escrow.status, "released"),
+            isNull(escrow.payoutId),
+            lt(escrow.releasedAt, periodEnd)
+          )
+        )
+        .for("update");
+
+      if (released.length === 0) return undefined;
+
+      const [previous] = await tx
+        .select()
+        .from(charityPayouts)
+        .orderBy(desc(charityPayouts.periodEnd))
+        .limit(1);
+
+      const earliestRelease = new Date(
+        Math.min(...released.map((e) => (e.releasedAt ?? periodEnd).getTime()))
+      );
+
+      const [payout] = await tx
+        .insert(charityPayouts)
+        .values({
+          // Rebatched escrow can predate the previous payout's period
+          periodStart: new Date(Math.min((previous?.periodEnd ?? earliestRelease).getTime(), earliestRelease.getTime())),
+          periodEnd,
+          amount: released.reduce((sum, e) => sum + e.amount, 0),
+          escrowCount: released.length,
+          method,
+          status: "pending",
+        })
+        .onConflictDoNothing({ target: charityPayouts.periodEnd })
+        .returning();
+
+      if (!payout) return undefined;
+
+      await tx
+        .update(escrow)
+        .set({ payoutId: payout.id })
+        .where(inArray(escrow.id, released.map((e) => e.id)));
+
+      await this.recordAudit(tx, actor, [
+        { action: "payout.create", entityType: "payout", entityId: payout.id, after: payout },
+        ...released.map((e) => ({
+          action: "escrow.batch",
+          entityType: "escrow",
+          entityId: e.id,
+          before: { payoutId: null },
+          after: { payoutId: payout.id },
+          sponsorId: e.sponsorId,
+          coinId: e.coinId,
+        })),
+      ]);
+
+      return payout;
+    });
+  }
+
+  async getPendingPayouts(): Promise<CharityPayout[]> {
+    return db
+      .select()
+      .from(charityPayouts)
+      .where(eq(charityPayouts.status, "pending"))
+      .orderBy(charityPayouts.periodEnd);
+  }
+
+  // Record a payout as paid. With a review reason, an admin is settling a
+  // payout in review rather than the job settling a pending one.
+  async markPayoutPaid(
+    id: string,
+    stripeTransferId: string | null,
+    actor: AuditActor,
+    reviewReason?: string
+  ): Promise<boolean> {
+    const from = reviewReason ? "review" : "pending";
+    return db.transaction(async (tx) => {
+      const [payout] = await tx
+        .update(charityPayouts)
+        .set({ status: "paid", stripeTransferId, paidAt: new Date() })
+        .where(and(eq(charityPayouts.id, id), eq(charityPayouts.status, from)))
+        .returning();
+
+      if (!payout) return false;
+
+      await this.recordAudit(tx, actor, {
+        action: "payout.paid",
+        entityType: "payout",
+        entityId: payout.id,
+        before: { status: from },
+        after: { status: payout.status, stripeTransferId },
+        reason: reviewReason,
+      });
+
+      await this.postLedger(tx, "payout", "charity_payable", "payments_clearing", payout.amount, {
+        payoutId: payout.id,
+      });
+      return true;
+    });
+  }
+
+  // Count a transfer attempt that failed transiently. The payout stays
+  // pending, so the next run retries it.
+  async recordPayoutRetry(id: string, reason: string, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [payout] = await tx
+        .update(charityPayouts)
+        .set({ attempts: sql`${charityPayouts.attempts} + 1`, failureReason: reason })
+        .where(and(eq(charityPayouts.id, id), eq(charityPayouts.status, "pending")))
+        .returning();
+      if (!payout) return;
+
+      await this.recordAudit(tx, actor, {
+        action: "payout.retry",
+        entityType: "payout",
+        entityId: payout.id,
+        before: { attempts: payout.attempts - 1 },
+        after: { attempts: payout.attempts },
+        reason,
+      });
+    });
+  }
+
+  // Stop retrying a payout whose transfer may or may not have been made. Its
+  // escrow stays batched to it until an admin settles it as paid or failed.
+  async markPayoutForReview(id: string, reason: string, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [payout] = await tx
+        .update(charityPayouts)
+        .set({ status: "review", failureReason: reason })
+        .where(and(eq(charityPayouts.id, id), eq(charityPayouts.status, "pending")))
+        .returning();
+      if (!payout) return;
+
+      await this.recordAudit(tx, actor, {
+        action: "payout.review",
+        entityType: "payout",
+        entityId: payout.id,
+        before: { status: "pending" },
+        after: { status: payout.status },
+        reason,
+      });
+    });
+  }
+
+  // Give up on a payout Stripe never paid. Its escrow rows are unlinked so
+  // the next payout batches them again, rather than the charity's money
+  // staying stuck on a payout that will never be paid.
+  async markPayoutFailed(id: string, reason: string, actor: AuditActor, fromReview = false): Promise<boolean> {
+    const from = fromReview ? "review" : "pending";
+    return db.transaction(async (tx) => {
+      const [payout] = await tx
+        .update(charityPayouts)
+        .set({ status: "failed", failureReason: reason })
+        .where(and(eq(charityPayouts.id, id), eq(charityPayouts.status, from)))
+        .returning();
+      if (!payout) return false;
+
+      const unbatched = await tx
+        .update(escrow)
+        .set({ payoutId: null })
+        .where(eq(escrow.payoutId, payout.id))
+        .returning();
+
+      await this.recordAudit(tx, actor, [
+        {
+          action: "payout.fail",
+          entityType: "payout",
+          entityId: payout.id,
+          before: { status: from },
+          after: { status: payout.status },
+          reason,
+        },
+        ...unbatched.map((e) => ({
+          action: "escrow.unbatch",
+          entityType: "escrow",
+          entityId: e.id,
+          before: { payoutId: payout.id },
+          after: { payoutId: null },
+          reason,
+          sponsorId: e.sponsorId,
+          coinId: e.coinId,
+        })),
+      ]);
+      return true;
+    });
+  }
+
+  // Tie a payout back to the escrow and generated_coins rows it paid for,
+  // optionally limited to one sponsor's share
+  async getPayoutReport(payoutId: string, sponsorId?: string): Promise<PayoutReport | undefined> {
+    const [payout] = await db.select().from(charityPayouts).where(eq(charityPayouts.id, payoutId));
+    if (!payout) return undefined;
+
+    const lines = await db
+      .select({
+        escrowId: escrow.id,
+        coinId: escrow.coinId,
+        sponsorId: escrow.sponsorId,
+        amount: escrow.amount,
+        releasedAt: escrow.releasedAt,
+        coinValue: generatedCoins.coinValue,
+        sessionId: generatedCoins.sessionId,
+        collectedAt: generatedCoins.collectedAt,
+        collectedBy: generatedCoins.collectedBy,
+      })
+      .from(escrow)
+      .innerJoin(generatedCoins, eq(generatedCoins.id, escrow.coinId))
+      .where(
+        sponsorId
+          ? and(eq(escrow.payoutId, payoutId), eq(escrow.sponsorId, sponsorId))
+          : eq(escrow.payoutId, payoutId)
+      )
+      .orderBy(escrow.releasedAt);
+
+    return { payout, lines };
+  }
+
+  async getPayoutsForSponsor(sponsorId: string): Promise<PayoutReport[]> {
+    const payoutIds = await db
+      .selectDistinct({ payoutId: escrow.payoutId })
+      .from(escrow)
+      .where(and(eq(escrow.sponsorId, sponsorId), isNotNull(escrow.payoutId)));
+
+    const reports: PayoutReport[] = [];
+    for (const { payoutId } of payoutIds) {
+      const report = await this.getPayoutReport(payoutId!, sponsorId);
+      if (report) reports.push(report);
+    }
+    return reports.sort((a, b) => b.payout.periodEnd.getTime() - a.payout.periodEnd.getTime());
+  }
+
+  // Webhook Audit Log
+  // Rejected deliveries are their own append-only log, so no audit event is written
+  async addWebhookAuditLog(data: InsertWebhookAuditLog): Promise<WebhookAuditLog> {
+    const [entry] = await db.insert(webhookAuditLog).values(data).returning();
+    return entry;
+  }
+
+  // Ledger
+  // Check every ledger transaction balances, then compare the denormalised
+  // counters (profiles, sessions, inventory, escrow, history) against it
+  async verifyLedger(): Promise<LedgerVerificationReport> {
+    const [{ entryCount }] = await db
+      .select({ entryCount: sql<number>`COUNT(*)::int` })
+      .from(ledgerEntries);
+
+    const unbalancedTransactions = await db
+      .select({ transactionId: ledgerEntries.transactionId, debits: ledgerDebits, credits: ledgerCredits })
+      .from(ledgerEntries)
+      .groupBy(ledgerEntries.transactionId)
+      .having(sql`${ledgerDebits} <> ${ledgerCredits}`);
+
+    // Collections as recorded by the ledger (the credit leg to charity_payable)
+    const collectionCredit = and(
+      eq(ledgerEntries.kind, "collection"),
+      eq(ledgerEntries.direction, "credit")
+    );
+    const collectedBy = async (key: "playerId" | "sponsorId" | "sessionId") => {
+      const column = ledgerEntries[key];
+      const rows = await db
+        .select({
+          id: column,
+          amount: sql<number>`SUM(${ledgerEntries.amount})::int`,
+          count: sql<number>`COUNT(*)::int`,
+        })
+        .from(ledgerEntries)
+        .where(collectionCredit)
+        .groupBy(column);
+      return rows;
+    };
+
+    const drift: LedgerDrift[] = [];
+    const compare = (
+      check: string,
+      ledgerRows: { id: string | null; amount: number }[],
+      recordedRows: { id: string | null; amount: number }[]
+    ) => {
+      const ledger = new Map(ledgerRows.map((r) => [r.id, Number(r.amount)]));
+      const recorded = new Map(recordedRows.map((r) => [r.id, Number(r.amount)]));
+      const ids = new Set(Array.from(ledger.keys()).concat(Array.from(recorded.keys())));
+      ids.forEach((id) => {
+        const ledgerValue = ledger.get(id) ?? 0;
+        const recordedValue = recorded.get(id) ?? 0;
+        if (ledgerValue !== recordedValue) {
+          drift.push({ check, entityId: id, ledger: ledgerValue, recorded: recordedValue });
+        }
+      });
+    };
+
+    const byPlayer = await collectedBy("playerId");
+    const bySponsor = await collectedBy("sponsorId");
+    const bySession = await collectedBy("sessionId");
+
+    const players = await db
+      .select({ id: playerProfiles.id, donated: playerProfiles.totalDonated, coins: playerProfiles.totalCoinsCollected })
+      .from(playerProfiles);
+    compare("player.totalDonated", byPlayer, players.map((p) => ({ id: p.id, amount: p.donated })));
+    compare(
+      "player.totalCoinsCollected",
+      byPlayer.map((r) => ({ id: r.id, amount: r.count })),
+      players.map((p) => ({ id: p.id, amount: p.coins }))
+    );
+
+    const sponsors = await db
+      .select({ id: sponsorProfiles.id, amount: sponsorProfiles.totalDonated })
+      .from(sponsorProfiles);
+    compare("sponsor.totalDonated", bySponsor, sponsors);
+
+    const sessions = await db
+      .select({ id: playerSessions.id, amount: playerSessions.totalValue, coins: playerSessions.coinsCollected })
+      .from(playerSessions);
+    compare("session.totalValue", bySession, sessions);
+    compare(
+      "session.coinsCollected",
+      bySession.map((r) => ({ id: r.id, amount: r.count })),
+      sessions.map((s) => ({ id: s.id, amount: s.coins }))
+    );
+
+    const history = await db
+      .select({ id: collectionHistory.playerId, amount: sql<number>`SUM(${collectionHistory.coinValue})::int` })
+      .from(collectionHistory)
+      .groupBy(collectionHistory.playerId);
+    compare("collectionHistory.coinValue", byPlayer, history);
+
+    const recorded = await recordedBalances(db);
+    compare("coinInventory.value", await ledgerBalanceBySponsor(db, "sponsor_inventory"), recorded.inventory);
+    compare("escrow.held", await ledgerBalanceBySponsor(db, "escrow_held"), recorded.held);
+
+    const ledgerPayable = await ledgerBalanceBySponsor(db, "charity_payable");
+    compare(
+      "escrow.releasedUnpaid",
+      [{ id: null, amount: ledgerPayable.reduce((sum, r) => sum + Number(r.amount), 0) }],
+      [{ id: null, amount: recorded.payable }]
+    );
+
+    return {
+      checkedAt: new Date(),
+      entryCount,
+      unbalancedTransactions,
+      drift,
+      ok: unbalancedTransactions.length === 0 && drift.length === 0,
+    };
+  }
+
+  // Carry data from before the ledger began into it, once. Collections with
+  // history but no ledger entry are posted as collections, then each
+  // sponsor's inventory and escrow accounts and the charity payable account
+  // are brought in line with recorded state against opening_balance. Ledger
+  // writes wait on the table lock, so nothing moves while balances are read.
+  async postOpeningBalances(actor: AuditActor): Promise<OpeningBalanceResult> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`LOCK TABLE ${ledgerEntries} IN EXCLUSIVE MODE`);
+
+      const [posted] = await tx
+        .select({ id: auditEvents.id })
+        .from(auditEvents)
+        .where(eq(auditEvents.action, "ledger.opening_balances"))
+        .limit(1);
+      if (posted) return { status: "already_posted" as const };
+
+      const unposted = await tx
+        .select({ history: collectionHistory, sponsorId: generatedCoins.sponsorId })
+        .from(collectionHistory)
+        .innerJoin(generatedCoins, eq(generatedCoins.id, collectionHistory.coinId))
+        .where(
+          and(
+            sql`${collectionHistory.coinValue} > 0`,
+            sql`NOT EXISTS (SELECT 1 FROM ${ledgerEntries} WHERE ${ledgerEntries.coinId} = ${collectionHistory.coinId} AND ${ledgerEntries.kind} = 'collection')`
+          )
+        );
+      const collections: InsertLedgerEntry[] = unposted.flatMap(({ history, sponsorId }) => {
+        const transactionId = randomUUID();
+        const refs = { sponsorId, playerId: history.playerId, sessionId: history.sessionId, coinId: history.coinId };
+        return [
+          { transactionId, kind: "collection", account: "escrow_held", direction: "debit", amount: history.coinValue, ...refs },
+          { transactionId, kind: "collection", account: "charity_payable", direction: "credit", amount: history.coinValue, ...refs },
+        ];
+      });
+      for (let i = 0; i < collections.length; i += OPENING_BALANCE_BATCH_SIZE) {
+        await tx.insert(ledgerEntries).values(collections.slice(i, i + OPENING_BALANCE_BATCH_SIZE));
+      }
+
+      const recorded = await recordedBalances(tx);
+      const ledgerPayable = await ledgerBalanceBySponsor(tx, "charity_payable");
+      const accounts: { account: LedgerAccount; ledger: LedgerBalance[]; recorded: LedgerBalance[] }[] = [
+        {
+          account: "sponsor_inventory",
+          ledger: await ledgerBalanceBySponsor(tx, "sponsor_inventory"),
+          recorded: recorded.inventory,
+        },
+        { account: "escrow_held", ledger: await ledgerBalanceBySponsor(tx, "escrow_held"), recorded: recorded.held },
+        {
+          account: "charity_payable",
+          ledger: [{ id: null, amount: ledgerPayable.reduce((sum, r) => sum + Number(r.amount), 0) }],
+          recorded: [{ id: null, amount: recorded.payable }],
+        },
+      ];
+
+      const adjustments: { account: LedgerAccount; sponsorId: string | null; amount: number }[] = [];
+      for (const { account, ledger, recorded } of accounts) {
+        const balances = new Map(ledger.map((r) => [r.id, Number(r.amount)]));
+        const targets = new Map(recorded.map((r) => [r.id, Number(r.amount)]));
+        const ids = new Set(Array.from(balances.keys()).concat(Array.from(targets.keys())));
+        for (const sponsorId of Array.from(ids)) {
+          const amount = (targets.get(sponsorId) ?? 0) - (balances.get(sponsorId) ?? 0);
+          if (amount === 0) continue;
+          // The accounts are credit-normal, so crediting one raises its balance
+          if (amount > 0) {
+            await this.postLedger(tx, "opening_balance", "opening_balance", account, amount, { sponsorId });
+          } else {
+            await this.postLedger(tx, "opening_balance", account, "opening_balance", -amount, { sponsorId });
+          }
+          adjustments.push({ account, sponsorId, amount });
+        }
+      }
+
+      await this.recordAudit(tx, actor, {
+        action: "ledger.opening_balances",
+        entityType: "ledger_account",
+        entityId: "opening_balance",
+        after: { collections: unposted.length, adjustments },
+      });
+
+      return { status: "posted" as const, collections: unposted.length, adjustments: adjustments.length };
+    });
+  }
+
+  // Admin
+  async listUsers(filters: AdminUserFilters): Promise<AdminUserRow[]> {
+    const conditions: SQL[] = [];
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(
+        or(
+          ilike(users.email, pattern),
+          ilike(users.firstName, pattern),
+          ilike(users.lastName, pattern),
+          ilike(playerProfiles.username, pattern),
+          ilike(sponsorProfiles.companyName, pattern)
+        )!
+      );
+    }
+    if (filters.role) conditions.push(eq(userRoles.currentRole, filters.role));
+    if (filters.suspended !== undefined) {
+      conditions.push(filters.suspended ? isNotNull(playerProfiles.suspendedAt) : isNull(playerProfiles.suspendedAt));
+    }
+
+    const rows = await db
+      .select({
+        userId: users.id,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        currentRole: userRoles.currentRole,
+        isAdmin: userRoles.isAdmin,
+        playerId: playerProfiles.id,
+        username: playerProfiles.username,
+        suspendedAt: playerProfiles.suspendedAt,
+        suspensionReason: playerProfiles.suspensionReason,
+        sponsorId: sponsorProfiles.id,
+        companyName: sponsorProfiles.companyName,
+        createdAt: users.createdAt,
+      })
+      .from(users)
+      .leftJoin(userRoles, eq(userRoles.userId, users.id))
+      .leftJoin(playerProfiles, eq(playerProfiles.userId, users.id))
+      .leftJoin(sponsorProfiles, eq(sponsorProfiles.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(users.createdAt))
+      .limit(ADMIN_LIST_LIMIT);
+
+    return rows.map((row) => ({ ...row, isAdmin: row.isAdmin ?? false }));
+  }
+
+  async listSponsors(filters: AdminSponsorFilters): Promise<AdminSponsorRow[]> {
+    const rows = await db
+      .select({
+        profile: sponsorProfiles,
+        inventoryQuantity: sql<number>`COALESCE(SUM(${coinInventory.quantity}), 0)::int`,
+        inventoryValue: sql<number>`COALESCE(SUM(${coinInventory.quantity} * ${coinInventory.coinValue}), 0)::int`,
+      })
+      .from(sponsorProfiles)
+      .leftJoin(coinInventory, eq(coinInventory.sponsorId, sponsorProfiles.id))
+      .where(filters.search ? ilike(sponsorProfiles.companyName, `%${filters.search}%`) : undefined)
+      .groupBy(sponsorProfiles.id)
+      .orderBy(desc(sponsorProfiles.createdAt))
+      .limit(ADMIN_LIST_LIMIT);
+
+    return rows.map(({ profile, inventoryQuantity, inventoryValue }) => ({
+      ...profile,
+      inventoryQuantity,
+      inventoryValue,
+    }));
+  }
+
+  async listSessions(filters: AdminSessionFilters): Promise<PlayerSession[]> {
+    return db
+      .select()
+      .from(playerSessions)
+      .where(
+        and(
+          filters.status ? eq(playerSessions.status, filters.status) : undefined,
+          filters.playerId ? eq(playerSessions.playerId, filters.playerId) : undefined
+        )
+      )
+      .orderBy(desc(playerSessions.startedAt))
+      .limit(ADMIN_LIST_LIMIT);
+  }
+
+  async listCoins(filters: AdminCoinFilters): Promise<GeneratedCoin[]> {
+    return db
+      .select()
+      .from(generatedCoins)
+      .where(
+        and(
+          filters.status ? eq(generatedCoins.status, filters.status) : undefined,
+          filters.sponsorId ? eq(generatedCoins.sponsorId, filters.sponsorId) : undefined,
+          filters.sessionId ? eq(generatedCoins.sessionId, filters.sessionId) : undefined
+        )
+      )
+      .orderBy(desc(generatedCoins.placedAt))
+      .limit(ADMIN_LIST_LIMIT);
+  }
+
+  async listEscrow(filters: AdminEscrowFilters): Promise<Escrow[]> {
+    return db
+      .select()
+      .from(escrow)
+      .where(
+        and(
+          filters.status ? eq(escrow.status, filters.status) : undefined,
+          filters.sponsorId ? eq(escrow.sponsorId, filters.sponsorId) : undefined,
+          filters.coinId ? eq(escrow.coinId, filters.coinId) : undefined
+        )
+      )
+      .orderBy(desc(escrow.createdAt))
+      .limit(ADMIN_LIST_LIMIT);
+  }
+
+  async adminExpireCoin(coinId: string, actor: AuditActor, reason: string): Promise<"expired" | "not_found" | "not_placed"> {
+    return db.transaction(async (tx) => {
+      const [coin] = await tx
+        .select()
+        .from(generatedCoins)
+        .where(eq(generatedCoins.id, coinId))
+        .for("update");
+
+      if (!coin) return "not_found";
+      if (!LIVE_COIN_STATUSES.includes(coin.status) || !(await this.expirePlacedCoin(tx, coin, actor, reason))) {
+        return "not_placed";
+      }
+      return "expired";
+    });
+  }
+
+  // Refund held escrow back to the sponsor's inventory. Normally this is the
+  // same as expiring the coin, but it also repairs escrow left held after its
+  // coin was collected or expired elsewhere.
+  async adminRefundEscrow(escrowId: string, actor: AuditActor, reason: string): Promise<"refunded" | "not_found" | "not_held"> {
+    return db.transaction(async (tx) => {
+      const [row] = await tx.select().from(escrow).where(eq(escrow.id, escrowId)).for("update");
+      if (!row) return "not_found";
+      if (row.status !== "held") return "not_held";
+
+      const [coin] = await tx
+        .select()
+        .from(generatedCoins)
+        .where(eq(generatedCoins.id, row.coinId))
+        .for("update");
+
+      if (coin && LIVE_COIN_STATUSES.includes(coin.status)) {
+        await this.expirePlacedCoin(tx, coin, actor, reason);
+      } else {
+        const refs = { sponsorId: row.sponsorId, sessionId: coin?.sessionId, coinId: row.coinId };
+        await this.refundHeldEscrow(tx, actor, row.coinId, reason, refs);
+        await this.addToInventoryWith(tx, actor, row.sponsorId, row.amount, 1, { ...refs, reason });
+        await this.postLedger(tx, "expiry_refund", "escrow_held", "sponsor_inventory", row.amount, refs);
+      }
+      return "refunded";
+    });
+  }
+
+  async setPlayerSuspended(
+    playerId: string,
+    suspended: boolean,
+    actor: AuditActor,
+    reason: string
+  ): Promise<PlayerProfile | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(playerProfiles)
+        .where(eq(playerProfiles.id, playerId))
+        .for("update");
+      if (!before) return undefined;
+
+      const [after] = await tx
+        .update(playerProfiles)
+        .set(
+          suspended
+            ? { suspendedAt: before.suspendedAt ?? new Date(), suspensionReason: reason }
+            : { suspendedAt: null, suspensionReason: null }
+        )
+        .where(eq(playerProfiles.id, playerId))
+        .returning();
+
+      await this.recordAudit(tx, actor, {
+        action: suspended ? "player.suspend" : "player.unsuspend",
+        entityType: "player",
+        entityId: playerId,
+        before,
+        after,
+        reason,
+        playerId,
+      });
+      return after;
+    });
+  }
+
+  // Add or remove unplaced coins of one denomination. The correction is
+  // booked against the admin_adjustments ledger account.
+  async adjustSponsorInventory(
+    sponsorId: string,
+    coinValue: number,
+    delta: number,
+    actor: AuditActor,
+    reason: string
+  ): Promise<AdjustInventoryResult> {
+    return db.transaction(async (tx) => {
+      const [sponsor] = await tx
+        .select({ id: sponsorProfiles.id })
+        .from(sponsorProfiles)
+        .where(eq(sponsorProfiles.id, sponsorId));
+      if (!sponsor) return { status: "sponsor_not_found" };
+
+      const amount = Math.abs(delta) * coinValue;
+      if (delta > 0) {
+        const inventory = await this.addToInventoryWith(tx, actor, sponsorId, coinValue, delta, { reason });
+        await this.postLedger(tx, "adjustment", "admin_adjustments", "sponsor_inventory", amount, { sponsorId });
+        return { status: "adjusted", inventory };
+      }
+
+      const inventory = await this.removeFromInventoryWith(tx, actor, sponsorId, coinValue, -delta, { reason });
+      if (!inventory) return { status: "insufficient_inventory" };
+      await this.postLedger(tx, "adjustment", "sponsor_inventory", "admin_adjustments", amount, { sponsorId });
+      return { status: "adjusted", inventory };
+    });
+  }
+
+  // Audit Events
+  async getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]> {
+    return db
+      .select()
+      .from(auditEvents)
+      .where(
+        and(
+          filters.entityType ? eq(auditEvents.entityType, filters.entityType) : undefined,
+          filters.entityId ? eq(auditEvents.entityId, filters.entityId) : undefined,
+          filters.actorId ? eq(auditEvents.actorId, filters.actorId) : undefined
+        )
+      )
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(filters.limit ?? ADMIN_LIST_LIMIT);
+  }
+
+  // Everything that touched a coin, a session or a sponsor, oldest first
+  async getAuditTrail(scope: AuditTrailScope, id: string): Promise<AuditEvent[]> {
+    const column =
+      scope === "coin" ? auditEvents.coinId : scope === "session" ? auditEvents.sessionId : auditEvents.sponsorId;
+
+    return db
+      .select()
+      .from(auditEvents)
+      .where(eq(column, id))
+      .orderBy(auditEvents.createdAt, auditEvents.id);
+  }
+
+  // Audit events are only ever inserted, in the same transaction as the change
+  // they describe, so the trail can't disagree with the data
+  private async recordAudit(
+    tx: Transaction,
+    actor: AuditActor,
+    records: AuditRecord | AuditRecord[]
+  ): Promise<void> {
+    const rows = (Array.isArray(records) ? records : [records]).map((record) => ({
+      ...record,
+      actorType: actor.type,
+      actorId: actor.id ?? null,
+    }));
+    if (rows.length === 0) return;
+
+    await tx.insert(auditEvents).values(rows);
+  }
+
+  // Leaderboards
+  // Rebuild the current week's, month's and all-time boards from collection
+  // history. Each board is replaced in one transaction, so readers never see
+  // a half-built board.
+  async refreshLeaderboards(now = new Date()): Promise<number> {
+    // Timestamps are stored as UTC, so raw parameters are passed as ISO strings
+    const refreshedAt = now.toISOString();
+    let written = 0;
+    for (const period of ["week", "month", "all"] as const) {
+      const start = leaderboardPeriodStart(period, now);
+      const startAt = start.toISOString();
+      written += await db.transaction(async (tx) => {
+        await tx
+          .delete(leaderboardEntries)
+          .where(and(eq(leaderboardEntries.period, period), eq(leaderboardEntries.periodStart, start)));
+
+        // Suspended players are left off every board. Ties share a dense rank.
+        const result = await tx.execute(sql`
+          INSERT INTO ${leaderboardEntries}
+            (period, period_start, region, player_id, coins, donated, last_collected_at, coins_rank, donated_rank, refreshed_at)
+          SELECT ${period}::leaderboard_period, ${startAt}::timestamp, region, player_id, coins, donated, last_collected_at,
+                 DENSE_RANK() OVER (PARTITION BY region ORDER BY coins DESC),
+                 DENSE_RANK() OVER (PARTITION BY region ORDER BY donated DESC),
+                 ${refreshedAt}::timestamp
+          FROM (
+            SELECT ${GLOBAL_REGION}::text AS region, h.player_id,
+                   COUNT(*)::int AS coins, SUM(h.coin_value)::int AS donated, MAX(h.collected_at) AS last_collected_at
+            FROM ${collectionHistory} h
+            WHERE h.collected_at >= ${startAt}::timestamp
+            GROUP BY h.player_id
+            UNION ALL
+            SELECT s.region, h.player_id,
+                   COUNT(*)::int, SUM(h.coin_value)::int, MAX(h.collected_at)
+            FROM ${collectionHistory} h
+            JOIN ${playerSessions} s ON s.id = h.session_id
+            WHERE h.collected_at >= ${startAt}::timestamp AND s.region IS NOT NULL
+            GROUP BY s.region, h.player_id
+          ) totals
+          WHERE NOT EXISTS (
+            SELECT 1 FROM ${playerProfiles} p WHERE p.id = totals.player_id AND p.suspended_at IS NOT NULL
+          )
+        `);
+        return result.rowCount ?? 0;
+      });
+    }
+    return written;
+  }
+
+  // A board in rank order. Players tied on a rank are listed by who reached
+  // the total first, then by id, so the order is stable between refreshes.
+  async getLeaderboard(query: LeaderboardQuery, limit = 20): Promise<LeaderboardRow[]> {
+    const rank = query.metric === "coins" ? leaderboardEntries.coinsRank : leaderboardEntries.donatedRank;
+    return db
+      .select({ ...leaderboardColumns, rank, username: playerProfiles.username })
+      .from(leaderboardEntries)
+      .innerJoin(playerProfiles, eq(playerProfiles.id, leaderboardEntries.playerId))
+      .where(leaderboardBoard(query))
+      .orderBy(rank, leaderboardEntries.lastCollectedAt, leaderboardEntries.playerId)
+      .limit(limit);
+  }
+
+  async getLeaderboardStanding(playerId: string, query: LeaderboardQuery): Promise<LeaderboardRow | undefined> {
+    const rank = query.metric === "coins" ? leaderboardEntries.coinsRank : leaderboardEntries.donatedRank;
+    const [row] = await db
+      .select({ ...leaderboardColumns, rank, username: playerProfiles.username })
+      .from(leaderboardEntries)
+      .innerJoin(playerProfiles, eq(playerProfiles.id, leaderboardEntries.playerId))
+      .where(and(leaderboardBoard(query), eq(leaderboardEntries.playerId, playerId)));
+    return row;
+  }
+
+  // A player's home region: where they started their latest session
+  async getPlayerRegion(playerId: string): Promise<string | undefined> {
+    const [session] = await db
+      .select({ region: playerSessions.region })
+      .from(playerSessions)
+      .where(and(eq(playerSessions.playerId, playerId), isNotNull(playerSessions.region)))
+      .orderBy(desc(playerSessions.startedAt))
+      .limit(1);
+    return session?.region ?? undefined;
+  }
+
+  // A board limited to some players (friends, say), re-ranked among them.
+  // Rows come from the global board for the period, so the same refresh
+  // backs it and the tie-breaks match.
+  async getLeaderboardAmong(
+    query: Omit<LeaderboardQuery, "region">,
+    playerIds: string[],
+    limit = 20
+  ): Promise<LeaderboardRow[]> {
+    if (playerIds.length === 0) return [];
+
+    const score = query.metric === "coins" ? leaderboardEntries.coins : leaderboardEntries.donated;
+    const rows = await db
+      .select({ ...leaderboardColumns, username: playerProfiles.username })
+      .from(leaderboardEntries)
+      .innerJoin(playerProfiles, eq(playerProfiles.id, leaderboardEntries.playerId))
+      .where(and(leaderboardBoard({ ...query, region: GLOBAL_REGION }), inArray(leaderboardEntries.playerId, playerIds)))
+      .orderBy(desc(score), leaderboardEntries.lastCollectedAt, leaderboardEntries.playerId)
+      .limit(limit);
+
+    return denseRank(rows, (row) => (query.metric === "coins" ? row.coins : row.donated));
+  }
+
+  // Friends
+  async getPlayerProfileByUsername(username: string): Promise<PlayerProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(playerProfiles)
+      .where(sql`lower(${playerProfiles.username}) = lower(${username})`);
+    return profile;
+  }
+
+  async getFriendsOverview(playerId: string): Promise<FriendsOverview> {
+    const rows = await db
+      .select({ friendship: friendships, username: playerProfiles.username })
+      .from(friendships)
+      .innerJoin(
+        playerProfiles,
+        sql`${playerProfiles.id} = CASE WHEN ${friendships.requesterId} = ${playerId}
+          THEN ${friendships.addresseeId} ELSE ${friendships.requesterId} END`
+      )
+      .where(or(eq(friendships.requesterId, playerId), eq(friendships.addresseeId, playerId)))
+      .orderBy(playerProfiles.username);
+
+    const overview: FriendsOverview = { friends: [], incoming: [], outgoing: [], blocked: [] };
+    rows.forEach(({ friendship, username }) => {
+      const otherId = friendship.requesterId === playerId ? friendship.addresseeId : friendship.requesterId;
+      if (friendship.status === "accepted") {
+        overview.friends.push({ playerId: otherId, username, since: friendship.respondedAt ?? friendship.createdAt });
+      } else {
+        const request = { id: friendship.id, playerId: otherId, username, createdAt: friendship.createdAt };
+        (friendship.requesterId === playerId ? overview.outgoing : overview.incoming).push(request);
+      }
+    });
+
+    overview.blocked = await db
+      .select({ playerId: playerBlocks.blockedId, username: playerProfiles.username })
+      .from(playerBlocks)
+      .innerJoin(playerProfiles, eq(playerProfiles.id, playerBlocks.blockedId))
+      .where(eq(playerBlocks.blockerId, playerId))
+      .orderBy(playerProfiles.username);
+
+    return overview;
   }
 
-  async refundEscrow(coinId: string): Promise<void> {
-    await db
-      .update(escrow)
-      .set({ status: "refunded", releasedAt: new Date() })
-      .where(eq(escrow.coinId, coinId));
+  async getFriendIds(playerId: string): Promise<string[]> {
+    const rows = await db
+      .select({ requesterId: friendships.requesterId, addresseeId: friendships.addresseeId })
+      .from(friendships)
+      .where(
+        and(
+          eq(friendships.status, "accepted"),
+          or(eq(friendships.requesterId, playerId), eq(friendships.addresseeId, playerId))
+        )
+      );
+    return rows.map((row) => (row.requesterId === playerId ? row.addresseeId : row.requesterId));
   }
 
-  // Collection History
-  async addCollectionHistory(data: InsertCollectionHistory): Promise<CollectionHistory> {
-    const [history] = await db.insert(collectionHistory).values(data).returning();
-    return history;
+  // Ask another player to be friends. If they already asked us, that request
+  // is accepted instead. The pair key makes crossing requests collide on one
+  // row rather than creating two.
+  async sendFriendRequest(fromId: string, toId: string, actor: AuditActor): Promise<FriendRequestResult> {
+    if (fromId === toId) return { status: "self" };
+
+    return db.transaction(async (tx) => {
+      const [block] = await tx
+        .select({ id: playerBlocks.id })
+        .from(playerBlocks)
+        .where(
+          or(
+            and(eq(playerBlocks.blockerId, fromId), eq(playerBlocks.blockedId, toId)),
+            and(eq(playerBlocks.blockerId, toId), eq(playerBlocks.blockedId, fromId))
+          )
+        );
+      if (block) return { status: "blocked" as const };
+
+      const pairKey = friendPairKey(fromId, toId);
+      const [created] = await tx
+        .insert(friendships)
+        .values({ pairKey, requesterId: fromId, addresseeId: toId })
+        .onConflictDoNothing()
+        .returning();
+      if (created) {
+        await this.recordAudit(tx, actor, {
+          action: "friendship.request",
+          entityType: "friendship",
+          entityId: created.id,
+          after: created,
+          playerId: fromId,
+        });
+        return { status: "requested" as const, friendship: created };
+      }
+
+      const [existing] = await tx.select().from(friendships).where(eq(friendships.pairKey, pairKey)).for("update");
+      if (existing.status === "accepted") return { status: "already_friends" as const };
+      if (existing.requesterId === fromId) return { status: "already_requested" as const };
+
+      const [accepted] = await tx
+        .update(friendships)
+        .set({ status: "accepted", respondedAt: new Date() })
+        .where(eq(friendships.id, existing.id))
+        .returning();
+      await this.recordAudit(tx, actor, {
+        action: "friendship.accept",
+        entityType: "friendship",
+        entityId: existing.id,
+        before: existing,
+        after: accepted,
+        playerId: fromId,
+      });
+      return { status: "accepted" as const, friendship: accepted };
+    });
+  }
+
+  // Accept or decline a request sent to this player. Declining deletes the
+  // request so the sender can ask again later.
+  async respondToFriendRequest(
+    playerId: string,
+    requestId: string,
+    accept: boolean,
+    actor: AuditActor
+  ): Promise<"accepted" | "declined" | "not_found"> {
+    return db.transaction(async (tx) => {
+      const [request] = await tx
+        .select()
+        .from(friendships)
+        .where(
+          and(
+            eq(friendships.id, requestId),
+            eq(friendships.addresseeId, playerId),
+            eq(friendships.status, "pending")
+          )
+        )
+        .for("update");
+      if (!request) return "not_found";
+
+      if (!accept) {
+        await tx.delete(friendships).where(eq(friendships.id, requestId));
+        await this.recordAudit(tx, actor, {
+          action: "friendship.decline",
+          entityType: "friendship",
+          entityId: requestId,
+          before: request,
+          playerId,
+        });
+        return "declined";
+      }
+
+      const [accepted] = await tx
+        .update(friendships)
+        .set({ status: "accepted", respondedAt: new Date() })
+        .where(eq(friendships.id, requestId))
+        .returning();
+      await this.recordAudit(tx, actor, {
+        action: "friendship.accept",
+        entityType: "friendship",
+        entityId: requestId,
+        before: request,
+        after: accepted,
+        playerId,
+      });
+      return "accepted";
+    });
+  }
+
+  // Remove a friend, or cancel a request either way
+  async removeFriend(playerId: string, friendId: string, actor: AuditActor): Promise<boolean> {
+    return db.transaction((tx) => this.deleteFriendshipWith(tx, actor, playerId, friendId, "friendship.remove"));
+  }
+
+  async blockPlayer(playerId: string, targetId: string, actor: AuditActor): Promise<"blocked" | "self"> {
+    if (playerId === targetId) return "self";
+
+    return db.transaction(async (tx) => {
+      await this.deleteFriendshipWith(tx, actor, playerId, targetId, "friendship.remove");
+
+      const [block] = await tx
+        .insert(playerBlocks)
+        .values({ blockerId: playerId, blockedId: targetId })
+        .onConflictDoNothing()
+        .returning();
+      if (block) {
+        await this.recordAudit(tx, actor, {
+          action: "player.block",
+          entityType: "player_block",
+          entityId: block.id,
+          after: block,
+          playerId,
+        });
+      }
+      return "blocked" as const;
+    });
+  }
+
+  async unblockPlayer(playerId: string, targetId: string, actor: AuditActor): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [block] = await tx
+        .delete(playerBlocks)
+        .where(and(eq(playerBlocks.blockerId, playerId), eq(playerBlocks.blockedId, targetId)))
+        .returning();
+      if (!block) return false;
+
+      await this.recordAudit(tx, actor, {
+        action: "player.unblock",
+        entityType: "player_block",
+        entityId: block.id,
+        before: block,
+        playerId,
+      });
+      return true;
+    });
+  }
+
+  private async deleteFriendshipWith(
+    tx: Transaction,
+    actor: AuditActor,
+    playerId: string,
+    otherId: string,
+    action: string
+  ): Promise<boolean> {
+    const [removed] = await tx
+      .delete(friendships)
+      .where(eq(friendships.pairKey, friendPairKey(playerId, otherId)))
+      .returning();
+    if (!removed) return false;
+
+    await this.recordAudit(tx, actor, {
+      action,
+      entityType: "friendship",
+      entityId: removed.id,
+      before: removed,
+      playerId,
+    });
+    return true;
+  }
+
+  // Groups
+  async createGroup(ownerId: string, name: string, actor: AuditActor): Promise<PlayerGroup> {
+    return db.transaction(async (tx) => {
+      const [group] = await tx
+        .insert(playerGroups)
+        .values({ name, ownerId, inviteCode: generateInviteCode() })
+        .returning();
+      const [member] = await tx.insert(playerGroupMembers).values({ groupId: group.id, playerId: ownerId }).returning();
+
+      await this.recordAudit(tx, actor, [
+        { action: "group.create", entityType: "group", entityId: group.id, after: group, playerId: ownerId },
+        { action: "group.join", entityType: "group_member", entityId: member.id, after: member, playerId: ownerId },
+      ]);
+      return group;
+    });
+  }
+
+  async joinGroup(playerId: string, inviteCode: string, actor: AuditActor): Promise<JoinGroupResult> {
+    return db.transaction(async (tx) => {
+      const [group] = await tx
+        .select()
+        .from(playerGroups)
+        .where(eq(playerGroups.inviteCode, inviteCode.trim().toUpperCase()));
+      if (!group) return { status: "not_found" as const };
+
+      const [member] = await tx
+        .insert(playerGroupMembers)
+        .values({ groupId: group.id, playerId })
+        .onConflictDoNothing()
+        .returning();
+      if (!member) return { status: "already_member" as const, group };
+
+      await this.recordAudit(tx, actor, {
+        action: "group.join",
+        entityType: "group_member",
+        entityId: member.id,
+        after: member,
+        playerId,
+      });
+      return { status: "joined" as const, group };
+    });
+  }
+
+  // Leave a group. If the owner leaves, the longest-standing member takes
+  // over; the last member leaving deletes the group.
+  async leaveGroup(playerId: string, groupId: string, actor: AuditActor): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [group] = await tx.select().from(playerGroups).where(eq(playerGroups.id, groupId)).for("update");
+      if (!group) return false;
+
+      const [member] = await tx
+        .delete(playerGroupMembers)
+        .where(and(eq(playerGroupMembers.groupId, groupId), eq(playerGroupMembers.playerId, playerId)))
+        .returning();
+      if (!member) return false;
+
+      const records: AuditRecord[] = [
+        { action: "group.leave", entityType: "group_member", entityId: member.id, before: member, playerId },
+      ];
+
+      if (group.ownerId === playerId) {
+        const [successor] = await tx
+          .select()
+          .from(playerGroupMembers)
+          .where(eq(playerGroupMembers.groupId, groupId))
+          .orderBy(playerGroupMembers.joinedAt, playerGroupMembers.id)
+          .limit(1);
+
+        if (successor) {
+          const [after] = await tx
+            .update(playerGroups)
+            .set({ ownerId: successor.playerId })
+            .where(eq(playerGroups.id, groupId))
+            .returning();
+          records.push({ action: "group.transfer", entityType: "group", entityId: groupId, before: group, after, playerId });
+        } else {
+          await tx.delete(playerGroups).where(eq(playerGroups.id, groupId));
+          records.push({ action: "group.delete", entityType: "group", entityId: groupId, before: group, playerId });
+        }
+      }
+
+      await this.recordAudit(tx, actor, records);
+      return true;
+    });
+  }
+
+  // Replace a group's invite code, so the old one stops working
+  async regenerateGroupInviteCode(ownerId: string, groupId: string, actor: AuditActor): Promise<PlayerGroup | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(playerGroups)
+        .where(and(eq(playerGroups.id, groupId), eq(playerGroups.ownerId, ownerId)))
+        .for("update");
+      if (!before) return undefined;
+
+      const [after] = await tx
+        .update(playerGroups)
+        .set({ inviteCode: generateInviteCode() })
+        .where(eq(playerGroups.id, groupId))
+        .returning();
+      await this.recordAudit(tx, actor, {
+        action: "group.invite_code",
+        entityType: "group",
+        entityId: groupId,
+        before,
+        after,
+        playerId: ownerId,
+      });
+      return after;
+    });
+  }
+
+  // The groups a player belongs to, each with its shared total: everything
+  // its members have collected since they joined
+  async getPlayerGroups(playerId: string): Promise<GroupSummary[]> {
+    const memberships = await db
+      .select({ groupId: playerGroupMembers.groupId })
+      .from(playerGroupMembers)
+      .where(eq(playerGroupMembers.playerId, playerId));
+    const groupIds = memberships.map((m) => m.groupId);
+    if (groupIds.length === 0) return [];
+
+    return db
+      .select({
+        ...getTableColumns(playerGroups),
+        memberCount: sql<number>`COUNT(DISTINCT ${playerGroupMembers.playerId})::int`,
+        totalCoins: sql<number>`COUNT(${collectionHistory.id})::int`,
+        totalDonated: sql<number>`COALESCE(SUM(${collectionHistory.coinValue}), 0)::int`,
+      })
+      .from(playerGroups)
+      .innerJoin(playerGroupMembers, eq(playerGroupMembers.groupId, playerGroups.id))
+      .leftJoin(
+        collectionHistory,
+        and(
+          eq(collectionHistory.playerId, playerGroupMembers.playerId),
+          gte(collectionHistory.collectedAt, playerGroupMembers.joinedAt)
+        )
+      )
+      .where(inArray(playerGroups.id, groupIds))
+      .groupBy(playerGroups.id)
+      .orderBy(playerGroups.name);
+  }
+
+  // A group's members ranked by what they've raised since joining. Only
+  // members can see a group.
+  async getGroupDetail(groupId: string, playerId: string): Promise<GroupDetail | undefined> {
+    const [group] = await db.select().from(playerGroups).where(eq(playerGroups.id, groupId));
+    if (!group) return undefined;
+
+    const rows = await db
+      .select({
+        playerId: playerGroupMembers.playerId,
+        username: playerProfiles.username,
+        joinedAt: playerGroupMembers.joinedAt,
+        coins: sql<number>`COUNT(${collectionHistory.id})::int`,
+        donated: sql<number>`COALESCE(SUM(${collectionHistory.coinValue}), 0)::int`,
+      })
+      .from(playerGroupMembers)
+      .innerJoin(playerProfiles, eq(playerProfiles.id, playerGroupMembers.playerId))
+      .leftJoin(
+        collectionHistory,
+        and(
+          eq(collectionHistory.playerId, playerGroupMembers.playerId),
+          gte(collectionHistory.collectedAt, playerGroupMembers.joinedAt)
+        )
+      )
+      .where(eq(playerGroupMembers.groupId, groupId))
+      .groupBy(playerGroupMembers.playerId, playerProfiles.username, playerGroupMembers.joinedAt)
+      .orderBy(
+        desc(sql`COALESCE(SUM(${collectionHistory.coinValue}), 0)`),
+        playerGroupMembers.joinedAt,
+        playerGroupMembers.playerId
+      );
+    if (!rows.some((row) => row.playerId === playerId)) return undefined;
+
+    return {
+      group,
+      members: denseRank(rows, (row) => row.donated),
+      totalCoins: rows.reduce((sum, row) => sum + row.coins, 0),
+      totalDonated: rows.reduce((sum, row) => sum + row.donated, 0),
+    };
+  }
+
+  // Challenges
+  async createChallenge(playerId: string, input: CreateChallengeInput, actor: AuditActor): Promise<Challenge> {
+    return db.transaction(async (tx) => {
+      const [challenge] = await tx
+        .insert(challenges)
+        .values({ ...input, createdBy: playerId, inviteCode: generateInviteCode() })
+        .returning();
+      const [member] = await tx
+        .insert(challengeMembers)
+        .values({ challengeId: challenge.id, playerId })
+        .returning();
+
+      await this.recordAudit(tx, actor, [
+        { action: "challenge.create", entityType: "challenge", entityId: challenge.id, after: challenge, playerId },
+        { action: "challenge.join", entityType: "challenge_member", entityId: member.id, after: member, playerId },
+      ]);
+      return challenge;
+    });
+  }
+
+  async joinChallenge(playerId: string, inviteCode: string, actor: AuditActor): Promise<JoinChallengeResult> {
+    return db.transaction(async (tx) => {
+      const [challenge] = await tx
+        .select()
+        .from(challenges)
+        .where(eq(challenges.inviteCode, inviteCode.trim().toUpperCase()));
+      if (!challenge) return { status: "not_found" as const };
+      if (challenge.endsAt <= new Date()) return { status: "ended" as const };
+
+      const [member] = await tx
+        .insert(challengeMembers)
+        .values({ challengeId: challenge.id, playerId })
+        .onConflictDoNothing()
+        .returning();
+      if (!member) return { status: "already_member" as const, challenge };
+
+      await this.recordAudit(tx, actor, {
+        action: "challenge.join",
+        entityType: "challenge_member",
+        entityId: member.id,
+        after: member,
+        playerId,
+      });
+      return { status: "joined" as const, challenge };
+    });
+  }
+
+  // Challenges with their progress: what members collected between joining
+  // and the deadline
+  private async getChallengeSummaries(where: SQL | undefined, limit?: number): Promise<ChallengeSummary[]> {
+    const query = db
+      .select({
+        ...getTableColumns(challenges),
+        memberCount: sql<number>`COUNT(DISTINCT ${challengeMembers.playerId})::int`,
+        coins: sql<number>`COUNT(${collectionHistory.id})::int`,
+        raised: sql<number>`COALESCE(SUM(${collectionHistory.coinValue}), 0)::int`,
+      })
+      .from(challenges)
+      .innerJoin(challengeMembers, eq(challengeMembers.challengeId, challenges.id))
+      .leftJoin(
+        collectionHistory,
+        and(
+          eq(collectionHistory.playerId, challengeMembers.playerId),
+          gte(collectionHistory.collectedAt, challengeMembers.joinedAt),
+          lt(collectionHistory.collectedAt, challenges.endsAt)
+        )
+      )
+      .where(where)
+      .groupBy(challenges.id)
+      .orderBy(challenges.endsAt)
+      .$dynamic();
+    return limit ? query.limit(limit) : query;
+  }
+
+  async getPlayerChallenges(playerId: string): Promise<ChallengeSummary[]> {
+    return this.getChallengeSummaries(
+      inArray(
+        challenges.id,
+        db
+          .select({ id: challengeMembers.challengeId })
+          .from(challengeMembers)
+          .where(eq(challengeMembers.playerId, playerId))
+      )
+    );
+  }
+
+  // Running challenges, soonest deadline first, for sponsors to back
+  async getOpenChallenges(limit = 50): Promise<ChallengeSummary[]> {
+    return this.getChallengeSummaries(gt(challenges.endsAt, new Date()), limit);
+  }
+
+  async getChallengeDetail(challengeId: string): Promise<ChallengeDetail | undefined> {
+    const [challenge] = await this.getChallengeSummaries(eq(challenges.id, challengeId));
+    if (!challenge) return undefined;
+
+    const rows = await db
+      .select({
+        playerId: challengeMembers.playerId,
+        username: playerProfiles.username,
+        coins: sql<number>`COUNT(${collectionHistory.id})::int`,
+        donated: sql<number>`COALESCE(SUM(${collectionHistory.coinValue}), 0)::int`,
+      })
+      .from(challengeMembers)
+      .innerJoin(playerProfiles, eq(playerProfiles.id, challengeMembers.playerId))
+      .leftJoin(
+        collectionHistory,
+        and(
+          eq(collectionHistory.playerId, challengeMembers.playerId),
+          gte(collectionHistory.collectedAt, challengeMembers.joinedAt),
+          lt(collectionHistory.collectedAt, challenge.endsAt)
+        )
+      )
+      .where(eq(challengeMembers.challengeId, challengeId))
+      .groupBy(challengeMembers.playerId, playerProfiles.username, challengeMembers.joinedAt)
+      .orderBy(
+        desc(sql`COALESCE(SUM(${collectionHistory.coinValue}), 0)`),
+        challengeMembers.joinedAt,
+        challengeMembers.playerId
+      );
+
+    const reserves = await db
+      .select({
+        sponsorId: coinInventory.sponsorId,
+        companyName: sponsorProfiles.companyName,
+        coinValue: coinInventory.coinValue,
+        quantity: coinInventory.quantity,
+      })
+      .from(coinInventory)
+      .innerJoin(sponsorProfiles, eq(sponsorProfiles.id, coinInventory.sponsorId))
+      .where(and(eq(coinInventory.challengeId, challengeId), gt(coinInventory.quantity, 0)))
+      .orderBy(sponsorProfiles.companyName, coinInventory.coinValue);
+
+    return { challenge, contributors: denseRank(rows, (row) => row.donated), reserves };
+  }
+
+  async isChallengeMember(challengeId: string, playerId: string): Promise<boolean> {
+    const [member] = await db
+      .select({ id: challengeMembers.id })
+      .from(challengeMembers)
+      .where(and(eq(challengeMembers.challengeId, challengeId), eq(challengeMembers.playerId, playerId)));
+    return !!member;
+  }
+
+  // Challenges the player is in that haven't reached their deadline, whose
+  // reserved stock their sessions can draw from
+  async getRunningChallengeIds(playerId: string): Promise<string[]> {
+    const rows = await db
+      .select({ id: challenges.id })
+      .from(challenges)
+      .innerJoin(challengeMembers, eq(challengeMembers.challengeId, challenges.id))
+      .where(
+        and(
+          eq(challengeMembers.playerId, playerId),
+          gt(challenges.endsAt, new Date()),
+          isNull(challenges.reservationsReleasedAt)
+        )
+      );
+    return rows.map((row) => row.id);
+  }
+
+  // Move coins from a sponsor's general stock into a reserve that only the
+  // challenge's members can draw. The money stays in the sponsor's inventory
+  // account, so there's nothing to post to the ledger.
+  async reserveInventoryForChallenge(
+    sponsorId: string,
+    challengeId: string,
+    coinValue: number,
+    quantity: number,
+    actor: AuditActor
+  ): Promise<ReserveForChallengeResult> {
+    return db.transaction(async (tx) => {
+      const [challenge] = await tx.select().from(challenges).where(eq(challenges.id, challengeId)).for("update");
+      if (!challenge) return { status: "challenge_not_found" as const };
+      if (challenge.endsAt <= new Date() || challenge.reservationsReleasedAt) {
+        return { status: "challenge_ended" as const };
+      }
+
+      const reason = `Reserved for challenge "${challenge.name}"`;
+      const removed = await this.removeFromInventoryWith(tx, actor, sponsorId, coinValue, quantity, { reason });
+      if (!removed) return { status: "insufficient_inventory" as const };
+
+      const inventory = await this.addToInventoryWith(tx, actor, sponsorId, coinValue, quantity, { reason }, { challengeId });
+      return { status: "reserved" as const, inventory };
+    });
+  }
+
+  async getEndedChallengesWithReserves(now = new Date()): Promise<Challenge[]> {
+    return db
+      .select()
+      .from(challenges)
+      .where(and(lte(challenges.endsAt, now), isNull(challenges.reservationsReleasedAt)));
+  }
+
+  // Once a challenge's deadline passes, return what's left of its reserves to
+  // each sponsor's general stock. Coins already placed from a reserve go back
+  // to general stock when they expire. Returns the number of coins released.
+  async releaseChallengeReserves(challengeId: string, actor: AuditActor): Promise<number> {
+    return db.transaction(async (tx) => {
+      const [challenge] = await tx
+        .select()
+        .from(challenges)
+        .where(and(eq(challenges.id, challengeId), isNull(challenges.reservationsReleasedAt)))
+        .for("update");
+      if (!challenge) return 0;
+
+      const reason = `Challenge "${challenge.name}" ended`;
+      const reserves = await tx.delete(coinInventory).where(eq(coinInventory.challengeId, challengeId)).returning();
+      let released = 0;
+      for (const reserve of reserves) {
+        await this.recordAudit(tx, actor, {
+          action: "inventory.remove",
+          entityType: "inventory",
+          entityId: reserve.id,
+          before: reserve,
+          reason,
+          sponsorId: reserve.sponsorId,
+        });
+        if (reserve.quantity > 0) {
+          await this.addToInventoryWith(tx, actor, reserve.sponsorId, reserve.coinValue, reserve.quantity, { reason });
+          released += reserve.quantity;
+        }
+      }
+
+      const [after] = await tx
+        .update(challenges)
+        .set({ reservationsReleasedAt: new Date() })
+        .where(eq(challenges.id, challengeId))
+        .returning();
+      await this.recordAudit(tx, actor, {
+        action: "challenge.release_reserves",
+        entityType: "challenge",
+        entityId: challengeId,
+        before: challenge,
+        after,
+      });
+      return released;
+    });
+  }
+
+  // Placement Zones
+  async createPlacementZone(sponsorId: string, input: CreatePlacementZoneInput, actor: AuditActor): Promise<PlacementZone> {
+    const shape =
+      input.shape === "circle"
+        ? {
+            centerLatitude: input.centerLatitude,
+            centerLongitude: input.centerLongitude,
+            radiusMeters: input.radiusMeters,
+            ...circleBounds({ latitude: input.centerLatitude, longitude: input.centerLongitude }, input.radiusMeters),
+          }
+        : {
+            points: input.points,
+            ...polygonBounds(input.points.map(([latitude, longitude]) => ({ latitude, longitude }))),
+          };
+
+    return db.transaction(async (tx) => {
+      const [zone] = await tx
+        .insert(placementZones)
+        .values({ sponsorId, name: input.name, shape: input.shape, ...shape })
+        .returning();
+      await this.recordAudit(tx, actor, {
+        action: "zone.create",
+        entityType: "zone",
+        entityId: zone.id,
+        after: zone,
+        sponsorId,
+      });
+      return zone;
+    });
+  }
+
+  async getPlacementZones(sponsorId: string): Promise<PlacementZoneSummary[]> {
+    const zones = await db
+      .select()
+      .from(placementZones)
+      .where(and(eq(placementZones.sponsorId, sponsorId), isNull(placementZones.archivedAt)))
+      .orderBy(desc(placementZones.createdAt));
+    if (zones.length === 0) return [];
+
+    const zoneIds = zones.map((zone) => zone.id);
+    const stock = await db
+      .select({ zoneId: coinInventory.zoneId, coinValue: coinInventory.coinValue, quantity: coinInventory.quantity })
+      .from(coinInventory)
+      .where(and(inArray(coinInventory.zoneId, zoneIds), gt(coinInventory.quantity, 0)))
+      .orderBy(coinInventory.coinValue);
+    const counts = await db
+      .select({
+        zoneId: generatedCoins.zoneId,
+        placed: sql<number>`COUNT(*)::int`,
+        collected: sql<number>`COUNT(*) FILTER (WHERE ${generatedCoins.status} = 'collected')::int`,
+      })
+      .from(generatedCoins)
+      .where(inArray(generatedCoins.zoneId, zoneIds))
+      .groupBy(generatedCoins.zoneId);
+
+    return zones.map((zone) => {
+      const count = counts.find((row) => row.zoneId === zone.id);
+      return {
+        ...zone,
+        stock: stock
+          .filter((row) => row.zoneId === zone.id)
+          .map(({ coinValue, quantity }) => ({ coinValue, quantity })),
+        coinsPlaced: count?.placed ?? 0,
+        coinsCollected: count?.collected ?? 0,
+      };
+    });
+  }
+
+  // Active zones with stock whose bounding box overlaps the given one. The
+  // caller checks the actual shapes; this only narrows the candidates.
+  async getStockedZonesNear(bounds: BoundingBox): Promise<PlacementZone[]> {
+    return db
+      .select()
+      .from(placementZones)
+      .where(
+        and(
+          isNull(placementZones.archivedAt),
+          lte(placementZones.minLatitude, bounds.maxLatitude),
+          gte(placementZones.maxLatitude, bounds.minLatitude),
+          lte(placementZones.minLongitude, bounds.maxLongitude),
+          gte(placementZones.maxLongitude, bounds.minLongitude),
+          sql`EXISTS (SELECT 1 FROM ${coinInventory} WHERE ${coinInventory.zoneId} = ${placementZones.id} AND ${coinInventory.quantity} > 0)`
+        )
+      );
+  }
+
+  // Attach coins from the sponsor's general stock to a zone, or release them
+  // back. Like challenge reserves, the money stays in the sponsor's inventory
+  // account, so there's nothing to post to the ledger.
+  async moveZoneInventory(
+    sponsorId: string,
+    zoneId: string,
+    coinValue: number,
+    quantity: number,
+    direction: "assign" | "release",
+    actor: AuditActor
+  ): Promise<MoveZoneInventoryResult> {
+    return db.transaction(async (tx) => {
+      const [zone] = await tx
+        .select()
+        .from(placementZones)
+        .where(and(eq(placementZones.id, zoneId), eq(placementZones.sponsorId, sponsorId)))
+        .for("update");
+      if (!zone) return { status: "zone_not_found" as const };
+      if (zone.archivedAt) return { status: "zone_archived" as const };
+
+      const [from, to]: InventoryPool[] = direction === "assign" ? [{}, { zoneId }] : [{ zoneId }, {}];
+      const reason = direction === "assign" ? `Assigned to zone "${zone.name}"` : `Released from zone "${zone.name}"`;
+      const removed = await this.removeFromInventoryWith(tx, actor, sponsorId, coinValue, quantity, { reason }, from);
+      if (!removed) return { status: "insufficient_inventory" as const };
+
+      const inventory = await this.addToInventoryWith(tx, actor, sponsorId, coinValue, quantity, { reason }, to);
+      return { status: "moved" as const, inventory: direction === "assign" ? inventory : removed };
+    });
+  }
+
+  // Archive a zone and return its remaining stock to general stock. Coins
+  // already placed from it go back to general stock when they expire.
+  async archivePlacementZone(sponsorId: string, zoneId: string, actor: AuditActor): Promise<ArchivePlacementZoneResult> {
+    return db.transaction(async (tx) => {
+      const [zone] = await tx
+        .select()
+        .from(placementZones)
+        .where(and(eq(placementZones.id, zoneId), eq(placementZones.sponsorId, sponsorId)))
+        .for("update");
+      if (!zone) return { status: "not_found" as const };
+      if (zone.archivedAt) return { status: "already_archived" as const };
+
+      const reason = `Zone "${zone.name}" archived`;
+      const stock = await tx.delete(coinInventory).where(eq(coinInventory.zoneId, zoneId)).returning();
+      let released = 0;
+      for (const row of stock) {
+        await this.recordAudit(tx, actor, {
+          action: "inventory.remove",
+          entityType: "inventory",
+          entityId: row.id,
+          before: row,
+          reason,
+          sponsorId,
+        });
+        if (row.quantity > 0) {
+          await this.addToInventoryWith(tx, actor, sponsorId, row.coinValue, row.quantity, { reason });
+          released += row.quantity;
+        }
+      }
+
+      const [after] = await tx
+        .update(placementZones)
+        .set({ archivedAt: new Date() })
+        .where(eq(placementZones.id, zoneId))
+        .returning();
+      await this.recordAudit(tx, actor, {
+        action: "zone.archive",
+        entityType: "zone",
+        entityId: zoneId,
+        before: zone,
+        after,
+        sponsorId,
+      });
+      return { status: "archived" as const, released };
+    });
+  }
+
+  // Active zones by id, for resolving campaigns' target areas
+  async getPlacementZonesByIds(zoneIds: string[]): Promise<PlacementZone[]> {
+    if (zoneIds.length === 0) return [];
+    return db
+      .select()
+      .from(placementZones)
+      .where(and(inArray(placementZones.id, zoneIds), isNull(placementZones.archivedAt)));
+  }
+
+  // Campaigns
+  async createCampaign(sponsorId: string, input: CreateCampaignInput, actor: AuditActor): Promise<CreateCampaignResult> {
+    return db.transaction(async (tx) => {
+      if (input.targetZoneIds.length > 0) {
+        const zones = await tx
+          .select({ id: placementZones.id })
+          .from(placementZones)
+          .where(
+            and(
+              inArray(placementZones.id, input.targetZoneIds),
+              eq(placementZones.sponsorId, sponsorId),
+              isNull(placementZones.archivedAt)
+            )
+          );
+        if (zones.length !== new Set(input.targetZoneIds).size) return { status: "zone_not_found" as const };
+      }
+
+      const [campaign] = await tx
+        .insert(campaigns)
+        .values({ sponsorId, ...input })
+        .returning();
+      await this.recordAudit(tx, actor, {
+        action: "campaign.create",
+        entityType: "campaign",
+        entityId: campaign.id,
+        after: campaign,
+        sponsorId,
+      });
+      return { status: "created" as const, campaign };
+    });
+  }
+
+  async getCampaigns(sponsorId: string): Promise<CampaignSummary[]> {
+    const rows = await db
+      .select()
+      .from(campaigns)
+      .where(and(eq(campaigns.sponsorId, sponsorId), isNull(campaigns.archivedAt)))
+      .orderBy(desc(campaigns.startsAt));
+    if (rows.length === 0) return [];
+
+    const campaignIds = rows.map((campaign) => campaign.id);
+    const stock = await db
+      .select({ campaignId: coinInventory.campaignId, coinValue: coinInventory.coinValue, quantity: coinInventory.quantity })
+      .from(coinInventory)
+      .where(and(inArray(coinInventory.campaignId, campaignIds), gt(coinInventory.quantity, 0)))
+      .orderBy(coinInventory.coinValue);
+    const counts = await db
+      .select({
+        campaignId: generatedCoins.campaignId,
+        placed: sql<number>`COUNT(*)::int`,
+        collected: sql<number>`COUNT(*) FILTER (WHERE ${generatedCoins.status} = 'collected')::int`,
+        donated: sql<number>`COALESCE(SUM(${generatedCoins.coinValue}) FILTER (WHERE ${generatedCoins.status} = 'collected'), 0)::int`,
+      })
+      .from(generatedCoins)
+      .where(inArray(generatedCoins.campaignId, campaignIds))
+      .groupBy(generatedCoins.campaignId);
+    const spent = await campaignSpendToday(db, campaignIds);
+
+    return rows.map((campaign) => {
+      const count = counts.find((row) => row.campaignId === campaign.id);
+      return {
+        ...campaign,
+        stock: stock
+          .filter((row) => row.campaignId === campaign.id)
+          .map(({ coinValue, quantity }) => ({ coinValue, quantity })),
+        coinsPlaced: count?.placed ?? 0,
+        coinsCollected: count?.collected ?? 0,
+        donated: count?.donated ?? 0,
+        spentToday: spent.get(campaign.id) ?? 0,
+      };
+    });
+  }
+
+  // Campaigns within their dates that have stock. The caller checks hours
+  // and target areas; the daily cap is enforced when coins are reserved.
+  async getStockedCampaignsRunning(now: Date = new Date()): Promise<Campaign[]> {
+    return db
+      .select()
+      .from(campaigns)
+      .where(
+        and(
+          isNull(campaigns.archivedAt),
+          lte(campaigns.startsAt, now),
+          gt(campaigns.endsAt, now),
+          sql`EXISTS (SELECT 1 FROM ${coinInventory} WHERE ${coinInventory.campaignId} = ${campaigns.id} AND ${coinInventory.quantity} > 0)`
+        )
+      );
+  }
+
+  async getEndedCampaigns(now: Date = new Date()): Promise<Campaign[]> {
+    return db
+      .select()
+      .from(campaigns)
+      .where(and(isNull(campaigns.archivedAt), lte(campaigns.endsAt, now)));
+  }
+
+  // Allocate coins from the sponsor's general stock to a campaign, or release
+  // them back. The money stays in the sponsor's inventory account, so there's
+  // nothing to post to the ledger.
+  async moveCampaignInventory(
+    sponsorId: string,
+    campaignId: string,
+    coinValue: number,
+    quantity: number,
+    direction: "assign" | "release",
+    actor: AuditActor
+  ): Promise<MoveCampaignInventoryResult> {
+    return db.transaction(async (tx) => {
+      const [campaign] = await tx
+        .select()
+        .from(campaigns)
+        .where(and(eq(campaigns.id, campaignId), eq(campaigns.sponsorId, sponsorId)))
+        .for("update");
+      if (!campaign) return { status: "campaign_not_found" as const };
+      if (campaign.archivedAt) return { status: "campaign_archived" as const };
+
+      const [from, to]: InventoryPool[] = direction === "assign" ? [{}, { campaignId }] : [{ campaignId }, {}];
+      const reason =
+        direction === "assign" ? `Allocated to campaign "${campaign.name}"` : `Released from campaign "${campaign.name}"`;
+      const removed = await this.removeFromInventoryWith(tx, actor, sponsorId, coinValue, quantity, { reason }, from);
+      if (!removed) return { status: "insufficient_inventory" as const };
+
+      const inventory = await this.addToInventoryWith(tx, actor, sponsorId, coinValue, quantity, { reason }, to);
+      return { status: "moved" as const, inventory: direction === "assign" ? inventory : removed };
+    });
+  }
+
+  // Archive a campaign and return its remaining allocation to general stock.
+  // Coins already placed from it go back to general stock when they expire.
+  async archiveCampaign(sponsorId: string, campaignId: string, actor: AuditActor): Promise<ArchiveCampaignResult> {
+    return db.transaction(async (tx) => {
+      const [campaign] = await tx
+        .select()
+        .from(campaigns)
+        .where(and(eq(campaigns.id, campaignId), eq(campaigns.sponsorId, sponsorId)))
+        .for("update");
+      if (!campaign) return { status: "not_found" as const };
+      if (campaign.archivedAt) return { status: "already_archived" as const };
+
+      const reason = `Campaign "${campaign.name}" archived`;
+      const stock = await tx.delete(coinInventory).where(eq(coinInventory.campaignId, campaignId)).returning();
+      let released = 0;
+      for (const row of stock) {
+        await this.recordAudit(tx, actor, {
+          action: "inventory.remove",
+          entityType: "inventory",
+          entityId: row.id,
+          before: row,
+          reason,
+          sponsorId,
+        });
+        if (row.quantity > 0) {
+          await this.addToInventoryWith(tx, actor, sponsorId, row.coinValue, row.quantity, { reason });
+          released += row.quantity;
+        }
+      }
+
+      const [after] = await tx
+        .update(campaigns)
+        .set({ archivedAt: new Date() })
+        .where(eq(campaigns.id, campaignId))
+        .returning();
+      await this.recordAudit(tx, actor, {
+        action: "campaign.archive",
+        entityType: "campaign",
+        entityId: campaignId,
+        before: campaign,
+        after,
+        sponsorId,
+      });
+      return { status: "archived" as const, released };
+    });
+  }
+
+  async getCampaignsByIds(ids: string[]): Promise<Campaign[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(campaigns).where(inArray(campaigns.id, ids));
+  }
+
+  async updateCampaignBranding(
+    sponsorId: string,
+    campaignId: string,
+    update: BrandingUpdate,
+    actor: AuditActor
+  ): Promise<UpdateCampaignBrandingResult> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(campaigns)
+        .where(and(eq(campaigns.id, campaignId), eq(campaigns.sponsorId, sponsorId)))
+        .for("update");
+      if (!before) return { status: "not_found" as const };
+      if (before.archivedAt) return { status: "campaign_archived" as const };
+
+      const [campaign] = await tx.update(campaigns).set(update).where(eq(campaigns.id, campaignId)).returning();
+      await this.recordAudit(tx, actor, {
+        action: "campaign.branding",
+        entityType: "campaign",
+        entityId: campaignId,
+        before: { logoUrl: before.logoUrl, brandMessage: before.brandMessage, brandColor: before.brandColor },
+        after: { logoUrl: campaign.logoUrl, brandMessage: campaign.brandMessage, brandColor: campaign.brandColor },
+        sponsorId,
+      });
+      return { status: "updated" as const, campaign, previousLogoUrl: before.logoUrl };
+    });
+  }
+
+  // Game Configs
+  async getGameConfigs(): Promise<GameConfigRow[]> {
+    return db.select().from(gameConfigs).orderBy(gameConfigs.scope, gameConfigs.scopeKey);
+  }
+
+  // Create or replace the overrides for a scope. Every column is written, so
+  // a null clears an override and the value is inherited again.
+  async upsertGameConfig(
+    scope: GameConfigScope,
+    scopeKey: string,
+    overrides: GameConfigOverrides,
+    actor: AuditActor,
+    reason: string
+  ): Promise<GameConfigRow> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(gameConfigs)
+        .where(and(eq(gameConfigs.scope, scope), eq(gameConfigs.scopeKey, scopeKey)))
+        .for("update");
+
+      const [after] = await tx
+        .insert(gameConfigs)
+        .values({ scope, scopeKey, ...overrides })
+        .onConflictDoUpdate({
+          target: [gameConfigs.scope, gameConfigs.scopeKey],
+          set: { ...overrides, updatedAt: new Date() },
+        })
+        .returning();
+
+      await this.recordAudit(tx, actor, {
+        action: before ? "game_config.update" : "game_config.create",
+        entityType: "game_config",
+        entityId: after.id,
+        before: before ?? null,
+        after,
+        reason,
+      });
+      return after;
+    });
+  }
+
+  async deleteGameConfig(id: string, actor: AuditActor, reason: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(gameConfigs).where(eq(gameConfigs.id, id)).returning();
+      if (!deleted) return false;
+
+      await this.recordAudit(tx, actor, {
+        action: "game_config.delete",
+        entityType: "game_config",
+        entityId: id,
+        before: deleted,
+        reason,
+      });
+      return true;
+    });
+  }
+
+  // Achievements
+  async getAchievementCatalogue(): Promise<Achievement[]> {
+    return db.select().from(achievements).orderBy(achievements.sortOrder, achievements.id);
+  }
+
+  async addMissingAchievements(defaults: InsertAchievement[], actor: AuditActor): Promise<number> {
+    return db.transaction(async (tx) => {
+      const added = await tx.insert(achievements).values(defaults).onConflictDoNothing().returning();
+      await this.recordAudit(
+        tx,
+        actor,
+        added.map((achievement) => ({
+          action: "achievement.add",
+          entityType: "achievement",
+          entityId: achievement.id,
+          after: achievement,
+        }))
+      );
+      return added.length;
+    });
+  }
+
+  async getPlayerAchievements(playerId: string): Promise<PlayerAchievement[]> {
+    return db
+      .select()
+      .from(playerAchievements)
+      .where(eq(playerAchievements.playerId, playerId))
+      .orderBy(playerAchievements.earnedAt);
+  }
+
+  async getAchievementProgress(playerId: string): Promise<AchievementProgress | undefined> {
+    const profile = await this.getPlayerProfileById(playerId);
+    if (!profile) return undefined;
+
+    const [sessions] = await db
+      .select({
+        completed: sql<number>`COUNT(*) FILTER (WHERE ${playerSessions.status} = 'completed')::int`,
+        longestWalk: sql<number>`COALESCE(MAX(${playerSessions.distanceMeters}), 0)::int`,
+      })
+      .from(playerSessions)
+      .where(eq(playerSessions.playerId, playerId));
+
+    // Longest run of consecutive local days with a collection: consecutive
+    // days minus their row number share a value, so each run is one group
+    const localDay = sql`((${collectionHistory.collectedAt} AT TIME ZONE 'UTC') AT TIME ZONE ${profile.timezone})::date`;
+    const streak = await db.execute<{ longest: number }>(sql`
+      SELECT COALESCE(MAX(run), 0)::int AS longest FROM (
+        SELECT COUNT(*) AS run FROM (
+          SELECT day - (ROW_NUMBER() OVER (ORDER BY day))::int AS grp
+          FROM (SELECT DISTINCT ${localDay} AS day FROM ${collectionHistory}
+                WHERE ${collectionHistory.playerId} = ${playerId}) days
+        ) numbered
+        GROUP BY grp
+      ) runs
+    `);
+
+    return {
+      coins_collected: profile.totalCoinsCollected,
+      amount_raised: profile.totalDonated,
+      sessions_completed: sessions?.completed ?? 0,
+      session_distance: sessions?.longestWalk ?? 0,
+      // The stored streak counts days covered by freezes; history alone
+      // covers collections from before streaks were stored
+      streak_days: Math.max(profile.longestStreak, streak.rows[0]?.longest ?? 0),
+    };
+  }
+
+  // Award achievements the player doesn't have yet, returning the new ones
+  async awardAchievements(
+    playerId: string,
+    achievementIds: string[],
+    sessionId: string | null,
+    actor: AuditActor
+  ): Promise<Achievement[]> {
+    if (achievementIds.length === 0) return [];
+
+    return db.transaction(async (tx) => {
+      const awarded = await tx
+        .insert(playerAchievements)
+        .values(achievementIds.map((achievementId) => ({ playerId, achievementId, sessionId })))
+        .onConflictDoNothing()
+        .returning();
+      if (awarded.length === 0) return [];
+
+      await this.recordAudit(
+        tx,
+        actor,
+        awarded.map((award) => ({
+          action: "achievement.award",
+          entityType: "player_achievement",
+          entityId: award.id,
+          after: award,
+          playerId,
+          sessionId,
+        }))
+      );
+
+      return tx
+        .select()
+        .from(achievements)
+        .where(inArray(achievements.id, awarded.map((row) => row.achievementId)))
+        .orderBy(achievements.sortOrder);
+    });
+  }
+
+  async getAllPlayerIds(): Promise<string[]> {
+    const rows = await db.select({ id: playerProfiles.id }).from(playerProfiles);
+    return rows.map((row) => row.id);
   }
 
   async getPlayerHistory(playerId: string): Promise<CollectionHistory[]> {
@@ -412,6 +4417,51 @@ export class DatabaseStorage implements IStorage {
       totalDonated: result[0]?.totalDonated || 0,
     };
   }
+
+  // Coins and pence collected per local day, week (from Monday) or month in
+  // the player's timezone, with empty buckets included so charts have no gaps
+  async getPlayerHistorySeries(
+    playerId: string,
+    timezone: string,
+    range: HistoryRange,
+    bucket: HistoryBucket
+  ): Promise<HistoryPoint[]> {
+    const localDate = (column: SQL) => sql`((${column} AT TIME ZONE 'UTC') AT TIME ZONE ${timezone})::date`;
+    const today = sql`(NOW() AT TIME ZONE ${timezone})::date`;
+    const start = {
+      "7d": sql`${today} - 6`,
+      "30d": sql`${today} - 29`,
+      "12m": sql`date_trunc('month', ${today}) - interval '11 months'`,
+      all: sql`COALESCE(
+        (SELECT MIN(${localDate(sql`${collectionHistory.collectedAt}`)}) FROM ${collectionHistory}
+         WHERE ${collectionHistory.playerId} = ${playerId}),
+        ${today}
+      )`,
+    }[range];
+    const unit = sql.raw(`'${bucket}'`);
+    const step = sql.raw(`'1 ${bucket}'::interval`);
+
+    const result = await db.execute<{ date: string; coins: number; donated: number }>(sql`
+      WITH series AS (
+        SELECT generate_series(date_trunc(${unit}, ${start}), date_trunc(${unit}, ${today}), ${step})::date AS bucket
+      ),
+      totals AS (
+        SELECT date_trunc(${unit}, ${localDate(sql`${collectionHistory.collectedAt}`)})::date AS bucket,
+               COUNT(*)::int AS coins,
+               SUM(${collectionHistory.coinValue})::int AS donated
+        FROM ${collectionHistory}
+        WHERE ${collectionHistory.playerId} = ${playerId}
+        GROUP BY 1
+      )
+      SELECT to_char(series.bucket, 'YYYY-MM-DD') AS date,
+             COALESCE(totals.coins, 0) AS coins,
+             COALESCE(totals.donated, 0) AS donated
+      FROM series
+      LEFT JOIN totals ON totals.bucket = series.bucket
+      ORDER BY series.bucket
+    `);
+    return result.rows;
+  }
 }
 
 export const storage = new DatabaseStorage();
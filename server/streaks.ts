@@ -0,0 +1,83 @@
+import type { PlayerProfile } from "@shared/schema";
+
+// A freeze is earned every this many streak days...
+const FREEZE_EARNED_EVERY_DAYS = 7;
+// ...up to this many held at once
+export const MAX_STREAK_FREEZES = 2;
+
+export type StreakState = Pick<PlayerProfile, "currentStreak" | "longestStreak" | "lastStreakDate" | "streakFreezes">;
+
+export interface StreakStatus {
+  current: number;
+  longest: number;
+  freezes: number;
+  collectedToday: boolean;
+  // The streak survives but needs a heart today to keep going
+  atRisk: boolean;
+  // Freezes a heart today would use to cover the days already missed
+  freezesNeeded: number;
+}
+
+// The calendar date (YYYY-MM-DD) in the player's timezone
+export function localDate(at: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" }).format(at);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+// The streak after a collection on the given local day. Missed days are
+// covered by freezes when there are enough to cover all of them; covered
+// days keep the streak alive but don't add to it.
+export function advanceStreak(state: StreakState, today: string): StreakState {
+  const gap = state.lastStreakDate ? daysBetween(state.lastStreakDate, today) : null;
+  // Already counted today (or the player's timezone moved them back a day)
+  if (gap !== null && gap <= 0) return state;
+
+  const missed = gap === null ? 0 : gap - 1;
+  let freezes = state.streakFreezes;
+  let current: number;
+  if (gap === null || state.currentStreak === 0) {
+    current = 1;
+  } else if (missed === 0) {
+    current = state.currentStreak + 1;
+  } else if (missed <= freezes) {
+    freezes -= missed;
+    current = state.currentStreak + 1;
+  } else {
+    current = 1;
+  }
+
+  if (current % FREEZE_EARNED_EVERY_DAYS === 0 && freezes < MAX_STREAK_FREEZES) {
+    freezes += 1;
+  }
+
+  return {
+    currentStreak: current,
+    longestStreak: Math.max(state.longestStreak, current),
+    lastStreakDate: today,
+    streakFreezes: freezes,
+  };
+}
+
+// How the stored streak looks today. The stored state only changes when the
+// player collects, so a streak broken by missed days still shows its old
+// length until then.
+export function streakStatus(state: StreakState, today: string): StreakStatus {
+  const base = { longest: state.longestStreak, freezes: state.streakFreezes };
+  if (!state.lastStreakDate || state.currentStreak === 0) {
+    return { ...base, current: 0, collectedToday: false, atRisk: false, freezesNeeded: 0 };
+  }
+
+  const gap = daysBetween(state.lastStreakDate, today);
+  if (gap <= 0) {
+    return { ...base, current: state.currentStreak, collectedToday: true, atRisk: false, freezesNeeded: 0 };
+  }
+
+  const missed = gap - 1;
+  if (missed > state.streakFreezes) {
+    return { ...base, current: 0, collectedToday: false, atRisk: false, freezesNeeded: 0 };
+  }
+  return { ...base, current: state.currentStreak, collectedToday: false, atRisk: true, freezesNeeded: missed };
+}
@@ -1,4 +1,6 @@
 import Stripe from 'stripe';
+import { sql } from 'drizzle-orm';
+import { db } from './db';
 
 let connectionSettings: any;
 
@@ -60,18 +62,52 @@ export async function getStripeSecretKey() {
   return secretKey;
 }
 
+// Resolve the webhook signing secret: STRIPE_WEBHOOK_SECRET first, then the
+// Replit connector settings, then the managed webhook created by stripe-replit-sync.
 export async function getStripeWebhookSecret(): Promise<string | null> {
+  if (process.env.STRIPE_WEBHOOK_SECRET) {
+    return process.env.STRIPE_WEBHOOK_SECRET;
+  }
+
   try {
-    // Webhook secret might be available via the connector settings
+    if (!connectionSettings) {
+      await getCredentials();
+    }
     if (connectionSettings?.settings?.webhook_secret) {
       return connectionSettings.settings.webhook_secret;
     }
-    return null;
+
+    const result = await db.execute<{ secret: string }>(
+      sql`SELECT secret FROM "stripe"."_managed_webhooks" LIMIT 1`
+    );
+    return result.rows[0]?.secret ?? null;
   } catch {
     return null;
   }
 }
 
+// Unsigned webhooks are only ever accepted when explicitly allowed in development
+export function allowUnsignedWebhooks(): boolean {
+  return (
+    process.env.NODE_ENV === 'development' &&
+    process.env.STRIPE_WEBHOOK_ALLOW_UNSIGNED === 'true'
+  );
+}
+
+// Sandbox payments credit inventory directly without charging anyone.
+// Only enabled when PAYMENTS_SANDBOX=true is set explicitly.
+export function isPaymentsSandbox(): boolean {
+  return process.env.PAYMENTS_SANDBOX === 'true';
+}
+
+// Stripe rejected the request itself (a bad destination, not enough
+// balance, an already refunded charge), so nothing was moved and retrying
+// with the same idempotency key would only replay the error. Anything else
+// (network, rate limits, Stripe outages) leaves the outcome unknown.
+export function isPermanentStripeError(error: any): boolean {
+  return error?.type === 'StripeInvalidRequestError' || error?.type === 'StripePermissionError';
+}
+
 let stripeSync: any = null;
 
 export async function getStripeSync() {
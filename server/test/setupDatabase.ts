@@ -0,0 +1,29 @@
+import { execFileSync } from "child_process";
+import pg from "pg";
+
+// Give the test database empty tables matching shared/schema.ts before any
+// test file runs. Never point TEST_DATABASE_URL at a database you care about.
+export default async function setup(): Promise<void> {
+  const url = process.env.TEST_DATABASE_URL;
+  if (!url) {
+    // The storage tests check race safety, so CI must never quietly skip them
+    if (process.env.CI) {
+      throw new Error("TEST_DATABASE_URL must be set in CI so the storage tests run");
+    }
+    console.warn("TEST_DATABASE_URL isn't set, skipping the storage tests");
+    return;
+  }
+
+  const client = new pg.Client({ connectionString: url });
+  await client.connect();
+  try {
+    await client.query("DROP SCHEMA public CASCADE; CREATE SCHEMA public");
+  } finally {
+    await client.end();
+  }
+
+  execFileSync("npx", ["--no-install", "drizzle-kit", "push", "--force"], {
+    env: { ...process.env, DATABASE_URL: url },
+    stdio: "inherit",
+  });
+}
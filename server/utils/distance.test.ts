@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { calculateDistance, destinationPoint } from "./distance";
+
+// One degree of arc along a great circle, on the sphere the helpers use
+const METERS_PER_DEGREE = (6371e3 * Math.PI) / 180;
+
+describe("destinationPoint", () => {
+  it("moves due north and due east along the equator", () => {
+    const north = destinationPoint(0, 0, 0, METERS_PER_DEGREE);
+    expect(north.latitude).toBeCloseTo(1, 9);
+    expect(north.longitude).toBeCloseTo(0, 9);
+
+    const east = destinationPoint(0, 0, 90, 90 * METERS_PER_DEGREE);
+    expect(east.latitude).toBeCloseTo(0, 9);
+    expect(east.longitude).toBeCloseTo(90, 9);
+  });
+
+  it("matches a published worked example", () => {
+    // 53°19′14″N 001°43′47″W, bearing 096°01′18″ for 124.8km reaches 53°11′18″N 000°08′00″E
+    const point = destinationPoint(53 + 19 / 60 + 14 / 3600, -(1 + 43 / 60 + 47 / 3600), 96 + 1 / 60 + 18 / 3600, 124800);
+    expect(point.latitude).toBeCloseTo(53 + 11 / 60 + 18 / 3600, 3);
+    expect(point.longitude).toBeCloseTo(8 / 60, 3);
+  });
+
+  it("wraps longitude across the antimeridian", () => {
+    const point = destinationPoint(0, 179.5, 90, METERS_PER_DEGREE);
+    expect(point.latitude).toBeCloseTo(0, 9);
+    expect(point.longitude).toBeCloseTo(-179.5, 9);
+  });
+
+  it("ends the given distance from the start", () => {
+    const point = destinationPoint(51.5, -0.12, 233, 1750);
+    expect(calculateDistance(51.5, -0.12, point.latitude, point.longitude)).toBeCloseTo(1750, 6);
+  });
+});
@@ -1,3 +1,5 @@
+const EARTH_RADIUS_METERS = 6371e3;
+
 // Calculate distance between two points using Haversine formula
 export function calculateDistance(
   lat1: number,
@@ -5,7 +7,7 @@ export function calculateDistance(
   lat2: number,
   lon2: number
 ): number {
-  const R = 6371e3; // Earth's radius in meters
+  const R = EARTH_RADIUS_METERS;
   const φ1 = (lat1 * Math.PI) / 180;
   const φ2 = (lat2 * Math.PI) / 180;
   const Δφ = ((lat2 - lat1) * Math.PI) / 180;
@@ -19,19 +21,40 @@ export function calculateDistance(
   return R * c; // Distance in meters
 }
 
-// Generate a random point within a radius (in km) from a center point
+// The point reached by travelling a distance (in metres) along a great
+// circle from a start point on an initial bearing (degrees clockwise from north)
+export function destinationPoint(
+  lat: number,
+  lon: number,
+  bearingDegrees: number,
+  distanceMeters: number
+): { latitude: number; longitude: number } {
+  const δ = distanceMeters / EARTH_RADIUS_METERS; // angular distance
+  const θ = (bearingDegrees * Math.PI) / 180;
+  const φ1 = (lat * Math.PI) / 180;
+  const λ1 = (lon * Math.PI) / 180;
+
+  const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
+  const λ2 = λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
+
+  return {
+    latitude: (φ2 * 180) / Math.PI,
+    // Normalise to -180..180 in case the path crossed the antimeridian
+    longitude: ((((λ2 * 180) / Math.PI + 540) % 360) - 180),
+  };
+}
+
+// Generate a random point within a radius (in km) from a center point. The
+// random source can be swapped for a seeded one to make placement repeatable.
 export function generateRandomPointInRadius(
   centerLat: number,
   centerLon: number,
   minRadiusKm: number,
-  maxRadiusKm: number
+  maxRadiusKm: number,
+  random: () => number = Math.random
 ): { latitude: number; longitude: number } {
-  const radiusKm = minRadiusKm + Math.random() * (maxRadiusKm - minRadiusKm);
-  const radiusDeg = radiusKm / 111; // Approximate conversion (1 degree ≈ 111 km)
-  const angle = Math.random() * 2 * Math.PI;
-
-  const latitude = centerLat + radiusDeg * Math.cos(angle);
-  const longitude = centerLon + (radiusDeg * Math.sin(angle)) / Math.cos((centerLat * Math.PI) / 180);
+  const radiusKm = minRadiusKm + random() * (maxRadiusKm - minRadiusKm);
+  const bearing = random() * 360;
 
-  return { latitude, longitude };
+  return destinationPoint(centerLat, centerLon, bearing, radiusKm * 1000);
 }
@@ -0,0 +1,125 @@
+import { calculateDistance } from "./distance";
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+// Metres per degree of longitude at a latitude
+function metersPerDegreeLongitude(latitude: number): number {
+  return METERS_PER_DEGREE_LATITUDE * Math.cos((latitude * Math.PI) / 180);
+}
+
+// Flat x/y offsets in metres from an origin. Zones and reach circles span a
+// few kilometres at most, where the flat approximation is well within GPS error.
+function toLocalMeters(origin: LatLng, point: LatLng): { x: number; y: number } {
+  return {
+    x: (point.longitude - origin.longitude) * metersPerDegreeLongitude(origin.latitude),
+    y: (point.latitude - origin.latitude) * METERS_PER_DEGREE_LATITUDE,
+  };
+}
+
+export function circleBounds(center: LatLng, radiusMeters: number): BoundingBox {
+  const latDelta = radiusMeters / METERS_PER_DEGREE_LATITUDE;
+  const lngDelta = radiusMeters / metersPerDegreeLongitude(center.latitude);
+  return {
+    minLatitude: center.latitude - latDelta,
+    maxLatitude: center.latitude + latDelta,
+    minLongitude: center.longitude - lngDelta,
+    maxLongitude: center.longitude + lngDelta,
+  };
+}
+
+export function polygonBounds(points: LatLng[]): BoundingBox {
+  const latitudes = points.map((p) => p.latitude);
+  const longitudes = points.map((p) => p.longitude);
+  return {
+    minLatitude: Math.min(...latitudes),
+    maxLatitude: Math.max(...latitudes),
+    minLongitude: Math.min(...longitudes),
+    maxLongitude: Math.max(...longitudes),
+  };
+}
+
+// Ray casting: a point is inside when a ray from it crosses the edges an odd
+// number of times. Points exactly on an edge may land either way.
+export function pointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// The closest point to `point` on the segment a-b, and how far away it is in metres
+export function nearestPointOnSegment(point: LatLng, a: LatLng, b: LatLng): { point: LatLng; distanceMeters: number } {
+  const start = toLocalMeters(point, a);
+  const end = toLocalMeters(point, b);
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  // The point itself is the local origin
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(start.x * dx + start.y * dy) / lengthSquared));
+  const x = start.x + t * dx;
+  const y = start.y + t * dy;
+  return {
+    point: {
+      latitude: point.latitude + y / METERS_PER_DEGREE_LATITUDE,
+      longitude: point.longitude + x / metersPerDegreeLongitude(point.latitude),
+    },
+    distanceMeters: Math.hypot(x, y),
+  };
+}
+
+// A polygon overlaps a circle when the centre is inside it, or any edge
+// comes within the radius (which covers a polygon wholly inside the circle)
+export function polygonIntersectsCircle(polygon: LatLng[], center: LatLng, radiusMeters: number): boolean {
+  if (pointInPolygon(center, polygon)) return true;
+  return polygon.some(
+    (a, i) => nearestPointOnSegment(center, a, polygon[(i + 1) % polygon.length]).distanceMeters <= radiusMeters
+  );
+}
+
+export function circlesIntersect(a: LatLng, radiusA: number, b: LatLng, radiusB: number): boolean {
+  return calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude) <= radiusA + radiusB;
+}
+
+// A uniformly random point in a bounding box
+export function randomPointInBounds(bounds: BoundingBox): LatLng {
+  return {
+    latitude: bounds.minLatitude + Math.random() * (bounds.maxLatitude - bounds.minLatitude),
+    longitude: bounds.minLongitude + Math.random() * (bounds.maxLongitude - bounds.minLongitude),
+  };
+}
+
+export function intersectBounds(a: BoundingBox, b: BoundingBox): BoundingBox | null {
+  const bounds = {
+    minLatitude: Math.max(a.minLatitude, b.minLatitude),
+    maxLatitude: Math.min(a.maxLatitude, b.maxLatitude),
+    minLongitude: Math.max(a.minLongitude, b.minLongitude),
+    maxLongitude: Math.min(a.maxLongitude, b.maxLongitude),
+  };
+  return bounds.minLatitude <= bounds.maxLatitude && bounds.minLongitude <= bounds.maxLongitude ? bounds : null;
+}
+
+// Rough area check for validation: the widest extent of a shape in metres
+export function boundsSpanMeters(bounds: BoundingBox): number {
+  return calculateDistance(bounds.minLatitude, bounds.minLongitude, bounds.maxLatitude, bounds.maxLongitude);
+}
@@ -0,0 +1,110 @@
+import { calculateDistance } from "./utils/distance";
+import { MAX_SPEED_MPS, type LocationFix } from "./antiCheat";
+
+// Fixes less accurate than this are too noisy to measure walking with
+const MAX_USABLE_ACCURACY_METERS = 50;
+// Accuracy assumed for fixes whose device didn't report one
+const DEFAULT_ACCURACY_METERS = 15;
+// How far a walker can plausibly drift per second, for the smoothing filter
+const WALKING_DRIFT_MPS = 1.5;
+// Movement smaller than this (or than the smoothed fix's uncertainty) is jitter
+const MIN_STEP_METERS = 5;
+// Below this speed between counted steps the player is standing still
+const MIN_ACTIVE_SPEED_MPS = 0.4;
+// Steps spread over longer than this (app backgrounded, signal lost) don't count as active time
+const MAX_ACTIVE_GAP_SECONDS = 120;
+// Pace isn't meaningful over very short walks
+const MIN_PACE_DISTANCE_METERS = 100;
+const AVERAGE_STRIDE_METERS = 0.75;
+
+export interface WalkStats {
+  distanceMeters: number;
+  activeSeconds: number;
+  paceSecondsPerKm: number | null;
+  estimatedSteps: number;
+}
+
+interface SmoothedFix {
+  latitude: number;
+  longitude: number;
+  variance: number; // in square metres
+  time: number;
+}
+
+// Work out how far and how long a player walked from a session's trail
+// (oldest first). GPS jitter is handled in three steps: inaccurate and
+// impossible fixes are dropped, the rest are smoothed with a simple Kalman
+// filter weighted by reported accuracy, and distance is only counted once
+// the smoothed position has moved further than its own uncertainty.
+export function computeWalkStats(trail: LocationFix[]): WalkStats {
+  const smoothed = smoothTrail(trail);
+
+  let distanceMeters = 0;
+  let activeSeconds = 0;
+  let anchor = smoothed[0];
+
+  smoothed.slice(1).forEach((current) => {
+    const fromAnchor = calculateDistance(anchor.latitude, anchor.longitude, current.latitude, current.longitude);
+    if (fromAnchor < Math.max(MIN_STEP_METERS, Math.sqrt(current.variance))) return;
+
+    // Time only counts as active if the step was taken at walking speed,
+    // so slowly drifting jitter while standing still doesn't add any
+    const seconds = (current.time - anchor.time) / 1000;
+    if (seconds > 0 && seconds <= MAX_ACTIVE_GAP_SECONDS && fromAnchor / seconds >= MIN_ACTIVE_SPEED_MPS) {
+      activeSeconds += seconds;
+    }
+    distanceMeters += fromAnchor;
+    anchor = current;
+  });
+
+  return {
+    distanceMeters: Math.round(distanceMeters),
+    activeSeconds: Math.round(activeSeconds),
+    paceSecondsPerKm:
+      distanceMeters >= MIN_PACE_DISTANCE_METERS && activeSeconds > 0
+        ? Math.round(activeSeconds / (distanceMeters / 1000))
+        : null,
+    estimatedSteps: Math.round(distanceMeters / AVERAGE_STRIDE_METERS),
+  };
+}
+
+function smoothTrail(trail: LocationFix[]): SmoothedFix[] {
+  const smoothed: SmoothedFix[] = [];
+  let lastRaw: LocationFix | undefined;
+
+  trail.forEach((fix) => {
+    const accuracy = fix.accuracy ?? DEFAULT_ACCURACY_METERS;
+    if (accuracy > MAX_USABLE_ACCURACY_METERS) return;
+
+    const time = fix.recordedAt.getTime();
+    // Skip fixes the anti-cheat checks would call impossible
+    if (lastRaw) {
+      const seconds = Math.max(1, (time - lastRaw.recordedAt.getTime()) / 1000);
+      const meters = calculateDistance(lastRaw.latitude, lastRaw.longitude, fix.latitude, fix.longitude);
+      if (meters / seconds > MAX_SPEED_MPS) return;
+    }
+    lastRaw = fix;
+
+    const measurementVariance = Math.max(accuracy, 1) ** 2;
+    const previous = smoothed[smoothed.length - 1];
+    if (!previous) {
+      smoothed.push({ latitude: fix.latitude, longitude: fix.longitude, variance: measurementVariance, time });
+      return;
+    }
+
+    // Uncertainty grows while the walker moves, then the new fix pulls the
+    // estimate towards it in proportion to how much more precise it is
+    const elapsedSeconds = Math.max(0, (time - previous.time) / 1000);
+    const predictedVariance = previous.variance + (elapsedSeconds * WALKING_DRIFT_MPS) ** 2;
+    const gain = predictedVariance / (predictedVariance + measurementVariance);
+
+    smoothed.push({
+      latitude: previous.latitude + gain * (fix.latitude - previous.latitude),
+      longitude: previous.longitude + gain * (fix.longitude - previous.longitude),
+      variance: (1 - gain) * predictedVariance,
+      time,
+    });
+  });
+
+  return smoothed;
+}
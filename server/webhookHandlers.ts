@@ -1,11 +1,27 @@
-import { getStripeSync, getUncachableStripeClient, getStripeWebhookSecret } from './stripeClient';
-import { storage } from './storage';
+import { createHash } from 'crypto';
+import type Stripe from 'stripe';
+import {
+  getStripeSync,
+  getUncachableStripeClient,
+  getStripeWebhookSecret,
+  allowUnsignedWebhooks,
+} from './stripeClient';
+import { storage, type CheckoutReference } from './storage';
 
-// Track processed event IDs for idempotency (in-memory, could be persisted to DB)
-const processedEvents = new Set<string>();
+// Thrown when a webhook can't be verified; the route answers 400
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
 
 export class WebhookHandlers {
-  static async processWebhook(payload: Buffer, signature: string): Promise<void> {
+  static async processWebhook(
+    payload: Buffer,
+    signature: string | undefined,
+    remoteIp?: string
+  ): Promise<void> {
     if (!Buffer.isBuffer(payload)) {
       throw new Error(
         'STRIPE WEBHOOK ERROR: Payload must be a Buffer. ' +
@@ -15,77 +31,103 @@ export class WebhookHandlers {
       );
     }
 
-    const sync = await getStripeSync();
-    await sync.processWebhook(payload, signature);
+    const { event, verified } = await WebhookHandlers.verifyEvent(payload, signature, remoteIp);
+
+    // stripe-replit-sync checks the signature itself, so only hand it verified payloads
+    if (verified) {
+      const sync = await getStripeSync();
+      await sync.processWebhook(payload, signature);
+    }
     
-    // Verify and process checkout.session.completed for coin purchases
-    try {
-      const stripe = await getUncachableStripeClient();
-      let event;
-      
+    // Delayed-notification payments (Bacs, SEPA) complete unpaid and settle
+    // later with async_payment_succeeded, or fail with async_payment_failed
+    if (event.type === 'checkout.session.completed' || event.type === 'checkout.session.async_payment_succeeded') {
+      await WebhookHandlers.handleCheckoutPaid(event.data.object, event.id, event.type);
+    } else if (event.type === 'checkout.session.expired' || event.type === 'checkout.session.async_payment_failed') {
+      await storage.expirePurchaseOrder(checkoutReference(event.data.object), { type: 'webhook', id: event.id });
+    }
+  }
+  
+  // Verify the Stripe signature. Failures are written to the webhook audit log
+  // and rejected, unless unsigned webhooks are explicitly allowed in development.
+  static async verifyEvent(
+    payload: Buffer,
+    signature: string | undefined,
+    remoteIp?: string
+  ): Promise<{ event: Stripe.Event; verified: boolean }> {
+    let reason: string;
+    
+    const webhookSecret = await getStripeWebhookSecret();
+    if (!signature) {
+      reason = 'Missing stripe-signature header';
+    } else if (!webhookSecret) {
+      reason = 'Webhook signing secret is not configured';
+    } else {
       try {
-        // Try to get webhook secret for signature verification
-        const webhookSecret = await getStripeWebhookSecret();
-        if (webhookSecret) {
-          event = stripe.webhooks.constructEvent(payload, signature, webhookSecret);
-        } else {
-          // Fallback to parsing without verification (development only)
-          console.warn('Webhook secret not available, parsing without verification');
-          event = JSON.parse(payload.toString('utf8'));
-        }
-      } catch (verifyError) {
-        console.warn('Webhook verification failed, falling back to basic parsing:', verifyError);
-        event = JSON.parse(payload.toString('utf8'));
-      }
-      
-      // Idempotency check - skip if already processed
-      if (processedEvents.has(event.id)) {
-        console.log(`Webhook event ${event.id} already processed, skipping`);
-        return;
+        const stripe = await getUncachableStripeClient();
+        const event = stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+        return { event, verified: true };
+      } catch (verifyError: any) {
+        reason = `Signature verification failed: ${verifyError.message}`;
       }
-      
-      if (event.type === 'checkout.session.completed') {
-        await WebhookHandlers.handleCheckoutCompleted(event.data.object, event.id);
-      }
-      
-      // Mark as processed (keep only last 1000 events to prevent memory bloat)
-      processedEvents.add(event.id);
-      if (processedEvents.size > 1000) {
-        const firstId = processedEvents.values().next().value;
-        processedEvents.delete(firstId);
-      }
-    } catch (error) {
-      console.error('Error processing checkout webhook:', error);
     }
+    
+    const bypassed = allowUnsignedWebhooks();
+    await storage.addWebhookAuditLog({
+      provider: 'stripe',
+      reason,
+      signaturePresent: !!signature,
+      payloadSha256: createHash('sha256').update(payload).digest('hex'),
+      remoteIp: remoteIp ?? null,
+      bypassed,
+    });
+    
+    if (!bypassed) {
+      throw new WebhookSignatureError(reason);
+    }
+    
+    console.warn(`Accepting unverified webhook (STRIPE_WEBHOOK_ALLOW_UNSIGNED): ${reason}`);
+    return { event: JSON.parse(payload.toString('utf8')), verified: false };
   }
   
-  static async handleCheckoutCompleted(session: any, eventId: string): Promise<void> {
-    const metadata = session.metadata;
-    if (!metadata?.sponsorId || !metadata?.coinValue || !metadata?.quantity) {
-      console.log('Checkout session missing required metadata for coin purchase');
+  static async handleCheckoutPaid(session: Stripe.Checkout.Session, eventId: string, eventType: string): Promise<void> {
+    if (session.payment_status !== 'paid') {
+      console.log(`Checkout session ${session.id} not paid yet (${session.payment_status}), awaiting async payment`);
       return;
     }
     
-    const sponsorId = metadata.sponsorId;
-    const coinValue = parseInt(metadata.coinValue);
-    const quantity = parseInt(metadata.quantity);
+    const paymentIntentId = typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id ?? null;
     
-    console.log(`Processing coin purchase (event ${eventId}): ${quantity}x £${(coinValue / 100).toFixed(2)} for sponsor ${sponsorId}`);
+    // Idempotency is persisted: the event id and the inventory credit are
+    // committed together, so replays are skipped across restarts and instances
+    const result = await storage.fulfillPurchaseOrder(
+      eventId,
+      eventType,
+      checkoutReference(session),
+      paymentIntentId,
+      { type: 'webhook', id: eventId }
+    );
     
-    try {
-      // Add coins to inventory
-      await storage.addToInventory(sponsorId, coinValue, quantity);
-      
-      // Update sponsor purchased count
-      const sponsorProfile = await storage.getSponsorProfileById(sponsorId);
-      if (sponsorProfile) {
-        await storage.updateSponsorPurchasedCount(sponsorProfile.userId, quantity);
-      }
-      
-      console.log(`Added ${quantity} coins to sponsor ${sponsorId} inventory`);
-    } catch (error) {
-      console.error(`Failed to process coin purchase for sponsor ${sponsorId}:`, error);
-      throw error;
+    switch (result) {
+      case 'fulfilled':
+        console.log(`Fulfilled purchase order for checkout session ${session.id} (event ${eventId})`);
+        break;
+      case 'duplicate_event':
+        console.log(`Webhook event ${eventId} already processed, skipping`);
+        break;
+      case 'already_processed':
+        console.log(`Purchase order for checkout session ${session.id} already fulfilled, skipping`);
+        break;
+      case 'not_found':
+        // Not recorded as processed: failing makes Stripe retry the event
+        throw new Error(`No purchase order found for checkout session ${session.id}`);
     }
   }
 }
+
+// Checkout Sessions carry their order's id as client_reference_id
+function checkoutReference(session: Stripe.Checkout.Session): CheckoutReference {
+  return { checkoutSessionId: session.id, orderId: session.client_reference_id ?? null };
+}
@@ -0,0 +1,34 @@
+// Limits on what sponsors can show on their hearts. Shared so the branding
+// form can check an upload before sending it.
+export const MAX_BRAND_MESSAGE_LENGTH = 80;
+export const MAX_LOGO_BYTES = 256 * 1024;
+// SVG is deliberately left out: it can carry scripts
+export const LOGO_CONTENT_TYPES = ["image/png", "image/jpeg", "image/webp"];
+export const BRAND_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export interface BrandingFields {
+  logoUrl: string | null;
+  brandMessage: string | null;
+  brandColor: string | null;
+}
+
+// Who paid for a heart, as players see it
+export interface SponsorBranding {
+  name: string;
+  logoUrl: string | null;
+  message: string | null;
+  color: string | null;
+}
+
+// A campaign's branding takes precedence over the sponsor's, field by field
+export function resolveBranding(
+  sponsor: { companyName: string | null } & BrandingFields,
+  campaign?: BrandingFields | null
+): SponsorBranding {
+  return {
+    name: sponsor.companyName || "A Give Go sponsor",
+    logoUrl: campaign?.logoUrl ?? sponsor.logoUrl,
+    message: campaign?.brandMessage ?? sponsor.brandMessage,
+    color: campaign?.brandColor ?? sponsor.brandColor,
+  };
+}
@@ -0,0 +1,32 @@
+import type { GameConfig } from "./gameConfig";
+
+// Phone GPS rarely claims better than a few metres; spoofing tools often
+// report 0-1m. Fixes more precise than this get no tolerance and are flagged.
+export const SUSPICIOUS_ACCURACY_METERS = 2;
+
+export interface CollectionReach {
+  radiusMeters: number;
+  suspiciousAccuracy: boolean;
+}
+
+export function isSuspiciousAccuracy(accuracy: number | null | undefined): boolean {
+  return accuracy != null && accuracy < SUSPICIOUS_ACCURACY_METERS;
+}
+
+// How close a fix must be to a heart to collect it. The configured radius
+// grows to match the fix's reported accuracy, so a player standing on a heart
+// with a 30m urban fix can still collect it, but never beyond the cap. Fixes
+// with no accuracy, or suspiciously perfect accuracy, get the plain radius.
+// Shared so the client's "too far" check matches what the server enforces.
+export function collectionReach(
+  config: Pick<GameConfig, "collectionRadiusMeters" | "maxCollectionRadiusMeters">,
+  accuracy: number | null | undefined
+): CollectionReach {
+  const base = config.collectionRadiusMeters;
+  if (accuracy == null || !Number.isFinite(accuracy) || isSuspiciousAccuracy(accuracy)) {
+    return { radiusMeters: base, suspiciousAccuracy: isSuspiciousAccuracy(accuracy) };
+  }
+
+  const cap = Math.max(base, config.maxCollectionRadiusMeters);
+  return { radiusMeters: Math.min(cap, Math.max(base, Math.round(accuracy))), suspiciousAccuracy: false };
+}
@@ -0,0 +1,71 @@
+import type { GameConfigRow } from "./schema";
+
+// The rules a session plays by. Shared so the client shows the same radius
+// the server enforces.
+export interface GameConfig {
+  collectionRadiusMeters: number;
+  // The radius grows with a fix's reported accuracy up to this
+  maxCollectionRadiusMeters: number;
+  coinTtlMinutes: number;
+  // Coins are placed in a ring this far from the player at session start
+  placementMinMeters: number;
+  placementMaxMeters: number;
+  // Each session draws a random number of coins in this range
+  minCoinsPerSession: number;
+  maxCoinsPerSession: number;
+}
+
+export type GameConfigKey = keyof GameConfig;
+
+export const GAME_CONFIG_KEYS: GameConfigKey[] = [
+  "collectionRadiusMeters",
+  "maxCollectionRadiusMeters",
+  "coinTtlMinutes",
+  "placementMinMeters",
+  "placementMaxMeters",
+  "minCoinsPerSession",
+  "maxCoinsPerSession",
+];
+
+// Used for anything no game_configs row sets
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  collectionRadiusMeters: 10,
+  maxCollectionRadiusMeters: 40,
+  coinTtlMinutes: 30,
+  placementMinMeters: 1000,
+  placementMaxMeters: 2000,
+  minCoinsPerSession: 1,
+  maxCoinsPerSession: 10,
+};
+
+// The values an override may take
+export const GAME_CONFIG_LIMITS: Record<GameConfigKey, { min: number; max: number; label: string }> = {
+  collectionRadiusMeters: { min: 5, max: 100, label: "Collection radius (m)" },
+  maxCollectionRadiusMeters: { min: 5, max: 150, label: "Radius cap with poor GPS (m)" },
+  coinTtlMinutes: { min: 5, max: 240, label: "Heart lifetime (minutes)" },
+  placementMinMeters: { min: 100, max: 5000, label: "Closest placement (m)" },
+  placementMaxMeters: { min: 200, max: 10000, label: "Furthest placement (m)" },
+  minCoinsPerSession: { min: 1, max: 50, label: "Fewest hearts per session" },
+  maxCoinsPerSession: { min: 1, max: 50, label: "Most hearts per session" },
+};
+
+export type GameConfigOverrides = Pick<GameConfigRow, GameConfigKey>;
+
+// Apply override rows over the defaults in order, least specific first.
+// Layers are validated on their own, so a combination that crosses over
+// (a region's minimum above the global maximum) is pulled back into order.
+export function resolveGameConfig(layers: (GameConfigOverrides | undefined)[]): GameConfig {
+  const config = { ...DEFAULT_GAME_CONFIG };
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of GAME_CONFIG_KEYS) {
+      const value = layer[key];
+      if (value != null) config[key] = value;
+    }
+  }
+
+  config.maxCollectionRadiusMeters = Math.max(config.maxCollectionRadiusMeters, config.collectionRadiusMeters);
+  config.placementMaxMeters = Math.max(config.placementMaxMeters, config.placementMinMeters);
+  config.maxCoinsPerSession = Math.max(config.maxCoinsPerSession, config.minCoinsPerSession);
+  return config;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, real, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, date, real, pgEnum, index, uniqueIndex, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,10 +7,58 @@ import { z } from "zod";
 export * from "./models/auth";
 
 // Enums
-export const userRoleEnum = pgEnum("user_role", ["player", "sponsor"]);
+export const userRoleEnum = pgEnum("user_role", ["player", "sponsor", "admin"]);
 export const coinStatusEnum = pgEnum("coin_status", ["available", "placed", "collected", "expired"]);
 export const sessionStatusEnum = pgEnum("session_status", ["active", "completed", "abandoned"]);
 export const escrowStatusEnum = pgEnum("escrow_status", ["held", "released", "refunded"]);
+export const purchaseOrderStatusEnum = pgEnum("purchase_order_status", ["pending", "paid", "expired"]);
+// A payout in review gave up retrying without knowing whether Stripe made the
+// transfer, so it waits for an admin rather than being rebatched
+export const payoutStatusEnum = pgEnum("payout_status", ["pending", "paid", "failed", "review"]);
+export const payoutMethodEnum = pgEnum("payout_method", ["stripe_transfer", "donation_ledger"]);
+export const refundStatusEnum = pgEnum("refund_status", ["pending", "succeeded", "failed"]);
+export const ledgerKindEnum = pgEnum("ledger_kind", [
+  "purchase",
+  "placement",
+  "collection",
+  "expiry_refund",
+  "payout",
+  "sponsor_refund",
+  "adjustment",
+  "opening_balance",
+]);
+export const ledgerAccountEnum = pgEnum("ledger_account", [
+  "payments_clearing", // money received from sponsors, less refunds and payouts
+  "sponsor_inventory", // purchased value not yet placed
+  "escrow_held", // value of coins currently placed in the world
+  "charity_payable", // collected value awaiting payout to the charity
+  "admin_adjustments", // manual inventory corrections made in the back office
+  "opening_balance", // balances carried over from before the ledger began
+]);
+export const ledgerDirectionEnum = pgEnum("ledger_direction", ["debit", "credit"]);
+export const auditActorTypeEnum = pgEnum("audit_actor_type", ["user", "admin", "system", "webhook"]);
+export const sessionPointSourceEnum = pgEnum("session_point_source", ["start", "collect", "track"]);
+export const cheatFlagKindEnum = pgEnum("cheat_flag_kind", [
+  "impossible_speed", // moved faster than a person can between two fixes
+  "zero_accuracy", // reported accuracy of exactly 0m, which real GPS never gives
+  "precise_accuracy", // reported accuracy under 2m, better than phone GPS manages
+  "repeated_coordinates", // several fixes with byte-identical coordinates
+  "instant_far_collection", // collected 1km+ from the start moments after starting
+]);
+export const cheatFlagStatusEnum = pgEnum("cheat_flag_status", ["open", "dismissed", "confirmed"]);
+export const friendshipStatusEnum = pgEnum("friendship_status", ["pending", "accepted"]);
+export const leaderboardPeriodEnum = pgEnum("leaderboard_period", ["week", "month", "all"]);
+export const zoneShapeEnum = pgEnum("zone_shape", ["circle", "polygon"]);
+export const gameConfigScopeEnum = pgEnum("game_config_scope", ["global", "region", "campaign"]);
+// What an achievement rule measures; the achievement is earned once the
+// measure reaches the rule's threshold
+export const achievementRuleEnum = pgEnum("achievement_rule", [
+  "coins_collected", // all-time hearts
+  "amount_raised", // all-time pence donated
+  "sessions_completed", // sessions with at least one heart
+  "session_distance", // metres walked in a single session
+  "streak_days", // consecutive local days with a heart
+]);
 
 // Player Profile - extends user with player-specific data
 export const playerProfiles = pgTable("player_profiles", {
@@ -19,6 +67,15 @@ export const playerProfiles = pgTable("player_profiles", {
   username: text("username").notNull().unique(),
   totalCoinsCollected: integer("total_coins_collected").default(0).notNull(),
   totalDonated: integer("total_donated").default(0).notNull(), // in pence
+  totalDistanceMeters: integer("total_distance_meters").default(0).notNull(),
+  timezone: text("timezone").default("Europe/London").notNull(), // IANA name, reported by the player's browser
+  // Consecutive local days with a collection, updated when the player collects
+  currentStreak: integer("current_streak").default(0).notNull(),
+  longestStreak: integer("longest_streak").default(0).notNull(),
+  lastStreakDate: date("last_streak_date", { mode: "string" }), // local date of the last collection
+  streakFreezes: integer("streak_freezes").default(0).notNull(), // earned freezes, each covering one missed day
+  suspendedAt: timestamp("suspended_at"),
+  suspensionReason: text("suspension_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -31,6 +88,10 @@ export const sponsorProfiles = pgTable("sponsor_profiles", {
   totalCoinsPlaced: integer("total_coins_placed").default(0).notNull(),
   totalDonated: integer("total_donated").default(0).notNull(), // in pence
   stripeCustomerId: text("stripe_customer_id"),
+  // Shown to players on the sponsor's hearts; a campaign can override each
+  logoUrl: text("logo_url"),
+  brandMessage: text("brand_message"),
+  brandColor: text("brand_color"), // #rrggbb
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -40,6 +101,13 @@ export const coinInventory = pgTable("coin_inventory", {
   sponsorId: varchar("sponsor_id").notNull(),
   coinValue: integer("coin_value").notNull(), // in pence (100 = £1)
   quantity: integer("quantity").default(0).notNull(),
+  // Set when the sponsor has reserved these coins for a challenge's members;
+  // general stock has no challenge
+  challengeId: varchar("challenge_id"),
+  // Set when these coins may only be placed inside a sponsor's zone
+  zoneId: varchar("zone_id"),
+  // Set when these coins are allocated to a campaign and only placed while it runs
+  campaignId: varchar("campaign_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -56,8 +124,62 @@ export const generatedCoins = pgTable("generated_coins", {
   expiresAt: timestamp("expires_at").notNull(),
   collectedAt: timestamp("collected_at"),
   collectedBy: varchar("collected_by"),
+  challengeId: varchar("challenge_id"), // drawn from stock reserved for this challenge
+  zoneId: varchar("zone_id"), // drawn from a placement zone's stock
+  campaignId: varchar("campaign_id"), // drawn from a campaign's allocation
 });
 
+// Areas a sponsor draws on the map (around a shop, a park) with inventory
+// attached. Coins from a zone's stock are only placed inside it. The
+// bounding box lets session start find nearby zones without loading them all.
+export const placementZones = pgTable(
+  "placement_zones",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sponsorId: varchar("sponsor_id").notNull(),
+    name: text("name").notNull(),
+    shape: zoneShapeEnum("shape").notNull(),
+    centerLatitude: real("center_latitude"), // circles
+    centerLongitude: real("center_longitude"),
+    radiusMeters: integer("radius_meters"),
+    points: jsonb("points").$type<[number, number][]>(), // polygons: [latitude, longitude] vertices
+    minLatitude: real("min_latitude").notNull(),
+    maxLatitude: real("max_latitude").notNull(),
+    minLongitude: real("min_longitude").notNull(),
+    maxLongitude: real("max_longitude").notNull(),
+    archivedAt: timestamp("archived_at"), // archived zones hold no stock and aren't drawn from
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_placement_zones_sponsor").on(table.sponsorId)]
+);
+
+// A sponsor's campaign: inventory allocated to it is only placed between its
+// dates, during its hours (local to its timezone), up to a daily spend, and
+// only for players who can reach one of its target zones (anywhere when it
+// has none). Spend is the value of its coins placed that day, less expiries.
+export const campaigns = pgTable(
+  "campaigns",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sponsorId: varchar("sponsor_id").notNull(),
+    name: text("name").notNull(),
+    startsAt: timestamp("starts_at").notNull(),
+    endsAt: timestamp("ends_at").notNull(),
+    dailySpendCap: integer("daily_spend_cap"), // in pence; null for no cap
+    startHour: integer("start_hour").default(0).notNull(), // local hour it starts placing, 0-23
+    endHour: integer("end_hour").default(24).notNull(), // local hour it stops, 1-24; before startHour runs overnight
+    timezone: text("timezone").default("Europe/London").notNull(),
+    targetZoneIds: jsonb("target_zone_ids").$type<string[]>().default([]).notNull(),
+    archivedAt: timestamp("archived_at"), // archived campaigns hold no stock and aren't drawn from
+    // Branding for this campaign's hearts; null fields fall back to the sponsor's
+    logoUrl: text("logo_url"),
+    brandMessage: text("brand_message"),
+    brandColor: text("brand_color"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_campaigns_sponsor").on(table.sponsorId)]
+);
+
 // Player game sessions (renamed to avoid conflict with auth sessions)
 export const playerSessions = pgTable("player_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -65,8 +187,14 @@ export const playerSessions = pgTable("player_sessions", {
   status: sessionStatusEnum("status").default("active").notNull(),
   startLatitude: real("start_latitude").notNull(),
   startLongitude: real("start_longitude").notNull(),
+  region: text("region"), // leaderboard region of the start location
   coinsCollected: integer("coins_collected").default(0).notNull(),
   totalValue: integer("total_value").default(0).notNull(), // in pence
+  // Walking stats from the location trail, filled in when the session ends
+  distanceMeters: integer("distance_meters").default(0).notNull(),
+  activeSeconds: integer("active_seconds").default(0).notNull(),
+  paceSecondsPerKm: integer("pace_seconds_per_km"), // null when too little was walked to judge
+  estimatedSteps: integer("estimated_steps").default(0).notNull(),
   startedAt: timestamp("started_at").defaultNow().notNull(),
   endedAt: timestamp("ended_at"),
 });
@@ -79,10 +207,53 @@ export const escrow = pgTable("escrow", {
   amount: integer("amount").notNull(), // in pence
   status: escrowStatusEnum("status").default("held").notNull(),
   stripePaymentIntentId: text("stripe_payment_intent_id"),
+  payoutId: varchar("payout_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   releasedAt: timestamp("released_at"),
 });
 
+// Server-side location trail for a player session
+export const playerSessionPoints = pgTable(
+  "player_session_points",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id").notNull(),
+    playerId: varchar("player_id").notNull(),
+    latitude: real("latitude").notNull(),
+    longitude: real("longitude").notNull(),
+    accuracy: real("accuracy"), // in metres, as reported by the device
+    source: sessionPointSourceEnum("source").notNull(),
+    // Fixes a check refused are kept for review, but never become the
+    // baseline later fixes are measured from
+    rejected: boolean("rejected").default(false).notNull(),
+    recordedAt: timestamp("recorded_at").notNull(),
+    receivedAt: timestamp("received_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_session_points_session").on(table.sessionId, table.recordedAt)]
+);
+
+// Suspicious movement found by the anti-cheat checks, awaiting admin review
+export const cheatFlags = pgTable(
+  "cheat_flags",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    playerId: varchar("player_id").notNull(),
+    sessionId: varchar("session_id").notNull(),
+    coinId: varchar("coin_id"),
+    kind: cheatFlagKindEnum("kind").notNull(),
+    details: jsonb("details"),
+    status: cheatFlagStatusEnum("status").default("open").notNull(),
+    reviewedBy: varchar("reviewed_by"),
+    reviewNote: text("review_note"),
+    reviewedAt: timestamp("reviewed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_cheat_flags_status").on(table.status),
+    index("IDX_cheat_flags_player").on(table.playerId),
+  ]
+);
+
 // Collection history for players
 export const collectionHistory = pgTable("collection_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -93,6 +264,287 @@ export const collectionHistory = pgTable("collection_history", {
   collectedAt: timestamp("collected_at").defaultNow().notNull(),
 });
 
+// Sponsor coin purchases, one per Stripe Checkout Session (or sandbox purchase)
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sponsorId: varchar("sponsor_id").notNull(),
+  checkoutSessionId: text("checkout_session_id").unique(),
+  coinValue: integer("coin_value").notNull(), // in pence
+  quantity: integer("quantity").notNull(),
+  amount: integer("amount").notNull(), // in pence
+  status: purchaseOrderStatusEnum("status").default("pending").notNull(),
+  refundedQuantity: integer("refunded_quantity").default(0).notNull(),
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  paidAt: timestamp("paid_at"),
+});
+
+// Sponsor refunds for purchased inventory that was never placed
+export const sponsorRefunds = pgTable("sponsor_refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sponsorId: varchar("sponsor_id").notNull(),
+  purchaseOrderId: varchar("purchase_order_id").notNull(),
+  coinValue: integer("coin_value").notNull(), // in pence
+  quantity: integer("quantity").notNull(),
+  amount: integer("amount").notNull(), // in pence
+  status: refundStatusEnum("status").default("pending").notNull(),
+  stripeRefundId: text("stripe_refund_id"),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Batches of released escrow paid out to the charity, one per payout period
+export const charityPayouts = pgTable("charity_payouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull().unique(),
+  amount: integer("amount").notNull(), // in pence
+  escrowCount: integer("escrow_count").notNull(),
+  method: payoutMethodEnum("method").notNull(),
+  status: payoutStatusEnum("status").default("pending").notNull(),
+  stripeTransferId: text("stripe_transfer_id"),
+  failureReason: text("failure_reason"),
+  // Transfers that failed with a transient error; the payout stays pending
+  // and is retried with the same idempotency key
+  attempts: integer("attempts").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  paidAt: timestamp("paid_at"),
+});
+
+// Double-entry donation ledger. Every money movement is one transaction of
+// balanced debit and credit entries sharing a transactionId.
+export const ledgerEntries = pgTable(
+  "ledger_entries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    transactionId: varchar("transaction_id").notNull(),
+    kind: ledgerKindEnum("kind").notNull(),
+    account: ledgerAccountEnum("account").notNull(),
+    direction: ledgerDirectionEnum("direction").notNull(),
+    amount: integer("amount").notNull(), // in pence, always positive
+    sponsorId: varchar("sponsor_id"),
+    playerId: varchar("player_id"),
+    sessionId: varchar("session_id"),
+    coinId: varchar("coin_id"),
+    purchaseOrderId: varchar("purchase_order_id"),
+    refundId: varchar("refund_id"),
+    payoutId: varchar("payout_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_ledger_transaction").on(table.transactionId),
+    index("IDX_ledger_account").on(table.account),
+  ]
+);
+
+// Friend requests and friendships between two players. pairKey is the two
+// player ids sorted and joined, so a pair can only ever have one row whoever
+// asked first.
+export const friendships = pgTable(
+  "friendships",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    pairKey: text("pair_key").notNull().unique(),
+    requesterId: varchar("requester_id").notNull(),
+    addresseeId: varchar("addressee_id").notNull(),
+    status: friendshipStatusEnum("status").default("pending").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    respondedAt: timestamp("responded_at"),
+  },
+  (table) => [
+    index("IDX_friendships_requester").on(table.requesterId),
+    index("IDX_friendships_addressee").on(table.addresseeId),
+  ]
+);
+
+// A player blocking another: no friend requests either way, and any
+// friendship between them is removed
+export const playerBlocks = pgTable(
+  "player_blocks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    blockerId: varchar("blocker_id").notNull(),
+    blockedId: varchar("blocked_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("IDX_player_blocks_pair").on(table.blockerId, table.blockedId)]
+);
+
+// Named groups of players (an office, a school) that share a running total
+export const playerGroups = pgTable("player_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  inviteCode: varchar("invite_code").notNull().unique(),
+  ownerId: varchar("owner_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const playerGroupMembers = pgTable(
+  "player_group_members",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    groupId: varchar("group_id").notNull(),
+    playerId: varchar("player_id").notNull(),
+    joinedAt: timestamp("joined_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("IDX_group_members_pair").on(table.groupId, table.playerId),
+    index("IDX_group_members_player").on(table.playerId),
+  ]
+);
+
+// Team fundraising challenges. Members' collections between joining and the
+// deadline (ends_at) count towards the target.
+export const challenges = pgTable("challenges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  targetAmount: integer("target_amount").notNull(), // in pence
+  endsAt: timestamp("ends_at").notNull(),
+  createdBy: varchar("created_by").notNull(), // player id
+  inviteCode: varchar("invite_code", { length: 16 }).notNull().unique(),
+  // Set once reserved inventory has gone back to sponsors after the deadline
+  reservationsReleasedAt: timestamp("reservations_released_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const challengeMembers = pgTable(
+  "challenge_members",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    challengeId: varchar("challenge_id").notNull(),
+    playerId: varchar("player_id").notNull(),
+    joinedAt: timestamp("joined_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("IDX_challenge_members_pair").on(table.challengeId, table.playerId),
+    index("IDX_challenge_members_player").on(table.playerId),
+  ]
+);
+
+// Tunable game rules. The global row overrides the built-in defaults in
+// shared/gameConfig.ts, a region row overrides that for sessions in the
+// region, and a campaign row overrides it for the campaign's coins. Empty
+// columns inherit from the layer below.
+export const gameConfigs = pgTable(
+  "game_configs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    scope: gameConfigScopeEnum("scope").notNull(),
+    scopeKey: varchar("scope_key").notNull().default(""), // region key or campaign id; empty for global
+    collectionRadiusMeters: integer("collection_radius_meters"),
+    maxCollectionRadiusMeters: integer("max_collection_radius_meters"),
+    coinTtlMinutes: integer("coin_ttl_minutes"),
+    placementMinMeters: integer("placement_min_meters"),
+    placementMaxMeters: integer("placement_max_meters"),
+    minCoinsPerSession: integer("min_coins_per_session"),
+    maxCoinsPerSession: integer("max_coins_per_session"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("IDX_game_configs_scope").on(table.scope, table.scopeKey)]
+);
+
+// Achievement catalogue. Defaults are inserted at startup when missing; rows
+// can be edited or added afterwards, since awarding only reads this table.
+export const achievements = pgTable("achievements", {
+  id: varchar("id").primaryKey(), // stable slug, e.g. "first_heart"
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  icon: varchar("icon", { length: 32 }).notNull(), // badge icon name, mapped to an icon by the client
+  rule: achievementRuleEnum("rule").notNull(),
+  threshold: integer("threshold").notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const playerAchievements = pgTable(
+  "player_achievements",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    playerId: varchar("player_id").notNull(),
+    achievementId: varchar("achievement_id").notNull(),
+    sessionId: varchar("session_id"), // the session it was earned in, if any
+    earnedAt: timestamp("earned_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("IDX_player_achievements_pair").on(table.playerId, table.achievementId)]
+);
+
+// Materialised leaderboards, rebuilt for the current week, month and all
+// time by the leaderboard job. Each player has one row per board: the global
+// board ("global") and every region they've started a session in.
+export const leaderboardEntries = pgTable(
+  "leaderboard_entries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    period: leaderboardPeriodEnum("period").notNull(),
+    periodStart: timestamp("period_start").notNull(), // UTC; the epoch for all-time
+    region: text("region").notNull(),
+    playerId: varchar("player_id").notNull(),
+    coins: integer("coins").notNull(),
+    donated: integer("donated").notNull(), // in pence
+    lastCollectedAt: timestamp("last_collected_at").notNull(),
+    coinsRank: integer("coins_rank").notNull(), // dense rank by coins within the board
+    donatedRank: integer("donated_rank").notNull(), // dense rank by donated within the board
+    refreshedAt: timestamp("refreshed_at").notNull(),
+  },
+  (table) => [
+    uniqueIndex("IDX_leaderboard_board_player").on(table.period, table.periodStart, table.region, table.playerId),
+    index("IDX_leaderboard_coins").on(table.period, table.periodStart, table.region, table.coinsRank),
+    index("IDX_leaderboard_donated").on(table.period, table.periodStart, table.region, table.donatedRank),
+  ]
+);
+
+// Stripe webhook events that have already been applied
+export const processedWebhookEvents = pgTable("processed_webhook_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: text("event_id").notNull().unique(),
+  eventType: text("event_type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow().notNull(),
+});
+
+// Rejected webhook deliveries (e.g. bad or missing signatures)
+export const webhookAuditLog = pgTable("webhook_audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(),
+  reason: text("reason").notNull(),
+  signaturePresent: boolean("signature_present").notNull(),
+  payloadSha256: text("payload_sha256").notNull(),
+  remoteIp: text("remote_ip"),
+  bypassed: boolean("bypassed").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Append-only audit trail: one row per change made by a storage method. The
+// sponsor/player/session/coin references let a whole trail be read back for
+// any of them.
+export const auditEvents = pgTable(
+  "audit_events",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    actorType: auditActorTypeEnum("actor_type").notNull(),
+    actorId: varchar("actor_id"),
+    action: text("action").notNull(),
+    entityType: text("entity_type").notNull(),
+    entityId: varchar("entity_id").notNull(),
+    before: jsonb("before"),
+    after: jsonb("after"),
+    reason: text("reason"),
+    sponsorId: varchar("sponsor_id"),
+    playerId: varchar("player_id"),
+    sessionId: varchar("session_id"),
+    coinId: varchar("coin_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_audit_entity").on(table.entityType, table.entityId),
+    index("IDX_audit_sponsor").on(table.sponsorId),
+    index("IDX_audit_session").on(table.sessionId),
+    index("IDX_audit_coin").on(table.coinId),
+  ]
+);
+
 // User role preferences
 export const userRoles = pgTable("user_roles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -100,6 +552,7 @@ export const userRoles = pgTable("user_roles", {
   currentRole: userRoleEnum("current_role").default("player").notNull(),
   hasPlayerProfile: boolean("has_player_profile").default(false).notNull(),
   hasSponsorProfile: boolean("has_sponsor_profile").default(false).notNull(),
+  isAdmin: boolean("is_admin").default(false).notNull(),
 });
 
 // Insert schemas
@@ -111,6 +564,8 @@ export const insertPlayerSessionSchema = createInsertSchema(playerSessions).omit
 export const insertEscrowSchema = createInsertSchema(escrow).omit({ id: true, createdAt: true });
 export const insertCollectionHistorySchema = createInsertSchema(collectionHistory).omit({ id: true, collectedAt: true });
 export const insertUserRoleSchema = createInsertSchema(userRoles).omit({ id: true });
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({ id: true, createdAt: true });
+export const insertWebhookAuditLogSchema = createInsertSchema(webhookAuditLog).omit({ id: true, createdAt: true });
 
 // Types
 export type PlayerProfile = typeof playerProfiles.$inferSelect;
@@ -129,3 +584,33 @@ export type CollectionHistory = typeof collectionHistory.$inferSelect;
 export type InsertCollectionHistory = z.infer<typeof insertCollectionHistorySchema>;
 export type UserRole = typeof userRoles.$inferSelect;
 export type InsertUserRole = z.infer<typeof insertUserRoleSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type ProcessedWebhookEvent = typeof processedWebhookEvents.$inferSelect;
+export type SponsorRefund = typeof sponsorRefunds.$inferSelect;
+export type CharityPayout = typeof charityPayouts.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = typeof ledgerEntries.$inferInsert;
+export type WebhookAuditLog = typeof webhookAuditLog.$inferSelect;
+export type InsertWebhookAuditLog = z.infer<typeof insertWebhookAuditLogSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type PlayerSessionPoint = typeof playerSessionPoints.$inferSelect;
+export type InsertPlayerSessionPoint = typeof playerSessionPoints.$inferInsert;
+export type CheatFlag = typeof cheatFlags.$inferSelect;
+export type InsertCheatFlag = typeof cheatFlags.$inferInsert;
+export type LeaderboardEntry = typeof leaderboardEntries.$inferSelect;
+export type Friendship = typeof friendships.$inferSelect;
+export type PlayerBlock = typeof playerBlocks.$inferSelect;
+export type PlayerGroup = typeof playerGroups.$inferSelect;
+export type PlayerGroupMember = typeof playerGroupMembers.$inferSelect;
+export type Challenge = typeof challenges.$inferSelect;
+export type ChallengeMember = typeof challengeMembers.$inferSelect;
+export type Achievement = typeof achievements.$inferSelect;
+export type InsertAchievement = typeof achievements.$inferInsert;
+export type AchievementRule = Achievement["rule"];
+export type PlayerAchievement = typeof playerAchievements.$inferSelect;
+export type PlacementZone = typeof placementZones.$inferSelect;
+export type Campaign = typeof campaigns.$inferSelect;
+export type GameConfigRow = typeof gameConfigs.$inferSelect;
+export type GameConfigScope = GameConfigRow["scope"];
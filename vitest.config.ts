@@ -0,0 +1,22 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Tests that need Postgres run against TEST_DATABASE_URL, whose tables are
+// rebuilt from the schema. They're skipped when it isn't set, except in CI,
+// where a missing database fails the run.
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    globalSetup: ["server/test/setupDatabase.ts"],
+    env: testDatabaseUrl ? { DATABASE_URL: testDatabaseUrl } : {},
+  },
+});